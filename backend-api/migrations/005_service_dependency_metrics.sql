@@ -0,0 +1,32 @@
+-- Migration 005: Per-edge call metrics
+-- Stores call count, error count and latency percentiles for each service dependency per time bucket
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS service_dependency_metrics (
+    id BIGSERIAL PRIMARY KEY,
+    from_service_namespace VARCHAR(255) NOT NULL,
+    from_service_name VARCHAR(255) NOT NULL,
+    to_service_namespace VARCHAR(255) NOT NULL,
+    to_service_name VARCHAR(255) NOT NULL,
+    bucket_start TIMESTAMP NOT NULL,
+    call_count BIGINT NOT NULL DEFAULT 0,
+    error_count BIGINT NOT NULL DEFAULT 0,
+    latency_p50_ms DOUBLE PRECISION NULL,
+    latency_p95_ms DOUBLE PRECISION NULL,
+    latency_p99_ms DOUBLE PRECISION NULL,
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    CONSTRAINT service_dependency_metrics_edge_bucket_key UNIQUE (
+        from_service_namespace, from_service_name, to_service_namespace, to_service_name, bucket_start
+    )
+);
+
+-- Window queries for /graph and retention cleanup
+CREATE INDEX IF NOT EXISTS idx_service_dependency_metrics_bucket
+    ON service_dependency_metrics(bucket_start);
+
+COMMENT ON TABLE service_dependency_metrics IS 'Per-edge call metrics aggregated into fixed time buckets';
+COMMENT ON COLUMN service_dependency_metrics.bucket_start IS 'Start of the aggregation bucket (TELEMETRY_METRICS_BUCKET_MINUTES wide)';
+COMMENT ON COLUMN service_dependency_metrics.latency_p50_ms IS 'Call-weighted average of reported p50 latencies within the bucket';
+
+COMMIT;
@@ -0,0 +1,30 @@
+-- Migration 006: Dependency change log
+-- Records when service dependency edges are added, disappear, or return
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS dependency_changes (
+    id BIGSERIAL PRIMARY KEY,
+    from_service_namespace VARCHAR(255) NOT NULL,
+    from_service_name VARCHAR(255) NOT NULL,
+    to_service_namespace VARCHAR(255) NOT NULL,
+    to_service_name VARCHAR(255) NOT NULL,
+    change_type VARCHAR(20) NOT NULL CHECK (change_type IN ('added', 'disappeared', 'returned')),
+    source VARCHAR(50) NOT NULL,
+    reason TEXT NULL,
+    changed_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Per-service lookups in either direction, plus the global feed
+CREATE INDEX IF NOT EXISTS idx_dependency_changes_from
+    ON dependency_changes(from_service_namespace, from_service_name, changed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_dependency_changes_to
+    ON dependency_changes(to_service_namespace, to_service_name, changed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_dependency_changes_changed_at
+    ON dependency_changes(changed_at DESC);
+
+COMMENT ON TABLE dependency_changes IS 'History of service dependency edges being added, disappearing and returning';
+COMMENT ON COLUMN dependency_changes.source IS 'Writer of the change: telemetry, otlp or cleanup';
+COMMENT ON COLUMN dependency_changes.reason IS 'Why an edge disappeared (replaced, ttl_expired, service_removed, orphaned)';
+
+COMMIT;
@@ -0,0 +1,49 @@
+-- Migration 007: Graph snapshots
+-- Periodic copies of services, service dependencies and namespace dependencies for topology diffs
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS graph_snapshots (
+    id BIGSERIAL PRIMARY KEY,
+    taken_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    trigger VARCHAR(20) NOT NULL DEFAULT 'scheduled' CHECK (trigger IN ('scheduled', 'manual')),
+    service_count INTEGER NOT NULL DEFAULT 0,
+    dependency_count INTEGER NOT NULL DEFAULT 0,
+    namespace_dependency_count INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE TABLE IF NOT EXISTS graph_snapshot_services (
+    snapshot_id BIGINT NOT NULL REFERENCES graph_snapshots(id) ON DELETE CASCADE,
+    service_namespace VARCHAR(255) NOT NULL,
+    service_name VARCHAR(255) NOT NULL,
+    environment VARCHAR(255) NULL,
+    team VARCHAR(255) NULL,
+    component_type VARCHAR(255) NULL,
+    PRIMARY KEY (snapshot_id, service_namespace, service_name)
+);
+
+CREATE TABLE IF NOT EXISTS graph_snapshot_dependencies (
+    snapshot_id BIGINT NOT NULL REFERENCES graph_snapshots(id) ON DELETE CASCADE,
+    from_service_namespace VARCHAR(255) NOT NULL,
+    from_service_name VARCHAR(255) NOT NULL,
+    to_service_namespace VARCHAR(255) NOT NULL,
+    to_service_name VARCHAR(255) NOT NULL,
+    PRIMARY KEY (snapshot_id, from_service_namespace, from_service_name, to_service_namespace, to_service_name)
+);
+
+CREATE TABLE IF NOT EXISTS graph_snapshot_namespace_dependencies (
+    snapshot_id BIGINT NOT NULL REFERENCES graph_snapshots(id) ON DELETE CASCADE,
+    from_namespace VARCHAR(255) NOT NULL,
+    to_namespace VARCHAR(255) NOT NULL,
+    dependency_type VARCHAR(50) NULL,
+    PRIMARY KEY (snapshot_id, from_namespace, to_namespace)
+);
+
+-- Resolving "the snapshot at or before time T" and retention pruning
+CREATE INDEX IF NOT EXISTS idx_graph_snapshots_taken_at
+    ON graph_snapshots(taken_at DESC);
+
+COMMENT ON TABLE graph_snapshots IS 'Point-in-time copies of the service graph used by GET /graph/diff';
+COMMENT ON COLUMN graph_snapshots.trigger IS 'scheduled (GraphSnapshotter interval) or manual (POST /graph/snapshots)';
+
+COMMIT;
@@ -0,0 +1,39 @@
+-- Migration 008: Alert grouping policies
+-- Configurable rules that decide which alerts share an incident, replacing the fixed
+-- namespace+service+instance+severity+message fingerprint for the alerts they match
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS alert_grouping_policies (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(255) NOT NULL UNIQUE,
+    description TEXT NULL,
+    enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    priority INTEGER NOT NULL DEFAULT 100,
+    match_namespace VARCHAR(255) NULL,
+    match_service VARCHAR(255) NULL,
+    match_severity VARCHAR(20) NULL CHECK (match_severity IN ('fatal', 'critical', 'warning', 'none')),
+    match_labels JSONB NOT NULL DEFAULT '{}'::jsonb,
+    group_by TEXT[] NOT NULL,
+    created_by VARCHAR(255) NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    CONSTRAINT alert_grouping_policies_group_by_not_empty CHECK (cardinality(group_by) > 0)
+);
+
+-- processIncident loads the enabled policies in priority order for every alert
+CREATE INDEX IF NOT EXISTS idx_alert_grouping_policies_enabled_priority
+    ON alert_grouping_policies(priority, id) WHERE enabled = TRUE;
+
+-- Which policy (if any) produced an incident's fingerprint
+ALTER TABLE alert_incidents
+    ADD COLUMN IF NOT EXISTS grouping_policy_id INTEGER NULL
+    REFERENCES alert_grouping_policies(id) ON DELETE SET NULL;
+
+COMMENT ON TABLE alert_grouping_policies IS 'Rules that group matching alerts into one incident by a chosen set of fields';
+COMMENT ON COLUMN alert_grouping_policies.priority IS 'Lower runs first; the first enabled policy whose match criteria fit the alert is applied';
+COMMENT ON COLUMN alert_grouping_policies.match_labels IS 'Label name -> value pairs that must all be present on the alert for the policy to apply';
+COMMENT ON COLUMN alert_grouping_policies.group_by IS 'Fields hashed into the fingerprint: namespace, service, instance, severity, message, alertname or label:<name>';
+COMMENT ON COLUMN alert_incidents.grouping_policy_id IS 'Grouping policy applied when the incident was created; NULL for the default fingerprint';
+
+COMMIT;
@@ -0,0 +1,25 @@
+-- Migration 009: Alert incident metadata
+-- Keep what the sender told us about an alert: Alertmanager's fingerprint, the full label and
+-- annotation sets, and links back to the source query and runbook
+
+BEGIN;
+
+ALTER TABLE alert_incidents
+    ADD COLUMN IF NOT EXISTS upstream_fingerprint VARCHAR(64) NULL,
+    ADD COLUMN IF NOT EXISTS labels JSONB NOT NULL DEFAULT '{}'::jsonb,
+    ADD COLUMN IF NOT EXISTS annotations JSONB NOT NULL DEFAULT '{}'::jsonb,
+    ADD COLUMN IF NOT EXISTS generator_url TEXT NULL,
+    ADD COLUMN IF NOT EXISTS runbook_url TEXT NULL;
+
+-- Firing/resolved updates from Alertmanager are matched to the open incident by upstream fingerprint
+CREATE INDEX IF NOT EXISTS idx_alert_incidents_upstream_fingerprint_firing
+    ON alert_incidents(upstream_fingerprint)
+    WHERE status = 'firing' AND upstream_fingerprint IS NOT NULL;
+
+COMMENT ON COLUMN alert_incidents.upstream_fingerprint IS 'Fingerprint assigned by the sender (Alertmanager label-set hash); NULL for manual alerts';
+COMMENT ON COLUMN alert_incidents.labels IS 'Full label set of the alert that opened the incident';
+COMMENT ON COLUMN alert_incidents.annotations IS 'Full annotation set of the alert that opened the incident';
+COMMENT ON COLUMN alert_incidents.generator_url IS 'Link to the query/rule that produced the alert (Alertmanager generatorURL)';
+COMMENT ON COLUMN alert_incidents.runbook_url IS 'runbook_url (or runbook) annotation, if present';
+
+COMMIT;
@@ -0,0 +1,41 @@
+-- Migration 010: Alert silences
+-- Time-boxed matchers that mute expected alerts (deploys, maintenance). Silenced incidents are
+-- still recorded, but hidden from /alerts and the map while the silence is active
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS alert_silences (
+    id SERIAL PRIMARY KEY,
+    match_namespace VARCHAR(255) NULL,
+    match_service VARCHAR(255) NULL,
+    match_severity VARCHAR(20) NULL CHECK (match_severity IN ('fatal', 'critical', 'warning', 'none')),
+    match_tags TEXT[] NOT NULL DEFAULT '{}',
+    message_pattern TEXT NULL,
+    starts_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    ends_at TIMESTAMP NOT NULL,
+    comment TEXT NULL,
+    created_by VARCHAR(255) NOT NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    CONSTRAINT alert_silences_ends_after_starts CHECK (ends_at > starts_at)
+);
+
+-- Loading the silences that are active or still to come
+CREATE INDEX IF NOT EXISTS idx_alert_silences_ends_at
+    ON alert_silences(ends_at DESC);
+
+-- The silence that matched the incident; it only mutes the incident while that silence is active
+ALTER TABLE alert_incidents
+    ADD COLUMN IF NOT EXISTS silence_id INTEGER NULL
+    REFERENCES alert_silences(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_alert_incidents_silence_id
+    ON alert_incidents(silence_id)
+    WHERE silence_id IS NOT NULL;
+
+COMMENT ON TABLE alert_silences IS 'Matchers that mute alerts between starts_at and ends_at';
+COMMENT ON COLUMN alert_silences.match_tags IS 'The alerting service must carry all of these tags';
+COMMENT ON COLUMN alert_silences.message_pattern IS 'Case-insensitive regular expression tested against the alert message';
+COMMENT ON COLUMN alert_incidents.silence_id IS 'Silence matching the incident; muted while that silence is active';
+
+COMMIT;
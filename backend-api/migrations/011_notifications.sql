@@ -0,0 +1,68 @@
+-- Migration 011: Outbound notifications
+-- Channels (webhook, Slack-compatible webhook, email), routing rules that pick which incident
+-- events go to which channel, and a delivery log that doubles as the retry queue
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS notification_channels (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(255) NOT NULL UNIQUE,
+    channel_type VARCHAR(20) NOT NULL CHECK (channel_type IN ('webhook', 'slack', 'email')),
+    config JSONB NOT NULL DEFAULT '{}',
+    enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS notification_rules (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(255) NOT NULL UNIQUE,
+    channel_id INTEGER NOT NULL REFERENCES notification_channels(id) ON DELETE CASCADE,
+    match_namespaces TEXT[] NOT NULL DEFAULT '{}',
+    match_teams TEXT[] NOT NULL DEFAULT '{}',
+    match_severities TEXT[] NOT NULL DEFAULT '{}',
+    events TEXT[] NOT NULL DEFAULT '{incident_created,incident_resolved,incident_acknowledged}',
+    enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_rules_channel_id
+    ON notification_rules(channel_id);
+
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+    id BIGSERIAL PRIMARY KEY,
+    channel_id INTEGER NOT NULL REFERENCES notification_channels(id) ON DELETE CASCADE,
+    rule_id INTEGER NULL REFERENCES notification_rules(id) ON DELETE SET NULL,
+    incident_id INTEGER NULL REFERENCES alert_incidents(id) ON DELETE SET NULL,
+    event_type VARCHAR(50) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT NULL,
+    response_status INTEGER NULL,
+    payload JSONB NOT NULL,
+    next_attempt_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    sent_at TIMESTAMP NULL
+);
+
+-- The dispatcher's queue scan
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_due
+    ON notification_deliveries(next_attempt_at)
+    WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_created_at
+    ON notification_deliveries(created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_incident_id
+    ON notification_deliveries(incident_id)
+    WHERE incident_id IS NOT NULL;
+
+COMMENT ON TABLE notification_channels IS 'Destinations for incident notifications';
+COMMENT ON COLUMN notification_channels.config IS 'webhook: {url, headers}; slack: {url}; email: {to, from}';
+COMMENT ON TABLE notification_rules IS 'Route incident events to a channel; empty match arrays match everything';
+COMMENT ON COLUMN notification_rules.events IS 'incident_created, incident_resolved and/or incident_acknowledged';
+COMMENT ON TABLE notification_deliveries IS 'One row per notification sent (or to send) to a channel, with retry state';
+COMMENT ON COLUMN notification_deliveries.payload IS 'Channel-independent event payload, formatted per channel at send time';
+
+COMMIT;
@@ -0,0 +1,49 @@
+-- Migration 012: Escalation policies
+-- Per-team escalation levels for incidents nobody acknowledges. The escalation scheduler raises
+-- an incident's level as each delay passes, records an 'escalated' event and notifies the level's channels
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS escalation_policies (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(255) NOT NULL UNIQUE,
+    team VARCHAR(255) NULL,
+    description TEXT NULL,
+    match_severities TEXT[] NOT NULL DEFAULT '{}',
+    levels JSONB NOT NULL DEFAULT '[]',
+    enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- One policy per team, and a single default policy (team NULL) for teams without one
+CREATE UNIQUE INDEX IF NOT EXISTS idx_escalation_policies_team
+    ON escalation_policies((COALESCE(team, '')));
+
+ALTER TABLE alert_incidents
+    ADD COLUMN IF NOT EXISTS escalation_level INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS escalated_at TIMESTAMP NULL,
+    ADD COLUMN IF NOT EXISTS escalation_policy_id INTEGER NULL
+        REFERENCES escalation_policies(id) ON DELETE SET NULL;
+
+-- The scheduler's scan of firing, unacknowledged incidents
+CREATE INDEX IF NOT EXISTS idx_alert_incidents_unacknowledged_firing
+    ON alert_incidents(incident_start)
+    WHERE status = 'firing' AND acknowledged_at IS NULL;
+
+ALTER TABLE alert_events DROP CONSTRAINT IF EXISTS alert_events_event_type_check;
+
+ALTER TABLE alert_events ADD CONSTRAINT alert_events_event_type_check
+  CHECK (event_type IN ('fired', 'resolved', 'updated', 'acknowledged', 'escalated'));
+
+-- Rules created before escalation existed keep their events; new rules can opt in
+ALTER TABLE notification_rules
+    ALTER COLUMN events SET DEFAULT '{incident_created,incident_resolved,incident_acknowledged,incident_escalated}';
+
+COMMENT ON TABLE escalation_policies IS 'Escalation levels for unacknowledged incidents, per team (team NULL is the default policy)';
+COMMENT ON COLUMN escalation_policies.levels IS 'Ordered [{delay_minutes, channel_ids, note}]; delay is measured from incident start';
+COMMENT ON COLUMN escalation_policies.match_severities IS 'Severities the policy escalates; empty escalates every severity';
+COMMENT ON COLUMN alert_incidents.escalation_level IS 'Highest escalation level reached (0 = not escalated)';
+COMMENT ON COLUMN alert_incidents.escalation_policy_id IS 'Policy that escalated the incident';
+
+COMMIT;
@@ -0,0 +1,64 @@
+-- Migration 013: Authentication
+-- Users (local passwords now, external providers such as OIDC later) and the hashed tokens they
+-- sign in with, plus columns recording who resolved incidents, edited tags and changed
+-- namespace dependencies
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS users (
+    id SERIAL PRIMARY KEY,
+    username VARCHAR(255) NOT NULL UNIQUE,
+    display_name VARCHAR(255) NULL,
+    email VARCHAR(255) NULL,
+    auth_provider VARCHAR(50) NOT NULL DEFAULT 'local',
+    external_id VARCHAR(255) NULL,
+    password_hash TEXT NULL,
+    disabled BOOLEAN NOT NULL DEFAULT FALSE,
+    last_login_at TIMESTAMP NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- An external identity maps to exactly one user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_users_provider_external_id
+    ON users(auth_provider, external_id)
+    WHERE external_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS auth_tokens (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    kind VARCHAR(20) NOT NULL CHECK (kind IN ('session', 'api')),
+    name VARCHAR(255) NULL,
+    token_hash CHAR(64) NOT NULL UNIQUE,
+    token_prefix VARCHAR(20) NOT NULL,
+    expires_at TIMESTAMP NULL,
+    last_used_at TIMESTAMP NULL,
+    revoked_at TIMESTAMP NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_auth_tokens_user ON auth_tokens(user_id, kind);
+
+ALTER TABLE alert_incidents
+    ADD COLUMN IF NOT EXISTS resolved_by VARCHAR(255) NULL;
+
+ALTER TABLE services
+    ADD COLUMN IF NOT EXISTS tags_updated_by VARCHAR(255) NULL,
+    ADD COLUMN IF NOT EXISTS tags_updated_at TIMESTAMP NULL;
+
+ALTER TABLE namespace_dependencies
+    ADD COLUMN IF NOT EXISTS updated_by VARCHAR(255) NULL;
+
+COMMENT ON TABLE users IS 'People who sign in to Olana';
+COMMENT ON COLUMN users.auth_provider IS 'Provider that verifies the user: local (password_hash) or an external provider';
+COMMENT ON COLUMN users.external_id IS 'Subject identifier from an external provider; NULL for local users';
+COMMENT ON COLUMN users.password_hash IS 'scrypt hash for local users; NULL for users of external providers';
+COMMENT ON TABLE auth_tokens IS 'Bearer tokens: sessions issued at login and long-lived API tokens';
+COMMENT ON COLUMN auth_tokens.token_hash IS 'SHA-256 of the token; the token itself is only shown once';
+COMMENT ON COLUMN auth_tokens.token_prefix IS 'Leading characters of the token, to tell tokens apart';
+COMMENT ON COLUMN alert_incidents.resolved_by IS 'User who resolved the incident manually; NULL when resolved by its source';
+COMMENT ON COLUMN alert_incidents.acknowledged_by IS 'User who acknowledged the incident';
+COMMENT ON COLUMN services.tags_updated_by IS 'User who last replaced the service tags';
+COMMENT ON COLUMN namespace_dependencies.updated_by IS 'User who last edited the dependency';
+
+COMMIT;
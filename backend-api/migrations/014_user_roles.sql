@@ -0,0 +1,21 @@
+-- Migration 014: User roles
+-- Role-based access control. Each user has one role (viewer < responder < team-owner < admin) and
+-- the teams they belong to; team-scoped permissions compare these with services.team
+
+BEGIN;
+
+-- Users created before roles existed could change everything, so they start as admins until
+-- given a narrower role; new users default to viewer
+ALTER TABLE users
+    ADD COLUMN IF NOT EXISTS role VARCHAR(20) NOT NULL DEFAULT 'admin'
+        CHECK (role IN ('viewer', 'responder', 'team-owner', 'admin')),
+    ADD COLUMN IF NOT EXISTS teams TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE users ALTER COLUMN role SET DEFAULT 'viewer';
+
+CREATE INDEX IF NOT EXISTS idx_users_teams ON users USING GIN(teams);
+
+COMMENT ON COLUMN users.role IS 'viewer (read only), responder (acknowledge/resolve, silences), team-owner (service tags, namespace dependencies), admin (everything)';
+COMMENT ON COLUMN users.teams IS 'Teams the user belongs to; responders and team owners only act on services of these teams';
+
+COMMIT;
@@ -0,0 +1,36 @@
+-- Migration 015: Ingestion API keys
+-- Keys that collectors, exporters and Alertmanager present when writing to /telemetry, /v1/traces,
+-- /alerts and /webhooks/alertmanager. Each key is scoped to one ingestion type and, optionally,
+-- to the namespaces it may write
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS ingestion_keys (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    ingestion_type VARCHAR(20) NOT NULL CHECK (ingestion_type IN ('telemetry', 'alerts', 'alertmanager')),
+    namespaces TEXT[] NOT NULL DEFAULT '{}',
+    verification VARCHAR(10) NOT NULL DEFAULT 'bearer' CHECK (verification IN ('bearer', 'hmac')),
+    key_hash CHAR(64) NOT NULL UNIQUE,
+    key_prefix VARCHAR(20) NOT NULL,
+    signing_secret TEXT NULL,
+    created_by VARCHAR(255) NULL,
+    last_used_at TIMESTAMP NULL,
+    revoked_at TIMESTAMP NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    CHECK (verification = 'bearer' OR
+           (ingestion_type = 'alertmanager' AND (signing_secret IS NOT NULL OR revoked_at IS NOT NULL)))
+);
+
+CREATE INDEX IF NOT EXISTS idx_ingestion_keys_type
+    ON ingestion_keys(ingestion_type)
+    WHERE revoked_at IS NULL;
+
+COMMENT ON TABLE ingestion_keys IS 'API keys for telemetry, alert and Alertmanager ingestion';
+COMMENT ON COLUMN ingestion_keys.ingestion_type IS 'telemetry (/telemetry, /telemetry/batch, /v1/traces), alerts (/alerts) or alertmanager (/webhooks/alertmanager)';
+COMMENT ON COLUMN ingestion_keys.namespaces IS 'Service namespaces the key may write; empty for every namespace';
+COMMENT ON COLUMN ingestion_keys.verification IS 'bearer: the key is sent as Authorization: Bearer; hmac: the key signs the request body';
+COMMENT ON COLUMN ingestion_keys.key_hash IS 'SHA-256 of the key; the key itself is only shown once';
+COMMENT ON COLUMN ingestion_keys.signing_secret IS 'The key itself, kept only for hmac keys because verifying a signature needs it; cleared on revocation';
+
+COMMIT;
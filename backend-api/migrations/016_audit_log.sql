@@ -0,0 +1,34 @@
+-- Migration 016: Audit log
+-- Who changed what: one row per write made through the API (tag edits, incident acknowledgements
+-- and resolutions, namespace dependencies, silences, policies, users, keys and admin cleanups),
+-- with the entity's state before and after and the request ID of the request that made it
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS audit_log (
+    id BIGSERIAL PRIMARY KEY,
+    occurred_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    actor VARCHAR(255) NOT NULL,
+    action VARCHAR(50) NOT NULL,
+    entity_type VARCHAR(50) NOT NULL,
+    entity_id VARCHAR(512) NULL,
+    before_state JSONB NULL,
+    after_state JSONB NULL,
+    request_id VARCHAR(64) NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_occurred_at ON audit_log(occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON audit_log(entity_type, entity_id, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON audit_log(actor, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_request_id ON audit_log(request_id) WHERE request_id IS NOT NULL;
+
+COMMENT ON TABLE audit_log IS 'Writes made through the API, for GET /admin/audit';
+COMMENT ON COLUMN audit_log.actor IS 'Username of the user who made the change (anonymous with authentication disabled)';
+COMMENT ON COLUMN audit_log.action IS 'What was done: create, update, delete, resolve, acknowledge, expire, import, run, ...';
+COMMENT ON COLUMN audit_log.entity_type IS 'Kind of thing changed: service, incident, namespace_dependency, silence, user, cleanup, ...';
+COMMENT ON COLUMN audit_log.entity_id IS 'ID of the changed entity; namespace/name for services; NULL for bulk actions';
+COMMENT ON COLUMN audit_log.before_state IS 'Entity before the change; NULL for creates and actions';
+COMMENT ON COLUMN audit_log.after_state IS 'Entity after the change, or the result of an action; NULL for deletes';
+COMMENT ON COLUMN audit_log.request_id IS 'X-Request-ID of the request, to find its log lines';
+
+COMMIT;
@@ -0,0 +1,11 @@
+-- Migration 017: Notification delivery claim time
+-- When a dispatcher claimed a delivery, so one starting up only requeues deliveries left in
+-- 'sending' by a process that stopped, not ones another running instance is still sending
+
+BEGIN;
+
+ALTER TABLE notification_deliveries ADD COLUMN IF NOT EXISTS claimed_at TIMESTAMP NULL;
+
+COMMENT ON COLUMN notification_deliveries.claimed_at IS 'When a dispatcher last claimed the delivery for sending';
+
+COMMIT;
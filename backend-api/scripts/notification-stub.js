@@ -0,0 +1,84 @@
+#!/usr/bin/env node
+
+// Local stand-ins for notification channels: an HTTP server that accepts webhook/Slack posts
+// and a bare-bones SMTP server that accepts mail. Everything received is printed.
+//
+//   node scripts/notification-stub.js [httpPort] [smtpPort]
+//
+// Point a webhook or slack channel at http://localhost:4010/<anything> and run the backend with
+// SMTP_HOST=localhost SMTP_PORT=2525 for email channels. POST to /fail returns 500 to exercise retries.
+
+const http = require('http');
+const net = require('net');
+
+const args = process.argv.slice(2);
+const httpPort = parseInt(args[0] || '4010');
+const smtpPort = parseInt(args[1] || '2525');
+
+http.createServer((req, res) => {
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    console.log(`📨 HTTP ${req.method} ${req.url}`);
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2));
+    } catch {
+      console.log(body);
+    }
+
+    const status = req.url === '/fail' ? 500 : 200;
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ ok: status === 200 }));
+  });
+}).listen(httpPort, () => {
+  console.log(`🌐 Webhook stub listening on http://localhost:${httpPort}`);
+});
+
+net.createServer(socket => {
+  let buffer = '';
+  let inData = false;
+  let message = '';
+
+  const reply = line => socket.write(`${line}\r\n`);
+  reply('220 olana-stub ESMTP');
+
+  socket.on('data', chunk => {
+    buffer += chunk.toString();
+    let index;
+
+    while ((index = buffer.indexOf('\r\n')) !== -1) {
+      const line = buffer.slice(0, index);
+      buffer = buffer.slice(index + 2);
+
+      if (inData) {
+        if (line === '.') {
+          inData = false;
+          console.log('✉️  SMTP message received');
+          console.log(message);
+          message = '';
+          reply('250 OK: queued');
+        } else {
+          message += `${line.startsWith('..') ? line.slice(1) : line}\n`;
+        }
+        continue;
+      }
+
+      const command = line.split(' ')[0].toUpperCase();
+      if (command === 'EHLO' || command === 'HELO') {
+        reply('250 olana-stub');
+      } else if (command === 'DATA') {
+        inData = true;
+        reply('354 End data with <CR><LF>.<CR><LF>');
+      } else if (command === 'QUIT') {
+        reply('221 Bye');
+        socket.end();
+      } else {
+        reply('250 OK');
+      }
+    }
+  });
+
+  socket.on('error', () => socket.destroy());
+}).listen(smtpPort, () => {
+  console.log(`📮 SMTP stub listening on localhost:${smtpPort}`);
+});
@@ -0,0 +1,26 @@
+export interface AuthConfig {
+  // Whether API requests need a signed-in user; when off every request acts as 'anonymous'
+  enabled: boolean;
+
+  // Hours a login session stays valid
+  sessionHours: number;
+
+  // Admin account created on startup when no users exist yet
+  bootstrapUsername: string | null;
+  bootstrapPassword: string | null;
+
+  // Whether /telemetry, /v1/traces, /alerts and /webhooks/alertmanager need an ingestion API key
+  requireIngestionKeys: boolean;
+}
+
+export function getAuthConfig(): AuthConfig {
+  const sessionHours = parseFloat(process.env.AUTH_SESSION_HOURS || '12');
+
+  return {
+    enabled: process.env.AUTH_ENABLED !== 'false', // Default enabled
+    sessionHours: isNaN(sessionHours) || sessionHours <= 0 ? 12 : sessionHours,
+    bootstrapUsername: process.env.AUTH_BOOTSTRAP_USERNAME || null,
+    bootstrapPassword: process.env.AUTH_BOOTSTRAP_PASSWORD || null,
+    requireIngestionKeys: process.env.AUTH_REQUIRE_INGESTION_KEYS === 'true' // Default off, so existing senders keep working
+  };
+}
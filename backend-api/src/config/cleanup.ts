@@ -1,5 +1,7 @@
 export interface ServiceCleanupConfig {
   ttlHours: number;
+  dependencyTtlHours: number;
+  dependencyMetricsRetentionHours: number;
   intervalHours: number;
   enabled: boolean;
   maxServicesPerRun: number;
@@ -9,6 +11,8 @@ export interface ServiceCleanupConfig {
 export function getCleanupConfig(): ServiceCleanupConfig {
   return {
     ttlHours: parseFloat(process.env.SERVICE_TTL_HOURS || '168'), // 7 days default
+    dependencyTtlHours: parseFloat(process.env.DEPENDENCY_TTL_HOURS || '72'), // 3 days default, 0 disables
+    dependencyMetricsRetentionHours: parseFloat(process.env.DEPENDENCY_METRICS_RETENTION_HOURS || '168'), // 7 days default
     intervalHours: parseFloat(process.env.CLEANUP_INTERVAL_HOURS || '24'), // Daily default
     enabled: process.env.ENABLE_AUTO_CLEANUP !== 'false', // Default enabled
     maxServicesPerRun: parseInt(process.env.MAX_SERVICES_TO_DELETE_PER_RUN || '1000'),
@@ -0,0 +1,21 @@
+export interface EscalationConfig {
+  // Whether unacknowledged incidents are escalated
+  enabled: boolean;
+
+  // Seconds between escalation checks
+  intervalSeconds: number;
+
+  // Firing incidents examined per check
+  maxIncidentsPerRun: number;
+}
+
+export function getEscalationConfig(): EscalationConfig {
+  const intervalSeconds = parseFloat(process.env.ESCALATION_INTERVAL_SECONDS || '60');
+  const maxIncidentsPerRun = parseInt(process.env.ESCALATION_MAX_INCIDENTS_PER_RUN || '1000');
+
+  return {
+    enabled: process.env.ENABLE_ESCALATION !== 'false', // Default enabled
+    intervalSeconds: isNaN(intervalSeconds) || intervalSeconds <= 0 ? 60 : intervalSeconds,
+    maxIncidentsPerRun: isNaN(maxIncidentsPerRun) || maxIncidentsPerRun <= 0 ? 1000 : maxIncidentsPerRun
+  };
+}
@@ -0,0 +1,42 @@
+export interface ImpactConfig {
+  // Service tags that mark a service as critical, with the weight each adds to its criticality score
+  criticalTagWeights: Record<string, number>;
+
+  // Default and maximum number of hops walked upstream from the failing service
+  defaultDepth: number;
+  maxDepth: number;
+}
+
+const DEFAULT_CRITICAL_TAGS = 'critical=3,tier-1=3,tier:1=3,user-facing=2,financial=2,tier-2=1,tier:2=1';
+
+/**
+ * Parse `tag=weight` pairs, e.g. "critical=3,user-facing=2". A tag without a weight counts as 1.
+ */
+function parseCriticalTags(value: string): Record<string, number> {
+  const weights: Record<string, number> = {};
+
+  value.split(',').forEach(entry => {
+    const trimmed = entry.trim();
+    if (!trimmed) return;
+
+    const separator = trimmed.lastIndexOf('=');
+    const tag = (separator > 0 ? trimmed.slice(0, separator) : trimmed).trim().toLowerCase();
+    const weight = separator > 0 ? parseFloat(trimmed.slice(separator + 1)) : 1;
+
+    weights[tag] = isNaN(weight) || weight <= 0 ? 1 : weight;
+  });
+
+  return weights;
+}
+
+export function getImpactConfig(): ImpactConfig {
+  const maxDepth = parseInt(process.env.IMPACT_MAX_DEPTH || '10');
+  const defaultDepth = parseInt(process.env.IMPACT_DEFAULT_DEPTH || '5');
+  const resolvedMaxDepth = isNaN(maxDepth) || maxDepth <= 0 ? 10 : maxDepth;
+
+  return {
+    criticalTagWeights: parseCriticalTags(process.env.IMPACT_CRITICAL_TAGS || DEFAULT_CRITICAL_TAGS),
+    defaultDepth: isNaN(defaultDepth) || defaultDepth <= 0 ? Math.min(5, resolvedMaxDepth) : Math.min(defaultDepth, resolvedMaxDepth),
+    maxDepth: resolvedMaxDepth
+  };
+}
@@ -0,0 +1,55 @@
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user: string;
+  password: string;
+  from: string;
+}
+
+export interface NotificationConfig {
+  // Whether queued notifications are dispatched
+  enabled: boolean;
+
+  // Seconds between scans of the delivery queue
+  pollIntervalSeconds: number;
+
+  // Attempts per delivery before it is marked failed
+  maxAttempts: number;
+
+  // Delay before the first retry; doubles with each further attempt
+  retryBaseSeconds: number;
+
+  // Timeout for a single webhook request or SMTP session
+  requestTimeoutMs: number;
+
+  // Deliveries sent per scan
+  batchSize: number;
+
+  // Shared SMTP server for email channels
+  smtp: SmtpConfig;
+}
+
+function parsePositive(value: string | undefined, fallback: number): number {
+  const parsed = parseFloat(value || '');
+  return isNaN(parsed) || parsed <= 0 ? fallback : parsed;
+}
+
+export function getNotificationConfig(): NotificationConfig {
+  return {
+    enabled: process.env.ENABLE_NOTIFICATIONS !== 'false', // Default enabled
+    pollIntervalSeconds: parsePositive(process.env.NOTIFICATION_POLL_SECONDS, 10),
+    maxAttempts: Math.floor(parsePositive(process.env.NOTIFICATION_MAX_ATTEMPTS, 5)),
+    retryBaseSeconds: parsePositive(process.env.NOTIFICATION_RETRY_BASE_SECONDS, 30),
+    requestTimeoutMs: Math.floor(parsePositive(process.env.NOTIFICATION_TIMEOUT_MS, 10000)),
+    batchSize: Math.floor(parsePositive(process.env.NOTIFICATION_BATCH_SIZE, 50)),
+    smtp: {
+      host: process.env.SMTP_HOST || 'localhost',
+      port: Math.floor(parsePositive(process.env.SMTP_PORT, 25)),
+      secure: process.env.SMTP_SECURE === 'true',
+      user: process.env.SMTP_USER || '',
+      password: process.env.SMTP_PASSWORD || '',
+      from: process.env.SMTP_FROM || 'olana@localhost'
+    }
+  };
+}
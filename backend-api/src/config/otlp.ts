@@ -0,0 +1,31 @@
+export interface OtlpConfig {
+  // Whether the /v1/traces receiver accepts data
+  enabled: boolean;
+
+  // Namespace used when a resource has no service.namespace attribute
+  defaultNamespace: string;
+
+  // Resource attributes checked (in order) for the owning team
+  teamAttributes: string[];
+
+  // Maximum external/database/RPC call entries kept per service after aggregation
+  maxCallsPerService: number;
+
+  // Maximum accepted request body size (express/body-parser format, e.g. '10mb')
+  maxPayloadSize: string;
+}
+
+export function getOtlpConfig(): OtlpConfig {
+  const teamAttributesStr = process.env.OTLP_TEAM_ATTRIBUTES || 'team,service.team,service.owner';
+  const teamAttributes = teamAttributesStr.split(',').map(attr => attr.trim()).filter(Boolean);
+
+  const maxCallsPerService = parseInt(process.env.OTLP_MAX_CALLS_PER_SERVICE || '50');
+
+  return {
+    enabled: process.env.OTLP_RECEIVER_ENABLED !== 'false', // Default enabled
+    defaultNamespace: process.env.OTLP_DEFAULT_NAMESPACE || 'default',
+    teamAttributes,
+    maxCallsPerService: isNaN(maxCallsPerService) ? 50 : maxCallsPerService,
+    maxPayloadSize: process.env.OTLP_MAX_PAYLOAD_SIZE || '10mb'
+  };
+}
@@ -1,11 +1,26 @@
 import express from 'express';
 import cors from 'cors';
+import { Pool } from 'pg';
 import { logger } from '../utils/logger';
+import { AuthConfig } from './auth';
+import { createAuthenticationMiddleware } from '../middleware/authentication';
+import { AccessRule, createAuthorizationMiddleware } from '../middleware/authorization';
+import { createIngestionAuthMiddleware } from '../middleware/ingestionAuth';
 
 export function createExpressApp(): express.Application {
   const app = express();
   app.use(cors());
-  app.use(express.json({ limit: '10mb' }));
+  const jsonParser = express.json({
+    limit: '10mb',
+    // Keep webhook bodies as received so HMAC signatures can be verified
+    verify: (req, _res, buf) => {
+      if (req.url?.startsWith('/webhooks/')) {
+        (req as express.Request).rawBody = buf;
+      }
+    }
+  });
+  // The OTLP receiver parses its own bodies with OTLP_MAX_PAYLOAD_SIZE
+  app.use((req, res, next) => req.path === '/v1/traces' ? next() : jsonParser(req, res, next));
 
     app.use((req, res, next) => {
     if (req.path.includes('/webhooks/')) {
@@ -28,4 +43,120 @@ export function createExpressApp(): express.Application {
 
 
   return app;
-}
\ No newline at end of file
+}
+
+// Team of the service an incident belongs to. Services created from telemetry carry the
+// placeholder team 'unknown' until someone sets one; the lookups report those as unowned.
+async function incidentTeam(pool: Pool, match: RegExpMatchArray): Promise<string | null | undefined> {
+  const result = await pool.query(`
+    SELECT NULLIF(NULLIF(s.team, ''), 'unknown') AS team
+    FROM alert_incidents i
+    LEFT JOIN services s ON s.service_namespace = i.service_namespace AND s.service_name = i.service_name
+    WHERE i.id = $1
+  `, [parseInt(match[1])]);
+  return result.rows.length > 0 ? result.rows[0].team : undefined;
+}
+
+async function serviceTeam(pool: Pool, match: RegExpMatchArray): Promise<string | null | undefined> {
+  const result = await pool.query(
+    "SELECT NULLIF(NULLIF(team, ''), 'unknown') AS team FROM services WHERE service_namespace = $1 AND service_name = $2",
+    [decodeURIComponent(match[1]), decodeURIComponent(match[2])]
+  );
+  return result.rows.length > 0 ? result.rows[0].team : undefined;
+}
+
+type SilenceMatchers = { match_namespace?: unknown; match_service?: unknown; match_tags?: unknown };
+
+// Teams of the services a silence's namespace, service and tag matchers cover
+async function coveredTeams(pool: Pool, matchers: SilenceMatchers): Promise<Array<string | null>> {
+  const tags = Array.isArray(matchers.match_tags) && matchers.match_tags.every(tag => typeof tag === 'string')
+    ? matchers.match_tags
+    : [];
+  const result = await pool.query(`
+    SELECT DISTINCT NULLIF(NULLIF(team, ''), 'unknown') AS team
+    FROM services
+    WHERE ($1::text IS NULL OR service_namespace = $1)
+      AND ($2::text IS NULL OR service_name = $2)
+      AND tags @> $3::text[]
+  `, [
+    typeof matchers.match_namespace === 'string' && matchers.match_namespace ? matchers.match_namespace : null,
+    typeof matchers.match_service === 'string' && matchers.match_service ? matchers.match_service : null,
+    tags
+  ]);
+  return result.rows.map(row => row.team);
+}
+
+// Teams whose services a silence covers, before and after an edit: a responder must be able
+// to act for all of them
+async function silenceTeams(pool: Pool, match: RegExpMatchArray, req: express.Request): Promise<Array<string | null> | undefined> {
+  if (!match[1]) {
+    return coveredTeams(pool, req.body || {});
+  }
+
+  const result = await pool.query(
+    'SELECT match_namespace, match_service, match_tags FROM alert_silences WHERE id = $1',
+    [parseInt(match[1])]
+  );
+  if (result.rows.length === 0) {
+    return undefined;
+  }
+
+  const existing: SilenceMatchers = result.rows[0];
+  const teams = await coveredTeams(pool, existing);
+  if (req.method === 'PUT' && req.body && typeof req.body === 'object') {
+    teams.push(...await coveredTeams(pool, {
+      match_namespace: req.body.match_namespace !== undefined ? req.body.match_namespace : existing.match_namespace,
+      match_service: req.body.match_service !== undefined ? req.body.match_service : existing.match_service,
+      match_tags: req.body.match_tags !== undefined ? req.body.match_tags : existing.match_tags
+    }));
+  }
+  return teams;
+}
+
+// Roles needed beyond the defaults (viewer to read, admin for every other change).
+// The first matching rule applies.
+export const ACCESS_RULES: AccessRule[] = [
+  // Every signed-in user manages their own session and API tokens, and can run read-only previews
+  { methods: ['POST'], path: /^\/auth\/logout$/, role: 'viewer' },
+  { methods: ['POST', 'DELETE'], path: /^\/auth\/tokens(\/\d+)?$/, role: 'viewer' },
+  { methods: ['POST'], path: /^\/alert-grouping-policies\/preview$/, role: 'viewer' },
+
+  // User accounts, ingestion keys, notification channels (their config holds webhook URLs and
+  // credentials) and the administration endpoints are admin-only, reads included
+  { methods: ['GET'], path: /^\/users(\/|$)/, role: 'admin' },
+  { methods: ['GET'], path: /^\/notification-channels(\/|$)/, role: 'admin' },
+  { methods: ['GET'], path: /^\/ingestion-keys(\/|$)/, role: 'admin' },
+  { methods: ['GET'], path: /^\/admin\//, role: 'admin' },
+
+  // Responders handle incidents of their teams' services (and of services with no team)
+  {
+    methods: ['PATCH'],
+    path: /^\/alerts\/(\d+)\/(acknowledge|resolve)$/,
+    role: 'responder',
+    team: incidentTeam,
+    allowUnowned: true
+  },
+  {
+    methods: ['POST', 'PUT', 'DELETE'],
+    path: /^\/silences(?:\/(\d+)(?:\/expire)?)?$/,
+    role: 'responder',
+    team: silenceTeams,
+    allowUnowned: true
+  },
+  { methods: ['POST'], path: /^\/notification-deliveries\/\d+\/retry$/, role: 'responder' },
+
+  // Team owners edit their own services' tags and declare namespace dependencies
+  { methods: ['PUT'], path: /^\/services\/([^/]+)\/([^/]+)\/tags$/, role: 'team-owner', team: serviceTeam },
+  { methods: ['POST', 'PUT', 'PATCH', 'DELETE'], path: /^\/namespace-dependencies(\/|$)/, role: 'team-owner' },
+  { methods: ['POST'], path: /^\/graph\/snapshots$/, role: 'team-owner' }
+];
+
+/**
+ * Authentication, ingestion key checks and role checks for every request, registered after
+ * request tracing so denials are logged with the request ID
+ */
+export function applyAccessControl(app: express.Application, pool: Pool, authConfig: AuthConfig): void {
+  app.use(createAuthenticationMiddleware(pool, authConfig));
+  app.use(createIngestionAuthMiddleware(pool, authConfig));
+  app.use(createAuthorizationMiddleware(pool, ACCESS_RULES, { read: 'viewer', write: 'admin' }));
+}
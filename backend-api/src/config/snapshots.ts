@@ -0,0 +1,21 @@
+export interface GraphSnapshotConfig {
+  // Whether snapshots are taken on a schedule
+  enabled: boolean;
+
+  // Minutes between scheduled snapshots
+  intervalMinutes: number;
+
+  // Days snapshots are kept before being pruned (0 keeps them forever)
+  retentionDays: number;
+}
+
+export function getGraphSnapshotConfig(): GraphSnapshotConfig {
+  const intervalMinutes = parseFloat(process.env.GRAPH_SNAPSHOT_INTERVAL_MINUTES || '60');
+  const retentionDays = parseFloat(process.env.GRAPH_SNAPSHOT_RETENTION_DAYS || '30');
+
+  return {
+    enabled: process.env.ENABLE_GRAPH_SNAPSHOTS !== 'false', // Default enabled
+    intervalMinutes: isNaN(intervalMinutes) || intervalMinutes <= 0 ? 60 : intervalMinutes,
+    retentionDays: isNaN(retentionDays) || retentionDays < 0 ? 30 : retentionDays
+  };
+}
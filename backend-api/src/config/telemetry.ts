@@ -0,0 +1,22 @@
+export interface TelemetryConfig {
+  // Maximum records accepted by POST /telemetry/batch
+  maxBatchSize: number;
+
+  // Records per transaction in a batch (0 = whole batch in a single transaction)
+  batchChunkSize: number;
+
+  // Width of the per-edge call metrics buckets
+  metricsBucketMinutes: number;
+}
+
+export function getTelemetryConfig(): TelemetryConfig {
+  const maxBatchSize = parseInt(process.env.TELEMETRY_BATCH_MAX_SIZE || '1000');
+  const batchChunkSize = parseInt(process.env.TELEMETRY_BATCH_CHUNK_SIZE || '0');
+  const metricsBucketMinutes = parseFloat(process.env.TELEMETRY_METRICS_BUCKET_MINUTES || '5');
+
+  return {
+    maxBatchSize: isNaN(maxBatchSize) ? 1000 : maxBatchSize,
+    batchChunkSize: isNaN(batchChunkSize) ? 0 : batchChunkSize,
+    metricsBucketMinutes: isNaN(metricsBucketMinutes) || metricsBucketMinutes <= 0 ? 5 : metricsBucketMinutes
+  };
+}
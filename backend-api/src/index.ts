@@ -1,23 +1,46 @@
 import dotenv from "dotenv";
 import path from "path";
 import { createDatabasePool } from './config/database';
-import { createExpressApp } from './config/server';
+import { createExpressApp, applyAccessControl } from './config/server';
 import { getCleanupConfig } from './config/cleanup';
 import { setupGracefulShutdown } from './utils/shutdown';
 import { createHealthRoutes } from './routes/health';
 import ServiceCleanup from './services/ServiceCleanup';
+import GraphSnapshotter from './services/GraphSnapshotter';
+import NotificationDispatcher from './services/NotificationDispatcher';
+import EscalationScheduler from './services/EscalationScheduler';
 import { createTagsRoutes } from './routes/tags';
 import { createNamespaceDepsRoutes } from './routes/namespaceDeps';
 import { createAlertsRoutes } from './routes/alerts';
 import { createServicesRoutes } from './routes/services';
 import { createTelemetryRoutes } from './routes/telemetry';
 import { createGraphRoutes } from './routes/graph';
+import { createDependencyChangesRoutes } from './routes/dependencyChanges';
+import { createGraphSnapshotRoutes } from './routes/graphSnapshots';
 import { createAdminRoutes } from './routes/admin';
 import { createPerformanceRoutes } from './routes/performance';
 import { getAlertmanagerConfig } from './config/alertmanager';
 import { createAlertmanagerRoutes } from './routes/alertmanager';
+import { getOtlpConfig } from './config/otlp';
+import { getTelemetryConfig } from './config/telemetry';
+import { getGraphSnapshotConfig } from './config/snapshots';
+import { getImpactConfig } from './config/impact';
+import { getNotificationConfig } from './config/notifications';
+import { getEscalationConfig } from './config/escalation';
+import { getAuthConfig } from './config/auth';
+import { createImpactRoutes } from './routes/impact';
+import { createAnalysisRoutes } from './routes/analysis';
+import { createAlertGroupingRoutes } from './routes/alertGrouping';
+import { createSilencesRoutes } from './routes/silences';
+import { createNotificationRoutes } from './routes/notifications';
+import { createEscalationRoutes } from './routes/escalation';
+import { createOtlpRoutes } from './routes/otlp';
+import { createAuthRoutes } from './routes/auth';
+import { createIngestionKeyRoutes } from './routes/ingestionKeys';
+import { createAuditRoutes } from './routes/audit';
 import { logger } from './utils/logger';
 import { requestTracingMiddleware } from './middleware/requestTracing';
+import { ensureBootstrapUser } from './utils/auth';
 
 
 // Load environment variables
@@ -31,22 +54,47 @@ const cleanupConfig = getCleanupConfig();
 
 const serviceCleanup = new ServiceCleanup(pool, cleanupConfig);
 const alertmanagerConfig = getAlertmanagerConfig();
+const otlpConfig = getOtlpConfig();
+const telemetryConfig = getTelemetryConfig();
+const snapshotConfig = getGraphSnapshotConfig();
+const graphSnapshotter = new GraphSnapshotter(pool, snapshotConfig);
+const impactConfig = getImpactConfig();
+const notificationConfig = getNotificationConfig();
+const notificationDispatcher = new NotificationDispatcher(pool, notificationConfig);
+const escalationConfig = getEscalationConfig();
+const escalationScheduler = new EscalationScheduler(pool, escalationConfig);
+const authConfig = getAuthConfig();
 
 // Add request tracing middleware
 app.use(requestTracingMiddleware);
 
+// Resolve the signed-in user and enforce role-based access
+applyAccessControl(app, pool, authConfig);
+
 app.use(createHealthRoutes(pool));
+app.use(createAuthRoutes(pool, authConfig));
+app.use(createIngestionKeyRoutes(pool));
 app.use(createAlertmanagerRoutes(pool, alertmanagerConfig));
 app.use(createTagsRoutes(pool));
 app.use(createNamespaceDepsRoutes(pool));
 app.use(createAlertsRoutes(pool));
+app.use(createAlertGroupingRoutes(pool));
+app.use(createSilencesRoutes(pool));
+app.use(createNotificationRoutes(pool, notificationDispatcher, notificationConfig));
+app.use(createEscalationRoutes(pool, escalationScheduler, escalationConfig));
 app.use(createServicesRoutes(pool));
-app.use(createTelemetryRoutes(pool));
-app.use(createGraphRoutes(pool));
-app.use(createAdminRoutes(pool, serviceCleanup, cleanupConfig));
+app.use(createImpactRoutes(pool, impactConfig));
+app.use(createAnalysisRoutes(pool));
+app.use(createTelemetryRoutes(pool, telemetryConfig));
+app.use(createOtlpRoutes(pool, otlpConfig, telemetryConfig.metricsBucketMinutes));
+app.use(createGraphRoutes(pool, cleanupConfig));
+app.use(createDependencyChangesRoutes(pool));
+app.use(createGraphSnapshotRoutes(pool, graphSnapshotter));
+app.use(createAdminRoutes(pool, serviceCleanup, cleanupConfig, alertmanagerConfig, authConfig));
+app.use(createAuditRoutes(pool));
 app.use(createPerformanceRoutes(pool));
 
-setupGracefulShutdown(pool, serviceCleanup);
+setupGracefulShutdown(pool, serviceCleanup, graphSnapshotter, notificationDispatcher, escalationScheduler);
 
 const PORT = process.env.PORT || 3001;
 app.listen(PORT, () => {
@@ -69,11 +117,34 @@ app.listen(PORT, () => {
   logger.info('Database connection pool initialized');
   logger.info('Natural key linking schema active');
 
+  logger.info({
+    enabled: authConfig.enabled,
+    sessionHours: authConfig.sessionHours,
+    requireIngestionKeys: authConfig.requireIngestionKeys
+  }, 'Authentication configuration');
+
+  if (!authConfig.enabled) {
+    logger.warn('Authentication is disabled - every request acts as the anonymous user');
+  }
+
+  if (authConfig.enabled && !authConfig.requireIngestionKeys) {
+    logger.warn('Ingestion API keys are not required - any client can write telemetry and alerts. Set AUTH_REQUIRE_INGESTION_KEYS=true once senders present keys');
+  }
+
+  // Create the first user on a fresh install
+  ensureBootstrapUser(pool, authConfig, logger);
+
   logger.info({
     enabled: alertmanagerConfig.webhookEnabled,
     defaultNamespace: alertmanagerConfig.defaultNamespace,
     endpoint: `http://localhost:${PORT}/webhooks/alertmanager`
   }, 'Alertmanager webhook configuration');
+
+  logger.info({
+    enabled: otlpConfig.enabled,
+    defaultNamespace: otlpConfig.defaultNamespace,
+    endpoint: `http://localhost:${PORT}/v1/traces`
+  }, 'OTLP trace receiver configuration');
   
   // Start ServiceCleanup after server is running
   logger.info('Starting ServiceCleanup...');
@@ -83,10 +154,20 @@ app.listen(PORT, () => {
   logger.info({
     enabled: cleanupConfig.enabled,
     ttlHours: cleanupConfig.ttlHours,
+    dependencyTtlHours: cleanupConfig.dependencyTtlHours,
     intervalHours: cleanupConfig.intervalHours,
     maxServicesPerRun: cleanupConfig.maxServicesPerRun,
     dryRun: cleanupConfig.dryRun
   }, 'ServiceCleanup configuration');
+
+  // Start periodic graph snapshots used by /graph/diff
+  graphSnapshotter.start();
+
+  // Send queued incident notifications
+  notificationDispatcher.start();
+
+  // Escalate incidents nobody has acknowledged
+  escalationScheduler.start();
 });
 
 const alertConfig = getAlertmanagerConfig();
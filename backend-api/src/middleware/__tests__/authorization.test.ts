@@ -0,0 +1,174 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { Request, Response } from 'express';
+import { Pool } from 'pg';
+import { findAccessRule, requiredRole, createAuthorizationMiddleware, AccessDefaults, AccessRule } from '../authorization';
+import { ACCESS_RULES } from '../../config/server';
+import { AuthUser, Role, hasRole, canActForTeam } from '../../utils/auth';
+
+const DEFAULTS: AccessDefaults = { read: 'viewer', write: 'admin' };
+
+const roleFor = (method: string, path: string): Role =>
+  requiredRole(findAccessRule(ACCESS_RULES, method, path)?.rule, method, DEFAULTS);
+
+const user = (role: Role, teams: string[] = []): AuthUser => ({
+  id: 1,
+  username: 'someone',
+  displayName: null,
+  email: null,
+  provider: 'local',
+  role,
+  teams
+});
+
+describe('findAccessRule', () => {
+  it('returns the first rule matching the method and path, with its capture groups', () => {
+    const found = findAccessRule(ACCESS_RULES, 'PATCH', '/alerts/42/acknowledge');
+
+    expect(found?.rule.role).toBe('responder');
+    expect(found?.match[1]).toBe('42');
+  });
+
+  it('ignores rules for other methods', () => {
+    expect(findAccessRule(ACCESS_RULES, 'GET', '/alerts/42/acknowledge')).toBeNull();
+    expect(findAccessRule(ACCESS_RULES, 'GET', '/silences')).toBeNull();
+  });
+
+  it('captures the silence id for edits but not for creates', () => {
+    expect(findAccessRule(ACCESS_RULES, 'POST', '/silences')?.match[1]).toBeUndefined();
+    expect(findAccessRule(ACCESS_RULES, 'PUT', '/silences/7')?.match[1]).toBe('7');
+    expect(findAccessRule(ACCESS_RULES, 'POST', '/silences/7/expire')?.match[1]).toBe('7');
+  });
+
+  it('captures encoded service keys for tag edits', () => {
+    const found = findAccessRule(ACCESS_RULES, 'PUT', '/services/shop/check%2Fout/tags');
+
+    expect(found?.rule.role).toBe('team-owner');
+    expect(Array.from(found?.match || []).slice(1)).toEqual(['shop', 'check%2Fout']);
+  });
+});
+
+describe('requiredRole', () => {
+  it('falls back to the read and write defaults', () => {
+    expect(requiredRole(undefined, 'GET', DEFAULTS)).toBe('viewer');
+    expect(requiredRole(undefined, 'HEAD', DEFAULTS)).toBe('viewer');
+    expect(requiredRole(undefined, 'POST', DEFAULTS)).toBe('admin');
+    expect(requiredRole(undefined, 'DELETE', DEFAULTS)).toBe('admin');
+  });
+
+  it('applies the access rules', () => {
+    expect(roleFor('GET', '/graph')).toBe('viewer');
+    expect(roleFor('POST', '/auth/tokens')).toBe('viewer');
+    expect(roleFor('POST', '/alert-grouping-policies/preview')).toBe('viewer');
+    expect(roleFor('POST', '/alert-grouping-policies')).toBe('admin');
+    expect(roleFor('POST', '/silences')).toBe('responder');
+    expect(roleFor('POST', '/notification-deliveries/3/retry')).toBe('responder');
+    expect(roleFor('POST', '/graph/snapshots')).toBe('team-owner');
+    expect(roleFor('DELETE', '/namespace-dependencies/4')).toBe('team-owner');
+    expect(roleFor('POST', '/escalation-policies')).toBe('admin');
+  });
+
+  it('keeps users, keys, notification channels and administration reads admin-only', () => {
+    expect(roleFor('GET', '/users')).toBe('admin');
+    expect(roleFor('GET', '/ingestion-keys')).toBe('admin');
+    expect(roleFor('GET', '/notification-channels')).toBe('admin');
+    expect(roleFor('GET', '/notification-channels/5')).toBe('admin');
+    expect(roleFor('GET', '/admin/audit')).toBe('admin');
+    expect(roleFor('GET', '/notification-rules')).toBe('viewer');
+  });
+});
+
+describe('hasRole', () => {
+  it('lets each role do what the roles below it can', () => {
+    expect(hasRole(user('admin'), 'responder')).toBe(true);
+    expect(hasRole(user('team-owner'), 'responder')).toBe(true);
+    expect(hasRole(user('responder'), 'team-owner')).toBe(false);
+    expect(hasRole(user('viewer'), 'viewer')).toBe(true);
+  });
+});
+
+describe('canActForTeam', () => {
+  it('limits non-admins to their own teams', () => {
+    expect(canActForTeam(user('responder', ['payments']), 'payments', false)).toBe(true);
+    expect(canActForTeam(user('responder', ['payments']), 'search', false)).toBe(false);
+    expect(canActForTeam(user('admin'), 'search', false)).toBe(true);
+  });
+
+  it('allows unowned targets only when the rule does', () => {
+    expect(canActForTeam(user('responder'), null, true)).toBe(true);
+    expect(canActForTeam(user('responder'), null, false)).toBe(false);
+    expect(canActForTeam(user('admin'), null, false)).toBe(true);
+  });
+
+  it('treats the placeholder team \'unknown\' and empty teams as unowned', () => {
+    expect(canActForTeam(user('responder'), 'unknown', true)).toBe(true);
+    expect(canActForTeam(user('responder'), '', true)).toBe(true);
+    expect(canActForTeam(user('responder', ['payments']), 'unknown', false)).toBe(false);
+  });
+});
+
+describe('createAuthorizationMiddleware', () => {
+  const silenceRule: AccessRule = {
+    methods: ['POST'],
+    path: /^\/silences$/,
+    role: 'responder',
+    team: async () => ['payments', null],
+    allowUnowned: true
+  };
+
+  const run = async (rule: AccessRule, signedIn: AuthUser) => {
+    const middleware = createAuthorizationMiddleware({} as Pool, [rule], DEFAULTS);
+    const req = {
+      method: 'POST',
+      path: '/silences',
+      user: signedIn,
+      log: { warn: jest.fn(), error: jest.fn() }
+    } as unknown as Request;
+    const res = {
+      statusCode: 200,
+      body: undefined as unknown,
+      getHeader: () => undefined,
+      status(code: number) { this.statusCode = code; return this; },
+      json(body: unknown) { this.body = body; return this; }
+    };
+    const next = jest.fn();
+
+    await middleware(req, res as unknown as Response, next);
+    return { status: res.statusCode, body: res.body, passed: next.mock.calls.length === 1 };
+  };
+
+  it('passes when the user can act for every team the target affects', async () => {
+    expect((await run(silenceRule, user('responder', ['payments']))).passed).toBe(true);
+    expect((await run(silenceRule, user('admin'))).passed).toBe(true);
+  });
+
+  it('denies when any affected team is not the user\'s', async () => {
+    const result = await run({ ...silenceRule, team: async () => ['payments', 'search'] }, user('responder', ['payments']));
+
+    expect(result.passed).toBe(false);
+    expect(result.status).toBe(403);
+    expect(result.body).toMatchObject({ error: "Only members of team 'search' can do this" });
+  });
+
+  it('checks the role before the team', async () => {
+    const result = await run(silenceRule, user('viewer', ['payments']));
+
+    expect(result.status).toBe(403);
+    expect(result.body).toMatchObject({ error: 'This action requires the responder role' });
+  });
+
+  it('lets responders act on services with the placeholder team \'unknown\'', async () => {
+    const result = await run({ ...silenceRule, team: async () => ['payments', 'unknown'] }, user('responder', ['payments']));
+
+    expect(result.passed).toBe(true);
+  });
+
+  it('leaves missing targets to the route', async () => {
+    expect((await run({ ...silenceRule, team: async () => undefined }, user('responder'))).passed).toBe(true);
+  });
+
+  it('answers 503 when the team lookup fails', async () => {
+    const failing = { ...silenceRule, team: async () => { throw new Error('connection refused'); } };
+
+    expect((await run(failing, user('responder'))).status).toBe(503);
+  });
+});
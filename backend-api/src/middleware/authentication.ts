@@ -0,0 +1,62 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { Pool } from 'pg';
+import { AuthConfig } from '../config/auth';
+import { ANONYMOUS_USER, resolveToken } from '../utils/auth';
+import { handleClientError } from '../utils/errorHandler';
+
+// Reachable without signing in: health checks, the login itself, and ingestion from
+// collectors and Alertmanager, which present ingestion API keys instead of user tokens
+const PUBLIC_ROUTES: Array<{ method: string; path: RegExp }> = [
+  { method: 'GET', path: /^\/health$/ },
+  { method: 'GET', path: /^\/auth\/config$/ },
+  { method: 'POST', path: /^\/auth\/login$/ },
+  { method: 'POST', path: /^\/telemetry(\/batch)?$/ },
+  { method: 'POST', path: /^\/v1\/traces$/ },
+  { method: 'POST', path: /^\/webhooks\/alertmanager$/ },
+  { method: 'POST', path: /^\/alerts$/ }
+];
+
+export function isPublicRoute(req: Request): boolean {
+  return PUBLIC_ROUTES.some(route => route.method === req.method && route.path.test(req.path));
+}
+
+function bearerToken(req: Request): string | null {
+  const header = req.get('Authorization');
+  const match = header?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * Sets req.user from the Authorization: Bearer token. Requests without a valid token get a 401
+ * unless the route is public. With authentication disabled every request acts as 'anonymous'.
+ */
+export function createAuthenticationMiddleware(pool: Pool, config: AuthConfig): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!config.enabled) {
+      req.user = ANONYMOUS_USER;
+      return next();
+    }
+
+    const token = bearerToken(req);
+
+    if (token) {
+      try {
+        const authenticated = await resolveToken(pool, token);
+        if (authenticated) {
+          req.user = authenticated.user;
+          req.authToken = { id: authenticated.tokenId, kind: authenticated.kind };
+          req.log = req.log.child({ user: authenticated.user.username });
+        }
+      } catch (error) {
+        req.log.error({ error: error instanceof Error ? error.message : 'Unknown error' }, 'Token lookup failed');
+        return res.status(503).json({ error: 'Authentication is temporarily unavailable' });
+      }
+    }
+
+    if (!req.user && !isPublicRoute(req)) {
+      return handleClientError(res, token ? 'Invalid or expired token' : 'Authentication required', 401);
+    }
+
+    return next();
+  };
+}
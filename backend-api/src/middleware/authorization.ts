@@ -0,0 +1,101 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { Pool } from 'pg';
+import { Role, hasRole, canActForTeam, isUnownedTeam } from '../utils/auth';
+import { handleClientError } from '../utils/errorHandler';
+import { isPublicRoute } from './authentication';
+
+export interface AccessRule {
+  methods: string[];
+  path: RegExp;
+  role: Role;
+  // Team owning the target of a team-scoped rule (null for no team), or every team it affects,
+  // from the path's capture groups and the request; undefined when the target does not exist
+  // (the route then answers 404 itself)
+  team?: (pool: Pool, match: RegExpMatchArray, req: Request) => Promise<string | null | Array<string | null> | undefined>;
+  // Whether targets with no owning team are open to every user with the role
+  allowUnowned?: boolean;
+}
+
+export interface AccessDefaults {
+  // Role needed for GET requests no rule matches
+  read: Role;
+  // Role needed for every other request no rule matches
+  write: Role;
+}
+
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * The first rule matching the request, with the path's capture groups
+ */
+export function findAccessRule(
+  rules: AccessRule[],
+  method: string,
+  path: string
+): { rule: AccessRule; match: RegExpMatchArray } | null {
+  for (const rule of rules) {
+    const match = rule.methods.includes(method) ? path.match(rule.path) : null;
+    if (match) {
+      return { rule, match };
+    }
+  }
+  return null;
+}
+
+/**
+ * Role a request needs: its rule's, or the read or write default when no rule matches
+ */
+export function requiredRole(rule: AccessRule | undefined, method: string, defaults: AccessDefaults): Role {
+  return rule ? rule.role : READ_METHODS.includes(method) ? defaults.read : defaults.write;
+}
+
+/**
+ * Enforces the first matching rule for the signed-in user, falling back to the read or write
+ * default. Runs after authentication; public routes are not checked.
+ */
+export function createAuthorizationMiddleware(
+  pool: Pool,
+  rules: AccessRule[],
+  defaults: AccessDefaults
+): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (isPublicRoute(req)) {
+      return next();
+    }
+
+    const user = req.user;
+    if (!user) {
+      return handleClientError(res, 'Authentication required', 401);
+    }
+
+    const found = findAccessRule(rules, req.method, req.path);
+    const rule = found?.rule;
+    const required = requiredRole(rule, req.method, defaults);
+
+    if (!hasRole(user, required)) {
+      req.log.warn({ method: req.method, path: req.path, role: user.role, required }, 'Access denied');
+      return handleClientError(res, `This action requires the ${required} role`, 403);
+    }
+
+    if (found && found.rule.team) {
+      try {
+        const owner = await found.rule.team(pool, found.match, req);
+        const owners = owner === undefined ? [] : Array.isArray(owner) ? owner : [owner];
+        const team = owners.find(candidate => !canActForTeam(user, candidate, !!found.rule.allowUnowned));
+        if (team !== undefined) {
+          req.log.warn({ method: req.method, path: req.path, team, teams: user.teams }, 'Access denied for team');
+          return handleClientError(
+            res,
+            isUnownedTeam(team) ? 'Only admins can change resources without an owning team' : `Only members of team '${team}' can do this`,
+            403
+          );
+        }
+      } catch (error) {
+        req.log.error({ error: error instanceof Error ? error.message : 'Unknown error' }, 'Team lookup failed');
+        return res.status(503).json({ error: 'Authorization is temporarily unavailable' });
+      }
+    }
+
+    return next();
+  };
+}
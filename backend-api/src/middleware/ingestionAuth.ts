@@ -0,0 +1,85 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { Pool } from 'pg';
+import { AuthConfig } from '../config/auth';
+import {
+  IngestionKey,
+  IngestionType,
+  IngestionRejectionReason,
+  SIGNATURE_HEADER,
+  KEY_ID_HEADER,
+  resolveIngestionKey,
+  verifySignedRequest,
+  recordIngestionRejection
+} from '../utils/ingestionKeys';
+import { handleClientError } from '../utils/errorHandler';
+
+const INGESTION_ROUTES: Array<{ method: string; path: RegExp; type: IngestionType }> = [
+  { method: 'POST', path: /^\/telemetry(\/batch)?$/, type: 'telemetry' },
+  { method: 'POST', path: /^\/v1\/traces$/, type: 'telemetry' },
+  { method: 'POST', path: /^\/alerts$/, type: 'alerts' },
+  { method: 'POST', path: /^\/webhooks\/alertmanager$/, type: 'alertmanager' }
+];
+
+function bearerToken(req: Request): string | null {
+  const header = req.get('Authorization');
+  const match = header?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * Requires an ingestion API key of the route's type on ingestion routes and sets req.ingestionKey;
+ * route handlers check its namespaces. Keys are sent as Authorization: Bearer, or for HMAC keys
+ * identified by X-Olana-Key-Id with X-Olana-Signature over the body. Other routes pass through.
+ */
+export function createIngestionAuthMiddleware(pool: Pool, config: AuthConfig): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const route = INGESTION_ROUTES.find(r => r.method === req.method && r.path.test(req.path));
+    if (!route || !config.enabled || !config.requireIngestionKeys) {
+      return next();
+    }
+
+    const reject = (reason: IngestionRejectionReason, error: string, status: number) => {
+      recordIngestionRejection(route.type, reason);
+      req.log.warn({ path: req.path, ingestionType: route.type, reason }, 'Ingestion request rejected');
+      return handleClientError(res, error, status);
+    };
+
+    const signature = req.get(SIGNATURE_HEADER);
+    const token = bearerToken(req);
+
+    let key: IngestionKey | null;
+    try {
+      if (signature) {
+        const keyId = parseInt(req.get(KEY_ID_HEADER) || '');
+        if (isNaN(keyId)) {
+          return reject('invalid_signature', `${KEY_ID_HEADER} is required with ${SIGNATURE_HEADER}`, 401);
+        }
+        if (!req.rawBody) {
+          return reject('invalid_signature', 'Signed requests are only supported for JSON bodies', 401);
+        }
+        key = await verifySignedRequest(pool, keyId, signature, req.rawBody);
+        if (!key) {
+          return reject('invalid_signature', 'Invalid request signature', 401);
+        }
+      } else if (token) {
+        key = await resolveIngestionKey(pool, token);
+        if (!key) {
+          return reject('invalid_key', 'Invalid or revoked ingestion API key', 401);
+        }
+      } else {
+        return reject('missing_key', 'Ingestion API key required', 401);
+      }
+    } catch (error) {
+      req.log.error({ error: error instanceof Error ? error.message : 'Unknown error' }, 'Ingestion key lookup failed');
+      return res.status(503).json({ error: 'Authentication is temporarily unavailable' });
+    }
+
+    if (key.type !== route.type) {
+      return reject('wrong_type', `This key is for ${key.type} ingestion, not ${route.type}`, 403);
+    }
+
+    req.ingestionKey = key;
+    req.log = req.log.child({ ingestionKey: key.name });
+    return next();
+  };
+}
@@ -2,16 +2,28 @@ import { Router } from 'express';
 import { Pool } from 'pg';
 import ServiceCleanup from '../services/ServiceCleanup';
 import { getServiceCreationStats } from '../utils/serviceAutoCreate';
+import { AlertmanagerConfig } from '../config/alertmanager';
+import { AuthConfig } from '../config/auth';
+import { getIngestionRejections } from '../utils/ingestionKeys';
+import { recordAudit } from '../utils/audit';
 
 type CleanupConfig = {
   ttlHours: number;
+  dependencyTtlHours: number;
+  dependencyMetricsRetentionHours: number;
   intervalHours: number;
   enabled: boolean;
   maxServicesPerRun: number;
   dryRun: boolean;
 };
 
-export function createAdminRoutes(pool: Pool, serviceCleanup: ServiceCleanup, cleanupConfig: CleanupConfig): Router {
+export function createAdminRoutes(
+  pool: Pool,
+  serviceCleanup: ServiceCleanup,
+  cleanupConfig: CleanupConfig,
+  alertmanagerConfig: AlertmanagerConfig,
+  authConfig: AuthConfig
+): Router {
   const router = Router();
 
     router.get("/metrics/cleanup", async (req, res) => {
@@ -24,6 +36,8 @@ export function createAdminRoutes(pool: Pool, serviceCleanup: ServiceCleanup, cl
         stats,
         config: {
             ttlHours: cleanupConfig.ttlHours,
+            dependencyTtlHours: cleanupConfig.dependencyTtlHours,
+            dependencyMetricsRetentionHours: cleanupConfig.dependencyMetricsRetentionHours,
             intervalHours: cleanupConfig.intervalHours,
             enabled: cleanupConfig.enabled,
             maxServicesPerRun: cleanupConfig.maxServicesPerRun,
@@ -44,6 +58,13 @@ export function createAdminRoutes(pool: Pool, serviceCleanup: ServiceCleanup, cl
         }
         
         const result = await serviceCleanup.runCleanup();
+
+        await recordAudit(pool, req, {
+        action: 'run',
+        entityType: 'cleanup',
+        entityId: 'services',
+        after: result
+        });
         
         return res.json({
         status: "ok",
@@ -61,12 +82,16 @@ export function createAdminRoutes(pool: Pool, serviceCleanup: ServiceCleanup, cl
     router.get("/admin/cleanup/preview", async (req, res) => {
     try {
         const staleServices = await serviceCleanup.getStaleServices();
+        const staleDependencies = await serviceCleanup.getStaleDependencies();
         
         res.json({
         count: staleServices.length,
         services: staleServices,
+        dependencyCount: staleDependencies.length,
+        dependencies: staleDependencies,
         config: {
             ttlHours: cleanupConfig.ttlHours,
+            dependencyTtlHours: cleanupConfig.dependencyTtlHours,
             maxServicesPerRun: cleanupConfig.maxServicesPerRun
         }
         });
@@ -80,6 +105,13 @@ export function createAdminRoutes(pool: Pool, serviceCleanup: ServiceCleanup, cl
     router.post("/admin/cleanup/orphaned-dependencies", async (req, res) => {
     try {
         const deletedCount = await serviceCleanup.cleanupOrphanedDependencies();
+
+        await recordAudit(pool, req, {
+        action: 'run',
+        entityType: 'cleanup',
+        entityId: 'orphaned-dependencies',
+        after: { deletedCount }
+        });
         
         res.json({
         status: "ok",
@@ -95,17 +127,30 @@ export function createAdminRoutes(pool: Pool, serviceCleanup: ServiceCleanup, cl
       router.get("/admin/alertmanager/status", async (req, res) => {
     try {
       const serviceStats = await getServiceCreationStats(pool);
-      
+
+      // Alertmanager keys and when each was last used
+      const keys = await pool.query(`
+        SELECT id, name, namespaces, verification, key_prefix, last_used_at, created_at
+        FROM ingestion_keys
+        WHERE ingestion_type = 'alertmanager' AND revoked_at IS NULL
+        ORDER BY last_used_at DESC NULLS LAST, name
+      `);
+      const lastProcessed = keys.rows.find(key => key.last_used_at)?.last_used_at || null;
+
       res.json({
         webhook: {
-          enabled: cleanupConfig.enabled, // This should reference alertmanager config if available
-          endpoint: "/webhooks/alertmanager"
+          enabled: alertmanagerConfig.webhookEnabled,
+          endpoint: "/webhooks/alertmanager",
+          keyRequired: authConfig.enabled && authConfig.requireIngestionKeys
         },
         services: serviceStats,
         integration: {
           status: "active",
-          lastProcessed: null // Could track this in future
-        }
+          lastProcessed
+        },
+        keys: keys.rows,
+        // Requests and alerts rejected since startup
+        rejections: getIngestionRejections('alertmanager')
       });
     } catch (error) {
       req.log.error({ error }, 'Alertmanager status fetch failed');
@@ -188,15 +233,19 @@ export function createAdminRoutes(pool: Pool, serviceCleanup: ServiceCleanup, cl
 
   // Clean up old alert events (maintenance operation)
   router.post("/admin/incidents/cleanup", async (req, res) => {
+    const daysOld = req.body.days_old === undefined ? 90 : parseInt(req.body.days_old as string);
+    if (isNaN(daysOld) || daysOld < 1) {
+      return res.status(400).json({ error: "days_old must be a positive number of days" });
+    }
+
     try {
       const client = await pool.connect();
-      const daysOld = parseInt(req.body.days_old as string) || 90;
       
       try {
         await client.query('BEGIN');
         
         // Call the cleanup function
-        const result = await client.query('SELECT cleanup_old_alert_events()');
+        const result = await client.query('SELECT cleanup_old_alert_events($1)', [daysOld]);
         const deletedCount = result.rows[0].cleanup_old_alert_events;
         
         // Also clean up very old resolved incidents if requested
@@ -206,10 +255,17 @@ export function createAdminRoutes(pool: Pool, serviceCleanup: ServiceCleanup, cl
             WHERE status = 'resolved' 
               AND incident_end < NOW() - INTERVAL '${daysOld} days'
           `);
+
+          await recordAudit(client, req, {
+            action: 'run',
+            entityType: 'cleanup',
+            entityId: 'incidents',
+            after: { events_deleted: deletedCount, incidents_deleted: incidentResult.rowCount || 0, days_old: daysOld }
+          });
           
           await client.query('COMMIT');
           
-          res.json({
+          return res.json({
             status: "ok",
             message: "Cleanup completed successfully",
             events_deleted: deletedCount,
@@ -217,9 +273,16 @@ export function createAdminRoutes(pool: Pool, serviceCleanup: ServiceCleanup, cl
             cleanup_criteria: `older than ${daysOld} days`
           });
         } else {
+          await recordAudit(client, req, {
+            action: 'run',
+            entityType: 'cleanup',
+            entityId: 'incidents',
+            after: { events_deleted: deletedCount, days_old: daysOld }
+          });
+
           await client.query('COMMIT');
           
-          res.json({
+          return res.json({
             status: "ok", 
             message: "Event cleanup completed successfully",
             events_deleted: deletedCount,
@@ -236,7 +299,7 @@ export function createAdminRoutes(pool: Pool, serviceCleanup: ServiceCleanup, cl
       
     } catch (error) {
       req.log.error({ error }, 'Incident cleanup failed');
-      res.status(500).json({ error: "Failed to cleanup old incidents" });
+      return res.status(500).json({ error: "Failed to cleanup old incidents" });
     }
   });
 
@@ -0,0 +1,350 @@
+import { Router } from 'express';
+import { Pool, PoolClient } from 'pg';
+import { handleRouteError, handleClientError } from '../utils/errorHandler';
+import { validateGroupingPolicy, previewGrouping, GroupingRule, LABEL_FIELD_PREFIX } from '../utils/alertGrouping';
+import { actorName } from '../utils/auth';
+import { recordAudit } from '../utils/audit';
+
+const DEFAULT_PREVIEW_DAYS = 7;
+const MAX_PREVIEW_DAYS = 90;
+const MAX_PREVIEW_INCIDENTS = 10000;
+
+const EDITABLE_FIELDS = [
+  'name', 'description', 'enabled', 'priority', 'match_namespace', 'match_service',
+  'match_severity', 'match_labels', 'group_by'
+];
+
+const POLICY_COLUMNS = `
+  id, name, description, enabled, priority, match_namespace, match_service, match_severity,
+  match_labels, group_by, created_by, created_at, updated_at
+`;
+
+async function loadPolicy(client: PoolClient, id: number) {
+  const result = await client.query(`SELECT ${POLICY_COLUMNS} FROM alert_grouping_policies WHERE id = $1`, [id]);
+  return result.rows[0] || null;
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return (error as { code?: string })?.code === '23505';
+}
+
+function toRule(input: any): GroupingRule {
+  return {
+    match_namespace: input.match_namespace || null,
+    match_service: input.match_service || null,
+    match_severity: input.match_severity || null,
+    match_labels: input.match_labels || {},
+    group_by: input.group_by
+  };
+}
+
+export function createAlertGroupingRoutes(pool: Pool): Router {
+  const router = Router();
+
+  // All grouping policies in the order they are tried, with how many incidents each has produced
+  router.get("/alert-grouping-policies", async (req, res) => {
+    const client = await pool.connect();
+
+    try {
+      const result = await client.query(`
+        SELECT p.*,
+          COUNT(i.id)::int AS incident_count,
+          COUNT(i.id) FILTER (WHERE i.status = 'firing')::int AS firing_incidents
+        FROM alert_grouping_policies p
+        LEFT JOIN alert_incidents i ON i.grouping_policy_id = p.id
+        GROUP BY p.id
+        ORDER BY p.priority, p.id
+      `);
+
+      return res.json({
+        count: result.rows.length,
+        policies: result.rows
+      });
+
+    } catch (error) {
+      return handleRouteError(error, res, req.log, 'fetch alert grouping policies');
+    } finally {
+      client.release();
+    }
+  });
+
+  router.post("/alert-grouping-policies", async (req, res) => {
+    const validation = validateGroupingPolicy(req.body);
+    if (!validation.isValid) {
+      return res.status(400).json({ error: "Invalid grouping policy", details: validation.errors });
+    }
+
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const policy = req.body;
+      const result = await client.query(`
+        INSERT INTO alert_grouping_policies (
+          name, description, enabled, priority, match_namespace, match_service,
+          match_severity, match_labels, group_by, created_by
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+        RETURNING ${POLICY_COLUMNS}
+      `, [
+        policy.name.trim(),
+        policy.description || null,
+        policy.enabled ?? true,
+        policy.priority ?? 100,
+        policy.match_namespace || null,
+        policy.match_service || null,
+        policy.match_severity || null,
+        JSON.stringify(policy.match_labels || {}),
+        policy.group_by,
+        actorName(req)
+      ]);
+
+      await recordAudit(client, req, {
+        action: 'create',
+        entityType: 'alert_grouping_policy',
+        entityId: result.rows[0].id,
+        after: result.rows[0]
+      });
+
+      await client.query('COMMIT');
+
+      return res.status(201).json({
+        policy: result.rows[0],
+        warnings: validation.warnings
+      });
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      if (isUniqueViolation(error)) {
+        return handleClientError(res, `A grouping policy named '${req.body.name}' already exists`, 409);
+      }
+      return handleRouteError(error, res, req.log, 'create alert grouping policy');
+    } finally {
+      client.release();
+    }
+  });
+
+  // How past incidents would regroup under a candidate rule (nothing is stored)
+  router.post("/alert-grouping-policies/preview", async (req, res) => {
+    const validation = validateGroupingPolicy(req.body, false);
+    if (!validation.isValid) {
+      return res.status(400).json({ error: "Invalid grouping rule", details: validation.errors });
+    }
+
+    const parsedDays = parseInt(req.query.days as string);
+    const days = isNaN(parsedDays) || parsedDays <= 0 ? DEFAULT_PREVIEW_DAYS : Math.min(parsedDays, MAX_PREVIEW_DAYS);
+    const parsedLimit = parseInt(req.query.limit as string);
+    const limit = isNaN(parsedLimit) || parsedLimit <= 0 ? 20 : Math.min(parsedLimit, 200);
+
+    const client = await pool.connect();
+
+    try {
+      // Labels come from the incident, or for incidents recorded before labels were stored
+      // there, from the earliest event that carried them
+      const result = await client.query(`
+        SELECT
+          i.id, i.service_namespace, i.service_name, i.instance_id, i.severity, i.message,
+          i.incident_start, i.incident_end,
+          COALESCE(NULLIF(i.labels, '{}'::jsonb), (
+            SELECT e.event_data->'labels'
+            FROM alert_events e
+            WHERE e.incident_id = i.id AND e.event_data ? 'labels'
+            ORDER BY e.event_time, e.id
+            LIMIT 1
+          )) AS labels
+        FROM alert_incidents i
+        WHERE i.incident_start >= NOW() - make_interval(days => $1::int)
+        ORDER BY i.incident_start
+        LIMIT $2
+      `, [days, MAX_PREVIEW_INCIDENTS]);
+
+      const rule = toRule(req.body);
+      const preview = previewGrouping(result.rows, rule);
+      const reduction = preview.matched - preview.resultingIncidents;
+
+      const warnings = [...validation.warnings];
+      const usesLabels = rule.group_by.some(field => field === 'alertname' || field.startsWith(LABEL_FIELD_PREFIX)) ||
+        Object.keys(rule.match_labels).length > 0;
+      const withoutLabels = result.rows.filter(row => !row.labels).length;
+      if (usesLabels && withoutLabels > 0) {
+        warnings.push(`${withoutLabels} incidents have no recorded labels and are treated as having none`);
+      }
+      if (result.rows.length === MAX_PREVIEW_INCIDENTS) {
+        warnings.push(`Only the first ${MAX_PREVIEW_INCIDENTS} incidents in the window were considered`);
+      }
+
+      return res.json({
+        days,
+        rule,
+        summary: {
+          incidentsConsidered: result.rows.length,
+          matched: preview.matched,
+          resultingIncidents: preview.resultingIncidents,
+          reduction,
+          reductionPercent: preview.matched > 0 ? Math.round((reduction / preview.matched) * 1000) / 10 : 0,
+          mergedGroups: preview.groups.length
+        },
+        groups: preview.groups.slice(0, limit),
+        warnings
+      });
+
+    } catch (error) {
+      return handleRouteError(error, res, req.log, 'preview alert grouping', { days });
+    } finally {
+      client.release();
+    }
+  });
+
+  router.get("/alert-grouping-policies/:id", async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return handleClientError(res, "Invalid policy ID");
+    }
+
+    const client = await pool.connect();
+
+    try {
+      const policy = await loadPolicy(client, id);
+      if (!policy) {
+        return handleClientError(res, "Grouping policy not found", 404);
+      }
+
+      return res.json(policy);
+
+    } catch (error) {
+      return handleRouteError(error, res, req.log, 'fetch alert grouping policy', { id });
+    } finally {
+      client.release();
+    }
+  });
+
+  // Partial update - fields left out of the body keep their current value
+  router.put("/alert-grouping-policies/:id", async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return handleClientError(res, "Invalid policy ID");
+    }
+    if (!req.body || typeof req.body !== 'object' || Array.isArray(req.body)) {
+      return handleClientError(res, "Body must be an object");
+    }
+
+    const client = await pool.connect();
+    const merged: Record<string, any> = {};
+
+    try {
+      const existing = await loadPolicy(client, id);
+      if (!existing) {
+        return handleClientError(res, "Grouping policy not found", 404);
+      }
+
+      EDITABLE_FIELDS.forEach(field => {
+        merged[field] = req.body[field] !== undefined ? req.body[field] : existing[field];
+      });
+      const validation = validateGroupingPolicy(merged);
+      if (!validation.isValid) {
+        return res.status(400).json({ error: "Invalid grouping policy", details: validation.errors });
+      }
+
+      await client.query('BEGIN');
+
+      const result = await client.query(`
+        UPDATE alert_grouping_policies
+        SET name = $1,
+            description = $2,
+            enabled = $3,
+            priority = $4,
+            match_namespace = $5,
+            match_service = $6,
+            match_severity = $7,
+            match_labels = $8,
+            group_by = $9,
+            updated_at = NOW()
+        WHERE id = $10
+        RETURNING ${POLICY_COLUMNS}
+      `, [
+        merged.name.trim(),
+        merged.description || null,
+        merged.enabled,
+        merged.priority,
+        merged.match_namespace || null,
+        merged.match_service || null,
+        merged.match_severity || null,
+        JSON.stringify(merged.match_labels || {}),
+        merged.group_by,
+        id
+      ]);
+
+      await recordAudit(client, req, {
+        action: 'update',
+        entityType: 'alert_grouping_policy',
+        entityId: id,
+        before: existing,
+        after: result.rows[0]
+      });
+
+      await client.query('COMMIT');
+
+      req.log.info({ policyId: id, name: merged.name }, 'Alert grouping policy updated');
+
+      return res.json({
+        policy: result.rows[0],
+        warnings: validation.warnings
+      });
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      if (isUniqueViolation(error)) {
+        return handleClientError(res, `A grouping policy named '${merged.name.trim()}' already exists`, 409);
+      }
+      return handleRouteError(error, res, req.log, 'update alert grouping policy', { id });
+    } finally {
+      client.release();
+    }
+  });
+
+  // Existing incidents keep their fingerprint; new alerts fall back to the next matching policy or the default
+  router.delete("/alert-grouping-policies/:id", async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return handleClientError(res, "Invalid policy ID");
+    }
+
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(
+        `DELETE FROM alert_grouping_policies WHERE id = $1 RETURNING ${POLICY_COLUMNS}`,
+        [id]
+      );
+
+      if (result.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return handleClientError(res, "Grouping policy not found", 404);
+      }
+
+      await recordAudit(client, req, {
+        action: 'delete',
+        entityType: 'alert_grouping_policy',
+        entityId: id,
+        before: result.rows[0]
+      });
+
+      await client.query('COMMIT');
+
+      req.log.info({ policyId: id, name: result.rows[0].name }, 'Alert grouping policy deleted');
+
+      return res.json({ status: "ok", deleted: { id, name: result.rows[0].name } });
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      return handleRouteError(error, res, req.log, 'delete alert grouping policy', { id });
+    } finally {
+      client.release();
+    }
+  });
+
+  return router;
+}
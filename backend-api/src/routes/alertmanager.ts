@@ -4,6 +4,7 @@ import { AlertmanagerConfig } from '../config/alertmanager';
 import { parseAlertmanagerWebhook, AlertmanagerWebhook, ParsedAlert } from '../utils/alertmanager';
 import { ensureServiceExists } from '../utils/serviceAutoCreate';
 import { processAlert, summarizeAlertProcessing } from '../utils/alertProcessing';
+import { canIngestNamespace, namespaceNotAllowedMessage, recordIngestionRejection } from '../utils/ingestionKeys';
 
 export function createAlertmanagerRoutes(pool: Pool, config: AlertmanagerConfig): Router {
   const router = Router();
@@ -48,8 +49,30 @@ export function createAlertmanagerRoutes(pool: Pool, config: AlertmanagerConfig)
         });
       }
 
+      // Alerts for namespaces outside the ingestion key's scope are dropped, not processed
+      const acceptedAlerts = parsedAlerts.filter(alert => canIngestNamespace(req.ingestionKey, alert.serviceNamespace));
+      const rejectedAlerts = parsedAlerts.length - acceptedAlerts.length;
+
+      if (rejectedAlerts > 0) {
+        recordIngestionRejection('alertmanager', 'namespace_not_allowed', rejectedAlerts);
+        req.log.warn({
+          rejectedAlerts,
+          namespaces: Array.from(new Set(
+            parsedAlerts.filter(alert => !acceptedAlerts.includes(alert)).map(alert => alert.serviceNamespace)
+          ))
+        }, 'Alerts outside the ingestion key namespaces dropped');
+      }
+
+      if (acceptedAlerts.length === 0) {
+        return res.status(403).json({
+          error: namespaceNotAllowedMessage(parsedAlerts[0].serviceNamespace),
+          totalReceived: alerts.length,
+          rejected: rejectedAlerts
+        });
+      }
+
       req.log.debug('Validated alerts ready for processing');
-      parsedAlerts.forEach((alert: ParsedAlert) => {
+      acceptedAlerts.forEach((alert: ParsedAlert) => {
         req.log.debug({
           serviceNamespace: alert.serviceNamespace,
           serviceName: alert.serviceName,
@@ -69,17 +92,10 @@ export function createAlertmanagerRoutes(pool: Pool, config: AlertmanagerConfig)
         await client.query('BEGIN');
         
         // Process each alert: ensure service exists, then create/update incident
-        for (const alert of parsedAlerts) {
+        for (const alert of acceptedAlerts) {
           try {
             // Step 1: Ensure service exists (same as before)
-            const originalAlert = alerts.find(a => 
-              a.labels.service_name === alert.serviceName || 
-              a.labels.service === alert.serviceName || 
-              a.labels.job === alert.serviceName
-            );
-            const alertLabels = originalAlert?.labels || {};
-
-            const serviceResult = await ensureServiceExists(client, alert, alertLabels, req.log);
+            const serviceResult = await ensureServiceExists(client, alert, alert.labels, req.log);
             if (serviceResult.created) {
               servicesCreated++;
               req.log.info({
@@ -141,6 +157,7 @@ export function createAlertmanagerRoutes(pool: Pool, config: AlertmanagerConfig)
           incidentsUpdated: alertSummary.updated,
           incidentsResolved: alertSummary.resolved,
           incidentsReactivated: alertSummary.reactivated,
+          incidentsSilenced: alertSummary.silenced,
           totalIncidents: alertSummary.totalIncidents,
           totalEvents: alertSummary.totalEvents,
           processingErrors
@@ -160,7 +177,7 @@ export function createAlertmanagerRoutes(pool: Pool, config: AlertmanagerConfig)
 
       const responseData = { 
         status: "ok", 
-        message: `Successfully processed ${parsedAlerts.length} alerts`,
+        message: `Successfully processed ${acceptedAlerts.length} alerts`,
         parsed: parsedAlerts.length,
         servicesCreated,
         servicesUpdated,
@@ -170,11 +187,17 @@ export function createAlertmanagerRoutes(pool: Pool, config: AlertmanagerConfig)
           updated: alertSummary.updated,
           resolved: alertSummary.resolved,
           reactivated: alertSummary.reactivated,
+          silenced: alertSummary.silenced,
           totalIncidents: alertSummary.totalIncidents,
           totalEvents: alertSummary.totalEvents
         }
       };
 
+      if (rejectedAlerts > 0) {
+        (responseData as any).rejected = rejectedAlerts;
+        (responseData as any).message += ` (${rejectedAlerts} rejected - namespace not allowed for this key)`;
+      }
+
       // Add processing errors to response if any occurred
       if (processingErrors > 0) {
         (responseData as any).processingErrors = processingErrors;
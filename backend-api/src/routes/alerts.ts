@@ -1,7 +1,11 @@
 import { Router } from 'express';
-import { Pool } from 'pg';
+import { Pool, PoolClient } from 'pg';
 import { processManualAlert, resolveManualAlert, acknowledgeManualAlert } from '../utils/alertProcessing';
 import { handleRouteError, handleClientError } from '../utils/errorHandler';
+import { notSilencedCondition } from '../utils/alertSilences';
+import { actorName } from '../utils/auth';
+import { recordAudit } from '../utils/audit';
+import { canIngestNamespace, namespaceNotAllowedMessage, recordIngestionRejection } from '../utils/ingestionKeys';
 
 type Alert = {
   service_namespace: string;
@@ -13,6 +17,66 @@ type Alert = {
   external_alert_id?: string;
 };
 
+// Incident fields recorded in the audit log around acknowledgements and resolutions
+async function incidentAuditState(client: PoolClient, incidentId: number) {
+  const result = await client.query(`
+    SELECT id, service_namespace, service_name, severity, message, status,
+           acknowledged_at, acknowledged_by, incident_end, resolved_by
+    FROM alert_incidents
+    WHERE id = $1
+  `, [incidentId]);
+  return result.rows[0] || null;
+}
+
+const TREND_GROUPS = ['namespace', 'team'];
+const TREND_INTERVALS = ['day', 'week'];
+
+type TrendPoint = {
+  bucket: string;
+  incidents: number;
+  acknowledged: number;
+  resolved: number;
+  mtta_minutes: number | null;
+  mttr_minutes: number | null;
+};
+
+// Running totals for one namespace or team; MTTA/MTTR are summed weighted by their counts
+type TrendGroup = {
+  group: string;
+  incidents: number;
+  acknowledged: number;
+  resolved: number;
+  mttaTotal: number;
+  mttrTotal: number;
+  points: TrendPoint[];
+};
+
+/**
+ * startDate/endDate from the query, or the last `hours` (defaultHours when missing) up to now
+ */
+function parseTimeRange(query: any, defaultHours: number): { startDate: Date; endDate: Date; error?: string } {
+  if (query.startDate && query.endDate) {
+    const startDate = new Date(query.startDate as string);
+    const endDate = new Date(query.endDate as string);
+    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+      return { startDate, endDate, error: "Invalid start or end date format" };
+    }
+    if (startDate >= endDate) {
+      return { startDate, endDate, error: "Start date must be before end date" };
+    }
+    return { startDate, endDate };
+  }
+
+  const hours = parseInt(query.hours as string) || defaultHours;
+  const endDate = new Date();
+  return { startDate: new Date(endDate.getTime() - hours * 60 * 60 * 1000), endDate };
+}
+
+// Minutes from a pg numeric, rounded to one decimal
+function toMinutes(value: string | null): number | null {
+  return value === null ? null : Math.round(parseFloat(value) * 10) / 10;
+}
+
 export function createAlertsRoutes(pool: Pool): Router {
   const router = Router();
 
@@ -27,7 +91,19 @@ export function createAlertsRoutes(pool: Pool): Router {
         return handleClientError(res, "Invalid incident ID");
       }
       
-      const result = await resolveManualAlert(client, incidentId, req.log);
+      await client.query('BEGIN');
+
+      const before = await incidentAuditState(client, incidentId);
+      const result = await resolveManualAlert(client, incidentId, actorName(req), req.log);
+      await recordAudit(client, req, {
+        action: 'resolve',
+        entityType: 'incident',
+        entityId: incidentId,
+        before,
+        after: await incidentAuditState(client, incidentId)
+      });
+
+      await client.query('COMMIT');
       
       res.json({ 
         status: "ok",
@@ -39,6 +115,7 @@ export function createAlertsRoutes(pool: Pool): Router {
       });
       
     } catch (error) {
+      await client.query('ROLLBACK');
       const incidentId = parseInt(req.params.incidentId);
       handleRouteError(error, res, req.log, 'resolve alert', { incidentId });
     } finally {
@@ -57,7 +134,19 @@ export function createAlertsRoutes(pool: Pool): Router {
         return handleClientError(res, "Invalid incident ID");
       }
       
-      const result = await acknowledgeManualAlert(client, incidentId, req.log);
+      await client.query('BEGIN');
+
+      const before = await incidentAuditState(client, incidentId);
+      const result = await acknowledgeManualAlert(client, incidentId, actorName(req), req.log);
+      await recordAudit(client, req, {
+        action: 'acknowledge',
+        entityType: 'incident',
+        entityId: incidentId,
+        before,
+        after: await incidentAuditState(client, incidentId)
+      });
+
+      await client.query('COMMIT');
       
       res.json({ 
         status: "ok",
@@ -68,6 +157,7 @@ export function createAlertsRoutes(pool: Pool): Router {
       });
       
     } catch (error) {
+      await client.query('ROLLBACK');
       const incidentId = parseInt(req.params.incidentId);
       handleRouteError(error, res, req.log, 'acknowledge alert', { incidentId });
     } finally {
@@ -86,6 +176,11 @@ export function createAlertsRoutes(pool: Pool): Router {
       if (!alertData.service_namespace || !alertData.service_name || !alertData.message) {
         return handleClientError(res, "Missing required fields: service_namespace, service_name, and message are required");
       }
+
+      if (!canIngestNamespace(req.ingestionKey, alertData.service_namespace)) {
+        recordIngestionRejection('alerts', 'namespace_not_allowed');
+        return handleClientError(res, namespaceNotAllowedMessage(alertData.service_namespace), 403);
+      }
       
       await client.query('BEGIN');
       
@@ -108,7 +203,8 @@ export function createAlertsRoutes(pool: Pool): Router {
         incidentId: result.incidentId,
         eventId: result.eventId,
         action: result.action,
-        isNewIncident: result.isNewIncident
+        isNewIncident: result.isNewIncident,
+        silenced: !!result.silenced
       });
       
     } catch (error) {
@@ -133,6 +229,7 @@ export function createAlertsRoutes(pool: Pool): Router {
       if (req.query.namespaces) filters.namespaces = (req.query.namespaces as string).split(',');
       if (req.query.severities) filters.severities = (req.query.severities as string).split(',');
       if (req.query.search) filters.search = req.query.search as string;
+      const includeSilenced = req.query.includeSilenced === 'true';
 
       // Start building the query
       let alertQuery = `
@@ -148,10 +245,21 @@ export function createAlertsRoutes(pool: Pool): Router {
           COALESCE(i.incident_end, i.updated_at) as last_seen,
           i.created_at,
           i.incident_end as resolved_at,
+          i.resolved_by,
           i.alert_source,
           i.external_alert_id,
           i.acknowledged_at,
           i.acknowledged_by,
+          i.upstream_fingerprint,
+          i.labels,
+          i.annotations,
+          i.generator_url,
+          i.runbook_url,
+          i.silence_id,
+          i.escalation_level,
+          i.escalated_at,
+          (SELECT s.team FROM services s
+           WHERE s.service_namespace = i.service_namespace AND s.service_name = i.service_name) as team,
           -- Calculate count from events
           (SELECT COUNT(*) FROM alert_events e WHERE e.incident_id = i.id AND e.event_type = 'fired') as count
         FROM alert_incidents i
@@ -161,11 +269,27 @@ export function createAlertsRoutes(pool: Pool): Router {
       let params: any[] = [];
       let paramIndex = 1;
 
-      // Add status filter (only active incidents by default)
-      whereConditions.push(`i.status = $${paramIndex}`);
-      params.push('firing');
+      // Add status filter (only active incidents by default, or those firing at `at` when replaying)
+      const at = req.query.at ? new Date(req.query.at as string) : null;
+      if (at && isNaN(at.getTime())) {
+        res.status(400).json({ error: "Invalid at timestamp" });
+        return;
+      }
+
+      if (at && at.getTime() < Date.now()) {
+        whereConditions.push(`i.incident_start <= $${paramIndex} AND (i.incident_end IS NULL OR i.incident_end > $${paramIndex})`);
+        params.push(at);
+      } else {
+        whereConditions.push(`i.status = $${paramIndex}`);
+        params.push('firing');
+      }
       paramIndex++;
 
+      // Incidents muted by an active silence are hidden unless asked for
+      if (!includeSilenced) {
+        whereConditions.push(notSilencedCondition('i'));
+      }
+
       // Handle service filtering (tags, namespaces, and search)
       if (filters.tags || filters.namespaces || filters.search) {
         let serviceSubquery = `EXISTS (
@@ -240,10 +364,20 @@ export function createAlertsRoutes(pool: Pool): Router {
         last_seen: row.last_seen,
         created_at: row.created_at,
         resolved_at: row.resolved_at,
+        resolved_by: row.resolved_by,
         alert_source: row.alert_source,
         external_alert_id: row.external_alert_id,
         acknowledged_at: row.acknowledged_at,
-        acknowledged_by: row.acknowledged_by
+        acknowledged_by: row.acknowledged_by,
+        upstream_fingerprint: row.upstream_fingerprint,
+        labels: row.labels || {},
+        annotations: row.annotations || {},
+        generator_url: row.generator_url,
+        runbook_url: row.runbook_url,
+        silence_id: row.silence_id,
+        escalation_level: row.escalation_level,
+        escalated_at: row.escalated_at,
+        team: row.team
       }));
       
       req.log.info({ alertCount: alerts.length }, 'Returning active incidents');
@@ -448,27 +582,10 @@ export function createAlertsRoutes(pool: Pool): Router {
     const client = await pool.connect();
     
     try {
-      // Support both old 'hours' parameter and new 'startDate'/'endDate' parameters
-      let startDate: Date;
-      let endDate: Date;
-      
-      if (req.query.startDate && req.query.endDate) {
-        startDate = new Date(req.query.startDate as string);
-        endDate = new Date(req.query.endDate as string);
-        
-        // Validate dates
-        if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
-          return res.status(400).json({ error: "Invalid start or end date format" });
-        }
-        
-        if (startDate >= endDate) {
-          return res.status(400).json({ error: "Start date must be before end date" });
-        }
-      } else {
-        // Fall back to hours-based logic for backward compatibility
-        const hours = parseInt(req.query.hours as string) || 24;
-        endDate = new Date();
-        startDate = new Date(Date.now() - (hours * 60 * 60 * 1000));
+      // startDate/endDate, or the older 'hours' parameter (default 24)
+      const { startDate, endDate, error: rangeError } = parseTimeRange(req.query, 24);
+      if (rangeError) {
+        return handleClientError(res, rangeError);
       }
       
       const cutoff = startDate; // Maintain existing variable name for compatibility
@@ -697,10 +814,14 @@ export function createAlertsRoutes(pool: Pool): Router {
     const client = await pool.connect();
     
     try {
-      const hours = parseInt(req.query.hours as string) || 168; // Default 7 days
-      const cutoff = new Date(Date.now() - (hours * 60 * 60 * 1000));
+      // Default 7 days
+      const { startDate, endDate, error: rangeError } = parseTimeRange(req.query, 168);
+      if (rangeError) {
+        return handleClientError(res, rangeError);
+      }
+      const hours = Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60));
       
-      req.log.debug({ hours }, 'Analyzing patterns');
+      req.log.debug({ startDate, endDate }, 'Analyzing patterns');
       
       // Find recurring alert patterns
       const patternsResult = await client.query(`
@@ -723,6 +844,7 @@ export function createAlertsRoutes(pool: Pool): Router {
             )) / 3600 as hours_between_incidents
           FROM alert_incidents
           WHERE incident_start >= $1
+            AND incident_start <= $2
             AND status = 'resolved'
         ),
         pattern_analysis AS (
@@ -764,9 +886,9 @@ export function createAlertsRoutes(pool: Pool): Router {
             WHEN 'recurring' THEN 3 
           END,
           incident_count DESC
-      `, [cutoff]);
+      `, [startDate, endDate]);
 
-      res.json({
+      return res.json({
         time_range_hours: hours,
         patterns_found: patternsResult.rows.length,
         patterns: patternsResult.rows.map(row => ({
@@ -784,7 +906,173 @@ export function createAlertsRoutes(pool: Pool): Router {
       
     } catch (error) {
       req.log.error({ error }, 'Pattern analysis error');
-      res.status(500).json({ error: "Failed to analyze patterns" });
+      return res.status(500).json({ error: "Failed to analyze patterns" });
+    } finally {
+      client.release();
+    }
+  });
+
+  // MTTA/MTTR per day or week for each namespace or team (busiest groups first). MTTA counts
+  // unacknowledged incidents up to now, like /alerts/analytics.
+  router.get("/alerts/analytics/trends", async (req, res) => {
+    const { startDate, endDate, error: rangeError } = parseTimeRange(req.query, 30 * 24);
+    if (rangeError) {
+      return handleClientError(res, rangeError);
+    }
+
+    const groupBy = (req.query.groupBy as string) || 'namespace';
+    if (!TREND_GROUPS.includes(groupBy)) {
+      return handleClientError(res, `Invalid groupBy - expected one of ${TREND_GROUPS.join(', ')}`);
+    }
+
+    const rangeDays = (endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24);
+    const interval = (req.query.interval as string) || (rangeDays > 62 ? 'week' : 'day');
+    if (!TREND_INTERVALS.includes(interval)) {
+      return handleClientError(res, `Invalid interval - expected one of ${TREND_INTERVALS.join(', ')}`);
+    }
+
+    const requestedLimit = parseInt(req.query.limit as string);
+    const limit = isNaN(requestedLimit) || requestedLimit <= 0 ? 8 : Math.min(requestedLimit, 50);
+
+    const groupColumn = groupBy === 'team' ? "COALESCE(s.team, 'unknown')" : 'i.service_namespace';
+
+    const client = await pool.connect();
+
+    try {
+      const result = await client.query(`
+        SELECT
+          ${groupColumn} AS group_name,
+          DATE_TRUNC($3, i.incident_start) AS bucket,
+          COUNT(*) AS incidents,
+          COUNT(*) FILTER (WHERE i.acknowledged_at IS NOT NULL) AS acknowledged,
+          COUNT(*) FILTER (WHERE i.status = 'resolved' AND i.incident_end IS NOT NULL) AS resolved,
+          AVG(EXTRACT(EPOCH FROM (COALESCE(i.acknowledged_at, NOW()) - i.incident_start)) / 60) AS mtta_minutes,
+          AVG(EXTRACT(EPOCH FROM (i.incident_end - i.incident_start)) / 60)
+            FILTER (WHERE i.status = 'resolved' AND i.incident_end IS NOT NULL) AS mttr_minutes
+        FROM alert_incidents i
+        LEFT JOIN services s ON s.service_namespace = i.service_namespace AND s.service_name = i.service_name
+        WHERE i.incident_start >= $1 AND i.incident_start <= $2
+        GROUP BY 1, 2
+        ORDER BY 2
+      `, [startDate, endDate, interval]);
+
+      const groups = new Map<string, TrendGroup>();
+      const buckets = new Set<string>();
+
+      for (const row of result.rows) {
+        const bucket = new Date(row.bucket).toISOString();
+        const point: TrendPoint = {
+          bucket,
+          incidents: parseInt(row.incidents),
+          acknowledged: parseInt(row.acknowledged),
+          resolved: parseInt(row.resolved),
+          mtta_minutes: toMinutes(row.mtta_minutes),
+          mttr_minutes: toMinutes(row.mttr_minutes)
+        };
+        buckets.add(bucket);
+
+        const group: TrendGroup = groups.get(row.group_name) || {
+          group: row.group_name,
+          incidents: 0,
+          acknowledged: 0,
+          resolved: 0,
+          mttaTotal: 0,
+          mttrTotal: 0,
+          points: []
+        };
+        group.incidents += point.incidents;
+        group.acknowledged += point.acknowledged;
+        group.resolved += point.resolved;
+        group.mttaTotal += (point.mtta_minutes || 0) * point.incidents;
+        group.mttrTotal += (point.mttr_minutes || 0) * point.resolved;
+        group.points.push(point);
+        groups.set(row.group_name, group);
+      }
+
+      const ranked = Array.from(groups.values()).sort((a, b) => b.incidents - a.incidents);
+
+      return res.json({
+        start_date: startDate,
+        end_date: endDate,
+        group_by: groupBy,
+        interval,
+        buckets: Array.from(buckets).sort(),
+        groups: ranked.slice(0, limit).map(({ mttaTotal, mttrTotal, ...group }) => ({
+          ...group,
+          mtta_minutes: group.incidents > 0 ? Math.round((mttaTotal / group.incidents) * 10) / 10 : null,
+          mttr_minutes: group.resolved > 0 ? Math.round((mttrTotal / group.resolved) * 10) / 10 : null
+        })),
+        other_groups: Math.max(ranked.length - limit, 0)
+      });
+
+    } catch (error) {
+      return handleRouteError(error, res, req.log, 'fetch analytics trends', { groupBy, interval });
+    } finally {
+      client.release();
+    }
+  });
+
+  // Fingerprints that opened the most incidents, with how many were acknowledged and how long
+  // they lasted - alerts that fire often and are rarely acted on are candidates for tuning
+  router.get("/alerts/analytics/fingerprints", async (req, res) => {
+    const { startDate, endDate, error: rangeError } = parseTimeRange(req.query, 7 * 24);
+    if (rangeError) {
+      return handleClientError(res, rangeError);
+    }
+
+    const requestedLimit = parseInt(req.query.limit as string);
+    const limit = isNaN(requestedLimit) || requestedLimit <= 0 ? 10 : Math.min(requestedLimit, 100);
+
+    const client = await pool.connect();
+
+    try {
+      const result = await client.query(`
+        SELECT
+          alert_fingerprint,
+          service_namespace,
+          service_name,
+          severity,
+          (ARRAY_AGG(message ORDER BY incident_start DESC))[1] AS message,
+          COUNT(*) AS incidents,
+          COUNT(*) FILTER (WHERE acknowledged_at IS NOT NULL) AS acknowledged,
+          COUNT(*) FILTER (WHERE status = 'firing') AS firing,
+          AVG(EXTRACT(EPOCH FROM (incident_end - incident_start)) / 60)
+            FILTER (WHERE status = 'resolved' AND incident_end IS NOT NULL) AS avg_duration_minutes,
+          MAX(incident_start) AS last_incident,
+          SUM(COUNT(*)) OVER () AS total_incidents
+        FROM alert_incidents
+        WHERE incident_start >= $1 AND incident_start <= $2
+        GROUP BY alert_fingerprint, service_namespace, service_name, severity
+        ORDER BY incidents DESC, last_incident DESC
+        LIMIT $3
+      `, [startDate, endDate, limit]);
+
+      return res.json({
+        start_date: startDate,
+        end_date: endDate,
+        fingerprints: result.rows.map(row => {
+          const incidents = parseInt(row.incidents);
+          const acknowledged = parseInt(row.acknowledged);
+          return {
+            alert_fingerprint: row.alert_fingerprint,
+            service: `${row.service_namespace}::${row.service_name}`,
+            service_namespace: row.service_namespace,
+            service_name: row.service_name,
+            severity: row.severity,
+            message: row.message.substring(0, 200) + (row.message.length > 200 ? '...' : ''),
+            incidents,
+            acknowledged,
+            firing: parseInt(row.firing),
+            acknowledgment_rate: Math.round((acknowledged / incidents) * 100),
+            share_percent: Math.round((incidents / parseInt(row.total_incidents)) * 1000) / 10,
+            avg_duration_minutes: toMinutes(row.avg_duration_minutes),
+            last_incident: row.last_incident
+          };
+        })
+      });
+
+    } catch (error) {
+      return handleRouteError(error, res, req.log, 'fetch noisy fingerprints');
     } finally {
       client.release();
     }
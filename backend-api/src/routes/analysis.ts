@@ -0,0 +1,372 @@
+import { Router } from 'express';
+import { Pool } from 'pg';
+import { handleRouteError } from '../utils/errorHandler';
+import { parseServiceKey, reachDownstream } from '../utils/graphTraversal';
+import { findStronglyConnectedComponents, LintEdge } from '../utils/topologyLint';
+import { notSilencedCondition } from '../utils/alertSilences';
+
+// How far downstream firing services are followed when looking for a shared cause
+const ROOT_CAUSE_DEPTH = 6;
+const DEFAULT_CANDIDATE_LIMIT = 5;
+
+// Fan-in/fan-out above which a service is flagged as a likely god-service or hub
+const DEFAULT_FAN_IN_THRESHOLD = 10;
+const DEFAULT_FAN_OUT_THRESHOLD = 10;
+
+const SEVERITY_RANK: Record<string, number> = { fatal: 1, critical: 2, warning: 3, none: 4 };
+const SEVERITY_POINTS: Record<string, number> = { fatal: 15, critical: 10, warning: 5, none: 0 };
+
+interface FiringService {
+  service: string;
+  incidentCount: number;
+  highestSeverity: string;
+  earliestStart: Date;
+}
+
+/**
+ * Map a candidate score onto a coarse confidence label
+ */
+function toConfidence(score: number): 'high' | 'medium' | 'low' {
+  if (score >= 70) return 'high';
+  if (score >= 40) return 'medium';
+  return 'low';
+}
+
+export function createAnalysisRoutes(pool: Pool): Router {
+  const router = Router();
+
+  // Rank likely root causes of the currently firing incidents using the dependency graph
+  router.get('/analysis/root-cause', async (req, res) => {
+    const parsedLimit = parseInt(req.query.limit as string);
+    const limit = isNaN(parsedLimit) || parsedLimit <= 0 ? DEFAULT_CANDIDATE_LIMIT : Math.min(parsedLimit, 50);
+    const namespaces = req.query.namespaces ? (req.query.namespaces as string).split(',') : null;
+
+    const client = await pool.connect();
+
+    try {
+      const params: any[] = [];
+      let namespaceCondition = '';
+      if (namespaces) {
+        params.push(namespaces);
+        namespaceCondition = `AND i.service_namespace = ANY($${params.length})`;
+      }
+
+      const incidentsResult = await client.query(`
+        SELECT
+          i.service_namespace || '::' || i.service_name as service,
+          i.severity,
+          COUNT(*) as incident_count,
+          MIN(i.incident_start) as earliest_start
+        FROM alert_incidents i
+        WHERE i.status = 'firing' AND ${notSilencedCondition('i')} ${namespaceCondition}
+        GROUP BY i.service_namespace, i.service_name, i.severity
+      `, params);
+
+      const firing = new Map<string, FiringService>();
+      incidentsResult.rows.forEach((row: any) => {
+        const earliestStart = new Date(row.earliest_start);
+        const existing = firing.get(row.service);
+        if (!existing) {
+          firing.set(row.service, {
+            service: row.service,
+            incidentCount: parseInt(row.incident_count),
+            highestSeverity: row.severity,
+            earliestStart
+          });
+          return;
+        }
+        existing.incidentCount += parseInt(row.incident_count);
+        if (SEVERITY_RANK[row.severity] < SEVERITY_RANK[existing.highestSeverity]) {
+          existing.highestSeverity = row.severity;
+        }
+        if (earliestStart < existing.earliestStart) {
+          existing.earliestStart = earliestStart;
+        }
+      });
+
+      const firingIncidents = Array.from(firing.values()).reduce((sum, f) => sum + f.incidentCount, 0);
+
+      if (firing.size === 0) {
+        return res.json({
+          generatedAt: new Date().toISOString(),
+          firingServices: 0,
+          firingIncidents: 0,
+          candidates: []
+        });
+      }
+
+      const origins = Array.from(firing.keys())
+        .map(key => parseServiceKey(key))
+        .filter((key): key is NonNullable<typeof key> => key !== null);
+      const reach = await reachDownstream(client, origins, ROOT_CAUSE_DEPTH);
+
+      // For every reached service: which firing services sit upstream of it
+      const firingUpstreamOf = new Map<string, Set<string>>();
+      // For every firing service: which firing services sit downstream of it
+      const firingDownstreamOf = new Map<string, Set<string>>();
+      reach.forEach(({ origin, service }) => {
+        if (!firingUpstreamOf.has(service)) firingUpstreamOf.set(service, new Set());
+        firingUpstreamOf.get(service)!.add(origin);
+
+        if (firing.has(service)) {
+          if (!firingDownstreamOf.has(origin)) firingDownstreamOf.set(origin, new Set());
+          firingDownstreamOf.get(origin)!.add(service);
+        }
+      });
+
+      // Candidates: every firing service, plus quiet services that several firing services depend on
+      const candidateKeys = new Set<string>(firing.keys());
+      firingUpstreamOf.forEach((upstream, service) => {
+        if (!firing.has(service) && upstream.size >= 2) {
+          candidateKeys.add(service);
+        }
+      });
+
+      const firingStarts = Array.from(firing.values()).map(f => f.earliestStart.getTime());
+      const firstStart = Math.min(...firingStarts);
+      const startSpan = Math.max(...firingStarts) - firstStart;
+
+      const candidates = Array.from(candidateKeys).map(service => {
+        const incidents = firing.get(service);
+        const explains = Array.from(firingUpstreamOf.get(service) || []).sort();
+        const firingDownstream = Array.from(firingDownstreamOf.get(service) || []).sort();
+        const otherFiring = firing.size - (incidents ? 1 : 0);
+        const reasons: string[] = [];
+        let score = 0;
+
+        // Share of the other firing services that depend on this one
+        if (otherFiring > 0 && explains.length > 0) {
+          score += Math.round(40 * explains.length / otherFiring);
+          reasons.push(`${explains.length} of ${otherFiring} other firing service${otherFiring === 1 ? '' : 's'} depend on it downstream`);
+        }
+
+        if (incidents) {
+          // Deepest firing node: nothing it calls is firing, so its alerts are not explained by a dependency
+          if (firingDownstream.length === 0) {
+            score += 25;
+            reasons.push('No firing dependencies downstream - deepest firing service on its path');
+          } else {
+            score -= 10 * Math.min(firingDownstream.length, 2);
+            reasons.push(`Calls ${firingDownstream.length} firing service${firingDownstream.length === 1 ? '' : 's'} - likely a symptom`);
+          }
+
+          // Earliest incidents score highest
+          const startedAt = incidents.earliestStart.getTime();
+          const earliness = startSpan === 0 ? 1 : 1 - (startedAt - firstStart) / startSpan;
+          score += Math.round(20 * earliness);
+          if (startedAt === firstStart) {
+            reasons.push('Earliest incident_start among firing services');
+          } else {
+            reasons.push(`Started firing ${Math.round((startedAt - firstStart) / 60000)} min after the first incident`);
+          }
+
+          score += SEVERITY_POINTS[incidents.highestSeverity] || 0;
+        } else {
+          // A quiet shared dependency can still be the cause if it is not monitored
+          score += 10;
+          reasons.push(`Shared dependency of ${explains.length} firing services but not firing itself - check whether it is monitored`);
+        }
+
+        score = Math.max(0, Math.min(100, score));
+        const key = parseServiceKey(service);
+
+        return {
+          service,
+          namespace: key?.service_namespace || service,
+          name: key?.service_name || service,
+          firing: !!incidents,
+          score,
+          confidence: toConfidence(score),
+          incidentCount: incidents?.incidentCount || 0,
+          highestSeverity: incidents?.highestSeverity || null,
+          earliestIncidentStart: incidents ? incidents.earliestStart.toISOString() : null,
+          explains,
+          firingDownstream,
+          reasons
+        };
+      });
+
+      candidates.sort((a, b) =>
+        b.score - a.score
+        || b.explains.length - a.explains.length
+        || (a.earliestIncidentStart || '').localeCompare(b.earliestIncidentStart || '')
+        || a.service.localeCompare(b.service)
+      );
+
+      const ranked = candidates.slice(0, limit);
+
+      // Owning teams for the returned candidates
+      const teamsResult = await client.query(`
+        SELECT service_namespace || '::' || service_name as service, team
+        FROM services
+        WHERE (service_namespace || '::' || service_name) = ANY($1::text[])
+      `, [ranked.map(c => c.service)]);
+      const teams = new Map<string, string | null>(teamsResult.rows.map((row: any) => [row.service, row.team]));
+
+      res.json({
+        generatedAt: new Date().toISOString(),
+        firingServices: firing.size,
+        firingIncidents,
+        candidates: ranked.map(candidate => ({ ...candidate, team: teams.get(candidate.service) || null }))
+      });
+    } catch (error) {
+      return handleRouteError(error, res, req.log, 'rank root cause candidates', { namespaces });
+    } finally {
+      client.release();
+    }
+  });
+
+  // Topology lint: cycles, cross-namespace cycles, high fan-in/fan-out and undeclared namespace dependencies
+  router.get('/analysis/topology-lint', async (req, res) => {
+    const parsedFanIn = parseInt(req.query.fanInThreshold as string);
+    const parsedFanOut = parseInt(req.query.fanOutThreshold as string);
+    const fanInThreshold = isNaN(parsedFanIn) || parsedFanIn <= 0 ? DEFAULT_FAN_IN_THRESHOLD : parsedFanIn;
+    const fanOutThreshold = isNaN(parsedFanOut) || parsedFanOut <= 0 ? DEFAULT_FAN_OUT_THRESHOLD : parsedFanOut;
+
+    const client = await pool.connect();
+
+    try {
+      const servicesResult = await client.query(`
+        SELECT service_namespace, service_name, team FROM services
+      `);
+
+      // Self-calls are ignored: recursion inside one service is not a topology problem
+      const dependenciesResult = await client.query(`
+        SELECT
+          from_service_namespace, from_service_name,
+          to_service_namespace, to_service_name
+        FROM service_dependencies
+        WHERE NOT (from_service_namespace = to_service_namespace AND from_service_name = to_service_name)
+      `);
+
+      const namespaceDepsResult = await client.query(`
+        SELECT from_namespace, to_namespace FROM namespace_dependencies
+      `);
+
+      const teams = new Map<string, string | null>();
+      const namespaceOf = new Map<string, string>();
+      servicesResult.rows.forEach((s: any) => {
+        const serviceKey = `${s.service_namespace}::${s.service_name}`;
+        teams.set(serviceKey, s.team);
+        namespaceOf.set(serviceKey, s.service_namespace);
+      });
+
+      const edges: LintEdge[] = dependenciesResult.rows.map((d: any) => {
+        const from = `${d.from_service_namespace}::${d.from_service_name}`;
+        const to = `${d.to_service_namespace}::${d.to_service_name}`;
+        namespaceOf.set(from, d.from_service_namespace);
+        namespaceOf.set(to, d.to_service_namespace);
+        return { from, to };
+      });
+
+      // Service-level cycles
+      const cycles = findStronglyConnectedComponents(Array.from(teams.keys()), edges).map(members => {
+        const memberSet = new Set(members);
+        const namespaces = Array.from(new Set(members.map(m => namespaceOf.get(m)!))).sort();
+        return {
+          services: members,
+          namespaces,
+          size: members.length,
+          crossNamespace: namespaces.length > 1,
+          edges: edges.filter(e => memberSet.has(e.from) && memberSet.has(e.to))
+        };
+      });
+
+      // Namespace-level cycles from observed cross-namespace calls, even where no single service cycle exists
+      const namespaceEdgeCounts = new Map<string, { from: string; to: string; calls: number }>();
+      edges.forEach(edge => {
+        const fromNamespace = namespaceOf.get(edge.from)!;
+        const toNamespace = namespaceOf.get(edge.to)!;
+        if (fromNamespace === toNamespace) return;
+        const key = `${fromNamespace}==>${toNamespace}`;
+        const entry = namespaceEdgeCounts.get(key) || { from: fromNamespace, to: toNamespace, calls: 0 };
+        entry.calls++;
+        namespaceEdgeCounts.set(key, entry);
+      });
+      const namespaceEdges = Array.from(namespaceEdgeCounts.values());
+      const crossNamespaceCycles = findStronglyConnectedComponents(
+        Array.from(new Set(namespaceOf.values())),
+        namespaceEdges
+      ).map(namespaces => {
+        const memberSet = new Set(namespaces);
+        return {
+          namespaces,
+          size: namespaces.length,
+          edges: namespaceEdges.filter(e => memberSet.has(e.from) && memberSet.has(e.to))
+        };
+      });
+
+      // Fan-in (distinct callers) and fan-out (distinct callees)
+      const callers = new Map<string, Set<string>>();
+      const callees = new Map<string, Set<string>>();
+      edges.forEach(edge => {
+        if (!callers.has(edge.to)) callers.set(edge.to, new Set());
+        callers.get(edge.to)!.add(edge.from);
+        if (!callees.has(edge.from)) callees.set(edge.from, new Set());
+        callees.get(edge.from)!.add(edge.to);
+      });
+
+      const toFanEntries = (counts: Map<string, Set<string>>, threshold: number) => Array.from(counts.entries())
+        .filter(([, peers]) => peers.size > threshold)
+        .map(([service, peers]) => ({
+          service,
+          namespace: namespaceOf.get(service)!,
+          team: teams.get(service) || null,
+          count: peers.size,
+          namespaces: new Set(Array.from(peers).map(peer => namespaceOf.get(peer))).size
+        }))
+        .sort((a, b) => b.count - a.count || a.service.localeCompare(b.service));
+
+      const highFanIn = toFanEntries(callers, fanInThreshold);
+      const highFanOut = toFanEntries(callees, fanOutThreshold);
+
+      // Cross-namespace calls not covered by a declared namespace dependency. Only namespaces that
+      // declare at least one dependency are checked; the rest have not opted in to declared boundaries.
+      const declared = new Set(namespaceDepsResult.rows.map((d: any) => `${d.from_namespace}==>${d.to_namespace}`));
+      const declaringNamespaces = new Set(namespaceDepsResult.rows.map((d: any) => d.from_namespace));
+      const namespaceViolations = edges
+        .filter(edge => {
+          const fromNamespace = namespaceOf.get(edge.from)!;
+          const toNamespace = namespaceOf.get(edge.to)!;
+          return fromNamespace !== toNamespace
+            && declaringNamespaces.has(fromNamespace)
+            && !declared.has(`${fromNamespace}==>${toNamespace}`);
+        })
+        .map(edge => ({
+          from: edge.from,
+          to: edge.to,
+          fromNamespace: namespaceOf.get(edge.from)!,
+          toNamespace: namespaceOf.get(edge.to)!
+        }))
+        .sort((a, b) => a.from.localeCompare(b.from) || a.to.localeCompare(b.to));
+
+      res.json({
+        generatedAt: new Date().toISOString(),
+        thresholds: { fanIn: fanInThreshold, fanOut: fanOutThreshold },
+        summary: {
+          services: teams.size,
+          dependencies: edges.length,
+          cycles: cycles.length,
+          servicesInCycles: cycles.reduce((sum, c) => sum + c.size, 0),
+          crossNamespaceCycles: crossNamespaceCycles.length,
+          highFanIn: highFanIn.length,
+          highFanOut: highFanOut.length,
+          namespaceViolations: namespaceViolations.length,
+          uncheckedNamespaces: Array.from(new Set(namespaceOf.values()))
+            .filter(namespace => !declaringNamespaces.has(namespace)).length
+        },
+        cycles,
+        crossNamespaceCycles,
+        highFanIn,
+        highFanOut,
+        namespaceViolations
+      });
+    } catch (error) {
+      return handleRouteError(error, res, req.log, 'lint service topology');
+    } finally {
+      client.release();
+    }
+  });
+
+  return router;
+}
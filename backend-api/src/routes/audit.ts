@@ -0,0 +1,81 @@
+import { Router } from 'express';
+import { Pool } from 'pg';
+import { handleRouteError, handleClientError } from '../utils/errorHandler';
+
+const DEFAULT_AUDIT_LIMIT = 100;
+const MAX_AUDIT_LIMIT = 1000;
+
+// Exact-match filters: query parameter -> audit_log column
+const AUDIT_FILTERS: Record<string, string> = {
+  actor: 'actor',
+  action: 'action',
+  entityType: 'entity_type',
+  entityId: 'entity_id',
+  requestId: 'request_id'
+};
+
+function parseTimestamp(value: unknown): Date | null | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const parsed = new Date(value as string);
+  return isNaN(parsed.getTime()) ? null : parsed;
+}
+
+export function createAuditRoutes(pool: Pool): Router {
+  const router = Router();
+
+  // Audit log, newest first
+  router.get("/admin/audit", async (req, res) => {
+    const from = parseTimestamp(req.query.from);
+    const to = parseTimestamp(req.query.to);
+    if (from === null || to === null) {
+      return handleClientError(res, "from and to must be ISO timestamps");
+    }
+
+    const requestedLimit = parseInt(req.query.limit as string);
+    const limit = isNaN(requestedLimit) || requestedLimit <= 0
+      ? DEFAULT_AUDIT_LIMIT
+      : Math.min(requestedLimit, MAX_AUDIT_LIMIT);
+
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    for (const [param, column] of Object.entries(AUDIT_FILTERS)) {
+      const value = req.query[param];
+      if (typeof value === 'string' && value !== '') {
+        params.push(value);
+        conditions.push(`${column} = $${params.length}`);
+      }
+    }
+    if (from) {
+      params.push(from);
+      conditions.push(`occurred_at >= $${params.length}`);
+    }
+    if (to) {
+      params.push(to);
+      conditions.push(`occurred_at < $${params.length}`);
+    }
+    params.push(limit);
+
+    try {
+      const result = await pool.query(`
+        SELECT id, occurred_at, actor, action, entity_type, entity_id, before_state, after_state, request_id
+        FROM audit_log
+        ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+        ORDER BY occurred_at DESC, id DESC
+        LIMIT $${params.length}
+      `, params);
+
+      return res.json({
+        count: result.rows.length,
+        entries: result.rows.map(row => ({ ...row, id: parseInt(row.id) }))
+      });
+
+    } catch (error) {
+      return handleRouteError(error, res, req.log, 'fetch audit log', { query: req.query });
+    }
+  });
+
+  return router;
+}
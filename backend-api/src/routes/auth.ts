@@ -0,0 +1,371 @@
+import { Router } from 'express';
+import { Pool } from 'pg';
+import { handleRouteError, handleClientError } from '../utils/errorHandler';
+import { AuthConfig } from '../config/auth';
+import { hashPassword } from '../utils/passwords';
+import {
+  getAuthProvider,
+  listAuthProviders,
+  issueToken,
+  validateUser,
+  createLocalUser
+} from '../utils/auth';
+import { recordAudit } from '../utils/audit';
+
+const USER_COLUMNS = `
+  id, username, display_name, email, auth_provider, role, teams, disabled, last_login_at, created_at, updated_at
+`;
+
+const TOKEN_COLUMNS = `
+  id, name, token_prefix, expires_at, last_used_at, created_at
+`;
+
+const MAX_TOKEN_DAYS = 365;
+
+function isUniqueViolation(error: unknown): boolean {
+  return (error as { code?: string })?.code === '23505';
+}
+
+export function createAuthRoutes(pool: Pool, config: AuthConfig): Router {
+  const router = Router();
+
+  // Public - tells the UI whether to show the login page
+  router.get("/auth/config", (req, res) => {
+    return res.json({
+      enabled: config.enabled,
+      providers: listAuthProviders(),
+      sessionHours: config.sessionHours
+    });
+  });
+
+  router.post("/auth/login", async (req, res) => {
+    if (!config.enabled) {
+      return handleClientError(res, "Authentication is disabled");
+    }
+
+    const { provider: providerName = 'local', ...credentials } = req.body || {};
+    const provider = getAuthProvider(providerName);
+    if (!provider) {
+      return handleClientError(res, `Unknown authentication provider: ${providerName}`);
+    }
+
+    const client = await pool.connect();
+
+    try {
+      const user = await provider.authenticate(client, credentials);
+      if (!user || user.id === null) {
+        req.log.warn({ username: credentials.username, provider: providerName }, 'Login failed');
+        return handleClientError(res, "Invalid username or password", 401);
+      }
+
+      const expiresAt = new Date(Date.now() + config.sessionHours * 3600 * 1000);
+      const session = await issueToken(client, user.id, 'session', { expiresAt });
+
+      await client.query('UPDATE users SET last_login_at = NOW() WHERE id = $1', [user.id]);
+
+      await recordAudit(client, req, {
+        action: 'login',
+        entityType: 'session',
+        entityId: user.id,
+        after: { provider: providerName, expiresAt: session.expiresAt },
+        actor: user.username
+      });
+
+      req.log.info({ userId: user.id, username: user.username, provider: providerName }, 'User logged in');
+
+      return res.json({
+        token: session.token,
+        expiresAt: session.expiresAt,
+        user
+      });
+
+    } catch (error) {
+      return handleRouteError(error, res, req.log, 'log in');
+    } finally {
+      client.release();
+    }
+  });
+
+  // Revokes the session token the request was made with; API tokens are revoked explicitly
+  router.post("/auth/logout", async (req, res) => {
+    if (req.authToken?.kind !== 'session') {
+      return res.json({ status: "ok" });
+    }
+
+    try {
+      await pool.query('UPDATE auth_tokens SET revoked_at = NOW() WHERE id = $1', [req.authToken.id]);
+      await recordAudit(pool, req, { action: 'logout', entityType: 'session', entityId: req.user?.id });
+      req.log.info({ username: req.user?.username }, 'User logged out');
+      return res.json({ status: "ok" });
+
+    } catch (error) {
+      return handleRouteError(error, res, req.log, 'log out');
+    }
+  });
+
+  router.get("/auth/me", (req, res) => {
+    return res.json({
+      user: req.user,
+      authEnabled: config.enabled
+    });
+  });
+
+  // The signed-in user's API tokens (never the token values themselves)
+  router.get("/auth/tokens", async (req, res) => {
+    if (!req.user?.id) {
+      return res.json({ count: 0, tokens: [] });
+    }
+
+    try {
+      const result = await pool.query(`
+        SELECT ${TOKEN_COLUMNS}
+        FROM auth_tokens
+        WHERE user_id = $1 AND kind = 'api' AND revoked_at IS NULL
+        ORDER BY created_at DESC
+      `, [req.user.id]);
+
+      return res.json({
+        count: result.rows.length,
+        tokens: result.rows
+      });
+
+    } catch (error) {
+      return handleRouteError(error, res, req.log, 'fetch API tokens');
+    }
+  });
+
+  // The token is only returned here - store it, it cannot be shown again
+  router.post("/auth/tokens", async (req, res) => {
+    if (!req.user?.id) {
+      return handleClientError(res, "API tokens need a signed-in user");
+    }
+
+    const { name, expires_in_days } = req.body || {};
+    if (typeof name !== 'string' || name.trim() === '' || name.length > 255) {
+      return handleClientError(res, "name is required and must be at most 255 characters");
+    }
+    if (expires_in_days !== undefined && expires_in_days !== null &&
+        (typeof expires_in_days !== 'number' || expires_in_days <= 0 || expires_in_days > MAX_TOKEN_DAYS)) {
+      return handleClientError(res, `expires_in_days must be a number between 1 and ${MAX_TOKEN_DAYS}`);
+    }
+
+    const client = await pool.connect();
+
+    try {
+      const expiresAt = expires_in_days ? new Date(Date.now() + expires_in_days * 86400 * 1000) : null;
+      await client.query('BEGIN');
+
+      const issued = await issueToken(client, req.user.id, 'api', { name: name.trim(), expiresAt });
+
+      await recordAudit(client, req, {
+        action: 'create',
+        entityType: 'api_token',
+        entityId: issued.id,
+        after: { name: name.trim(), token_prefix: issued.prefix, expires_at: issued.expiresAt }
+      });
+
+      await client.query('COMMIT');
+
+      req.log.info({ tokenId: issued.id, prefix: issued.prefix }, 'API token created');
+
+      return res.status(201).json({
+        id: issued.id,
+        name: name.trim(),
+        token: issued.token,
+        token_prefix: issued.prefix,
+        expires_at: issued.expiresAt
+      });
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      return handleRouteError(error, res, req.log, 'create API token');
+    } finally {
+      client.release();
+    }
+  });
+
+  router.delete("/auth/tokens/:id", async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return handleClientError(res, "Invalid token ID");
+    }
+
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(`
+        UPDATE auth_tokens SET revoked_at = NOW()
+        WHERE id = $1 AND user_id = $2 AND kind = 'api' AND revoked_at IS NULL
+        RETURNING ${TOKEN_COLUMNS}
+      `, [id, req.user?.id ?? null]);
+
+      if (result.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return handleClientError(res, "API token not found", 404);
+      }
+
+      await recordAudit(client, req, {
+        action: 'revoke',
+        entityType: 'api_token',
+        entityId: id,
+        before: result.rows[0]
+      });
+
+      await client.query('COMMIT');
+
+      req.log.info({ tokenId: id }, 'API token revoked');
+
+      return res.json({ status: "ok", revoked: id });
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      return handleRouteError(error, res, req.log, 'revoke API token', { id });
+    } finally {
+      client.release();
+    }
+  });
+
+  router.get("/users", async (req, res) => {
+    try {
+      const result = await pool.query(`SELECT ${USER_COLUMNS} FROM users ORDER BY username`);
+
+      return res.json({
+        count: result.rows.length,
+        users: result.rows
+      });
+
+    } catch (error) {
+      return handleRouteError(error, res, req.log, 'fetch users');
+    }
+  });
+
+  router.post("/users", async (req, res) => {
+    const validation = validateUser(req.body, true);
+    if (!validation.isValid) {
+      return res.status(400).json({ error: "Invalid user", details: validation.errors });
+    }
+
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const user = await createLocalUser(client, req.body);
+
+      await recordAudit(client, req, {
+        action: 'create',
+        entityType: 'user',
+        entityId: user.id,
+        after: user
+      });
+
+      await client.query('COMMIT');
+
+      req.log.info({ userId: user.id, username: user.username }, 'User created');
+
+      return res.status(201).json({ user });
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      if (isUniqueViolation(error)) {
+        return handleClientError(res, "A user with this username already exists", 409);
+      }
+      return handleRouteError(error, res, req.log, 'create user');
+    } finally {
+      client.release();
+    }
+  });
+
+  // Partial update of display_name, email, password, role, teams and disabled; usernames cannot
+  // change because they are recorded as the actor on incidents and dependencies
+  router.put("/users/:id", async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return handleClientError(res, "Invalid user ID");
+    }
+
+    const validation = validateUser(req.body, false);
+    if (!validation.isValid) {
+      return res.status(400).json({ error: "Invalid user", details: validation.errors });
+    }
+    if (req.body.disabled === true && req.user?.id === id) {
+      return handleClientError(res, "You cannot disable your own account");
+    }
+    if (req.body.role !== undefined && req.body.role !== req.user?.role && req.user?.id === id) {
+      return handleClientError(res, "You cannot change your own role");
+    }
+
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const existing = await client.query(`SELECT ${USER_COLUMNS} FROM users WHERE id = $1 FOR UPDATE`, [id]);
+      if (existing.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return handleClientError(res, "User not found", 404);
+      }
+      if (req.body.password !== undefined && existing.rows[0].auth_provider !== 'local') {
+        await client.query('ROLLBACK');
+        return handleClientError(res, "Passwords can only be set for local users");
+      }
+
+      const passwordHash = req.body.password !== undefined ? await hashPassword(req.body.password) : null;
+
+      const result = await client.query(`
+        UPDATE users
+        SET display_name = CASE WHEN $1 THEN $2 ELSE display_name END,
+            email = CASE WHEN $3 THEN $4 ELSE email END,
+            password_hash = COALESCE($5, password_hash),
+            disabled = COALESCE($6, disabled),
+            role = COALESCE($7, role),
+            teams = COALESCE($8, teams),
+            updated_at = NOW()
+        WHERE id = $9
+        RETURNING ${USER_COLUMNS}
+      `, [
+        req.body.display_name !== undefined,
+        req.body.display_name ?? null,
+        req.body.email !== undefined,
+        req.body.email ?? null,
+        passwordHash,
+        req.body.disabled ?? null,
+        req.body.role ?? null,
+        req.body.teams ? req.body.teams.map((team: string) => team.trim()) : null,
+        id
+      ]);
+
+      // A new password or a disabled account ends existing sessions, other than the caller's own
+      if (passwordHash || req.body.disabled === true) {
+        await client.query(`
+          UPDATE auth_tokens SET revoked_at = NOW()
+          WHERE user_id = $1 AND kind = 'session' AND revoked_at IS NULL AND id <> $2
+        `, [id, req.authToken?.id ?? 0]);
+      }
+
+      await recordAudit(client, req, {
+        action: 'update',
+        entityType: 'user',
+        entityId: id,
+        before: existing.rows[0],
+        after: passwordHash ? { ...result.rows[0], password_changed: true } : result.rows[0]
+      });
+
+      await client.query('COMMIT');
+
+      req.log.info({ userId: id, fields: Object.keys(req.body) }, 'User updated');
+
+      return res.json({ user: result.rows[0] });
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      return handleRouteError(error, res, req.log, 'update user', { id });
+    } finally {
+      client.release();
+    }
+  });
+
+  return router;
+}
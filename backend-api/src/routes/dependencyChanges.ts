@@ -0,0 +1,144 @@
+import { Router } from 'express';
+import { Pool } from 'pg';
+import { handleRouteError, handleClientError } from '../utils/errorHandler';
+
+const CHANGE_TYPES = ['added', 'disappeared', 'returned'];
+
+/**
+ * Parse the shared limit/since query parameters for change feeds
+ */
+function parseFeedParams(query: any): { limit: number; since: Date | null; error?: string } {
+  const parsedLimit = parseInt(query.limit as string);
+  const limit = isNaN(parsedLimit) || parsedLimit <= 0 ? 100 : Math.min(parsedLimit, 1000);
+
+  let since: Date | null = null;
+  if (query.since) {
+    since = new Date(query.since as string);
+    if (isNaN(since.getTime())) {
+      return { limit, since: null, error: "Invalid since timestamp" };
+    }
+  }
+
+  return { limit, since };
+}
+
+function formatChange(row: any) {
+  return {
+    id: parseInt(row.id),
+    from_service: `${row.from_service_namespace}::${row.from_service_name}`,
+    to_service: `${row.to_service_namespace}::${row.to_service_name}`,
+    from_service_namespace: row.from_service_namespace,
+    from_service_name: row.from_service_name,
+    to_service_namespace: row.to_service_namespace,
+    to_service_name: row.to_service_name,
+    change_type: row.change_type,
+    source: row.source,
+    reason: row.reason,
+    changed_at: row.changed_at
+  };
+}
+
+export function createDependencyChangesRoutes(pool: Pool): Router {
+  const router = Router();
+
+  // Global dependency change feed
+  router.get("/dependency-changes", async (req, res) => {
+    const { limit, since, error: paramError } = parseFeedParams(req.query);
+    if (paramError) {
+      return handleClientError(res, paramError);
+    }
+
+    const changeType = req.query.changeType as string | undefined;
+    if (changeType && !CHANGE_TYPES.includes(changeType)) {
+      return handleClientError(res, `Invalid changeType - expected one of ${CHANGE_TYPES.join(', ')}`);
+    }
+
+    const client = await pool.connect();
+
+    try {
+      const conditions: string[] = [];
+      const params: any[] = [];
+
+      if (since) {
+        params.push(since);
+        conditions.push(`dc.changed_at >= $${params.length}`);
+      }
+
+      if (changeType) {
+        params.push(changeType);
+        conditions.push(`dc.change_type = $${params.length}`);
+      }
+
+      if (req.query.namespaces) {
+        params.push((req.query.namespaces as string).split(','));
+        conditions.push(`(dc.from_service_namespace = ANY($${params.length}) OR dc.to_service_namespace = ANY($${params.length}))`);
+      }
+
+      params.push(limit);
+
+      const result = await client.query(`
+        SELECT dc.*
+        FROM dependency_changes dc
+        ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+        ORDER BY dc.changed_at DESC, dc.id DESC
+        LIMIT $${params.length}
+      `, params);
+
+      return res.json({
+        count: result.rows.length,
+        changes: result.rows.map(formatChange)
+      });
+
+    } catch (error) {
+      handleRouteError(error, res, req.log, 'fetch dependency changes');
+    } finally {
+      client.release();
+    }
+  });
+
+  // Dependency changes touching one service, in either direction
+  router.get("/services/:namespace/:name/dependency-changes", async (req, res) => {
+    const { namespace, name } = req.params;
+    const { limit, since, error: paramError } = parseFeedParams(req.query);
+    if (paramError) {
+      return handleClientError(res, paramError);
+    }
+
+    const client = await pool.connect();
+
+    try {
+      const params: any[] = [namespace, name, limit];
+      let sinceCondition = '';
+      if (since) {
+        params.push(since);
+        sinceCondition = 'AND dc.changed_at >= $4';
+      }
+
+      const result = await client.query(`
+        SELECT dc.*
+        FROM dependency_changes dc
+        WHERE ((dc.from_service_namespace = $1 AND dc.from_service_name = $2)
+           OR (dc.to_service_namespace = $1 AND dc.to_service_name = $2))
+          ${sinceCondition}
+        ORDER BY dc.changed_at DESC, dc.id DESC
+        LIMIT $3
+      `, params);
+
+      return res.json({
+        service: `${namespace}::${name}`,
+        count: result.rows.length,
+        changes: result.rows.map((row: any) => ({
+          ...formatChange(row),
+          direction: row.from_service_namespace === namespace && row.from_service_name === name ? 'outgoing' : 'incoming'
+        }))
+      });
+
+    } catch (error) {
+      handleRouteError(error, res, req.log, 'fetch service dependency changes', { namespace, name });
+    } finally {
+      client.release();
+    }
+  });
+
+  return router;
+}
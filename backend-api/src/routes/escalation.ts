@@ -0,0 +1,321 @@
+import { Router } from 'express';
+import { Pool, PoolClient } from 'pg';
+import { handleRouteError, handleClientError } from '../utils/errorHandler';
+import { EscalationConfig } from '../config/escalation';
+import EscalationScheduler from '../services/EscalationScheduler';
+import { validateEscalationPolicy, findMissingChannels } from '../utils/escalation';
+import { recordAudit } from '../utils/audit';
+
+const EDITABLE_FIELDS = ['name', 'team', 'description', 'match_severities', 'levels', 'enabled'];
+
+const POLICY_COLUMNS = `
+  id, name, team, description, match_severities, levels, enabled, created_at, updated_at
+`;
+
+async function loadPolicy(client: PoolClient, id: number) {
+  const result = await client.query(`SELECT ${POLICY_COLUMNS} FROM escalation_policies WHERE id = $1`, [id]);
+  return result.rows[0] || null;
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return (error as { code?: string })?.code === '23505';
+}
+
+// Both the name and the team (including the single no-team default) are unique
+const CONFLICT_MESSAGE = 'An escalation policy with this name, or for this team, already exists';
+
+export function createEscalationRoutes(
+  pool: Pool,
+  scheduler: EscalationScheduler,
+  config: EscalationConfig
+): Router {
+  const router = Router();
+
+  // Policies with the number of firing incidents each currently has escalated
+  router.get("/escalation-policies", async (req, res) => {
+    const client = await pool.connect();
+
+    try {
+      const result = await client.query(`
+        SELECT ${POLICY_COLUMNS},
+          (
+            SELECT COUNT(*)::int FROM alert_incidents i
+            WHERE i.escalation_policy_id = escalation_policies.id
+              AND i.status = 'firing' AND i.acknowledged_at IS NULL
+          ) AS escalated_incidents
+        FROM escalation_policies
+        ORDER BY team NULLS LAST, name
+      `);
+
+      return res.json({
+        count: result.rows.length,
+        policies: result.rows
+      });
+
+    } catch (error) {
+      return handleRouteError(error, res, req.log, 'fetch escalation policies');
+    } finally {
+      client.release();
+    }
+  });
+
+  router.post("/escalation-policies", async (req, res) => {
+    const validation = validateEscalationPolicy(req.body);
+    if (!validation.isValid) {
+      return res.status(400).json({ error: "Invalid escalation policy", details: validation.errors });
+    }
+
+    const client = await pool.connect();
+
+    try {
+      const policy = req.body;
+      const missingChannels = await findMissingChannels(client, policy.levels);
+      if (missingChannels.length > 0) {
+        return handleClientError(res, `Notification channels not found: ${missingChannels.join(', ')}`, 404);
+      }
+
+      await client.query('BEGIN');
+
+      const result = await client.query(`
+        INSERT INTO escalation_policies (name, team, description, match_severities, levels, enabled)
+        VALUES ($1, $2, $3, $4, $5, $6)
+        RETURNING ${POLICY_COLUMNS}
+      `, [
+        policy.name.trim(),
+        policy.team ? policy.team.trim() : null,
+        policy.description || null,
+        policy.match_severities || [],
+        JSON.stringify(policy.levels),
+        policy.enabled ?? true
+      ]);
+
+      await recordAudit(client, req, {
+        action: 'create',
+        entityType: 'escalation_policy',
+        entityId: result.rows[0].id,
+        after: result.rows[0]
+      });
+
+      await client.query('COMMIT');
+
+      req.log.info({ policyId: result.rows[0].id, team: policy.team || null }, 'Escalation policy created');
+
+      return res.status(201).json({
+        policy: result.rows[0],
+        warnings: validation.warnings
+      });
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      if (isUniqueViolation(error)) {
+        return handleClientError(res, CONFLICT_MESSAGE, 409);
+      }
+      return handleRouteError(error, res, req.log, 'create escalation policy');
+    } finally {
+      client.release();
+    }
+  });
+
+  // Scheduler metrics and the firing incidents currently escalated
+  router.get("/escalation-policies/status", async (req, res) => {
+    const client = await pool.connect();
+
+    try {
+      const result = await client.query(`
+        SELECT i.id, i.service_namespace, i.service_name, i.severity, i.message, i.incident_start,
+               i.escalation_level, i.escalated_at, p.name AS escalation_policy
+        FROM alert_incidents i
+        LEFT JOIN escalation_policies p ON p.id = i.escalation_policy_id
+        WHERE i.status = 'firing' AND i.acknowledged_at IS NULL AND i.escalation_level > 0
+        ORDER BY i.escalation_level DESC, i.incident_start
+        LIMIT 200
+      `);
+
+      return res.json({
+        scheduler: {
+          enabled: config.enabled,
+          intervalSeconds: config.intervalSeconds,
+          ...scheduler.getMetrics()
+        },
+        escalatedIncidents: result.rows
+      });
+
+    } catch (error) {
+      return handleRouteError(error, res, req.log, 'fetch escalation status');
+    } finally {
+      client.release();
+    }
+  });
+
+  // Run an escalation check now instead of waiting for the scheduler
+  router.post("/escalation-policies/run", async (req, res) => {
+    try {
+      const result = await scheduler.runEscalation();
+
+      await recordAudit(pool, req, {
+        action: 'run',
+        entityType: 'escalation_policy',
+        after: result
+      });
+
+      return res.json({
+        status: "ok",
+        message: "Escalation check completed",
+        result
+      });
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      req.log.error({ error }, 'Manual escalation check failed');
+      return res.status(500).json({ error: `Escalation check failed: ${errorMessage}` });
+    }
+  });
+
+  router.get("/escalation-policies/:id", async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return handleClientError(res, "Invalid escalation policy ID");
+    }
+
+    const client = await pool.connect();
+
+    try {
+      const policy = await loadPolicy(client, id);
+      if (!policy) {
+        return handleClientError(res, "Escalation policy not found", 404);
+      }
+
+      return res.json(policy);
+
+    } catch (error) {
+      return handleRouteError(error, res, req.log, 'fetch escalation policy', { id });
+    } finally {
+      client.release();
+    }
+  });
+
+  // Partial update - fields left out of the body keep their current value
+  router.put("/escalation-policies/:id", async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return handleClientError(res, "Invalid escalation policy ID");
+    }
+    if (!req.body || typeof req.body !== 'object' || Array.isArray(req.body)) {
+      return handleClientError(res, "Body must be an object");
+    }
+
+    const client = await pool.connect();
+
+    try {
+      const existing = await loadPolicy(client, id);
+      if (!existing) {
+        return handleClientError(res, "Escalation policy not found", 404);
+      }
+
+      const merged: Record<string, any> = {};
+      EDITABLE_FIELDS.forEach(field => {
+        merged[field] = req.body[field] !== undefined ? req.body[field] : existing[field];
+      });
+
+      const validation = validateEscalationPolicy(merged);
+      if (!validation.isValid) {
+        return res.status(400).json({ error: "Invalid escalation policy", details: validation.errors });
+      }
+
+      const missingChannels = await findMissingChannels(client, merged.levels);
+      if (missingChannels.length > 0) {
+        return handleClientError(res, `Notification channels not found: ${missingChannels.join(', ')}`, 404);
+      }
+
+      await client.query('BEGIN');
+
+      const result = await client.query(`
+        UPDATE escalation_policies
+        SET name = $1,
+            team = $2,
+            description = $3,
+            match_severities = $4,
+            levels = $5,
+            enabled = $6,
+            updated_at = NOW()
+        WHERE id = $7
+        RETURNING ${POLICY_COLUMNS}
+      `, [
+        merged.name.trim(),
+        merged.team ? merged.team.trim() : null,
+        merged.description || null,
+        merged.match_severities || [],
+        JSON.stringify(merged.levels),
+        merged.enabled,
+        id
+      ]);
+
+      await recordAudit(client, req, {
+        action: 'update',
+        entityType: 'escalation_policy',
+        entityId: id,
+        before: existing,
+        after: result.rows[0]
+      });
+
+      await client.query('COMMIT');
+
+      req.log.info({ policyId: id }, 'Escalation policy updated');
+
+      return res.json({
+        policy: result.rows[0],
+        warnings: validation.warnings
+      });
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      if (isUniqueViolation(error)) {
+        return handleClientError(res, CONFLICT_MESSAGE, 409);
+      }
+      return handleRouteError(error, res, req.log, 'update escalation policy', { id });
+    } finally {
+      client.release();
+    }
+  });
+
+  // Incidents it escalated keep their level but lose the policy reference
+  router.delete("/escalation-policies/:id", async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return handleClientError(res, "Invalid escalation policy ID");
+    }
+
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(`DELETE FROM escalation_policies WHERE id = $1 RETURNING ${POLICY_COLUMNS}`, [id]);
+      if (result.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return handleClientError(res, "Escalation policy not found", 404);
+      }
+
+      await recordAudit(client, req, {
+        action: 'delete',
+        entityType: 'escalation_policy',
+        entityId: id,
+        before: result.rows[0]
+      });
+
+      await client.query('COMMIT');
+
+      req.log.info({ policyId: id }, 'Escalation policy deleted');
+
+      return res.json({ status: "ok", deleted: id });
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      return handleRouteError(error, res, req.log, 'delete escalation policy', { id });
+    } finally {
+      client.release();
+    }
+  });
+
+  return router;
+}
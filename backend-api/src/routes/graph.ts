@@ -1,5 +1,13 @@
 import { Router } from 'express';
 import { Pool } from 'pg';
+import { handleRouteError, handleClientError } from '../utils/errorHandler';
+import { TraversalDirection, TRAVERSAL_DIRECTIONS, parseServiceKey, traverseServices } from '../utils/graphTraversal';
+import { notSilencedCondition, loadSilences, isSilenceActive, isMaintenanceSilence, silenceCoversService } from '../utils/alertSilences';
+import { GraphSnapshot, findSnapshotAt } from '../utils/graphSnapshots';
+import { ServiceCleanupConfig } from '../config/cleanup';
+
+const DEFAULT_TRAVERSE_DEPTH = 3;
+const MAX_TRAVERSE_DEPTH = 10;
 
 type GraphFilters = {
   tags?: string[];
@@ -10,7 +18,53 @@ type GraphFilters = {
   search?: string;
 };
 
-export function createGraphRoutes(pool: Pool): Router {
+type TopologyTable = 'services' | 'service_dependencies' | 'namespace_dependencies';
+
+// Snapshot counterparts of the topology tables. Snapshots do not record tags or call lists, so
+// services take those from the live row when the service still exists.
+const SNAPSHOT_TABLES: Record<TopologyTable, string> = {
+  services: `(
+    SELECT gs.*, ls.tags, ls.external_calls, ls.database_calls, ls.tag_sources, ls.rpc_calls
+    FROM graph_snapshot_services gs
+    LEFT JOIN services ls ON ls.service_namespace = gs.service_namespace AND ls.service_name = gs.service_name
+  )`,
+  service_dependencies: 'graph_snapshot_dependencies',
+  namespace_dependencies: '(SELECT *, NULL AS description FROM graph_snapshot_namespace_dependencies)'
+};
+
+// The topology as of a time-travel point: the live tables, or the nearest snapshot before it
+type TopologyAsOf = {
+  at: Date;
+  snapshot: GraphSnapshot | null;
+  ttlHours: Record<TopologyTable, number>;
+};
+
+function topologyTable(table: TopologyTable, asOf: TopologyAsOf | null): string {
+  return asOf?.snapshot ? SNAPSHOT_TABLES[table] : table;
+}
+
+/**
+ * Condition keeping the rows of `alias` that existed at the time-travel point, given its value
+ * (from topologyParam) as `param`. Live rows must have been created by then and, since last_seen
+ * only moves forward, seen within the cleanup TTL before it; snapshot rows belong to the snapshot.
+ */
+function topologyCondition(table: TopologyTable, alias: string, param: string, asOf: TopologyAsOf): string {
+  if (asOf.snapshot) {
+    return `${alias}.snapshot_id = ${param}`;
+  }
+
+  const ttlHours = asOf.ttlHours[table];
+  const created = `${alias}.created_at <= ${param}`;
+  return ttlHours > 0
+    ? `${created} AND ${alias}.last_seen >= ${param}::timestamp - make_interval(secs => ${ttlHours * 3600})`
+    : created;
+}
+
+function topologyParam(asOf: TopologyAsOf): Date | number {
+  return asOf.snapshot ? asOf.snapshot.id : asOf.at;
+}
+
+export function createGraphRoutes(pool: Pool, cleanupConfig: ServiceCleanupConfig): Router {
   const router = Router();
 
   // UPDATED: Generate graph data using natural keys
@@ -29,6 +83,38 @@ export function createGraphRoutes(pool: Pool): Router {
         
         const includeDependents = req.query.includeDependents === 'true';
         const showFullChain = req.query.showFullChain === 'true';
+
+        // Window (minutes) over which per-edge call metrics are aggregated
+        const parsedMetricsWindow = parseInt(req.query.metricsWindow as string);
+        const metricsWindowMinutes = isNaN(parsedMetricsWindow) || parsedMetricsWindow <= 0 ? 60 : Math.min(parsedMetricsWindow, 10080);
+
+        // Time travel: topology and alert overlay as of `at`; alerts use incident start/end.
+        let at: Date | null = null;
+        if (req.query.at) {
+            at = new Date(req.query.at as string);
+            if (isNaN(at.getTime())) {
+            res.status(400).json({ error: "Invalid at timestamp" });
+            return;
+            }
+            if (at.getTime() >= Date.now()) {
+            at = null; // Future timestamps mean "now"
+            }
+        }
+
+        // Cleanup may since have deleted services and edges that existed before its TTLs reach back,
+        // so an older `at` is rebuilt from the nearest graph snapshot taken at or before it, if any
+        let asOf: TopologyAsOf | null = null;
+        if (at) {
+            const ttl = (hours: number) => cleanupConfig.enabled && hours > 0 ? hours : 0;
+            const ttlHours = {
+            services: ttl(cleanupConfig.ttlHours),
+            service_dependencies: ttl(cleanupConfig.dependencyTtlHours),
+            namespace_dependencies: 0
+            };
+            const liveHours = Math.min(...[ttlHours.services, ttlHours.service_dependencies].filter(hours => hours > 0));
+            const beforeLive = at.getTime() < Date.now() - liveHours * 60 * 60 * 1000;
+            asOf = { at, snapshot: beforeLive ? await findSnapshotAt(client, at) : null, ttlHours };
+        }
         req.log.debug({ includeDependents, showFullChain }, 'Processing dependency inclusion');
 
         // If namespace filtering is active and includeDependents is true, expand the namespace list
@@ -39,9 +125,10 @@ export function createGraphRoutes(pool: Pool): Router {
         
         // Get all namespace dependencies
         const namespaceDepsResult = await client.query(`
-            SELECT from_namespace, to_namespace 
-            FROM namespace_dependencies
-        `);
+            SELECT nd.from_namespace, nd.to_namespace 
+            FROM ${topologyTable('namespace_dependencies', asOf)} nd
+            ${asOf ? `WHERE ${topologyCondition('namespace_dependencies', 'nd', '$1', asOf)}` : ''}
+        `, asOf ? [topologyParam(asOf)] : []);
         
         const dependencyMap = new Map<string, Set<string>>();
         const reverseDependencyMap = new Map<string, Set<string>>();
@@ -102,8 +189,9 @@ export function createGraphRoutes(pool: Pool): Router {
             sd.from_service_name,
             sd.to_service_namespace,
             sd.to_service_name
-            FROM service_dependencies sd
-        `);
+            FROM ${topologyTable('service_dependencies', asOf)} sd
+            ${asOf ? `WHERE ${topologyCondition('service_dependencies', 'sd', '$1', asOf)}` : ''}
+        `, asOf ? [topologyParam(asOf)] : []);
         
         // Build adjacency list for both directions (undirected graph for full connectivity)
         const adjacencyList = new Map<string, Set<string>>();
@@ -136,9 +224,10 @@ export function createGraphRoutes(pool: Pool): Router {
             const seedResult = await client.query(`
             SELECT service_namespace || '::' || service_name as service_key,
                    service_namespace, service_name
-            FROM services s
+            FROM ${topologyTable('services', asOf)} s
             WHERE s.service_namespace = ANY($1)
-            `, [finalNamespaces]);
+            ${asOf ? `AND ${topologyCondition('services', 's', '$2', asOf)}` : ''}
+            `, asOf ? [finalNamespaces, topologyParam(asOf)] : [finalNamespaces]);
             
             seedResult.rows.forEach((row: any) => {
             seedServices.add(row.service_key);
@@ -213,7 +302,7 @@ export function createGraphRoutes(pool: Pool): Router {
             s.database_calls,
             s.tag_sources,
             s.rpc_calls
-        FROM services s
+        FROM ${topologyTable('services', asOf)} s
         `;
 
         let whereConditions: string[] = [];
@@ -221,7 +310,7 @@ export function createGraphRoutes(pool: Pool): Router {
 
         // Add tags filter if present
         if (filters.tags && filters.tags.length > 0) {
-        whereConditions.push('s.tags && $1');
+        whereConditions.push(`s.tags && $${params.length + 1}`);
         params.push(filters.tags);
         }
 
@@ -247,6 +336,12 @@ export function createGraphRoutes(pool: Pool): Router {
         params.push(searchTerm, searchTerm);
         }
 
+        // Only services that existed at the time-travel point
+        if (asOf) {
+        whereConditions.push(topologyCondition('services', 's', `$${params.length + 1}`, asOf));
+        params.push(topologyParam(asOf));
+        }
+
         // Add WHERE clause if we have conditions
         if (whereConditions.length > 0) {
         servicesQuery += ` WHERE ${whereConditions.join(' AND ')}`;
@@ -270,22 +365,56 @@ export function createGraphRoutes(pool: Pool): Router {
         ).join(' OR ');
         
         const serviceParams = servicesResult.rows.flatMap(s => [s.service_namespace, s.service_name, s.service_namespace, s.service_name]);
+        const windowParamIndex = serviceParams.length + 1;
+        const atParamIndex = serviceParams.length + 2;
+        const asOfParamIndex = serviceParams.length + 3;
+
+        // Metrics window ends at the time-travel point rather than now
+        const windowEnd = at ? `$${atParamIndex}::timestamp` : 'NOW()';
         
+        // Percentiles are call-weighted averages across buckets in the window
         dependenciesResult = await client.query(`
             SELECT 
             sd.from_service_namespace || '::' || sd.from_service_name as from_service,
-            sd.to_service_namespace || '::' || sd.to_service_name as to_service
-            FROM service_dependencies sd
-            WHERE ${serviceConditions}
-        `, serviceParams);
+            sd.to_service_namespace || '::' || sd.to_service_name as to_service,
+            m.call_count,
+            m.error_count,
+            m.latency_p50_ms,
+            m.latency_p95_ms,
+            m.latency_p99_ms
+            FROM ${topologyTable('service_dependencies', asOf)} sd
+            LEFT JOIN LATERAL (
+            SELECT 
+                SUM(dm.call_count) as call_count,
+                SUM(dm.error_count) as error_count,
+                SUM(dm.latency_p50_ms * dm.call_count) FILTER (WHERE dm.latency_p50_ms IS NOT NULL)
+                / NULLIF(SUM(dm.call_count) FILTER (WHERE dm.latency_p50_ms IS NOT NULL), 0) as latency_p50_ms,
+                SUM(dm.latency_p95_ms * dm.call_count) FILTER (WHERE dm.latency_p95_ms IS NOT NULL)
+                / NULLIF(SUM(dm.call_count) FILTER (WHERE dm.latency_p95_ms IS NOT NULL), 0) as latency_p95_ms,
+                SUM(dm.latency_p99_ms * dm.call_count) FILTER (WHERE dm.latency_p99_ms IS NOT NULL)
+                / NULLIF(SUM(dm.call_count) FILTER (WHERE dm.latency_p99_ms IS NOT NULL), 0) as latency_p99_ms
+            FROM service_dependency_metrics dm
+            WHERE dm.from_service_namespace = sd.from_service_namespace
+                AND dm.from_service_name = sd.from_service_name
+                AND dm.to_service_namespace = sd.to_service_namespace
+                AND dm.to_service_name = sd.to_service_name
+                AND dm.bucket_start >= ${windowEnd} - make_interval(mins => $${windowParamIndex})
+                AND dm.bucket_start <= ${windowEnd}
+            ) m ON true
+            WHERE (${serviceConditions})
+            ${asOf ? `AND ${topologyCondition('service_dependencies', 'sd', `$${asOfParamIndex}`, asOf)}` : ''}
+        `, asOf
+            ? [...serviceParams, metricsWindowMinutes, asOf.at, topologyParam(asOf)]
+            : [...serviceParams, metricsWindowMinutes]);
         }
 
         // Get namespace dependencies (for ALL namespaces in the result, not just filtered ones)
         const namespaceDepsResult = await client.query(`
-        SELECT from_namespace, to_namespace, dependency_type, description
-        FROM namespace_dependencies
-        ORDER BY from_namespace, to_namespace
-        `);
+        SELECT nd.from_namespace, nd.to_namespace, nd.dependency_type, nd.description
+        FROM ${topologyTable('namespace_dependencies', asOf)} nd
+        ${asOf ? `WHERE ${topologyCondition('namespace_dependencies', 'nd', '$1', asOf)}` : ''}
+        ORDER BY nd.from_namespace, nd.to_namespace
+        `, asOf ? [topologyParam(asOf)] : []);
 
         // Get alerts using natural keys
         let alertsResult = { rows: [] };
@@ -303,8 +432,16 @@ export function createGraphRoutes(pool: Pool): Router {
             i.severity,
             COUNT(*) as alert_count
             FROM alert_incidents i
-            WHERE i.status = 'firing' AND (${serviceConditions})
+            WHERE (${serviceConditions})
         `;
+
+        // Incidents firing at the time-travel point, otherwise currently firing
+        if (at) {
+            alertQuery += ` AND i.incident_start <= $${alertParams.length + 1} AND (i.incident_end IS NULL OR i.incident_end > $${alertParams.length + 1})`;
+            alertParams.push(at);
+        } else {
+            alertQuery += ` AND i.status = 'firing' AND ${notSilencedCondition('i')}`;
+        }
         
         // Add severity filter if present
         if (filters.severities && filters.severities.length > 0) {
@@ -326,6 +463,11 @@ export function createGraphRoutes(pool: Pool): Router {
         alertsResult = await client.query(alertQuery, alertParams);
         }
 
+        // Active whole-service silences put the services they cover in maintenance (live view only)
+        const maintenanceSilences = at
+            ? []
+            : (await loadSilences(client)).filter(silence => isSilenceActive(silence) && isMaintenanceSilence(silence));
+
         // Build alert maps for node coloring
         const alertCount = new Map<string, number>();
         const highestSeverity = new Map<string, string>();
@@ -387,6 +529,9 @@ export function createGraphRoutes(pool: Pool): Router {
         if (!seen.has(serviceNodeId)) {
             const serviceAlertCount = alertCount.get(serviceNodeId) || 0;
             const serviceHighestSeverity = highestSeverity.get(serviceNodeId) || "none";
+            const maintenance = maintenanceSilences.filter(silence =>
+                silenceCoversService(silence, service.service_namespace, service.service_name, service.tags || [])
+            );
             
             // Parse tag sources if present
             let tagSources = {};
@@ -411,6 +556,10 @@ export function createGraphRoutes(pool: Pool): Router {
                 nodeType: "service",
                 alertCount: serviceAlertCount,
                 highestSeverity: serviceHighestSeverity,
+                inMaintenance: maintenance.length > 0,
+                maintenanceUntil: maintenance.length > 0
+                    ? new Date(Math.max(...maintenance.map(silence => new Date(silence.ends_at).getTime()))).toISOString()
+                    : null,
                 external_calls: typeof service.external_calls === 'string' ? JSON.parse(service.external_calls) : service.external_calls,
                 database_calls: typeof service.database_calls === 'string' ? JSON.parse(service.database_calls) : service.database_calls,
                 rpc_calls: typeof service.rpc_calls === 'string' ? JSON.parse(service.rpc_calls) : service.rpc_calls,
@@ -427,6 +576,10 @@ export function createGraphRoutes(pool: Pool): Router {
         const edgeId = `${dep.from_service}-->${dep.to_service}`;
         
         if (!edges.find(e => e.id === edgeId)) {
+            const callCount = dep.call_count !== null ? parseInt(dep.call_count) : 0;
+            const errorCount = dep.error_count !== null ? parseInt(dep.error_count) : 0;
+            const toLatency = (value: any) => value !== null && value !== undefined ? Math.round(parseFloat(value) * 100) / 100 : null;
+
             edges.push({
             id: edgeId,
             from: dep.from_service,
@@ -435,7 +588,16 @@ export function createGraphRoutes(pool: Pool): Router {
             width: 2,
             arrows: { to: { enabled: true }, from: { enabled: false } },
             title: "service dependency",
-            edgeType: "service"
+            edgeType: "service",
+            metrics: callCount > 0 ? {
+                callCount,
+                errorCount,
+                errorRate: Math.round((errorCount / callCount) * 10000) / 10000,
+                latencyP50Ms: toLatency(dep.latency_p50_ms),
+                latencyP95Ms: toLatency(dep.latency_p95_ms),
+                latencyP99Ms: toLatency(dep.latency_p99_ms),
+                windowMinutes: metricsWindowMinutes
+            } : undefined
             });
         }
         });
@@ -467,7 +629,10 @@ export function createGraphRoutes(pool: Pool): Router {
         edges, 
         filters: filters,
         expandedNamespaces: includeDependents ? finalNamespaces : undefined,
-        showFullChain: showFullChain
+        showFullChain: showFullChain,
+        metricsWindowMinutes,
+        at,
+        snapshot: asOf?.snapshot ? { id: asOf.snapshot.id, taken_at: asOf.snapshot.taken_at } : undefined
         });
         
     } catch (error) {
@@ -478,6 +643,120 @@ export function createGraphRoutes(pool: Pool): Router {
     }
     });
 
+  // Directed, depth-limited walk from one service, nodes annotated with hop distance
+  router.get("/graph/traverse", async (req, res) => {
+    const root = parseServiceKey((req.query.root as string) || '');
+    if (!root) {
+      return handleClientError(res, "root must be a service key in the form namespace::name");
+    }
+
+    const direction = ((req.query.direction as string) || 'both') as TraversalDirection;
+    if (!TRAVERSAL_DIRECTIONS.includes(direction)) {
+      return handleClientError(res, `Invalid direction - expected one of ${TRAVERSAL_DIRECTIONS.join(', ')}`);
+    }
+
+    const parsedDepth = parseInt(req.query.depth as string);
+    const depth = isNaN(parsedDepth) || parsedDepth < 0 ? DEFAULT_TRAVERSE_DEPTH : Math.min(parsedDepth, MAX_TRAVERSE_DEPTH);
+
+    const client = await pool.connect();
+
+    try {
+      const rootResult = await client.query(`
+        SELECT 1 FROM services WHERE service_namespace = $1 AND service_name = $2
+      `, [root.service_namespace, root.service_name]);
+
+      if (rootResult.rows.length === 0) {
+        return res.status(404).json({ error: "Root service not found" });
+      }
+
+      const traversed = await traverseServices(client, root, direction, depth);
+      const namespaces = traversed.map(t => t.service_namespace);
+      const names = traversed.map(t => t.service_name);
+
+      const servicesResult = await client.query(`
+        SELECT s.service_namespace, s.service_name, s.environment, s.team, s.component_type, s.tags
+        FROM services s
+        WHERE (s.service_namespace, s.service_name) IN (SELECT * FROM unnest($1::varchar[], $2::varchar[]))
+      `, [namespaces, names]);
+
+      const alertsResult = await client.query(`
+        SELECT i.service_namespace, i.service_name, i.severity, COUNT(*) as alert_count
+        FROM alert_incidents i
+        WHERE i.status = 'firing'
+          AND ${notSilencedCondition('i')}
+          AND (i.service_namespace, i.service_name) IN (SELECT * FROM unnest($1::varchar[], $2::varchar[]))
+        GROUP BY i.service_namespace, i.service_name, i.severity
+      `, [namespaces, names]);
+
+      // Edges between visited services only
+      const edgesResult = await client.query(`
+        SELECT 
+          sd.from_service_namespace || '::' || sd.from_service_name as from_service,
+          sd.to_service_namespace || '::' || sd.to_service_name as to_service
+        FROM service_dependencies sd
+        WHERE (sd.from_service_namespace, sd.from_service_name) IN (SELECT * FROM unnest($1::varchar[], $2::varchar[]))
+          AND (sd.to_service_namespace, sd.to_service_name) IN (SELECT * FROM unnest($1::varchar[], $2::varchar[]))
+      `, [namespaces, names]);
+
+      const severityRank: Record<string, number> = { fatal: 1, critical: 2, warning: 3, none: 4 };
+      const alertCount = new Map<string, number>();
+      const highestSeverity = new Map<string, string>();
+      alertsResult.rows.forEach((alert: any) => {
+        const serviceKey = `${alert.service_namespace}::${alert.service_name}`;
+        alertCount.set(serviceKey, (alertCount.get(serviceKey) || 0) + parseInt(alert.alert_count));
+        const current = highestSeverity.get(serviceKey);
+        if (!current || severityRank[alert.severity] < severityRank[current]) {
+          highestSeverity.set(serviceKey, alert.severity);
+        }
+      });
+
+      const serviceDetails = new Map<string, any>(
+        servicesResult.rows.map((s: any) => [`${s.service_namespace}::${s.service_name}`, s])
+      );
+
+      const nodes = traversed.map(t => {
+        const id = `${t.service_namespace}::${t.service_name}`;
+        const details = serviceDetails.get(id) || {};
+        return {
+          id,
+          label: t.service_name,
+          nodeType: "service",
+          namespace: t.service_namespace,
+          team: details.team,
+          environment: details.environment,
+          component_type: details.component_type,
+          tags: details.tags || [],
+          alertCount: alertCount.get(id) || 0,
+          highestSeverity: highestSeverity.get(id) || "none",
+          distance: t.distance,
+          directions: t.directions
+        };
+      });
+
+      const edges = edgesResult.rows.map((dep: any) => ({
+        id: `${dep.from_service}-->${dep.to_service}`,
+        from: dep.from_service,
+        to: dep.to_service,
+        edgeType: "service"
+      }));
+
+      req.log.info({ root: `${root.service_namespace}::${root.service_name}`, direction, depth, nodeCount: nodes.length }, 'Returning graph traversal');
+
+      return res.json({
+        root: `${root.service_namespace}::${root.service_name}`,
+        direction,
+        depth,
+        maxDistance: nodes.reduce((max, node) => Math.max(max, node.distance), 0),
+        nodes,
+        edges
+      });
+
+    } catch (error) {
+      return handleRouteError(error, res, req.log, 'traverse graph', { root: req.query.root, direction, depth });
+    } finally {
+      client.release();
+    }
+  });
 
   return router;
 }
\ No newline at end of file
@@ -0,0 +1,153 @@
+import { Router } from 'express';
+import { Pool } from 'pg';
+import GraphSnapshotter from '../services/GraphSnapshotter';
+import { handleRouteError, handleClientError } from '../utils/errorHandler';
+import { recordAudit } from '../utils/audit';
+import { GraphDiffNode, GraphDiffEdge, findSnapshotAt, listGraphSnapshots, loadGraphState, diffGraphStates } from '../utils/graphSnapshots';
+
+function parseTimestamp(value: unknown): Date | null {
+  if (typeof value !== 'string' || !value) return null;
+  const parsed = new Date(value);
+  return isNaN(parsed.getTime()) ? null : parsed;
+}
+
+export function createGraphSnapshotRoutes(pool: Pool, snapshotter: GraphSnapshotter): Router {
+  const router = Router();
+
+  // Recent snapshots, newest first
+  router.get("/graph/snapshots", async (req, res) => {
+    const parsedLimit = parseInt(req.query.limit as string);
+    const limit = isNaN(parsedLimit) || parsedLimit <= 0 ? 50 : Math.min(parsedLimit, 500);
+
+    const client = await pool.connect();
+
+    try {
+      const snapshots = await listGraphSnapshots(client, limit);
+
+      return res.json({
+        count: snapshots.length,
+        snapshots,
+        metrics: snapshotter.getMetrics()
+      });
+
+    } catch (error) {
+      return handleRouteError(error, res, req.log, 'fetch graph snapshots');
+    } finally {
+      client.release();
+    }
+  });
+
+  // Take a snapshot now (e.g. at the start of an incident)
+  router.post("/graph/snapshots", async (req, res) => {
+    try {
+      const result = await snapshotter.runSnapshot('manual');
+
+      await recordAudit(pool, req, {
+        action: 'create',
+        entityType: 'graph_snapshot',
+        entityId: result.snapshot.id,
+        after: result
+      });
+
+      return res.status(201).json({
+        message: "Graph snapshot taken",
+        ...result
+      });
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      req.log.error({ error }, 'Manual graph snapshot failed');
+      return res.status(500).json({ error: `Graph snapshot failed: ${errorMessage}` });
+    }
+  });
+
+  // Nodes and edges added/removed between the snapshot at `from` and the snapshot at `to` (or the live graph)
+  router.get("/graph/diff", async (req, res) => {
+    const from = parseTimestamp(req.query.from);
+    if (!from) {
+      return handleClientError(res, "from must be a valid timestamp");
+    }
+
+    let to: Date | null = null;
+    if (req.query.to) {
+      to = parseTimestamp(req.query.to);
+      if (!to) {
+        return handleClientError(res, "to must be a valid timestamp");
+      }
+      if (to < from) {
+        return handleClientError(res, "to must not be earlier than from");
+      }
+    }
+
+    const namespaces = req.query.namespaces ? new Set((req.query.namespaces as string).split(',')) : null;
+
+    const client = await pool.connect();
+
+    try {
+      const fromSnapshot = await findSnapshotAt(client, from);
+      if (!fromSnapshot) {
+        return res.status(404).json({ error: "No graph snapshot at or before from" });
+      }
+
+      // A `to` in the future (or omitted) compares against the live graph
+      const useLive = !to || to.getTime() >= Date.now();
+      const toSnapshot = useLive ? null : await findSnapshotAt(client, to!);
+      if (!useLive && !toSnapshot) {
+        return res.status(404).json({ error: "No graph snapshot at or before to" });
+      }
+
+      const fromState = await loadGraphState(client, fromSnapshot.id);
+      const toState = await loadGraphState(client, toSnapshot ? toSnapshot.id : null);
+      const diff = diffGraphStates(fromState, toState);
+
+      if (namespaces) {
+        const inScope = (node: GraphDiffNode) => namespaces.has(node.namespace);
+        const edgeInScope = (edge: GraphDiffEdge) =>
+          namespaces.has(edge.from.split('::')[0]) || namespaces.has(edge.to.split('::')[0]);
+
+        diff.nodes.added = diff.nodes.added.filter(inScope);
+        diff.nodes.removed = diff.nodes.removed.filter(inScope);
+        diff.edges.added = diff.edges.added.filter(edgeInScope);
+        diff.edges.removed = diff.edges.removed.filter(edgeInScope);
+      }
+
+      req.log.info({
+        fromSnapshotId: fromSnapshot.id,
+        toSnapshotId: toSnapshot?.id ?? 'live',
+        nodesAdded: diff.nodes.added.length,
+        nodesRemoved: diff.nodes.removed.length,
+        edgesAdded: diff.edges.added.length,
+        edgesRemoved: diff.edges.removed.length
+      }, 'Returning graph diff');
+
+      return res.json({
+        from: {
+          requested: from,
+          snapshotId: fromSnapshot.id,
+          takenAt: fromSnapshot.taken_at
+        },
+        to: {
+          requested: to,
+          snapshotId: toSnapshot ? toSnapshot.id : null,
+          takenAt: toSnapshot ? toSnapshot.taken_at : new Date(),
+          live: useLive
+        },
+        nodes: diff.nodes,
+        edges: diff.edges,
+        summary: {
+          nodesAdded: diff.nodes.added.length,
+          nodesRemoved: diff.nodes.removed.length,
+          edgesAdded: diff.edges.added.length,
+          edgesRemoved: diff.edges.removed.length
+        }
+      });
+
+    } catch (error) {
+      return handleRouteError(error, res, req.log, 'generate graph diff', { from: req.query.from, to: req.query.to });
+    } finally {
+      client.release();
+    }
+  });
+
+  return router;
+}
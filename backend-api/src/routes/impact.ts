@@ -0,0 +1,206 @@
+import { Router } from 'express';
+import { Pool } from 'pg';
+import { handleRouteError } from '../utils/errorHandler';
+import { ImpactConfig } from '../config/impact';
+import { traverseServices, traverseNamespacesUpstream } from '../utils/graphTraversal';
+import { notSilencedCondition } from '../utils/alertSilences';
+
+const SEVERITY_RANK: Record<string, number> = { fatal: 1, critical: 2, warning: 3, none: 4 };
+
+type ImpactPath = 'service' | 'namespace';
+
+interface AffectedService {
+  service: string;
+  namespace: string;
+  name: string;
+  team: string | null;
+  environment: string | null;
+  component_type: string | null;
+  tags: string[];
+  distance: number;
+  // 'service' when reached through observed service calls, 'namespace' when only a declared namespace dependency links it
+  via: ImpactPath;
+  criticality: number;
+  criticalTags: string[];
+  firingIncidents: number;
+  highestSeverity: string | null;
+}
+
+/**
+ * Score a service's tags against the configured critical tag weights
+ */
+function scoreCriticality(tags: string[], weights: Record<string, number>): { score: number; matched: string[] } {
+  const matched = tags.filter(tag => weights[tag.toLowerCase()] !== undefined);
+  const score = matched.reduce((sum, tag) => sum + weights[tag.toLowerCase()], 0);
+  return { score, matched };
+}
+
+export function createImpactRoutes(pool: Pool, config: ImpactConfig): Router {
+  const router = Router();
+
+  // Blast radius: who is affected if this service is down
+  router.get('/services/:namespace/:name/impact', async (req, res) => {
+    const { namespace, name } = req.params;
+
+    const parsedDepth = parseInt(req.query.depth as string);
+    const depth = isNaN(parsedDepth) || parsedDepth <= 0 ? config.defaultDepth : Math.min(parsedDepth, config.maxDepth);
+
+    const client = await pool.connect();
+
+    try {
+      const rootResult = await client.query(`
+        SELECT 1 FROM services WHERE service_namespace = $1 AND service_name = $2
+      `, [namespace, name]);
+
+      if (rootResult.rows.length === 0) {
+        return res.status(404).json({ error: 'Service not found' });
+      }
+
+      // Callers of the service via observed calls, then namespaces that declare a dependency on its namespace
+      const callers = await traverseServices(client, { service_namespace: namespace, service_name: name }, 'upstream', depth);
+      const dependentNamespaces = await traverseNamespacesUpstream(client, namespace, depth);
+
+      const reached = new Map<string, { distance: number; via: ImpactPath }>();
+      callers
+        .filter(c => c.distance > 0)
+        .forEach(c => reached.set(`${c.service_namespace}::${c.service_name}`, { distance: c.distance, via: 'service' }));
+
+      const servicesResult = await client.query(`
+        SELECT s.service_namespace, s.service_name, s.environment, s.team, s.component_type, s.tags
+        FROM services s
+        WHERE (s.service_namespace, s.service_name) IN (SELECT * FROM unnest($1::varchar[], $2::varchar[]))
+           OR s.service_namespace = ANY($3::varchar[])
+      `, [
+        callers.map(c => c.service_namespace),
+        callers.map(c => c.service_name),
+        Array.from(dependentNamespaces.keys())
+      ]);
+
+      // Services only linked through a namespace dependency count as affected at that namespace's distance
+      servicesResult.rows.forEach((s: any) => {
+        const serviceKey = `${s.service_namespace}::${s.service_name}`;
+        const namespaceDistance = dependentNamespaces.get(s.service_namespace);
+        if (!reached.has(serviceKey) && namespaceDistance !== undefined) {
+          reached.set(serviceKey, { distance: namespaceDistance, via: 'namespace' });
+        }
+      });
+
+      // Firing incidents on the failing service and everything it affects
+      const incidentKeys = [`${namespace}::${name}`, ...reached.keys()];
+      const incidentsResult = await client.query(`
+        SELECT
+          i.id,
+          i.service_namespace,
+          i.service_name,
+          i.instance_id,
+          i.severity,
+          i.message,
+          i.incident_start,
+          i.acknowledged_at,
+          i.acknowledged_by
+        FROM alert_incidents i
+        WHERE i.status = 'firing'
+          AND ${notSilencedCondition('i')}
+          AND (i.service_namespace || '::' || i.service_name) = ANY($1::text[])
+        ORDER BY
+          CASE i.severity WHEN 'fatal' THEN 1 WHEN 'critical' THEN 2 WHEN 'warning' THEN 3 ELSE 4 END,
+          i.incident_start DESC
+      `, [incidentKeys]);
+
+      const incidentCounts = new Map<string, number>();
+      const highestSeverity = new Map<string, string>();
+      incidentsResult.rows.forEach((incident: any) => {
+        const serviceKey = `${incident.service_namespace}::${incident.service_name}`;
+        incidentCounts.set(serviceKey, (incidentCounts.get(serviceKey) || 0) + 1);
+        const current = highestSeverity.get(serviceKey);
+        if (!current || SEVERITY_RANK[incident.severity] < SEVERITY_RANK[current]) {
+          highestSeverity.set(serviceKey, incident.severity);
+        }
+      });
+
+      const affected: AffectedService[] = servicesResult.rows
+        .filter((s: any) => reached.has(`${s.service_namespace}::${s.service_name}`))
+        .map((s: any) => {
+          const serviceKey = `${s.service_namespace}::${s.service_name}`;
+          const { distance, via } = reached.get(serviceKey)!;
+          const tags: string[] = s.tags || [];
+          const { score, matched } = scoreCriticality(tags, config.criticalTagWeights);
+
+          return {
+            service: serviceKey,
+            namespace: s.service_namespace,
+            name: s.service_name,
+            team: s.team,
+            environment: s.environment,
+            component_type: s.component_type,
+            tags,
+            distance,
+            via,
+            criticality: score,
+            criticalTags: matched,
+            firingIncidents: incidentCounts.get(serviceKey) || 0,
+            highestSeverity: highestSeverity.get(serviceKey) || null
+          };
+        });
+
+      // Closest first; within a hop, most critical first, then observed calls ahead of namespace-only links
+      affected.sort((a, b) =>
+        a.distance - b.distance
+        || b.criticality - a.criticality
+        || (a.via === b.via ? 0 : a.via === 'service' ? -1 : 1)
+        || a.service.localeCompare(b.service)
+      );
+
+      const teamMap = new Map<string, { team: string; services: number; criticalServices: number; closestDistance: number }>();
+      affected.forEach(service => {
+        const team = service.team || 'unassigned';
+        const entry = teamMap.get(team) || { team, services: 0, criticalServices: 0, closestDistance: service.distance };
+        entry.services++;
+        if (service.criticality > 0) entry.criticalServices++;
+        entry.closestDistance = Math.min(entry.closestDistance, service.distance);
+        teamMap.set(team, entry);
+      });
+
+      const teams = Array.from(teamMap.values()).sort((a, b) =>
+        a.closestDistance - b.closestDistance || b.criticalServices - a.criticalServices || b.services - a.services
+      );
+
+      const incidents = incidentsResult.rows.map((incident: any) => ({
+        id: incident.id,
+        service: `${incident.service_namespace}::${incident.service_name}`,
+        instance_id: incident.instance_id,
+        severity: incident.severity,
+        message: incident.message,
+        incident_start: incident.incident_start,
+        acknowledged_at: incident.acknowledged_at,
+        acknowledged_by: incident.acknowledged_by,
+        isRoot: incident.service_namespace === namespace && incident.service_name === name
+      }));
+
+      res.json({
+        service: `${namespace}::${name}`,
+        depth,
+        summary: {
+          affectedServices: affected.length,
+          directCallers: affected.filter(s => s.distance === 1 && s.via === 'service').length,
+          namespaceOnly: affected.filter(s => s.via === 'namespace').length,
+          criticalServices: affected.filter(s => s.criticality > 0).length,
+          teams: teams.length,
+          dependentNamespaces: dependentNamespaces.size,
+          servicesWithFiringIncidents: affected.filter(s => s.firingIncidents > 0).length,
+          firingIncidents: incidents.length,
+          maxDistance: affected.reduce((max, s) => Math.max(max, s.distance), 0)
+        },
+        affected,
+        teams,
+        incidents
+      });
+    } catch (error) {
+      return handleRouteError(error, res, req.log, 'compute service impact', { namespace, name });
+    } finally {
+      client.release();
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,137 @@
+import { Router } from 'express';
+import { Pool } from 'pg';
+import { handleRouteError, handleClientError } from '../utils/errorHandler';
+import { actorName } from '../utils/auth';
+import { recordAudit } from '../utils/audit';
+import {
+  INGESTION_TYPES,
+  INGESTION_KEY_COLUMNS,
+  SIGNATURE_HEADER,
+  KEY_ID_HEADER,
+  validateIngestionKey,
+  createIngestionKey
+} from '../utils/ingestionKeys';
+
+export function createIngestionKeyRoutes(pool: Pool): Router {
+  const router = Router();
+
+  // Keys with their scope and last use (never the keys themselves)
+  router.get("/ingestion-keys", async (req, res) => {
+    const type = req.query.type as string | undefined;
+    if (type && !(INGESTION_TYPES as readonly string[]).includes(type)) {
+      return handleClientError(res, `type must be one of: ${INGESTION_TYPES.join(', ')}`);
+    }
+    const includeRevoked = req.query.includeRevoked === 'true';
+
+    try {
+      const result = await pool.query(`
+        SELECT ${INGESTION_KEY_COLUMNS}
+        FROM ingestion_keys
+        WHERE ($1::text IS NULL OR ingestion_type = $1)
+          AND ($2 OR revoked_at IS NULL)
+        ORDER BY ingestion_type, name
+      `, [type || null, includeRevoked]);
+
+      return res.json({
+        count: result.rows.length,
+        keys: result.rows
+      });
+
+    } catch (error) {
+      return handleRouteError(error, res, req.log, 'fetch ingestion keys');
+    }
+  });
+
+  // The key is only returned here - store it, it cannot be shown again
+  router.post("/ingestion-keys", async (req, res) => {
+    const validation = validateIngestionKey(req.body);
+    if (!validation.isValid) {
+      return res.status(400).json({ error: "Invalid ingestion key", details: validation.errors });
+    }
+
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const { key, row } = await createIngestionKey(client, req.body, actorName(req));
+
+      await recordAudit(client, req, {
+        action: 'create',
+        entityType: 'ingestion_key',
+        entityId: row.id,
+        after: row
+      });
+
+      await client.query('COMMIT');
+
+      req.log.info({
+        keyId: row.id,
+        name: row.name,
+        ingestionType: row.ingestion_type,
+        namespaces: row.namespaces,
+        verification: row.verification
+      }, 'Ingestion key created');
+
+      return res.status(201).json({
+        ...row,
+        key,
+        usage: row.verification === 'hmac'
+          ? `Send ${KEY_ID_HEADER}: ${row.id} and ${SIGNATURE_HEADER}: sha256=<hex HMAC-SHA256 of the body with this key>`
+          : 'Send Authorization: Bearer <key>',
+        warnings: validation.warnings
+      });
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      return handleRouteError(error, res, req.log, 'create ingestion key');
+    } finally {
+      client.release();
+    }
+  });
+
+  router.delete("/ingestion-keys/:id", async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return handleClientError(res, "Invalid ingestion key ID");
+    }
+
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(`
+        UPDATE ingestion_keys SET revoked_at = NOW(), signing_secret = NULL
+        WHERE id = $1 AND revoked_at IS NULL
+        RETURNING ${INGESTION_KEY_COLUMNS}
+      `, [id]);
+
+      if (result.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return handleClientError(res, "Ingestion key not found", 404);
+      }
+
+      await recordAudit(client, req, {
+        action: 'revoke',
+        entityType: 'ingestion_key',
+        entityId: id,
+        after: result.rows[0]
+      });
+
+      await client.query('COMMIT');
+
+      req.log.info({ keyId: id, name: result.rows[0].name, revokedBy: actorName(req) }, 'Ingestion key revoked');
+
+      return res.json({ status: "ok", revoked: id });
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      return handleRouteError(error, res, req.log, 'revoke ingestion key', { id });
+    } finally {
+      client.release();
+    }
+  });
+
+  return router;
+}
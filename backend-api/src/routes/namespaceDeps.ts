@@ -1,13 +1,37 @@
-import { Router } from 'express';
-import { Pool } from 'pg';
+import express, { Router } from 'express';
+import { Pool, PoolClient } from 'pg';
+import {
+  NamespaceDependencyInput,
+  NamespaceEdge,
+  validateNamespaceDependency,
+  describeCycles,
+  parseNamespaceDependencyImport,
+  formatNamespaceDependencyExport
+} from '../utils/namespaceDependencies';
+import { actorName } from '../utils/auth';
+import { recordAudit } from '../utils/audit';
 
-type NamespaceDependency = {
-  from_namespace: string;
-  to_namespace: string;
-  created_by?: string;
-  dependency_type?: string;
-  description?: string;
-};
+const YAML_TYPES = ['application/yaml', 'application/x-yaml', 'text/yaml', 'text/x-yaml', 'text/plain'];
+const IMPORT_MODES = ['merge', 'replace'];
+
+const DEPENDENCY_COLUMNS = 'id, from_namespace, to_namespace, created_by, updated_by, dependency_type, description, created_at, updated_at';
+
+// Declared dependencies with no observed traffic for this many days are reported as stale
+const DEFAULT_STALE_DAYS = 30;
+
+async function loadKnownNamespaces(client: PoolClient): Promise<Set<string>> {
+  const result = await client.query(`SELECT DISTINCT service_namespace FROM services`);
+  return new Set(result.rows.map((row: any) => row.service_namespace));
+}
+
+async function loadNamespaceEdges(client: PoolClient): Promise<Array<NamespaceEdge & { id: number }>> {
+  const result = await client.query(`SELECT id, from_namespace, to_namespace FROM namespace_dependencies`);
+  return result.rows;
+}
+
+function isUniqueViolation(error: any): boolean {
+  return error && error.code === '23505';
+}
 
 export function createNamespaceDepsRoutes(pool: Pool): Router {
   const router = Router();
@@ -17,30 +41,61 @@ export function createNamespaceDepsRoutes(pool: Pool): Router {
         const client = await pool.connect();
         
         try {
-            const dep = req.body as NamespaceDependency;
+            const validation = validateNamespaceDependency(req.body, await loadKnownNamespaces(client));
+            if (!validation.isValid) {
+            return res.status(400).json({ error: "Invalid namespace dependency", details: validation.errors });
+            }
+
+            const dep = req.body as NamespaceDependencyInput;
+            const warnings = describeCycles(await loadNamespaceEdges(client), [dep]);
+            const actor = actorName(req);
+
+            await client.query('BEGIN');
+
+            const existing = await client.query(`
+            SELECT ${DEPENDENCY_COLUMNS}
+            FROM namespace_dependencies
+            WHERE from_namespace = $1 AND to_namespace = $2
+            FOR UPDATE
+            `, [dep.from_namespace, dep.to_namespace]);
             
+            // Re-declaring an existing dependency updates it and keeps its original creator
             const result = await client.query(`
-            INSERT INTO namespace_dependencies (from_namespace, to_namespace, created_by, dependency_type, description)
-            VALUES ($1, $2, $3, $4, $5)
+            INSERT INTO namespace_dependencies (from_namespace, to_namespace, created_by, updated_by, dependency_type, description)
+            VALUES ($1, $2, $3, $3, $4, $5)
             ON CONFLICT (from_namespace, to_namespace)
             DO UPDATE SET 
-                created_by = EXCLUDED.created_by,
+                updated_by = EXCLUDED.updated_by,
                 dependency_type = EXCLUDED.dependency_type,
                 description = EXCLUDED.description,
                 updated_at = NOW()
-            RETURNING id
-            `, [dep.from_namespace, dep.to_namespace, dep.created_by || 'api', dep.dependency_type || 'manual', dep.description]);
+            RETURNING ${DEPENDENCY_COLUMNS}
+            `, [dep.from_namespace, dep.to_namespace, actor, dep.dependency_type || 'manual', dep.description]);
+
+            await recordAudit(client, req, {
+            action: existing.rows.length > 0 ? 'update' : 'create',
+            entityType: 'namespace_dependency',
+            entityId: result.rows[0].id,
+            before: existing.rows[0],
+            after: result.rows[0]
+            });
+
+            await client.query('COMMIT');
+
+            req.log.info({ from: dep.from_namespace, to: dep.to_namespace, actor }, 'Namespace dependency saved');
             
-            res.json({ 
+            return res.json({ 
             status: "ok", 
             dependency_id: result.rows[0].id,
             from: dep.from_namespace,
-            to: dep.to_namespace
+            to: dep.to_namespace,
+            warnings
             });
             
         } catch (error) {
+            await client.query('ROLLBACK');
             req.log.error({ error }, 'Namespace dependency creation failed');
-            res.status(500).json({ error: "Failed to create namespace dependency" });
+            return res.status(500).json({ error: "Failed to create namespace dependency" });
         } finally {
             client.release();
         }
@@ -50,11 +105,13 @@ export function createNamespaceDepsRoutes(pool: Pool): Router {
         const client = await pool.connect();
         
         try {
+            const namespace = req.query.namespace as string | undefined;
             const result = await client.query(`
-            SELECT id, from_namespace, to_namespace, created_by, dependency_type, description, created_at, updated_at
+            SELECT ${DEPENDENCY_COLUMNS}
             FROM namespace_dependencies
+            ${namespace ? 'WHERE from_namespace = $1 OR to_namespace = $1' : ''}
             ORDER BY from_namespace, to_namespace
-            `);
+            `, namespace ? [namespace] : []);
             
             res.json(result.rows);
             
@@ -66,27 +123,468 @@ export function createNamespaceDepsRoutes(pool: Pool): Router {
         }
         });
 
+        // Drift between declared namespace dependencies and observed cross-namespace service calls
+        router.get("/namespace-dependencies/drift", async (req, res) => {
+        const parsedStaleDays = parseInt(req.query.staleDays as string);
+        const staleDays = isNaN(parsedStaleDays) || parsedStaleDays <= 0 ? DEFAULT_STALE_DAYS : parsedStaleDays;
+        const client = await pool.connect();
+
+        try {
+            const observedResult = await client.query(`
+            SELECT
+                sd.from_service_namespace as from_namespace,
+                sd.to_service_namespace as to_namespace,
+                COUNT(*) as service_calls,
+                MIN(sd.created_at) as first_seen,
+                MAX(sd.last_seen) as last_seen,
+                (array_agg(
+                    sd.from_service_namespace || '::' || sd.from_service_name || ' -> ' ||
+                    sd.to_service_namespace || '::' || sd.to_service_name
+                    ORDER BY sd.last_seen DESC
+                ))[1:5] as examples
+            FROM service_dependencies sd
+            WHERE sd.from_service_namespace <> sd.to_service_namespace
+            GROUP BY sd.from_service_namespace, sd.to_service_namespace
+            `);
+
+            // Edges removed by ServiceCleanup after DEPENDENCY_TTL_HOURS without calls are only left in
+            // the change history; their removal time bounds when that traffic was last seen
+            const removedResult = await client.query(`
+            SELECT
+                from_service_namespace as from_namespace,
+                to_service_namespace as to_namespace,
+                MAX(changed_at) as last_seen
+            FROM dependency_changes
+            WHERE change_type = 'disappeared' AND from_service_namespace <> to_service_namespace
+            GROUP BY from_service_namespace, to_service_namespace
+            `);
+
+            const declaredResult = await client.query(`
+            SELECT id, from_namespace, to_namespace, created_by, dependency_type, description, created_at, updated_at
+            FROM namespace_dependencies
+            ORDER BY from_namespace, to_namespace
+            `);
+
+            const observed = new Map<string, any>(
+            observedResult.rows.map((row: any) => [`${row.from_namespace}==>${row.to_namespace}`, row])
+            );
+            const removed = new Map<string, Date>(
+            removedResult.rows.map((row: any) => [`${row.from_namespace}==>${row.to_namespace}`, row.last_seen])
+            );
+            const declaredKeys = new Set(
+            declaredResult.rows.map((row: any) => `${row.from_namespace}==>${row.to_namespace}`)
+            );
+            const staleBefore = new Date(Date.now() - staleDays * 24 * 60 * 60 * 1000);
+
+            // Observed calls between namespaces that nobody declared
+            const undeclared = observedResult.rows
+            .filter((row: any) => !declaredKeys.has(`${row.from_namespace}==>${row.to_namespace}`))
+            .map((row: any) => ({
+                from_namespace: row.from_namespace,
+                to_namespace: row.to_namespace,
+                service_calls: parseInt(row.service_calls),
+                first_seen: row.first_seen,
+                last_seen: row.last_seen,
+                examples: row.examples || []
+            }))
+            .sort((a: any, b: any) => b.service_calls - a.service_calls);
+
+            // Declared dependencies with no traffic at all, or none within the stale window. Traffic
+            // whose edges have since been cleaned up counts as last seen when they were removed.
+            const lastObserved = (row: any): Date | null => {
+                const key = `${row.from_namespace}==>${row.to_namespace}`;
+                const traffic = observed.get(key);
+                return traffic ? traffic.last_seen : removed.get(key) || null;
+            };
+
+            const stale = declaredResult.rows
+            .filter((row: any) => {
+                const lastSeen = lastObserved(row);
+                return !lastSeen || new Date(lastSeen) < staleBefore;
+            })
+            .map((row: any) => {
+                const traffic = observed.get(`${row.from_namespace}==>${row.to_namespace}`);
+                return {
+                ...row,
+                last_observed: lastObserved(row),
+                service_calls: traffic ? parseInt(traffic.service_calls) : 0
+                };
+            });
+
+            res.json({
+            staleDays,
+            summary: {
+                declared: declaredResult.rows.length,
+                observed: observedResult.rows.length,
+                matched: declaredResult.rows.length - stale.length,
+                undeclared: undeclared.length,
+                stale: stale.length
+            },
+            undeclared,
+            stale
+            });
+
+        } catch (error) {
+            req.log.error({ error }, 'Namespace dependency drift report failed');
+            res.status(500).json({ error: "Failed to build namespace dependency drift report" });
+        } finally {
+            client.release();
+        }
+        });
+
+        // Namespaces known to services, with how many declared dependencies touch each
+        router.get("/namespace-dependencies/namespaces", async (req, res) => {
+        const client = await pool.connect();
+
+        try {
+            const result = await client.query(`
+            SELECT
+                n.namespace,
+                (SELECT COUNT(*) FROM namespace_dependencies nd WHERE nd.from_namespace = n.namespace) as depends_on,
+                (SELECT COUNT(*) FROM namespace_dependencies nd WHERE nd.to_namespace = n.namespace) as depended_on_by
+            FROM (SELECT DISTINCT service_namespace as namespace FROM services) n
+            ORDER BY n.namespace
+            `);
+
+            res.json(result.rows.map((row: any) => ({
+            namespace: row.namespace,
+            depends_on: parseInt(row.depends_on),
+            depended_on_by: parseInt(row.depended_on_by)
+            })));
+
+        } catch (error) {
+            req.log.error({ error }, 'Namespace list fetch failed');
+            res.status(500).json({ error: "Failed to fetch namespaces" });
+        } finally {
+            client.release();
+        }
+        });
+
+        // Dependencies of one namespace in both directions
+        router.get("/namespace-dependencies/namespace/:namespace", async (req, res) => {
+        const client = await pool.connect();
+
+        try {
+            const { namespace } = req.params;
+            const knownNamespaces = await loadKnownNamespaces(client);
+
+            const result = await client.query(`
+            SELECT ${DEPENDENCY_COLUMNS}
+            FROM namespace_dependencies
+            WHERE from_namespace = $1 OR to_namespace = $1
+            ORDER BY from_namespace, to_namespace
+            `, [namespace]);
+
+            if (!knownNamespaces.has(namespace) && result.rows.length === 0) {
+            return res.status(404).json({ error: "Namespace not found" });
+            }
+
+            return res.json({
+            namespace,
+            known: knownNamespaces.has(namespace),
+            depends_on: result.rows.filter((row: any) => row.from_namespace === namespace),
+            depended_on_by: result.rows.filter((row: any) => row.to_namespace === namespace)
+            });
+
+        } catch (error) {
+            req.log.error({ error }, 'Namespace dependency lookup failed');
+            return res.status(500).json({ error: "Failed to look up namespace dependencies" });
+        } finally {
+            client.release();
+        }
+        });
+
+        // Bulk export in the same shape the import accepts
+        router.get("/namespace-dependencies/export", async (req, res) => {
+        const format = ((req.query.format as string) || 'json').toLowerCase();
+        if (format !== 'json' && format !== 'yaml') {
+            return res.status(400).json({ error: "Invalid format - expected json or yaml" });
+        }
+
+        const client = await pool.connect();
+
+        try {
+            const result = await client.query(`
+            SELECT from_namespace, to_namespace, dependency_type, description
+            FROM namespace_dependencies
+            ORDER BY from_namespace, to_namespace
+            `);
+
+            res.setHeader('Content-Type', format === 'yaml' ? 'application/yaml' : 'application/json');
+            res.setHeader('Content-Disposition', `attachment; filename="namespace-dependencies.${format === 'yaml' ? 'yaml' : 'json'}"`);
+            return res.send(formatNamespaceDependencyExport(result.rows, format));
+
+        } catch (error) {
+            req.log.error({ error }, 'Namespace dependency export failed');
+            return res.status(500).json({ error: "Failed to export namespace dependencies" });
+        } finally {
+            client.release();
+        }
+        });
+
+        // Bulk import from JSON or YAML. `replace` removes dependencies missing from the import; `dryRun` only validates.
+        router.post(
+        "/namespace-dependencies/import",
+        express.text({ type: YAML_TYPES, limit: '1mb' }),
+        async (req, res) => {
+        const mode = ((req.query.mode as string) || 'merge').toLowerCase();
+        if (!IMPORT_MODES.includes(mode)) {
+            return res.status(400).json({ error: `Invalid mode - expected one of ${IMPORT_MODES.join(', ')}` });
+        }
+        const dryRun = req.query.dryRun === 'true';
+
+        const { dependencies, error: parseError } = parseNamespaceDependencyImport(req.body);
+        if (!dependencies) {
+            return res.status(400).json({ error: parseError });
+        }
+
+        const client = await pool.connect();
+
+        try {
+            const knownNamespaces = await loadKnownNamespaces(client);
+
+            const errors: Array<{ index: number; errors: string[] }> = [];
+            const seen = new Set<string>();
+            dependencies.forEach((dep, index) => {
+            const validation = validateNamespaceDependency(dep, knownNamespaces);
+            const entryErrors = [...validation.errors];
+            const key = `${dep?.from_namespace}==>${dep?.to_namespace}`;
+            if (validation.isValid && seen.has(key)) {
+                entryErrors.push(`Duplicate dependency ${dep.from_namespace} -> ${dep.to_namespace}`);
+            }
+            seen.add(key);
+            if (entryErrors.length > 0) {
+                errors.push({ index, errors: entryErrors });
+            }
+            });
+
+            if (errors.length > 0) {
+            return res.status(400).json({ error: "Invalid namespace dependencies", details: errors });
+            }
+
+            const imports = dependencies as NamespaceDependencyInput[];
+            const existing = await loadNamespaceEdges(client);
+            const existingKeys = new Set(existing.map(edge => `${edge.from_namespace}==>${edge.to_namespace}`));
+            const importKeys = new Set(imports.map(dep => `${dep.from_namespace}==>${dep.to_namespace}`));
+
+            const toDelete = mode === 'replace'
+            ? existing.filter(edge => !importKeys.has(`${edge.from_namespace}==>${edge.to_namespace}`))
+            : [];
+            const resultingEdges = mode === 'replace'
+            ? imports
+            : [...existing.filter(edge => !importKeys.has(`${edge.from_namespace}==>${edge.to_namespace}`)), ...imports];
+
+            const summary = {
+            mode,
+            dryRun,
+            total: imports.length,
+            created: imports.filter(dep => !existingKeys.has(`${dep.from_namespace}==>${dep.to_namespace}`)).length,
+            updated: imports.filter(dep => existingKeys.has(`${dep.from_namespace}==>${dep.to_namespace}`)).length,
+            deleted: toDelete.length,
+            warnings: describeCycles(resultingEdges, imports)
+            };
+
+            if (dryRun) {
+            return res.json({ status: "ok", ...summary });
+            }
+
+            await client.query('BEGIN');
+
+            if (toDelete.length > 0) {
+            await client.query(`DELETE FROM namespace_dependencies WHERE id = ANY($1::int[])`, [toDelete.map(edge => edge.id)]);
+            }
+
+            const actor = actorName(req);
+
+            for (const dep of imports) {
+            await client.query(`
+                INSERT INTO namespace_dependencies (from_namespace, to_namespace, created_by, updated_by, dependency_type, description)
+                VALUES ($1, $2, $3, $3, $4, $5)
+                ON CONFLICT (from_namespace, to_namespace)
+                DO UPDATE SET 
+                    updated_by = EXCLUDED.updated_by,
+                    dependency_type = EXCLUDED.dependency_type,
+                    description = EXCLUDED.description,
+                    updated_at = NOW()
+            `, [dep.from_namespace, dep.to_namespace, actor, dep.dependency_type || 'manual', dep.description]);
+            }
+
+            await recordAudit(client, req, {
+            action: 'import',
+            entityType: 'namespace_dependency',
+            before: toDelete.length > 0 ? { deleted: toDelete } : undefined,
+            after: { mode, created: summary.created, updated: summary.updated, deleted: summary.deleted, dependencies: imports }
+            });
+
+            await client.query('COMMIT');
+
+            req.log.info({ mode, created: summary.created, updated: summary.updated, deleted: summary.deleted, actor }, 'Namespace dependencies imported');
+
+            return res.json({ status: "ok", ...summary });
+
+        } catch (error) {
+            await client.query('ROLLBACK').catch(() => undefined);
+            req.log.error({ error }, 'Namespace dependency import failed');
+            return res.status(500).json({ error: "Failed to import namespace dependencies" });
+        } finally {
+            client.release();
+        }
+        });
+
+        router.get("/namespace-dependencies/:id", async (req, res) => {
+        const dependencyId = parseInt(req.params.id);
+        if (isNaN(dependencyId)) {
+            return res.status(400).json({ error: "Invalid dependency id" });
+        }
+
+        const client = await pool.connect();
+
+        try {
+            const result = await client.query(`
+            SELECT ${DEPENDENCY_COLUMNS} FROM namespace_dependencies WHERE id = $1
+            `, [dependencyId]);
+
+            if (result.rows.length === 0) {
+            return res.status(404).json({ error: "Namespace dependency not found" });
+            }
+
+            return res.json(result.rows[0]);
+
+        } catch (error) {
+            req.log.error({ error }, 'Namespace dependency fetch failed');
+            return res.status(500).json({ error: "Failed to fetch namespace dependency" });
+        } finally {
+            client.release();
+        }
+        });
+
+        // PUT replaces every editable field; PATCH only changes the fields provided
+        const updateDependency = (partial: boolean) => async (req: express.Request, res: express.Response) => {
+        const dependencyId = parseInt(req.params.id);
+        if (isNaN(dependencyId)) {
+            return res.status(400).json({ error: "Invalid dependency id" });
+        }
+
+        const client = await pool.connect();
+
+        try {
+            const currentResult = await client.query(`
+            SELECT ${DEPENDENCY_COLUMNS} FROM namespace_dependencies WHERE id = $1
+            `, [dependencyId]);
+
+            if (currentResult.rows.length === 0) {
+            return res.status(404).json({ error: "Namespace dependency not found" });
+            }
+
+            const body = req.body && typeof req.body === 'object' ? req.body : {};
+            const current = currentResult.rows[0];
+            const updated = partial
+            ? {
+                from_namespace: body.from_namespace ?? current.from_namespace,
+                to_namespace: body.to_namespace ?? current.to_namespace,
+                dependency_type: body.dependency_type ?? current.dependency_type,
+                description: body.description !== undefined ? body.description : current.description
+                }
+            : {
+                from_namespace: body.from_namespace,
+                to_namespace: body.to_namespace,
+                dependency_type: body.dependency_type ?? 'manual',
+                description: body.description ?? null
+                };
+
+            const validation = validateNamespaceDependency(updated, await loadKnownNamespaces(client));
+            if (!validation.isValid) {
+            return res.status(400).json({ error: "Invalid namespace dependency", details: validation.errors });
+            }
+
+            const edges = (await loadNamespaceEdges(client)).filter(edge => edge.id !== dependencyId);
+            const warnings = describeCycles(edges, [updated]);
+
+            const actor = actorName(req);
+
+            await client.query('BEGIN');
+
+            const result = await client.query(`
+            UPDATE namespace_dependencies
+            SET from_namespace = $2, to_namespace = $3, dependency_type = $4, description = $5, updated_by = $6, updated_at = NOW()
+            WHERE id = $1
+            RETURNING ${DEPENDENCY_COLUMNS}
+            `, [dependencyId, updated.from_namespace, updated.to_namespace, updated.dependency_type, updated.description, actor]);
+
+            await recordAudit(client, req, {
+            action: 'update',
+            entityType: 'namespace_dependency',
+            entityId: dependencyId,
+            before: current,
+            after: result.rows[0]
+            });
+
+            await client.query('COMMIT');
+
+            req.log.info({ dependencyId, actor }, 'Namespace dependency updated');
+
+            return res.json({ status: "ok", dependency: result.rows[0], warnings });
+
+        } catch (error) {
+            await client.query('ROLLBACK');
+            if (isUniqueViolation(error)) {
+            return res.status(409).json({ error: "A dependency between these namespaces already exists" });
+            }
+            req.log.error({ error }, 'Namespace dependency update failed');
+            return res.status(500).json({ error: "Failed to update namespace dependency" });
+        } finally {
+            client.release();
+        }
+        };
+
+        router.put("/namespace-dependencies/:id", updateDependency(false));
+        router.patch("/namespace-dependencies/:id", updateDependency(true));
+
         router.delete("/namespace-dependencies/:id", async (req, res) => {
+        const dependencyId = parseInt(req.params.id);
+        if (isNaN(dependencyId)) {
+            return res.status(400).json({ error: "Invalid dependency id" });
+        }
+
         const client = await pool.connect();
         
         try {
-            const dependencyId = parseInt(req.params.id);
+            await client.query('BEGIN');
             
             const result = await client.query(`
             DELETE FROM namespace_dependencies WHERE id = $1
-            RETURNING from_namespace, to_namespace
+            RETURNING ${DEPENDENCY_COLUMNS}
             `, [dependencyId]);
             
             if (result.rows.length === 0) {
+            await client.query('ROLLBACK');
             return res.status(404).json({ error: "Namespace dependency not found" });
             }
+
+            const deleted = result.rows[0];
+            await recordAudit(client, req, {
+            action: 'delete',
+            entityType: 'namespace_dependency',
+            entityId: dependencyId,
+            before: deleted
+            });
+
+            await client.query('COMMIT');
+
+            req.log.info({
+            dependencyId,
+            from_namespace: deleted.from_namespace,
+            to_namespace: deleted.to_namespace,
+            actor: actorName(req)
+            }, 'Namespace dependency deleted');
             
             return res.json({ 
             status: "ok", 
-            deleted: result.rows[0]
+            deleted: { from_namespace: deleted.from_namespace, to_namespace: deleted.to_namespace }
             });
             
         } catch (error) {
+            await client.query('ROLLBACK');
             req.log.error({ error }, 'Namespace dependency deletion failed');
             return res.status(500).json({ error: "Failed to delete namespace dependency" });
         } finally {
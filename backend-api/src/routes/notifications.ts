@@ -0,0 +1,664 @@
+import { Router } from 'express';
+import { Pool, PoolClient } from 'pg';
+import { handleRouteError, handleClientError } from '../utils/errorHandler';
+import { NotificationConfig } from '../config/notifications';
+import NotificationDispatcher from '../services/NotificationDispatcher';
+import {
+  validateChannel,
+  validateRule,
+  buildTestPayload,
+  sendNotification,
+  NotificationChannel,
+  NotificationDeliveryError,
+  NOTIFICATION_EVENTS
+} from '../utils/notifications';
+import { recordAudit } from '../utils/audit';
+
+const DELIVERY_STATUSES = ['pending', 'sending', 'sent', 'failed'];
+const DEFAULT_DELIVERY_LIMIT = 100;
+const MAX_DELIVERY_LIMIT = 1000;
+
+const CHANNEL_EDITABLE_FIELDS = ['name', 'channel_type', 'config', 'enabled'];
+
+const RULE_EDITABLE_FIELDS = [
+  'name', 'channel_id', 'match_namespaces', 'match_teams', 'match_severities', 'events', 'enabled'
+];
+
+const CHANNEL_COLUMNS = 'id, name, channel_type, config, enabled, created_at, updated_at';
+
+const RULE_COLUMNS = `
+  id, name, channel_id, match_namespaces, match_teams, match_severities, events, enabled,
+  created_at, updated_at
+`;
+
+async function loadChannel(client: PoolClient, id: number) {
+  const result = await client.query(`SELECT ${CHANNEL_COLUMNS} FROM notification_channels WHERE id = $1`, [id]);
+  return result.rows[0] || null;
+}
+
+async function loadRule(client: PoolClient, id: number) {
+  const result = await client.query(`SELECT ${RULE_COLUMNS} FROM notification_rules WHERE id = $1`, [id]);
+  return result.rows[0] || null;
+}
+
+async function channelExists(client: PoolClient, id: number): Promise<boolean> {
+  const result = await client.query('SELECT 1 FROM notification_channels WHERE id = $1', [id]);
+  return result.rows.length > 0;
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return (error as { code?: string })?.code === '23505';
+}
+
+export function createNotificationRoutes(
+  pool: Pool,
+  dispatcher: NotificationDispatcher,
+  config: NotificationConfig
+): Router {
+  const router = Router();
+
+  // Channels with their rule count and delivery outcomes over the last 24 hours
+  router.get("/notification-channels", async (req, res) => {
+    const client = await pool.connect();
+
+    try {
+      const result = await client.query(`
+        SELECT c.id, c.name, c.channel_type, c.config, c.enabled, c.created_at, c.updated_at,
+          (SELECT COUNT(*)::int FROM notification_rules r WHERE r.channel_id = c.id) AS rule_count,
+          (
+            SELECT COUNT(*)::int FROM notification_deliveries d
+            WHERE d.channel_id = c.id AND d.status = 'sent' AND d.created_at > NOW() - INTERVAL '24 hours'
+          ) AS sent_24h,
+          (
+            SELECT COUNT(*)::int FROM notification_deliveries d
+            WHERE d.channel_id = c.id AND d.status = 'failed' AND d.created_at > NOW() - INTERVAL '24 hours'
+          ) AS failed_24h
+        FROM notification_channels c
+        ORDER BY c.name
+      `);
+
+      return res.json({
+        count: result.rows.length,
+        channels: result.rows
+      });
+
+    } catch (error) {
+      return handleRouteError(error, res, req.log, 'fetch notification channels');
+    } finally {
+      client.release();
+    }
+  });
+
+  router.post("/notification-channels", async (req, res) => {
+    const validation = validateChannel(req.body);
+    if (!validation.isValid) {
+      return res.status(400).json({ error: "Invalid notification channel", details: validation.errors });
+    }
+
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const channel = req.body;
+      const result = await client.query(`
+        INSERT INTO notification_channels (name, channel_type, config, enabled)
+        VALUES ($1, $2, $3, $4)
+        RETURNING ${CHANNEL_COLUMNS}
+      `, [
+        channel.name.trim(),
+        channel.channel_type,
+        JSON.stringify(channel.config),
+        channel.enabled ?? true
+      ]);
+
+      await recordAudit(client, req, {
+        action: 'create',
+        entityType: 'notification_channel',
+        entityId: result.rows[0].id,
+        after: result.rows[0]
+      });
+
+      await client.query('COMMIT');
+
+      req.log.info({ channelId: result.rows[0].id, channelType: channel.channel_type }, 'Notification channel created');
+
+      return res.status(201).json({
+        channel: result.rows[0],
+        warnings: validation.warnings
+      });
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      if (isUniqueViolation(error)) {
+        return handleClientError(res, `A notification channel named '${req.body.name}' already exists`, 409);
+      }
+      return handleRouteError(error, res, req.log, 'create notification channel');
+    } finally {
+      client.release();
+    }
+  });
+
+  router.get("/notification-channels/:id", async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return handleClientError(res, "Invalid channel ID");
+    }
+
+    const client = await pool.connect();
+
+    try {
+      const channel = await loadChannel(client, id);
+      if (!channel) {
+        return handleClientError(res, "Notification channel not found", 404);
+      }
+
+      const rulesResult = await client.query(
+        `SELECT ${RULE_COLUMNS} FROM notification_rules WHERE channel_id = $1 ORDER BY name`,
+        [id]
+      );
+
+      return res.json({ ...channel, rules: rulesResult.rows });
+
+    } catch (error) {
+      return handleRouteError(error, res, req.log, 'fetch notification channel', { id });
+    } finally {
+      client.release();
+    }
+  });
+
+  // Partial update - fields left out of the body keep their current value
+  router.put("/notification-channels/:id", async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return handleClientError(res, "Invalid channel ID");
+    }
+    if (!req.body || typeof req.body !== 'object' || Array.isArray(req.body)) {
+      return handleClientError(res, "Body must be an object");
+    }
+
+    const client = await pool.connect();
+
+    try {
+      const existing = await loadChannel(client, id);
+      if (!existing) {
+        return handleClientError(res, "Notification channel not found", 404);
+      }
+
+      const merged: Record<string, any> = {};
+      CHANNEL_EDITABLE_FIELDS.forEach(field => {
+        merged[field] = req.body[field] !== undefined ? req.body[field] : existing[field];
+      });
+
+      const validation = validateChannel(merged);
+      if (!validation.isValid) {
+        return res.status(400).json({ error: "Invalid notification channel", details: validation.errors });
+      }
+
+      await client.query('BEGIN');
+
+      const result = await client.query(`
+        UPDATE notification_channels
+        SET name = $1, channel_type = $2, config = $3, enabled = $4, updated_at = NOW()
+        WHERE id = $5
+        RETURNING ${CHANNEL_COLUMNS}
+      `, [merged.name.trim(), merged.channel_type, JSON.stringify(merged.config), merged.enabled, id]);
+
+      await recordAudit(client, req, {
+        action: 'update',
+        entityType: 'notification_channel',
+        entityId: id,
+        before: existing,
+        after: result.rows[0]
+      });
+
+      await client.query('COMMIT');
+
+      req.log.info({ channelId: id }, 'Notification channel updated');
+
+      return res.json({
+        channel: result.rows[0],
+        warnings: validation.warnings
+      });
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      if (isUniqueViolation(error)) {
+        return handleClientError(res, `A notification channel named '${req.body.name}' already exists`, 409);
+      }
+      return handleRouteError(error, res, req.log, 'update notification channel', { id });
+    } finally {
+      client.release();
+    }
+  });
+
+  // Deleting a channel also deletes its rules and delivery log
+  router.delete("/notification-channels/:id", async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return handleClientError(res, "Invalid channel ID");
+    }
+
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(`DELETE FROM notification_channels WHERE id = $1 RETURNING ${CHANNEL_COLUMNS}`, [id]);
+      if (result.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return handleClientError(res, "Notification channel not found", 404);
+      }
+
+      await recordAudit(client, req, {
+        action: 'delete',
+        entityType: 'notification_channel',
+        entityId: id,
+        before: result.rows[0]
+      });
+
+      await client.query('COMMIT');
+
+      req.log.info({ channelId: id }, 'Notification channel deleted');
+
+      return res.json({ status: "ok", deleted: id });
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      return handleRouteError(error, res, req.log, 'delete notification channel', { id });
+    } finally {
+      client.release();
+    }
+  });
+
+  // Send a test message straight away (no retries) and record it in the delivery log
+  router.post("/notification-channels/:id/test", async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return handleClientError(res, "Invalid channel ID");
+    }
+
+    const client = await pool.connect();
+
+    try {
+      const channel: NotificationChannel | null = await loadChannel(client, id);
+      if (!channel) {
+        return handleClientError(res, "Notification channel not found", 404);
+      }
+
+      const payload = buildTestPayload(channel);
+      const startTime = Date.now();
+      let responseStatus: number | null = null;
+      let deliveryError: string | null = null;
+
+      try {
+        responseStatus = (await sendNotification(channel, payload, config)).responseStatus;
+      } catch (error) {
+        deliveryError = error instanceof Error ? error.message : 'Unknown error';
+        responseStatus = error instanceof NotificationDeliveryError ? error.responseStatus : null;
+      }
+
+      const deliveryResult = await client.query(`
+        INSERT INTO notification_deliveries (
+          channel_id, event_type, status, attempts, last_error, response_status, payload, sent_at
+        )
+        VALUES ($1, 'test', $2, 1, $3, $4, $5, $6)
+        RETURNING id
+      `, [
+        id,
+        deliveryError ? 'failed' : 'sent',
+        deliveryError,
+        responseStatus,
+        JSON.stringify(payload),
+        deliveryError ? null : new Date()
+      ]);
+
+      await recordAudit(client, req, {
+        action: 'test',
+        entityType: 'notification_channel',
+        entityId: id,
+        after: { deliveryId: deliveryResult.rows[0].id, success: !deliveryError, responseStatus, error: deliveryError }
+      });
+
+      req.log.info({ channelId: id, success: !deliveryError, error: deliveryError }, 'Notification channel tested');
+
+      return res.status(deliveryError ? 502 : 200).json({
+        success: !deliveryError,
+        deliveryId: deliveryResult.rows[0].id,
+        responseStatus,
+        error: deliveryError,
+        duration: Date.now() - startTime
+      });
+
+    } catch (error) {
+      return handleRouteError(error, res, req.log, 'test notification channel', { id });
+    } finally {
+      client.release();
+    }
+  });
+
+  router.get("/notification-rules", async (req, res) => {
+    const client = await pool.connect();
+
+    try {
+      const result = await client.query(`
+        SELECT r.id, r.name, r.channel_id, r.match_namespaces, r.match_teams, r.match_severities,
+               r.events, r.enabled, r.created_at, r.updated_at, c.name AS channel_name, c.channel_type
+        FROM notification_rules r
+        JOIN notification_channels c ON c.id = r.channel_id
+        ORDER BY r.name
+      `);
+
+      return res.json({
+        count: result.rows.length,
+        events: NOTIFICATION_EVENTS,
+        rules: result.rows
+      });
+
+    } catch (error) {
+      return handleRouteError(error, res, req.log, 'fetch notification rules');
+    } finally {
+      client.release();
+    }
+  });
+
+  router.post("/notification-rules", async (req, res) => {
+    const validation = validateRule(req.body);
+    if (!validation.isValid) {
+      return res.status(400).json({ error: "Invalid notification rule", details: validation.errors });
+    }
+
+    const client = await pool.connect();
+
+    try {
+      const rule = req.body;
+      if (!(await channelExists(client, rule.channel_id))) {
+        return handleClientError(res, `Notification channel ${rule.channel_id} not found`, 404);
+      }
+
+      await client.query('BEGIN');
+
+      const result = await client.query(`
+        INSERT INTO notification_rules (
+          name, channel_id, match_namespaces, match_teams, match_severities, events, enabled
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7)
+        RETURNING ${RULE_COLUMNS}
+      `, [
+        rule.name.trim(),
+        rule.channel_id,
+        rule.match_namespaces || [],
+        rule.match_teams || [],
+        rule.match_severities || [],
+        rule.events || [...NOTIFICATION_EVENTS],
+        rule.enabled ?? true
+      ]);
+
+      await recordAudit(client, req, {
+        action: 'create',
+        entityType: 'notification_rule',
+        entityId: result.rows[0].id,
+        after: result.rows[0]
+      });
+
+      await client.query('COMMIT');
+
+      req.log.info({ ruleId: result.rows[0].id, channelId: rule.channel_id }, 'Notification rule created');
+
+      return res.status(201).json({
+        rule: result.rows[0],
+        warnings: validation.warnings
+      });
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      if (isUniqueViolation(error)) {
+        return handleClientError(res, `A notification rule named '${req.body.name}' already exists`, 409);
+      }
+      return handleRouteError(error, res, req.log, 'create notification rule');
+    } finally {
+      client.release();
+    }
+  });
+
+  // Partial update - fields left out of the body keep their current value
+  router.put("/notification-rules/:id", async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return handleClientError(res, "Invalid rule ID");
+    }
+    if (!req.body || typeof req.body !== 'object' || Array.isArray(req.body)) {
+      return handleClientError(res, "Body must be an object");
+    }
+
+    const client = await pool.connect();
+
+    try {
+      const existing = await loadRule(client, id);
+      if (!existing) {
+        return handleClientError(res, "Notification rule not found", 404);
+      }
+
+      const merged: Record<string, any> = {};
+      RULE_EDITABLE_FIELDS.forEach(field => {
+        merged[field] = req.body[field] !== undefined ? req.body[field] : existing[field];
+      });
+
+      const validation = validateRule(merged);
+      if (!validation.isValid) {
+        return res.status(400).json({ error: "Invalid notification rule", details: validation.errors });
+      }
+
+      if (merged.channel_id !== existing.channel_id && !(await channelExists(client, merged.channel_id))) {
+        return handleClientError(res, `Notification channel ${merged.channel_id} not found`, 404);
+      }
+
+      await client.query('BEGIN');
+
+      const result = await client.query(`
+        UPDATE notification_rules
+        SET name = $1,
+            channel_id = $2,
+            match_namespaces = $3,
+            match_teams = $4,
+            match_severities = $5,
+            events = $6,
+            enabled = $7,
+            updated_at = NOW()
+        WHERE id = $8
+        RETURNING ${RULE_COLUMNS}
+      `, [
+        merged.name.trim(),
+        merged.channel_id,
+        merged.match_namespaces || [],
+        merged.match_teams || [],
+        merged.match_severities || [],
+        merged.events || [...NOTIFICATION_EVENTS],
+        merged.enabled,
+        id
+      ]);
+
+      await recordAudit(client, req, {
+        action: 'update',
+        entityType: 'notification_rule',
+        entityId: id,
+        before: existing,
+        after: result.rows[0]
+      });
+
+      await client.query('COMMIT');
+
+      req.log.info({ ruleId: id }, 'Notification rule updated');
+
+      return res.json({
+        rule: result.rows[0],
+        warnings: validation.warnings
+      });
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      if (isUniqueViolation(error)) {
+        return handleClientError(res, `A notification rule named '${req.body.name}' already exists`, 409);
+      }
+      return handleRouteError(error, res, req.log, 'update notification rule', { id });
+    } finally {
+      client.release();
+    }
+  });
+
+  router.delete("/notification-rules/:id", async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return handleClientError(res, "Invalid rule ID");
+    }
+
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(`DELETE FROM notification_rules WHERE id = $1 RETURNING ${RULE_COLUMNS}`, [id]);
+      if (result.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return handleClientError(res, "Notification rule not found", 404);
+      }
+
+      await recordAudit(client, req, {
+        action: 'delete',
+        entityType: 'notification_rule',
+        entityId: id,
+        before: result.rows[0]
+      });
+
+      await client.query('COMMIT');
+
+      req.log.info({ ruleId: id }, 'Notification rule deleted');
+
+      return res.json({ status: "ok", deleted: id });
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      return handleRouteError(error, res, req.log, 'delete notification rule', { id });
+    } finally {
+      client.release();
+    }
+  });
+
+  // Delivery log, newest first, with the dispatcher's metrics
+  router.get("/notification-deliveries", async (req, res) => {
+    const status = req.query.status as string | undefined;
+    if (status && !DELIVERY_STATUSES.includes(status)) {
+      return handleClientError(res, `Invalid status - expected one of ${DELIVERY_STATUSES.join(', ')}`);
+    }
+
+    const channelId = req.query.channelId ? parseInt(req.query.channelId as string) : null;
+    const incidentId = req.query.incidentId ? parseInt(req.query.incidentId as string) : null;
+    if ((channelId !== null && isNaN(channelId)) || (incidentId !== null && isNaN(incidentId))) {
+      return handleClientError(res, "channelId and incidentId must be integers");
+    }
+
+    const requestedLimit = parseInt(req.query.limit as string);
+    const limit = isNaN(requestedLimit) || requestedLimit <= 0
+      ? DEFAULT_DELIVERY_LIMIT
+      : Math.min(requestedLimit, MAX_DELIVERY_LIMIT);
+
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (status) {
+      params.push(status);
+      conditions.push(`d.status = $${params.length}`);
+    }
+    if (channelId !== null) {
+      params.push(channelId);
+      conditions.push(`d.channel_id = $${params.length}`);
+    }
+    if (incidentId !== null) {
+      params.push(incidentId);
+      conditions.push(`d.incident_id = $${params.length}`);
+    }
+    params.push(limit);
+
+    const client = await pool.connect();
+
+    try {
+      const result = await client.query(`
+        SELECT d.id, d.channel_id, c.name AS channel_name, c.channel_type, d.rule_id, d.incident_id,
+               d.event_type, d.status, d.attempts, d.last_error, d.response_status,
+               d.next_attempt_at, d.created_at, d.sent_at
+        FROM notification_deliveries d
+        JOIN notification_channels c ON c.id = d.channel_id
+        ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+        ORDER BY d.created_at DESC, d.id DESC
+        LIMIT $${params.length}
+      `, params);
+
+      return res.json({
+        count: result.rows.length,
+        deliveries: result.rows,
+        dispatcher: {
+          enabled: config.enabled,
+          maxAttempts: config.maxAttempts,
+          ...dispatcher.getMetrics()
+        }
+      });
+
+    } catch (error) {
+      return handleRouteError(error, res, req.log, 'fetch notification deliveries', { status, channelId, incidentId });
+    } finally {
+      client.release();
+    }
+  });
+
+  // Put a failed delivery back on the queue for another full round of attempts
+  router.post("/notification-deliveries/:id/retry", async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return handleClientError(res, "Invalid delivery ID");
+    }
+
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(`
+        UPDATE notification_deliveries
+        SET status = 'pending', attempts = 0, next_attempt_at = NOW()
+        WHERE id = $1 AND status = 'failed' AND event_type <> 'test'
+        RETURNING id, status, next_attempt_at
+      `, [id]);
+
+      if (result.rows.length === 0) {
+        await client.query('ROLLBACK');
+        const existing = await client.query('SELECT status, event_type FROM notification_deliveries WHERE id = $1', [id]);
+        if (existing.rows.length === 0) {
+          return handleClientError(res, "Delivery not found", 404);
+        }
+        return handleClientError(res, "Only failed incident deliveries can be retried", 409);
+      }
+
+      await recordAudit(client, req, {
+        action: 'retry',
+        entityType: 'notification_delivery',
+        entityId: id,
+        before: { id, status: 'failed' },
+        after: result.rows[0]
+      });
+
+      await client.query('COMMIT');
+
+      req.log.info({ deliveryId: id }, 'Notification delivery requeued');
+
+      return res.json({ delivery: result.rows[0] });
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      return handleRouteError(error, res, req.log, 'retry notification delivery', { id });
+    } finally {
+      client.release();
+    }
+  });
+
+  return router;
+}
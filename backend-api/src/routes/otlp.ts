@@ -0,0 +1,153 @@
+import express, { Router } from 'express';
+import { Pool } from 'pg';
+import { OtlpConfig } from '../config/otlp';
+import { upsertService, upsertServiceDependency, ensureServiceExists, ServiceUpdateData } from '../utils/serviceManager';
+import { parseOtlpJson, decodeOtlpProtobuf, deriveTopology, OtlpResourceSpans } from '../utils/otlp';
+import { extractServiceCalls } from '../utils/spanEnrichment';
+import { computeLatencyPercentiles, recordDependencyMetrics } from '../utils/dependencyMetrics';
+import { canIngestNamespace, namespaceNotAllowedMessage, recordIngestionRejection } from '../utils/ingestionKeys';
+
+const PROTOBUF_TYPES = ['application/x-protobuf', 'application/protobuf'];
+
+// Body parser failures - a payload over maxPayloadSize or malformed JSON - answered as JSON
+const handleBodyError: express.ErrorRequestHandler = (error, req, res, next) => {
+  if (error?.type === 'entity.too.large') {
+    req.log.warn({ length: error.length, limit: error.limit }, 'Rejected oversized OTLP trace payload');
+    return res.status(413).json({ error: "OTLP trace payload too large" });
+  }
+  if (error instanceof SyntaxError) {
+    return res.status(400).json({ error: "Invalid OTLP trace payload", details: error.message });
+  }
+  return next(error);
+};
+
+export function createOtlpRoutes(pool: Pool, config: OtlpConfig, metricsBucketMinutes: number): Router {
+  const router = Router();
+
+  // OTLP/HTTP trace receiver - lets a stock OpenTelemetry Collector export straight to Olana.
+  // Parses its own bodies, so maxPayloadSize applies to both encodings.
+  router.post(
+    "/v1/traces",
+    express.raw({ type: PROTOBUF_TYPES, limit: config.maxPayloadSize }),
+    express.json({ limit: config.maxPayloadSize }),
+    async (req, res) => {
+      if (!config.enabled) {
+        return res.status(503).json({
+          error: "OTLP receiver is disabled",
+          enabled: false
+        });
+      }
+
+      const isProtobuf = !!req.is(PROTOBUF_TYPES);
+
+      let resourceSpans: OtlpResourceSpans[];
+      try {
+        resourceSpans = isProtobuf
+          ? decodeOtlpProtobuf(Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0))
+          : parseOtlpJson(req.body);
+      } catch (error) {
+        req.log.warn({ error: error instanceof Error ? error.message : error }, 'Rejected OTLP trace payload');
+        return res.status(400).json({
+          error: "Invalid OTLP trace payload",
+          details: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+
+      const topology = deriveTopology(resourceSpans, config);
+
+      // Services outside the ingestion key's namespaces are dropped along with the calls they report
+      const rejectedServices = topology.services.filter(
+        service => !canIngestNamespace(req.ingestionKey, service.service_namespace)
+      );
+      const services = topology.services.filter(service => !rejectedServices.includes(service));
+      const dependencies = topology.dependencies.filter(
+        dep => canIngestNamespace(req.ingestionKey, dep.from.service_namespace)
+      );
+      const rejectedSpans = rejectedServices.reduce((sum, service) => sum + service.spans.length, 0);
+
+      if (rejectedServices.length > 0) {
+        recordIngestionRejection('telemetry', 'namespace_not_allowed', rejectedServices.length);
+        req.log.warn({
+          namespaces: Array.from(new Set(rejectedServices.map(service => service.service_namespace))),
+          rejectedSpans
+        }, 'OTLP services outside the ingestion key namespaces dropped');
+      }
+
+      req.log.info({
+        encoding: isProtobuf ? 'protobuf' : 'json',
+        resourceSpans: resourceSpans.length,
+        spans: topology.spanCount,
+        services: topology.services.length,
+        dependencies: topology.dependencies.length,
+        unresolvedParents: topology.unresolvedParents
+      }, 'Processing OTLP traces');
+
+      const client = await pool.connect();
+
+      try {
+        await client.query('BEGIN');
+
+        for (const service of services) {
+          // Calls to other instrumented services become dependencies, not enrichment
+          const calls = extractServiceCalls(service.spans, topology.crossServiceSpanIds, config.maxCallsPerService);
+
+          const serviceUpdate: ServiceUpdateData = {
+            service_namespace: service.service_namespace,
+            service_name: service.service_name,
+            environment: service.environment,
+            team: service.team,
+            // Only touch enrichment categories observed in this batch so sampled exports don't wipe them
+            external_calls: calls.external_calls.length > 0 ? calls.external_calls : undefined,
+            database_calls: calls.database_calls.length > 0 ? calls.database_calls : undefined,
+            rpc_calls: calls.rpc_calls.length > 0 ? calls.rpc_calls : undefined,
+            merge_calls: true,
+            max_call_entries: config.maxCallsPerService,
+            source: 'otel'
+          };
+
+          await upsertService(client, serviceUpdate, req.log);
+        }
+
+        for (const dep of dependencies) {
+          // Calls into namespaces the key may not write keep their edge, but the target service
+          // is only created if missing, never refreshed
+          if (!canIngestNamespace(req.ingestionKey, dep.to.service_namespace)) {
+            await ensureServiceExists(client, dep.to);
+          }
+          await upsertServiceDependency(client, dep.from, dep.to, 'otlp');
+          await recordDependencyMetrics(client, dep.from, dep.to, {
+            call_count: dep.callCount,
+            error_count: dep.errorCount,
+            ...computeLatencyPercentiles(dep.durationsMs)
+          }, metricsBucketMinutes);
+        }
+
+        await client.query('COMMIT');
+
+        // Successful export: empty ExportTraceServiceResponse in the request's encoding
+        if (isProtobuf) {
+          return res.status(200).type('application/x-protobuf').send(Buffer.alloc(0));
+        }
+        if (rejectedSpans > 0) {
+          return res.status(200).json({
+            partialSuccess: {
+              rejectedSpans,
+              errorMessage: namespaceNotAllowedMessage(rejectedServices[0].service_namespace)
+            }
+          });
+        }
+        return res.status(200).json({});
+
+      } catch (error) {
+        await client.query('ROLLBACK');
+        req.log.error({ error }, 'OTLP trace processing failed');
+        return res.status(500).json({ error: "Failed to process OTLP traces" });
+      } finally {
+        client.release();
+      }
+    },
+    handleBodyError
+  );
+
+  return router;
+}
@@ -2,6 +2,7 @@ import { Router } from 'express';
 import { Pool } from 'pg';
 import { queryMonitor } from '../utils/queryMonitor';
 import { connectionRetry } from '../utils/connectionRetry';
+import { recordAudit } from '../utils/audit';
 
 export function createPerformanceRoutes(pool: Pool): Router {
   const router = Router();
@@ -116,7 +117,7 @@ export function createPerformanceRoutes(pool: Pool): Router {
   // Force refresh materialized view cache
   router.post('/performance/refresh-cache', async (req, res) => {
     try {
-      await connectionRetry.withConnection(
+      const refresh = await connectionRetry.withConnection(
         pool,
         async (client) => {
           const startTime = Date.now();
@@ -127,6 +128,13 @@ export function createPerformanceRoutes(pool: Pool): Router {
         },
         'refresh_cache'
       );
+
+      await recordAudit(pool, req, {
+        action: 'refresh_cache',
+        entityType: 'performance',
+        entityId: 'services_overview_cache',
+        after: refresh
+      });
       
       res.json({
         status: 'success',
@@ -237,6 +245,12 @@ export function createPerformanceRoutes(pool: Pool): Router {
   router.delete('/performance/metrics', async (req, res) => {
     try {
       queryMonitor.clearMetrics();
+
+      await recordAudit(pool, req, {
+        action: 'clear_metrics',
+        entityType: 'performance',
+        entityId: 'query_metrics'
+      });
       
       res.json({
         status: 'success',
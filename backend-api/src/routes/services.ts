@@ -1,6 +1,9 @@
 import { Router } from 'express';
 import { Pool } from 'pg';
 import { queryMonitor } from '../utils/queryMonitor';
+import { actorName } from '../utils/auth';
+import { recordAudit } from '../utils/audit';
+import { notSilencedCondition } from '../utils/alertSilences';
 
 export function createServicesRoutes(pool: Pool): Router {
     const router = Router();
@@ -242,7 +245,7 @@ export function createServicesRoutes(pool: Pool): Router {
                     COUNT(*) FILTER (WHERE i.severity = 'warning') as warning_alerts,
                     COUNT(*) FILTER (WHERE i.severity = 'fatal') as fatal_alerts
                 FROM alert_incidents i
-                WHERE i.status = 'firing'`,
+                WHERE i.status = 'firing' AND ${notSilencedCondition('i')}`,
                 [],
                 'alert_correlation'
             );
@@ -369,24 +372,51 @@ export function createServicesRoutes(pool: Pool): Router {
         return res.status(400).json({ error: "Tags must be an array" });
         }
         
+        const actor = actorName(req);
+
+        await client.query('BEGIN');
+
+        const existing = await client.query(`
+        SELECT service_namespace, service_name, tags, tags_updated_by, tags_updated_at
+        FROM services
+        WHERE service_namespace = $1 AND service_name = $2
+        FOR UPDATE
+        `, [namespace, name]);
+
+        if (existing.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return res.status(404).json({ error: "Service not found" });
+        }
+
         const result = await client.query(`
         UPDATE services 
-        SET tags = $1, last_seen = NOW()
+        SET tags = $1, last_seen = NOW(), tags_updated_by = $4, tags_updated_at = NOW()
         WHERE service_namespace = $2 AND service_name = $3
-        RETURNING service_namespace, service_name, tags
-        `, [tags, namespace, name]);
-        
-        if (result.rows.length === 0) {
-        return res.status(404).json({ error: "Service not found" });
-        }
+        RETURNING service_namespace, service_name, tags, tags_updated_by, tags_updated_at
+        `, [tags, namespace, name, actor]);
+
+        await recordAudit(client, req, {
+        action: 'update_tags',
+        entityType: 'service',
+        entityId: `${namespace}/${name}`,
+        before: existing.rows[0],
+        after: result.rows[0]
+        });
+
+        await client.query('COMMIT');
+
+        req.log.info({ namespace, name, tagCount: tags.length, updatedBy: actor }, 'Service tags updated');
         
         return res.json({ 
         status: "ok", 
         service: `${namespace}::${name}`,
-        tags: result.rows[0].tags 
+        tags: result.rows[0].tags,
+        tags_updated_by: result.rows[0].tags_updated_by,
+        tags_updated_at: result.rows[0].tags_updated_at
         });
         
     } catch (error) {
+        await client.query('ROLLBACK');
         const { namespace, name } = req.params;
         req.log.error({ error, namespace, name }, 'Tag update failed');
         return res.status(500).json({ error: "Failed to update tags" });
@@ -413,7 +443,9 @@ export function createServicesRoutes(pool: Pool): Router {
           external_calls,
           database_calls,
           rpc_calls,
-          tag_sources
+          tag_sources,
+          tags_updated_by,
+          tags_updated_at
         FROM services
         WHERE service_namespace = $1 AND service_name = $2
       `;
@@ -471,6 +503,7 @@ export function createServicesRoutes(pool: Pool): Router {
             FROM alert_incidents
             WHERE service_namespace = $1 AND service_name = $2
             AND status = 'firing'
+            AND ${notSilencedCondition('alert_incidents')}
             ORDER BY incident_start DESC
         `;
 
@@ -512,6 +545,8 @@ export function createServicesRoutes(pool: Pool): Router {
             return acc;
         }, {}) : {},
         tag_sources: service.tag_sources || {},
+          tags_updated_by: service.tags_updated_by,
+          tags_updated_at: service.tags_updated_at,
           external_calls: service.external_calls || {},
           database_calls: service.database_calls || {},
           rpc_calls: service.rpc_calls || {},
@@ -573,8 +608,8 @@ export function createServicesRoutes(pool: Pool): Router {
           s.created_at,
           s.last_seen,
           s.tags,
-          COUNT(DISTINCT ai.id) FILTER (WHERE ai.status = 'firing') as current_alert_count,
-          COUNT(DISTINCT ai.id) FILTER (WHERE ai.status = 'firing' AND ai.severity = 'critical') as critical_alert_count,
+          COUNT(DISTINCT ai.id) FILTER (WHERE ai.status = 'firing' AND ${notSilencedCondition('ai')}) as current_alert_count,
+          COUNT(DISTINCT ai.id) FILTER (WHERE ai.status = 'firing' AND ai.severity = 'critical' AND ${notSilencedCondition('ai')}) as critical_alert_count,
           COUNT(DISTINCT sd_in.from_service_name) + COUNT(DISTINCT sd_out.to_service_name) as dependency_count
         FROM services s
         LEFT JOIN alert_incidents ai ON s.service_namespace = ai.service_namespace AND s.service_name = ai.service_name
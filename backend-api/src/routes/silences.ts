@@ -0,0 +1,342 @@
+import { Router } from 'express';
+import { Pool, PoolClient } from 'pg';
+import { handleRouteError, handleClientError } from '../utils/errorHandler';
+import { validateSilence, applySilenceToFiringIncidents, AlertSilence } from '../utils/alertSilences';
+import { actorName } from '../utils/auth';
+import { recordAudit } from '../utils/audit';
+
+const SILENCE_STATES = ['active', 'pending', 'expired', 'current', 'all'];
+
+const EDITABLE_FIELDS = [
+  'match_namespace', 'match_service', 'match_severity', 'match_tags', 'message_pattern',
+  'starts_at', 'ends_at', 'comment'
+];
+
+const SILENCE_COLUMNS = `
+  id, match_namespace, match_service, match_severity, match_tags, message_pattern,
+  starts_at, ends_at, comment, created_by, created_at, updated_at,
+  CASE
+    WHEN ends_at <= NOW() THEN 'expired'
+    WHEN starts_at > NOW() THEN 'pending'
+    ELSE 'active'
+  END AS state
+`;
+
+async function loadSilence(client: PoolClient, id: number) {
+  const result = await client.query(`SELECT ${SILENCE_COLUMNS} FROM alert_silences WHERE id = $1`, [id]);
+  return result.rows[0] || null;
+}
+
+export function createSilencesRoutes(pool: Pool): Router {
+  const router = Router();
+
+  // Silences by state (default: active and pending), with how many firing incidents each mutes
+  router.get("/silences", async (req, res) => {
+    const state = ((req.query.state as string) || 'current').toLowerCase();
+    if (!SILENCE_STATES.includes(state)) {
+      return handleClientError(res, `Invalid state - expected one of ${SILENCE_STATES.join(', ')}`);
+    }
+
+    const stateConditions: Record<string, string> = {
+      active: 'starts_at <= NOW() AND ends_at > NOW()',
+      pending: 'starts_at > NOW()',
+      expired: 'ends_at <= NOW()',
+      current: 'ends_at > NOW()',
+      all: 'TRUE'
+    };
+
+    const client = await pool.connect();
+
+    try {
+      const result = await client.query(`
+        SELECT ${SILENCE_COLUMNS},
+          (
+            SELECT COUNT(*)::int FROM alert_incidents i
+            WHERE i.silence_id = alert_silences.id AND i.status = 'firing'
+          ) AS firing_incidents
+        FROM alert_silences
+        WHERE ${stateConditions[state]}
+        ORDER BY ends_at DESC, id DESC
+        LIMIT 500
+      `);
+
+      return res.json({
+        state,
+        count: result.rows.length,
+        silences: result.rows
+      });
+
+    } catch (error) {
+      return handleRouteError(error, res, req.log, 'fetch silences', { state });
+    } finally {
+      client.release();
+    }
+  });
+
+  router.post("/silences", async (req, res) => {
+    const validation = validateSilence(req.body);
+    if (!validation.isValid) {
+      return res.status(400).json({ error: "Invalid silence", details: validation.errors });
+    }
+
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const silence = req.body;
+      const result = await client.query(`
+        INSERT INTO alert_silences (
+          match_namespace, match_service, match_severity, match_tags, message_pattern,
+          starts_at, ends_at, comment, created_by
+        )
+        VALUES ($1, $2, $3, $4, $5, COALESCE($6::timestamp, NOW()), $7, $8, $9)
+        RETURNING ${SILENCE_COLUMNS}
+      `, [
+        silence.match_namespace || null,
+        silence.match_service || null,
+        silence.match_severity || null,
+        silence.match_tags || [],
+        silence.message_pattern || null,
+        silence.starts_at || null,
+        silence.ends_at,
+        silence.comment || null,
+        actorName(req)
+      ]);
+
+      const created = result.rows[0] as AlertSilence;
+      const firingIncidents = await applySilenceToFiringIncidents(client, created);
+
+      await recordAudit(client, req, {
+        action: 'create',
+        entityType: 'silence',
+        entityId: created.id,
+        after: created
+      });
+
+      await client.query('COMMIT');
+
+      req.log.info({ silenceId: created.id, firingIncidents }, 'Silence created');
+
+      return res.status(201).json({
+        silence: { ...result.rows[0], firing_incidents: firingIncidents },
+        warnings: validation.warnings
+      });
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      return handleRouteError(error, res, req.log, 'create silence');
+    } finally {
+      client.release();
+    }
+  });
+
+  router.get("/silences/:id", async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return handleClientError(res, "Invalid silence ID");
+    }
+
+    const client = await pool.connect();
+
+    try {
+      const silence = await loadSilence(client, id);
+      if (!silence) {
+        return handleClientError(res, "Silence not found", 404);
+      }
+
+      const incidentsResult = await client.query(`
+        SELECT id, service_namespace, service_name, instance_id, severity, message, status, incident_start
+        FROM alert_incidents
+        WHERE silence_id = $1
+        ORDER BY incident_start DESC
+        LIMIT 100
+      `, [id]);
+
+      return res.json({ ...silence, incidents: incidentsResult.rows });
+
+    } catch (error) {
+      return handleRouteError(error, res, req.log, 'fetch silence', { id });
+    } finally {
+      client.release();
+    }
+  });
+
+  // Partial update - fields left out of the body keep their current value
+  router.put("/silences/:id", async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return handleClientError(res, "Invalid silence ID");
+    }
+    if (!req.body || typeof req.body !== 'object' || Array.isArray(req.body)) {
+      return handleClientError(res, "Body must be an object");
+    }
+
+    const client = await pool.connect();
+
+    try {
+      const existing = await loadSilence(client, id);
+      if (!existing) {
+        return handleClientError(res, "Silence not found", 404);
+      }
+      if (existing.state === 'expired') {
+        return handleClientError(res, "Expired silences cannot be edited - create a new one", 409);
+      }
+
+      const merged: Record<string, any> = {};
+      EDITABLE_FIELDS.forEach(field => {
+        merged[field] = req.body[field] !== undefined ? req.body[field] : existing[field];
+      });
+
+      const validation = validateSilence(merged);
+      if (!validation.isValid) {
+        return res.status(400).json({ error: "Invalid silence", details: validation.errors });
+      }
+
+      await client.query('BEGIN');
+
+      const result = await client.query(`
+        UPDATE alert_silences
+        SET match_namespace = $1,
+            match_service = $2,
+            match_severity = $3,
+            match_tags = $4,
+            message_pattern = $5,
+            starts_at = $6,
+            ends_at = $7,
+            comment = $8,
+            updated_at = NOW()
+        WHERE id = $9
+        RETURNING ${SILENCE_COLUMNS}
+      `, [
+        merged.match_namespace || null,
+        merged.match_service || null,
+        merged.match_severity || null,
+        merged.match_tags || [],
+        merged.message_pattern || null,
+        merged.starts_at,
+        merged.ends_at,
+        merged.comment || null,
+        id
+      ]);
+
+      const firingIncidents = await applySilenceToFiringIncidents(client, result.rows[0]);
+
+      await recordAudit(client, req, {
+        action: 'update',
+        entityType: 'silence',
+        entityId: id,
+        before: existing,
+        after: result.rows[0]
+      });
+
+      await client.query('COMMIT');
+
+      req.log.info({ silenceId: id, firingIncidents }, 'Silence updated');
+
+      return res.json({
+        silence: { ...result.rows[0], firing_incidents: firingIncidents },
+        warnings: validation.warnings
+      });
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      return handleRouteError(error, res, req.log, 'update silence', { id });
+    } finally {
+      client.release();
+    }
+  });
+
+  // End a silence now; the incidents it muted show up again but keep the reference for history
+  router.post("/silences/:id/expire", async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return handleClientError(res, "Invalid silence ID");
+    }
+
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const existing = await loadSilence(client, id);
+
+      // A pending silence is moved to start a moment earlier so ends_at stays after starts_at
+      const result = await client.query(`
+        UPDATE alert_silences
+        SET starts_at = LEAST(starts_at, NOW() - INTERVAL '1 second'),
+            ends_at = NOW(),
+            updated_at = NOW()
+        WHERE id = $1 AND ends_at > NOW()
+        RETURNING ${SILENCE_COLUMNS}
+      `, [id]);
+
+      if (result.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return existing
+          ? handleClientError(res, "Silence has already expired", 409)
+          : handleClientError(res, "Silence not found", 404);
+      }
+
+      await recordAudit(client, req, {
+        action: 'expire',
+        entityType: 'silence',
+        entityId: id,
+        before: existing,
+        after: result.rows[0]
+      });
+
+      await client.query('COMMIT');
+
+      req.log.info({ silenceId: id }, 'Silence expired');
+
+      return res.json({ silence: result.rows[0] });
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      return handleRouteError(error, res, req.log, 'expire silence', { id });
+    } finally {
+      client.release();
+    }
+  });
+
+  router.delete("/silences/:id", async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return handleClientError(res, "Invalid silence ID");
+    }
+
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(`DELETE FROM alert_silences WHERE id = $1 RETURNING ${SILENCE_COLUMNS}`, [id]);
+      if (result.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return handleClientError(res, "Silence not found", 404);
+      }
+
+      await recordAudit(client, req, {
+        action: 'delete',
+        entityType: 'silence',
+        entityId: id,
+        before: result.rows[0]
+      });
+
+      await client.query('COMMIT');
+
+      req.log.info({ silenceId: id }, 'Silence deleted');
+
+      return res.json({ status: "ok", deleted: id });
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      return handleRouteError(error, res, req.log, 'delete silence', { id });
+    } finally {
+      client.release();
+    }
+  });
+
+  return router;
+}
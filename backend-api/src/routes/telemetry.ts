@@ -1,6 +1,10 @@
 import { Router } from 'express';
-import { Pool } from 'pg';
-import { upsertService, ServiceUpdateData } from '../utils/serviceManager';
+import { Pool, PoolClient } from 'pg';
+import { TelemetryConfig } from '../config/telemetry';
+import { Logger } from '../utils/logger';
+import { upsertService, upsertServiceDependency, removeUnreportedDependencies, ensureServiceExists, ServiceUpdateData } from '../utils/serviceManager';
+import { extractDependencyMetrics, recordDependencyMetrics } from '../utils/dependencyMetrics';
+import { canIngestNamespace, namespaceNotAllowedMessage, recordIngestionRejection, IngestionKey } from '../utils/ingestionKeys';
 
 type Telemetry = {
   service_namespace: string;
@@ -8,102 +12,300 @@ type Telemetry = {
   environment: string;
   team: string;
   component_type: string;
-  depends_on: { service_namespace: string; service_name: string }[];
+  depends_on: {
+    service_namespace: string;
+    service_name: string;
+
+    // Optional call metrics for this edge since the previous report
+    call_count?: number;
+    error_count?: number;
+    latency_p50_ms?: number;
+    latency_p95_ms?: number;
+    latency_p99_ms?: number;
+  }[];
   tags?: string[];
-  
+
+  // Treat depends_on as the complete edge list and drop unreported edges (default: upsert only)
+  replace_dependencies?: boolean;
+
   // Enrichment fields
   external_calls?: { host: string; method?: string; path?: string; count: number }[];
   database_calls?: { system: string; name?: string; host?: string; operation?: string; count: number }[];
   rpc_calls?: { service: string; method?: string; count: number }[];
 };
 
-export function createTelemetryRoutes(pool: Pool): Router {
+type TelemetryResult = {
+  created: boolean;
+  updated: boolean;
+  tagChanges: string[];
+  dependenciesRemoved: number;
+};
+
+type BatchItemResult = {
+  index: number;
+  service: string | null;
+  status: 'ok' | 'error';
+  created?: boolean;
+  updated?: boolean;
+  tagChanges?: number;
+  dependenciesRemoved?: number;
+  error?: string;
+};
+
+/**
+ * Upsert a single telemetry record (service, dependency targets and edges) inside the caller's transaction
+ */
+async function processTelemetry(
+  client: PoolClient,
+  t: Telemetry,
+  logger: Logger,
+  config: TelemetryConfig,
+  ingestionKey?: IngestionKey
+): Promise<TelemetryResult> {
+  logger.info({
+    service: `${t.service_namespace}::${t.service_name}`,
+    tagCount: t.tags?.length || 0,
+    dependencyCount: t.depends_on?.length || 0,
+    dependencyMode: t.replace_dependencies ? 'replace' : 'incremental',
+    hasEnrichment: !!(t.external_calls?.length || t.database_calls?.length || t.rpc_calls?.length)
+  }, 'Processing OTEL telemetry');
+
+  // Convert telemetry data to ServiceUpdateData format
+  const serviceUpdate: ServiceUpdateData = {
+    service_namespace: t.service_namespace,
+    service_name: t.service_name,
+    environment: t.environment || 'unknown',
+    team: t.team || 'unknown',
+    component_type: t.component_type || 'service',
+    tags: t.tags || [],
+    external_calls: t.external_calls || [],
+    database_calls: t.database_calls || [],
+    rpc_calls: t.rpc_calls || [],
+    source: 'otel'
+  };
+
+  // Use unified upsert with tag merging
+  const upsertResult = await upsertService(client, serviceUpdate, logger);
+
+  logger.info({
+    service: `${t.service_namespace}::${t.service_name}`,
+    created: upsertResult.created,
+    updated: upsertResult.updated,
+    tagChanges: upsertResult.tagChanges
+  }, 'OTEL service upsert completed');
+
+  // Handle service dependencies
+  // Incremental by default: edges are only upserted and aged out by ServiceCleanup via last_seen,
+  // so partial or sampled reports don't wipe edges. Authoritative reports may opt into full replace.
+  let dependenciesRemoved = 0;
+  if (t.replace_dependencies) {
+    dependenciesRemoved = await removeUnreportedDependencies(client, t, t.depends_on || []);
+  }
+
+  // Upsert reported dependencies using natural keys
+  for (const dep of t.depends_on || []) {
+    // Ensure target service exists (upsert with minimal data). Targets outside the ingestion
+    // key's namespaces are only created if missing, never refreshed, so they still age out.
+    if (canIngestNamespace(ingestionKey, dep.service_namespace)) {
+      const targetServiceUpdate: ServiceUpdateData = {
+        service_namespace: dep.service_namespace,
+        service_name: dep.service_name,
+        source: 'otel'
+      };
+
+      await upsertService(client, targetServiceUpdate, logger);
+    } else {
+      await ensureServiceExists(client, dep);
+    }
+
+    // Create dependency using natural keys
+    await upsertServiceDependency(client, t, dep);
+
+    const metrics = extractDependencyMetrics(dep);
+    if (metrics) {
+      await recordDependencyMetrics(client, t, dep, metrics, config.metricsBucketMinutes);
+    }
+  }
+
+  return { ...upsertResult, dependenciesRemoved };
+}
+
+/**
+ * Basic shape validation so a malformed batch item fails on its own instead of aborting the chunk
+ */
+function validateTelemetry(t: any): string | null {
+  if (!t || typeof t !== 'object') return 'Telemetry record must be an object';
+  if (typeof t.service_namespace !== 'string' || !t.service_namespace.trim()) return 'service_namespace is required';
+  if (typeof t.service_name !== 'string' || !t.service_name.trim()) return 'service_name is required';
+  if (t.depends_on !== undefined && !Array.isArray(t.depends_on)) return 'depends_on must be an array';
+  return null;
+}
+
+export function createTelemetryRoutes(pool: Pool, config: TelemetryConfig): Router {
   const router = Router();
 
   // UPDATED: Upsert service and update dependencies using unified service manager
   router.post("/telemetry", async (req, res) => {
+    const t = req.body as Telemetry;
+
+    // Only the reporting service is checked; depends_on targets in other namespaces are recorded
+    // as edges but not refreshed (see processTelemetry)
+    if (!canIngestNamespace(req.ingestionKey, t?.service_namespace)) {
+      recordIngestionRejection('telemetry', 'namespace_not_allowed');
+      return res.status(403).json({ error: namespaceNotAllowedMessage(t.service_namespace) });
+    }
+
     const client = await pool.connect();
-    
+
     try {
       await client.query('BEGIN');
-      
-      const t = req.body as Telemetry;
-      
-      req.log.info({
-        service: `${t.service_namespace}::${t.service_name}`,
-        tagCount: t.tags?.length || 0,
-        dependencyCount: t.depends_on?.length || 0,
-        hasEnrichment: !!(t.external_calls?.length || t.database_calls?.length || t.rpc_calls?.length)
-      }, 'Processing OTEL telemetry');
-
-      // Convert telemetry data to ServiceUpdateData format
-      const serviceUpdate: ServiceUpdateData = {
-        service_namespace: t.service_namespace,
-        service_name: t.service_name,
-        environment: t.environment || 'unknown',
-        team: t.team || 'unknown',
-        component_type: t.component_type || 'service',
-        tags: t.tags || [],
-        external_calls: t.external_calls || [],
-        database_calls: t.database_calls || [],
-        rpc_calls: t.rpc_calls || [],
-        source: 'otel'
-      };
 
-      // Use unified upsert with tag merging
-      const upsertResult = await upsertService(client, serviceUpdate, req.log);
-      
-      req.log.info({
-        service: `${t.service_namespace}::${t.service_name}`,
-        created: upsertResult.created,
-        updated: upsertResult.updated,
-        tagChanges: upsertResult.tagChanges
-      }, 'OTEL service upsert completed');
-
-      // Handle service dependencies (unchanged logic)
-      // Clear existing dependencies for this service using natural key
-      await client.query(`
-        DELETE FROM service_dependencies 
-        WHERE from_service_namespace = $1 AND from_service_name = $2
-      `, [t.service_namespace, t.service_name]);
-      
-      // Insert new dependencies using natural keys
-      for (const dep of t.depends_on || []) {
-        // Ensure target service exists (upsert with minimal data)
-        const targetServiceUpdate: ServiceUpdateData = {
-          service_namespace: dep.service_namespace,
-          service_name: dep.service_name,
-          source: 'otel'
-        };
-        
-        await upsertService(client, targetServiceUpdate, req.log);
-        
-        // Create dependency using natural keys
-        await client.query(`
-          INSERT INTO service_dependencies (from_service_namespace, from_service_name, to_service_namespace, to_service_name, last_seen)
-          VALUES ($1, $2, $3, $4, NOW())
-          ON CONFLICT (from_service_namespace, from_service_name, to_service_namespace, to_service_name)
-          DO UPDATE SET last_seen = NOW()
-        `, [t.service_namespace, t.service_name, dep.service_namespace, dep.service_name]);
-      }
-      
+      const result = await processTelemetry(client, t, req.log, config, req.ingestionKey);
+
       await client.query('COMMIT');
-      
-      res.json({ 
+
+      return res.json({
         status: "ok",
         service: `${t.service_namespace}::${t.service_name}`,
-        created: upsertResult.created,
-        tagChanges: upsertResult.tagChanges.length
+        created: result.created,
+        tagChanges: result.tagChanges.length,
+        dependencyMode: t.replace_dependencies ? 'replace' : 'incremental',
+        dependenciesRemoved: result.dependenciesRemoved
       });
-      
+
     } catch (error) {
       await client.query('ROLLBACK');
       req.log.error({ error }, 'Telemetry processing failed');
-      res.status(500).json({ error: "Failed to process telemetry" });
+      return res.status(500).json({ error: "Failed to process telemetry" });
+    } finally {
+      client.release();
+    }
+  });
+
+  // Batch variant for exporters covering many services: one connection, one transaction per chunk
+  router.post("/telemetry/batch", async (req, res) => {
+    const items = Array.isArray(req.body) ? req.body : req.body?.items;
+
+    if (!Array.isArray(items)) {
+      return res.status(400).json({ error: "Batch payload must be an array of telemetry records" });
+    }
+
+    if (items.length > config.maxBatchSize) {
+      return res.status(413).json({
+        error: `Batch too large - maximum ${config.maxBatchSize} records`,
+        received: items.length
+      });
+    }
+
+    const chunkSize = config.batchChunkSize > 0 ? config.batchChunkSize : items.length || 1;
+    const results: BatchItemResult[] = [];
+
+    req.log.info({
+      records: items.length,
+      chunkSize,
+      chunks: Math.ceil(items.length / chunkSize)
+    }, 'Processing OTEL telemetry batch');
+
+    const client = await pool.connect();
+
+    try {
+      for (let start = 0; start < items.length; start += chunkSize) {
+        const chunk = items.slice(start, start + chunkSize);
+        const chunkResults: BatchItemResult[] = [];
+
+        try {
+          await client.query('BEGIN');
+
+          for (let offset = 0; offset < chunk.length; offset++) {
+            const index = start + offset;
+            const t = chunk[offset] as Telemetry;
+            const service = t && t.service_namespace && t.service_name
+              ? `${t.service_namespace}::${t.service_name}`
+              : null;
+
+            const validationError = validateTelemetry(t);
+            if (validationError) {
+              chunkResults.push({ index, service, status: 'error', error: validationError });
+              continue;
+            }
+
+            if (!canIngestNamespace(req.ingestionKey, t.service_namespace)) {
+              recordIngestionRejection('telemetry', 'namespace_not_allowed');
+              chunkResults.push({ index, service, status: 'error', error: namespaceNotAllowedMessage(t.service_namespace) });
+              continue;
+            }
+
+            // Savepoint per record so one bad record doesn't abort the rest of the chunk
+            await client.query('SAVEPOINT telemetry_item');
+            try {
+              const result = await processTelemetry(client, t, req.log, config, req.ingestionKey);
+              await client.query('RELEASE SAVEPOINT telemetry_item');
+
+              chunkResults.push({
+                index,
+                service,
+                status: 'ok',
+                created: result.created,
+                updated: result.updated,
+                tagChanges: result.tagChanges.length,
+                dependenciesRemoved: result.dependenciesRemoved
+              });
+            } catch (error) {
+              await client.query('ROLLBACK TO SAVEPOINT telemetry_item');
+              req.log.warn({ error, index, service }, 'Telemetry batch record failed');
+              chunkResults.push({
+                index,
+                service,
+                status: 'error',
+                error: error instanceof Error ? error.message : 'Unknown error'
+              });
+            }
+          }
+
+          await client.query('COMMIT');
+          results.push(...chunkResults);
+
+        } catch (error) {
+          await client.query('ROLLBACK');
+          req.log.error({ error, chunkStart: start }, 'Telemetry batch chunk failed');
+
+          // Whole chunk rolled back - report every record in it as failed
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          for (let offset = 0; offset < chunk.length; offset++) {
+            const t = chunk[offset];
+            results.push({
+              index: start + offset,
+              service: t && t.service_namespace && t.service_name ? `${t.service_namespace}::${t.service_name}` : null,
+              status: 'error',
+              error: `Chunk rolled back: ${errorMessage}`
+            });
+          }
+        }
+      }
+
+      const failed = results.filter(r => r.status === 'error').length;
+
+      req.log.info({
+        records: items.length,
+        succeeded: items.length - failed,
+        failed
+      }, 'OTEL telemetry batch completed');
+
+      return res.json({
+        status: failed === 0 ? "ok" : failed === items.length ? "failed" : "partial",
+        total: items.length,
+        succeeded: items.length - failed,
+        failed,
+        results
+      });
+
+    } catch (error) {
+      req.log.error({ error }, 'Telemetry batch processing failed');
+      return res.status(500).json({ error: "Failed to process telemetry batch" });
     } finally {
       client.release();
     }
   });
 
   return router;
-}
\ No newline at end of file
+}
@@ -0,0 +1,314 @@
+import { Pool, PoolClient } from 'pg';
+import { logger } from '../utils/logger';
+import { EscalationConfig } from '../config/escalation';
+import { notSilencedCondition } from '../utils/alertSilences';
+import { enqueueIncidentNotifications } from '../utils/notifications';
+import {
+  EscalationPolicy,
+  loadEscalationPolicies,
+  findPolicyForIncident,
+  levelDue
+} from '../utils/escalation';
+
+export interface EscalationMetrics {
+  lastRunTime: Date | null;
+  lastRunDuration: number;
+  incidentsEscalated: number;
+  totalRuns: number;
+  totalEscalations: number;
+  lastError: string | null;
+  isRunning: boolean;
+  nextRunTime: Date | null;
+}
+
+export interface EscalationResult {
+  incidentsChecked: number;
+  incidentsEscalated: number;
+  escalations: Array<{
+    incidentId: number;
+    policy: string;
+    fromLevel: number;
+    toLevel: number;
+  }>;
+  duration: number;
+}
+
+interface EscalationCandidate {
+  id: number;
+  severity: string;
+  team: string | null;
+  escalation_level: number;
+  minutes_firing: number;
+}
+
+export default class EscalationScheduler {
+  private pool: Pool;
+  private config: EscalationConfig;
+  private intervalId: NodeJS.Timeout | null = null;
+  private isRunning = false;
+  private metrics: EscalationMetrics;
+
+  constructor(pool: Pool, config: EscalationConfig) {
+    this.pool = pool;
+    this.config = config;
+    this.metrics = {
+      lastRunTime: null,
+      lastRunDuration: 0,
+      incidentsEscalated: 0,
+      totalRuns: 0,
+      totalEscalations: 0,
+      lastError: null,
+      isRunning: false,
+      nextRunTime: null
+    };
+
+    this.log('EscalationScheduler initialized', {
+      enabled: config.enabled,
+      intervalSeconds: config.intervalSeconds,
+      maxIncidentsPerRun: config.maxIncidentsPerRun
+    });
+  }
+
+  /**
+   * Start checking unacknowledged incidents on the configured interval
+   */
+  start(): void {
+    if (!this.config.enabled) {
+      this.log('EscalationScheduler start requested but disabled by configuration');
+      return;
+    }
+
+    if (this.intervalId) {
+      this.log('EscalationScheduler already running');
+      return;
+    }
+
+    const intervalMs = this.config.intervalSeconds * 1000;
+
+    this.log('Starting EscalationScheduler', {
+      intervalSeconds: this.config.intervalSeconds,
+      intervalMs
+    });
+
+    this.metrics.nextRunTime = new Date(Date.now() + intervalMs);
+
+    this.intervalId = setInterval(async () => {
+      if (this.isRunning) return;
+      try {
+        await this.runEscalation();
+      } catch {
+        // Already logged and recorded in metrics
+      }
+    }, intervalMs);
+  }
+
+  /**
+   * Stop the scheduler, waiting for an in-flight check to finish
+   */
+  async stop(): Promise<void> {
+    this.log('Stopping EscalationScheduler');
+
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      this.metrics.nextRunTime = null;
+    }
+
+    while (this.isRunning) {
+      this.log('Waiting for current escalation check to complete...');
+      await new Promise(resolve => setTimeout(resolve, 1000));
+    }
+
+    this.log('EscalationScheduler stopped');
+  }
+
+  /**
+   * Get current escalation metrics
+   */
+  getMetrics(): EscalationMetrics {
+    return { ...this.metrics };
+  }
+
+  /**
+   * Raise every firing, unacknowledged and unsilenced incident to the level its policy has reached.
+   * Incidents already at their policy's last level, or whose next level is not due yet, are left out
+   * of the scan so they do not use up the per-run limit.
+   * Each incident is escalated in its own transaction so one failure does not hold up the rest.
+   */
+  async runEscalation(): Promise<EscalationResult> {
+    if (this.isRunning) {
+      throw new Error('Escalation check is already running');
+    }
+
+    this.isRunning = true;
+    this.metrics.isRunning = true;
+    this.metrics.lastError = null;
+
+    const startTime = Date.now();
+    const client = await this.pool.connect();
+    const result: EscalationResult = { incidentsChecked: 0, incidentsEscalated: 0, escalations: [], duration: 0 };
+
+    try {
+      const policies = await loadEscalationPolicies(client);
+
+      if (policies.length > 0) {
+        // The policy join mirrors findPolicyForIncident: the team's own enabled policy, otherwise
+        // the enabled default, and only when it covers the incident's severity
+        const candidates = await client.query(`
+          SELECT i.id, i.severity, s.team, i.escalation_level,
+                 EXTRACT(EPOCH FROM (NOW() - i.incident_start)) / 60 AS minutes_firing
+          FROM alert_incidents i
+          LEFT JOIN services s ON s.service_namespace = i.service_namespace AND s.service_name = i.service_name
+          JOIN escalation_policies p ON p.enabled = true
+            AND (p.team = s.team OR (p.team IS NULL AND NOT EXISTS (
+              SELECT 1 FROM escalation_policies tp WHERE tp.enabled = true AND tp.team = s.team
+            )))
+            AND (cardinality(p.match_severities) = 0 OR i.severity = ANY(p.match_severities))
+          WHERE i.status = 'firing'
+            AND i.acknowledged_at IS NULL
+            AND ${notSilencedCondition('i')}
+            AND i.escalation_level < jsonb_array_length(p.levels)
+            AND (p.levels -> i.escalation_level ->> 'delay_minutes')::numeric
+                <= EXTRACT(EPOCH FROM (NOW() - i.incident_start)) / 60
+          ORDER BY i.incident_start
+          LIMIT $1
+        `, [this.config.maxIncidentsPerRun]);
+
+        result.incidentsChecked = candidates.rows.length;
+
+        for (const candidate of candidates.rows as EscalationCandidate[]) {
+          const policy = findPolicyForIncident(policies, candidate.team, candidate.severity);
+          if (!policy) continue;
+
+          const toLevel = levelDue(policy, Number(candidate.minutes_firing));
+          if (toLevel <= candidate.escalation_level) continue;
+
+          try {
+            const fromLevel = await this.escalateIncident(client, candidate.id, policy, toLevel);
+            if (fromLevel !== null) {
+              result.incidentsEscalated++;
+              result.escalations.push({ incidentId: candidate.id, policy: policy.name, fromLevel, toLevel });
+            }
+          } catch (error) {
+            this.log('Failed to escalate incident', {
+              incidentId: candidate.id,
+              error: error instanceof Error ? error.message : 'Unknown error'
+            });
+          }
+        }
+      }
+
+      result.duration = Date.now() - startTime;
+
+      this.metrics.lastRunTime = new Date(startTime);
+      this.metrics.lastRunDuration = result.duration;
+      this.metrics.incidentsEscalated = result.incidentsEscalated;
+      this.metrics.totalRuns++;
+      this.metrics.totalEscalations += result.incidentsEscalated;
+
+      if (this.intervalId) {
+        this.metrics.nextRunTime = new Date(Date.now() + (this.config.intervalSeconds * 1000));
+      }
+
+      if (result.incidentsEscalated > 0) {
+        this.log('Escalation check completed', {
+          incidentsChecked: result.incidentsChecked,
+          incidentsEscalated: result.incidentsEscalated,
+          duration: result.duration
+        });
+      }
+
+      return result;
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.metrics.lastError = errorMessage;
+      this.log('Escalation check failed', { error: errorMessage });
+      throw error;
+
+    } finally {
+      client.release();
+      this.isRunning = false;
+      this.metrics.isRunning = false;
+    }
+  }
+
+  /**
+   * Move one incident straight up to toLevel, recording a single 'escalated' event and notifying
+   * only that level's channels, so an incident that has been firing for a while (say, when a policy
+   * is created) does not send a burst of notifications for the levels it skips. Returns the level
+   * it was at, or null if it no longer needs escalating (acknowledged, resolved or already
+   * escalated since the scan).
+   */
+  private async escalateIncident(
+    client: PoolClient,
+    incidentId: number,
+    policy: EscalationPolicy,
+    toLevel: number
+  ): Promise<number | null> {
+    await client.query('BEGIN');
+
+    try {
+      const locked = await client.query(`
+        SELECT escalation_level FROM alert_incidents
+        WHERE id = $1 AND status = 'firing' AND acknowledged_at IS NULL
+        FOR UPDATE
+      `, [incidentId]);
+
+      const fromLevel: number | undefined = locked.rows[0]?.escalation_level;
+      if (fromLevel === undefined || fromLevel >= toLevel) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      const now = new Date();
+
+      await client.query(`
+        UPDATE alert_incidents
+        SET escalation_level = $1, escalated_at = $2, escalation_policy_id = $3, updated_at = $2
+        WHERE id = $4
+      `, [toLevel, now, policy.id, incidentId]);
+
+      const definition = policy.levels[toLevel - 1];
+
+      await client.query(`
+        INSERT INTO alert_events (incident_id, event_type, event_time, event_data)
+        VALUES ($1, 'escalated', $2, $3)
+      `, [incidentId, now, JSON.stringify({
+        escalation_policy_id: policy.id,
+        escalation_policy: policy.name,
+        level: toLevel,
+        from_level: fromLevel,
+        delay_minutes: definition.delay_minutes,
+        channel_ids: definition.channel_ids,
+        ...(definition.note ? { note: definition.note } : {})
+      })]);
+
+      await enqueueIncidentNotifications(client, incidentId, 'incident_escalated', logger, {
+        channelIds: definition.channel_ids,
+        details: {
+          escalation_policy: policy.name,
+          level: toLevel,
+          ...(definition.note ? { note: definition.note } : {})
+        }
+      });
+
+      await client.query('COMMIT');
+
+      this.log('Incident escalated', { incidentId, policy: policy.name, fromLevel, toLevel });
+
+      return fromLevel;
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    }
+  }
+
+  private log(message: string, data?: any): void {
+    logger.info({
+      service: 'EscalationScheduler',
+      ...data
+    }, message);
+  }
+}
@@ -0,0 +1,213 @@
+import { Pool } from 'pg';
+import { logger } from '../utils/logger';
+import { GraphSnapshotConfig } from '../config/snapshots';
+import { GraphSnapshot, GraphSnapshotTrigger, takeGraphSnapshot, pruneGraphSnapshots } from '../utils/graphSnapshots';
+
+export interface SnapshotMetrics {
+  lastRunTime: Date | null;
+  lastRunDuration: number;
+  lastSnapshotId: number | null;
+  totalSnapshots: number;
+  totalSnapshotsPruned: number;
+  lastError: string | null;
+  isRunning: boolean;
+  nextRunTime: Date | null;
+}
+
+export interface SnapshotResult {
+  snapshot: GraphSnapshot;
+  snapshotsPruned: number;
+  duration: number;
+}
+
+export default class GraphSnapshotter {
+  private pool: Pool;
+  private config: GraphSnapshotConfig;
+  private intervalId: NodeJS.Timeout | null = null;
+  private startupTimeoutId: NodeJS.Timeout | null = null;
+  private isRunning = false;
+  private metrics: SnapshotMetrics;
+
+  constructor(pool: Pool, config: GraphSnapshotConfig) {
+    this.pool = pool;
+    this.config = config;
+    this.metrics = {
+      lastRunTime: null,
+      lastRunDuration: 0,
+      lastSnapshotId: null,
+      totalSnapshots: 0,
+      totalSnapshotsPruned: 0,
+      lastError: null,
+      isRunning: false,
+      nextRunTime: null
+    };
+
+    this.log('GraphSnapshotter initialized', {
+      enabled: config.enabled,
+      intervalMinutes: config.intervalMinutes,
+      retentionDays: config.retentionDays
+    });
+  }
+
+  /**
+   * Start taking snapshots on the configured interval
+   */
+  start(): void {
+    if (!this.config.enabled) {
+      this.log('GraphSnapshotter start requested but disabled by configuration');
+      return;
+    }
+
+    if (this.intervalId) {
+      this.log('GraphSnapshotter already running');
+      return;
+    }
+
+    const intervalMs = this.config.intervalMinutes * 60 * 1000;
+
+    this.log('Starting GraphSnapshotter', {
+      intervalMinutes: this.config.intervalMinutes,
+      intervalMs
+    });
+
+    this.metrics.nextRunTime = new Date(Date.now() + intervalMs);
+
+    this.intervalId = setInterval(async () => {
+      try {
+        await this.runSnapshot('scheduled');
+      } catch {
+        // Already logged and recorded in metrics
+      }
+    }, intervalMs);
+
+    // Take a baseline on startup unless a recent snapshot already exists
+    this.startupTimeoutId = setTimeout(() => {
+      this.startupTimeoutId = null;
+      this.runSnapshotIfDue();
+    }, 5000);
+  }
+
+  /**
+   * Stop the scheduler, waiting for an in-flight snapshot to finish
+   */
+  async stop(): Promise<void> {
+    this.log('Stopping GraphSnapshotter');
+
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      this.metrics.nextRunTime = null;
+    }
+
+    if (this.startupTimeoutId) {
+      clearTimeout(this.startupTimeoutId);
+      this.startupTimeoutId = null;
+    }
+
+    while (this.isRunning) {
+      this.log('Waiting for current snapshot to complete...');
+      await new Promise(resolve => setTimeout(resolve, 1000));
+    }
+
+    this.log('GraphSnapshotter stopped');
+  }
+
+  /**
+   * Get current snapshot metrics
+   */
+  getMetrics(): SnapshotMetrics {
+    return { ...this.metrics };
+  }
+
+  /**
+   * Take a snapshot now and prune snapshots past retention
+   */
+  async runSnapshot(trigger: GraphSnapshotTrigger): Promise<SnapshotResult> {
+    if (this.isRunning) {
+      throw new Error('Snapshot is already running');
+    }
+
+    this.isRunning = true;
+    this.metrics.isRunning = true;
+    this.metrics.lastError = null;
+
+    const startTime = Date.now();
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const snapshot = await takeGraphSnapshot(client, trigger);
+      const snapshotsPruned = await pruneGraphSnapshots(client, this.config.retentionDays);
+
+      await client.query('COMMIT');
+
+      const result = {
+        snapshot,
+        snapshotsPruned,
+        duration: Date.now() - startTime
+      };
+
+      this.metrics.lastRunTime = new Date(startTime);
+      this.metrics.lastRunDuration = result.duration;
+      this.metrics.lastSnapshotId = snapshot.id;
+      this.metrics.totalSnapshots++;
+      this.metrics.totalSnapshotsPruned += snapshotsPruned;
+
+      if (this.intervalId) {
+        this.metrics.nextRunTime = new Date(Date.now() + (this.config.intervalMinutes * 60 * 1000));
+      }
+
+      this.log('Graph snapshot completed', {
+        trigger,
+        snapshotId: snapshot.id,
+        services: snapshot.service_count,
+        dependencies: snapshot.dependency_count,
+        namespaceDependencies: snapshot.namespace_dependency_count,
+        snapshotsPruned,
+        duration: result.duration
+      });
+
+      return result;
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.metrics.lastError = errorMessage;
+      this.log('Graph snapshot failed', { trigger, error: errorMessage });
+      throw error;
+
+    } finally {
+      client.release();
+      this.isRunning = false;
+      this.metrics.isRunning = false;
+    }
+  }
+
+  private async runSnapshotIfDue(): Promise<void> {
+    try {
+      const result = await this.pool.query(`
+        SELECT MAX(taken_at) as last_taken_at FROM graph_snapshots
+      `);
+      const lastTakenAt = result.rows[0]?.last_taken_at ? new Date(result.rows[0].last_taken_at) : null;
+
+      if (lastTakenAt && Date.now() - lastTakenAt.getTime() < this.config.intervalMinutes * 60 * 1000) {
+        this.log('Recent graph snapshot exists, skipping startup snapshot', { lastTakenAt });
+        return;
+      }
+
+      await this.runSnapshot('scheduled');
+    } catch (error) {
+      this.log('Startup graph snapshot failed', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  private log(message: string, data?: any): void {
+    logger.info({
+      service: 'GraphSnapshotter',
+      ...data
+    }, message);
+  }
+}
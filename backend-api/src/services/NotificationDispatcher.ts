@@ -0,0 +1,286 @@
+import { Pool } from 'pg';
+import { logger } from '../utils/logger';
+import { NotificationConfig } from '../config/notifications';
+import {
+  NotificationChannel,
+  NotificationDeliveryError,
+  sendNotification,
+  retryDelaySeconds
+} from '../utils/notifications';
+
+export interface DispatchMetrics {
+  lastRunTime: Date | null;
+  lastRunDuration: number;
+  totalSent: number;
+  totalRetried: number;
+  totalFailed: number;
+  lastError: string | null;
+  isRunning: boolean;
+  nextRunTime: Date | null;
+}
+
+export interface DispatchResult {
+  claimed: number;
+  sent: number;
+  retried: number;
+  failed: number;
+  duration: number;
+}
+
+export default class NotificationDispatcher {
+  private pool: Pool;
+  private config: NotificationConfig;
+  private intervalId: NodeJS.Timeout | null = null;
+  private isRunning = false;
+  private metrics: DispatchMetrics;
+
+  constructor(pool: Pool, config: NotificationConfig) {
+    this.pool = pool;
+    this.config = config;
+    this.metrics = {
+      lastRunTime: null,
+      lastRunDuration: 0,
+      totalSent: 0,
+      totalRetried: 0,
+      totalFailed: 0,
+      lastError: null,
+      isRunning: false,
+      nextRunTime: null
+    };
+
+    this.log('NotificationDispatcher initialized', {
+      enabled: config.enabled,
+      pollIntervalSeconds: config.pollIntervalSeconds,
+      maxAttempts: config.maxAttempts,
+      retryBaseSeconds: config.retryBaseSeconds
+    });
+  }
+
+  /**
+   * Start sending queued deliveries on the configured interval
+   */
+  start(): void {
+    if (!this.config.enabled) {
+      this.log('NotificationDispatcher start requested but disabled by configuration');
+      return;
+    }
+
+    if (this.intervalId) {
+      this.log('NotificationDispatcher already running');
+      return;
+    }
+
+    const intervalMs = this.config.pollIntervalSeconds * 1000;
+
+    this.log('Starting NotificationDispatcher', {
+      pollIntervalSeconds: this.config.pollIntervalSeconds,
+      intervalMs
+    });
+
+    this.metrics.nextRunTime = new Date(Date.now() + intervalMs);
+
+    this.intervalId = setInterval(async () => {
+      if (this.isRunning) return;
+      try {
+        await this.runDispatch();
+      } catch {
+        // Already logged and recorded in metrics
+      }
+    }, intervalMs);
+
+    // Deliveries left mid-send by a stopped process go back on the queue
+    this.requeueInterrupted();
+  }
+
+  /**
+   * Stop the scheduler, waiting for an in-flight batch to finish
+   */
+  async stop(): Promise<void> {
+    this.log('Stopping NotificationDispatcher');
+
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      this.metrics.nextRunTime = null;
+    }
+
+    while (this.isRunning) {
+      this.log('Waiting for current dispatch to complete...');
+      await new Promise(resolve => setTimeout(resolve, 1000));
+    }
+
+    this.log('NotificationDispatcher stopped');
+  }
+
+  /**
+   * Get current dispatch metrics
+   */
+  getMetrics(): DispatchMetrics {
+    return { ...this.metrics };
+  }
+
+  /**
+   * Claim the deliveries that are due and send them. Failures are rescheduled with
+   * exponential backoff until maxAttempts, then marked failed.
+   */
+  async runDispatch(): Promise<DispatchResult> {
+    if (this.isRunning) {
+      throw new Error('Dispatch is already running');
+    }
+
+    this.isRunning = true;
+    this.metrics.isRunning = true;
+    this.metrics.lastError = null;
+
+    const startTime = Date.now();
+    const result: DispatchResult = { claimed: 0, sent: 0, retried: 0, failed: 0, duration: 0 };
+
+    try {
+      // Claiming flips the rows to 'sending' so a second instance skips them
+      const claimed = await this.pool.query(`
+        UPDATE notification_deliveries d
+        SET status = 'sending', attempts = d.attempts + 1, claimed_at = NOW()
+        FROM notification_channels c
+        WHERE c.id = d.channel_id
+          AND d.id IN (
+            SELECT id FROM notification_deliveries
+            WHERE status = 'pending' AND next_attempt_at <= NOW()
+            ORDER BY next_attempt_at
+            LIMIT $1
+            FOR UPDATE SKIP LOCKED
+          )
+        RETURNING d.id, d.attempts, d.payload, c.id AS channel_id, c.name AS channel_name,
+                  c.channel_type, c.config, c.enabled
+      `, [this.config.batchSize]);
+
+      result.claimed = claimed.rows.length;
+
+      for (const row of claimed.rows) {
+        const channel: NotificationChannel = {
+          id: row.channel_id,
+          name: row.channel_name,
+          channel_type: row.channel_type,
+          config: row.config,
+          enabled: row.enabled
+        };
+
+        if (!channel.enabled) {
+          await this.markFailed(row.id, 'Channel is disabled', null);
+          result.failed++;
+          continue;
+        }
+
+        try {
+          const delivery = await sendNotification(channel, row.payload, this.config);
+          await this.pool.query(`
+            UPDATE notification_deliveries
+            SET status = 'sent', sent_at = NOW(), last_error = NULL, response_status = $2
+            WHERE id = $1
+          `, [row.id, delivery.responseStatus]);
+          result.sent++;
+
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          const responseStatus = error instanceof NotificationDeliveryError ? error.responseStatus : null;
+
+          if (row.attempts >= this.config.maxAttempts) {
+            await this.markFailed(row.id, errorMessage, responseStatus);
+            result.failed++;
+            this.log('Notification delivery failed permanently', {
+              deliveryId: row.id,
+              channel: channel.name,
+              attempts: row.attempts,
+              error: errorMessage
+            });
+          } else {
+            const delaySeconds = retryDelaySeconds(row.attempts, this.config.retryBaseSeconds);
+            await this.pool.query(`
+              UPDATE notification_deliveries
+              SET status = 'pending',
+                  last_error = $2,
+                  response_status = $3,
+                  next_attempt_at = NOW() + make_interval(secs => $4)
+              WHERE id = $1
+            `, [row.id, errorMessage, responseStatus, delaySeconds]);
+            result.retried++;
+            this.log('Notification delivery failed, will retry', {
+              deliveryId: row.id,
+              channel: channel.name,
+              attempts: row.attempts,
+              retryInSeconds: delaySeconds,
+              error: errorMessage
+            });
+          }
+        }
+      }
+
+      result.duration = Date.now() - startTime;
+
+      this.metrics.lastRunTime = new Date(startTime);
+      this.metrics.lastRunDuration = result.duration;
+      this.metrics.totalSent += result.sent;
+      this.metrics.totalRetried += result.retried;
+      this.metrics.totalFailed += result.failed;
+
+      if (this.intervalId) {
+        this.metrics.nextRunTime = new Date(Date.now() + (this.config.pollIntervalSeconds * 1000));
+      }
+
+      if (result.claimed > 0) {
+        this.log('Notification dispatch completed', { ...result });
+      }
+
+      return result;
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.metrics.lastError = errorMessage;
+      this.log('Notification dispatch failed', { error: errorMessage });
+      throw error;
+
+    } finally {
+      this.isRunning = false;
+      this.metrics.isRunning = false;
+    }
+  }
+
+  private async markFailed(id: number, errorMessage: string, responseStatus: number | null): Promise<void> {
+    await this.pool.query(`
+      UPDATE notification_deliveries
+      SET status = 'failed', last_error = $2, response_status = $3
+      WHERE id = $1
+    `, [id, errorMessage, responseStatus]);
+  }
+
+  /**
+   * Requeue deliveries stuck in 'sending'. A batch is sent one delivery at a time, so a running
+   * instance may hold a claim for up to batchSize request timeouts; only older claims are requeued.
+   */
+  private async requeueInterrupted(): Promise<void> {
+    const claimTimeoutSeconds = Math.ceil(this.config.batchSize * this.config.requestTimeoutMs / 1000);
+
+    try {
+      const result = await this.pool.query(`
+        UPDATE notification_deliveries
+        SET status = 'pending'
+        WHERE status = 'sending'
+          AND (claimed_at IS NULL OR claimed_at < NOW() - make_interval(secs => $1))
+      `, [claimTimeoutSeconds]);
+
+      if (result.rowCount) {
+        this.log('Requeued interrupted notification deliveries', { count: result.rowCount });
+      }
+    } catch (error) {
+      this.log('Failed to requeue interrupted notification deliveries', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  private log(message: string, data?: any): void {
+    logger.info({
+      service: 'NotificationDispatcher',
+      ...data
+    }, message);
+  }
+}
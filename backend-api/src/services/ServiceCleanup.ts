@@ -1,8 +1,11 @@
 import { Pool, PoolClient } from 'pg';
 import { logger } from '../utils/logger';
+import { recordEdgesDisappeared } from '../utils/dependencyChanges';
 
 export interface ServiceCleanupConfig {
   ttlHours: number;
+  dependencyTtlHours: number;
+  dependencyMetricsRetentionHours: number;
   intervalHours: number;
   enabled: boolean;
   maxServicesPerRun: number;
@@ -22,9 +25,20 @@ export interface CleanupMetrics {
   nextRunTime: Date | null;
 }
 
+export interface StaleDependency {
+  from_service_namespace: string;
+  from_service_name: string;
+  to_service_namespace: string;
+  to_service_name: string;
+  last_seen: Date;
+  hours_stale: number;
+}
+
 export interface CleanupResult {
   servicesDeleted: number;
   dependenciesDeleted: number;
+  staleDependenciesDeleted: number;
+  metricBucketsDeleted: number;
   duration: number;
   staleServices: Array<{
     service_namespace: string;
@@ -59,6 +73,8 @@ export default class ServiceCleanup {
 
     this.log('ServiceCleanup initialized', {
       ttlHours: config.ttlHours,
+      dependencyTtlHours: config.dependencyTtlHours,
+      dependencyMetricsRetentionHours: config.dependencyMetricsRetentionHours,
       intervalHours: config.intervalHours,
       enabled: config.enabled,
       maxServicesPerRun: config.maxServicesPerRun,
@@ -166,6 +182,46 @@ export default class ServiceCleanup {
     }
   }
 
+  /**
+   * Get dependency edges that haven't been reported within the edge TTL
+   */
+  async getStaleDependencies(): Promise<StaleDependency[]> {
+    if (!this.config.dependencyTtlHours || this.config.dependencyTtlHours <= 0) {
+      return [];
+    }
+
+    const client = await this.pool.connect();
+    
+    try {
+      const cutoffTime = new Date(Date.now() - (this.config.dependencyTtlHours * 60 * 60 * 1000));
+      
+      const result = await client.query(`
+        SELECT 
+          from_service_namespace,
+          from_service_name,
+          to_service_namespace,
+          to_service_name,
+          last_seen,
+          EXTRACT(EPOCH FROM (NOW() - last_seen)) / 3600 as hours_stale
+        FROM service_dependencies
+        WHERE last_seen < $1
+        ORDER BY last_seen ASC
+      `, [cutoffTime]);
+
+      return result.rows.map(row => ({
+        from_service_namespace: row.from_service_namespace,
+        from_service_name: row.from_service_name,
+        to_service_namespace: row.to_service_namespace,
+        to_service_name: row.to_service_name,
+        last_seen: new Date(row.last_seen),
+        hours_stale: Math.floor(parseFloat(row.hours_stale))
+      }));
+
+    } finally {
+      client.release();
+    }
+  }
+
   /**
    * Run cleanup immediately (can be called manually)
    */
@@ -188,6 +244,7 @@ export default class ServiceCleanup {
     try {
       this.log('Starting cleanup run', {
         ttlHours: this.config.ttlHours,
+        dependencyTtlHours: this.config.dependencyTtlHours,
         maxServicesPerRun: this.config.maxServicesPerRun,
         dryRun: this.config.dryRun || false
       });
@@ -198,10 +255,10 @@ export default class ServiceCleanup {
       this.metrics.lastRunTime = new Date(startTime);
       this.metrics.lastRunDuration = Date.now() - startTime;
       this.metrics.servicesDeleted = result.servicesDeleted;
-      this.metrics.dependenciesDeleted = result.dependenciesDeleted;
+      this.metrics.dependenciesDeleted = result.dependenciesDeleted + result.staleDependenciesDeleted;
       this.metrics.totalRuns++;
       this.metrics.totalServicesDeleted += result.servicesDeleted;
-      this.metrics.totalDependenciesDeleted += result.dependenciesDeleted;
+      this.metrics.totalDependenciesDeleted += result.dependenciesDeleted + result.staleDependenciesDeleted;
       
       // Set next run time
       if (this.intervalId) {
@@ -212,6 +269,7 @@ export default class ServiceCleanup {
         duration: result.duration,
         servicesDeleted: result.servicesDeleted,
         dependenciesDeleted: result.dependenciesDeleted,
+        staleDependenciesDeleted: result.staleDependenciesDeleted,
         staleServicesFound: result.staleServices.length
       });
 
@@ -241,6 +299,12 @@ export default class ServiceCleanup {
       const startTime = Date.now();
       const cutoffTime = new Date(Date.now() - (this.config.ttlHours * 60 * 60 * 1000));
 
+      // Age out dependency edges that are no longer reported (incremental telemetry never deletes them)
+      const staleDependenciesDeleted = await this.cleanupStaleDependencies(client);
+
+      // Drop per-edge call metric buckets past retention
+      const metricBucketsDeleted = await this.cleanupExpiredDependencyMetrics(client);
+
       // Find stale services
       const staleServicesResult = await client.query(`
         SELECT 
@@ -262,10 +326,12 @@ export default class ServiceCleanup {
       }));
 
       if (staleServices.length === 0) {
-        await client.query('COMMIT');
+        await client.query(this.config.dryRun ? 'ROLLBACK' : 'COMMIT');
         return {
           servicesDeleted: 0,
           dependenciesDeleted: 0,
+          staleDependenciesDeleted,
+          metricBucketsDeleted,
           duration: Date.now() - startTime,
           staleServices: []
         };
@@ -286,14 +352,18 @@ export default class ServiceCleanup {
           const depFromResult = await client.query(`
             DELETE FROM service_dependencies 
             WHERE from_service_namespace = $1 AND from_service_name = $2
+            RETURNING from_service_namespace, from_service_name, to_service_namespace, to_service_name
           `, [service.service_namespace, service.service_name]);
 
           // Delete dependencies where this service is the target
           const depToResult = await client.query(`
             DELETE FROM service_dependencies 
             WHERE to_service_namespace = $1 AND to_service_name = $2
+            RETURNING from_service_namespace, from_service_name, to_service_namespace, to_service_name
           `, [service.service_namespace, service.service_name]);
 
+          await recordEdgesDisappeared(client, [...depFromResult.rows, ...depToResult.rows], 'cleanup', 'service_removed');
+
           dependenciesDeleted += depFromResult.rowCount || 0;
           dependenciesDeleted += depToResult.rowCount || 0;
 
@@ -334,6 +404,8 @@ export default class ServiceCleanup {
       return {
         servicesDeleted,
         dependenciesDeleted,
+        staleDependenciesDeleted,
+        metricBucketsDeleted,
         duration: Date.now() - startTime,
         staleServices
       };
@@ -350,6 +422,71 @@ export default class ServiceCleanup {
     }
   }
 
+  /**
+   * Delete dependency edges whose last_seen is older than the edge TTL
+   */
+  private async cleanupStaleDependencies(client: PoolClient): Promise<number> {
+    if (!this.config.dependencyTtlHours || this.config.dependencyTtlHours <= 0) {
+      return 0;
+    }
+
+    const cutoffTime = new Date(Date.now() - (this.config.dependencyTtlHours * 60 * 60 * 1000));
+
+    if (this.config.dryRun) {
+      const countResult = await client.query(
+        'SELECT COUNT(*) as count FROM service_dependencies WHERE last_seen < $1',
+        [cutoffTime]
+      );
+      const wouldDelete = parseInt(countResult.rows[0].count);
+      if (wouldDelete > 0) {
+        this.log('DRY RUN: Would have deleted stale dependencies', { count: wouldDelete });
+      }
+      return 0;
+    }
+
+    const result = await client.query(`
+      DELETE FROM service_dependencies WHERE last_seen < $1
+      RETURNING from_service_namespace, from_service_name, to_service_namespace, to_service_name
+    `, [cutoffTime]);
+
+    await recordEdgesDisappeared(client, result.rows, 'cleanup', 'ttl_expired');
+
+    const deletedCount = result.rowCount || 0;
+    if (deletedCount > 0) {
+      this.log(`Deleted ${deletedCount} stale dependencies`, {
+        dependencyTtlHours: this.config.dependencyTtlHours,
+        cutoffTime: cutoffTime.toISOString()
+      });
+    }
+
+    return deletedCount;
+  }
+
+  /**
+   * Delete per-edge call metric buckets older than the metrics retention window
+   */
+  private async cleanupExpiredDependencyMetrics(client: PoolClient): Promise<number> {
+    if (this.config.dryRun || !this.config.dependencyMetricsRetentionHours || this.config.dependencyMetricsRetentionHours <= 0) {
+      return 0;
+    }
+
+    const cutoffTime = new Date(Date.now() - (this.config.dependencyMetricsRetentionHours * 60 * 60 * 1000));
+
+    const result = await client.query(
+      'DELETE FROM service_dependency_metrics WHERE bucket_start < $1',
+      [cutoffTime]
+    );
+
+    const deletedCount = result.rowCount || 0;
+    if (deletedCount > 0) {
+      this.log(`Deleted ${deletedCount} expired dependency metric buckets`, {
+        dependencyMetricsRetentionHours: this.config.dependencyMetricsRetentionHours
+      });
+    }
+
+    return deletedCount;
+  }
+
   /**
    * Clean up orphaned dependencies (dependencies pointing to non-existent services)
    */
@@ -369,8 +506,11 @@ export default class ServiceCleanup {
           WHERE s.service_namespace = sd.from_service_namespace 
           AND s.service_name = sd.from_service_name
         )
+        RETURNING sd.from_service_namespace, sd.from_service_name, sd.to_service_namespace, sd.to_service_name
       `);
 
+      await recordEdgesDisappeared(client, result.rows, 'cleanup', 'orphaned');
+
       const deletedCount = result.rowCount || 0;
       
       if (deletedCount > 0) {
@@ -391,6 +531,7 @@ export default class ServiceCleanup {
     totalServices: number;
     staleServices: number;
     totalDependencies: number;
+    staleDependencies: number;
     orphanedDependencies: number;
     oldestService: { service: string; last_seen: Date; days_stale: number } | null;
   }> {
@@ -414,6 +555,17 @@ export default class ServiceCleanup {
       const totalDepsResult = await client.query('SELECT COUNT(*) as count FROM service_dependencies');
       const totalDependencies = parseInt(totalDepsResult.rows[0].count);
 
+      // Get stale dependencies count (0 when edge TTL is disabled)
+      let staleDependencies = 0;
+      if (this.config.dependencyTtlHours > 0) {
+        const dependencyCutoff = new Date(Date.now() - (this.config.dependencyTtlHours * 60 * 60 * 1000));
+        const staleDepsResult = await client.query(
+          'SELECT COUNT(*) as count FROM service_dependencies WHERE last_seen < $1',
+          [dependencyCutoff]
+        );
+        staleDependencies = parseInt(staleDepsResult.rows[0].count);
+      }
+
       // Get orphaned dependencies count
       const orphanedDepsResult = await client.query(`
         SELECT COUNT(*) as count FROM service_dependencies sd
@@ -455,6 +607,7 @@ export default class ServiceCleanup {
         totalServices,
         staleServices,
         totalDependencies,
+        staleDependencies,
         orphanedDependencies,
         oldestService
       };
@@ -0,0 +1,13 @@
+import { AuthUser, TokenKind } from '../utils/auth';
+import { IngestionKey } from '../utils/ingestionKeys';
+
+// Extend Express Request interface with the signed-in user, and on ingestion routes with the
+// ingestion key presented and the unparsed body it signs
+declare module 'express-serve-static-core' {
+  interface Request {
+    user?: AuthUser;
+    authToken?: { id: number; kind: TokenKind };
+    ingestionKey?: IngestionKey;
+    rawBody?: Buffer;
+  }
+}
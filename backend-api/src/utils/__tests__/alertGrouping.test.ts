@@ -0,0 +1,197 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  validateGroupingPolicy,
+  previewGrouping,
+  policyMatches,
+  generateGroupedFingerprint,
+  GroupingRule,
+  GroupingPreviewIncident
+} from '../alertGrouping';
+import { AlertIdentity } from '../alertFingerprinting';
+
+const identity = (overrides: Partial<AlertIdentity> = {}): AlertIdentity => ({
+  serviceNamespace: 'shop',
+  serviceName: 'checkout',
+  instanceId: 'pod-1',
+  severity: 'critical',
+  message: 'Database connection refused',
+  ...overrides
+});
+
+const rule = (overrides: Partial<GroupingRule> = {}): GroupingRule => ({
+  match_namespace: null,
+  match_service: null,
+  match_severity: null,
+  match_labels: {},
+  group_by: ['namespace', 'service'],
+  ...overrides
+});
+
+let nextId = 1;
+const incident = (start: string, end: string | null, overrides: Partial<GroupingPreviewIncident> = {}): GroupingPreviewIncident => ({
+  id: nextId++,
+  service_namespace: 'shop',
+  service_name: 'checkout',
+  instance_id: 'pod-1',
+  severity: 'warning',
+  message: 'Database connection refused',
+  incident_start: new Date(start),
+  incident_end: end ? new Date(end) : null,
+  labels: null,
+  ...overrides
+});
+
+describe('validateGroupingPolicy', () => {
+  it('accepts a complete policy', () => {
+    const result = validateGroupingPolicy({
+      name: 'db outages',
+      priority: 10,
+      match_namespace: 'shop',
+      match_labels: { alertname: 'DatabaseDown' },
+      group_by: ['service', 'label:cluster']
+    });
+
+    expect(result).toEqual({ isValid: true, errors: [], warnings: [] });
+  });
+
+  it('rejects bodies that are not objects', () => {
+    expect(validateGroupingPolicy(null).errors).toEqual(['Body must be an object']);
+    expect(validateGroupingPolicy([]).isValid).toBe(false);
+  });
+
+  it('requires a name unless validating a preview candidate', () => {
+    expect(validateGroupingPolicy({ group_by: ['service'] }).errors)
+      .toContain('name is required and must be a non-empty string');
+    expect(validateGroupingPolicy({ group_by: ['service'] }, false).isValid).toBe(true);
+    expect(validateGroupingPolicy({ name: ' ', group_by: ['service'] }, false).isValid).toBe(false);
+  });
+
+  it('rejects unknown, empty and duplicate group_by fields', () => {
+    expect(validateGroupingPolicy({ name: 'p', group_by: [] }).errors)
+      .toContain('group_by is required and must be a non-empty array');
+    expect(validateGroupingPolicy({ name: 'p', group_by: ['service', 'hostname', 'label:'] }).errors[0])
+      .toMatch(/^group_by contains unknown fields: hostname, label:/);
+    expect(validateGroupingPolicy({ name: 'p', group_by: ['service', 'service'] }).errors)
+      .toContain('group_by must not contain duplicate fields');
+  });
+
+  it('checks match criteria types', () => {
+    const result = validateGroupingPolicy({
+      name: 'p',
+      priority: 1.5,
+      enabled: 'yes',
+      match_service: '',
+      match_severity: 'high',
+      match_labels: { team: 7 },
+      group_by: ['service']
+    });
+
+    expect(result.errors).toEqual([
+      'enabled must be a boolean',
+      'priority must be an integer',
+      'match_service must be a non-empty string or null',
+      'match_severity must be one of: fatal, critical, warning, none',
+      'match_labels values must be strings'
+    ]);
+  });
+
+  it('warns about policies that group across services or match everything', () => {
+    expect(validateGroupingPolicy({ name: 'p', group_by: ['namespace'] }).warnings).toEqual([
+      'group_by does not include service - alerts from different services will share an incident',
+      'No match criteria - the policy applies to every alert'
+    ]);
+    expect(validateGroupingPolicy({ name: 'p', match_service: 'checkout', group_by: ['namespace'] }).warnings)
+      .toEqual([]);
+  });
+});
+
+describe('policyMatches', () => {
+  it('requires every match criterion to fit', () => {
+    const candidate = rule({ match_namespace: 'shop', match_severity: 'critical', match_labels: { alertname: 'DatabaseDown' } });
+
+    expect(policyMatches(candidate, identity(), { alertname: 'DatabaseDown' })).toBe(true);
+    expect(policyMatches(candidate, identity(), { alertname: 'HighLatency' })).toBe(false);
+    expect(policyMatches(candidate, identity({ severity: 'warning' }), { alertname: 'DatabaseDown' })).toBe(false);
+    expect(policyMatches(candidate, identity({ serviceNamespace: 'billing' }), { alertname: 'DatabaseDown' })).toBe(false);
+  });
+});
+
+describe('generateGroupedFingerprint', () => {
+  it('ignores fields outside group_by and normalizes the ones in it', () => {
+    const grouped = rule({ group_by: ['service', 'label:cluster'] });
+
+    expect(generateGroupedFingerprint(1, grouped, identity({ instanceId: 'pod-1' }), { cluster: 'eu' }))
+      .toBe(generateGroupedFingerprint(1, grouped, identity({ instanceId: 'pod-2', serviceName: ' Checkout ' }), { cluster: 'eu' }));
+    expect(generateGroupedFingerprint(1, grouped, identity(), { cluster: 'eu' }))
+      .not.toBe(generateGroupedFingerprint(1, grouped, identity(), { cluster: 'us' }));
+  });
+
+  it('never matches the fingerprint of another policy', () => {
+    expect(generateGroupedFingerprint(1, rule(), identity(), {}))
+      .not.toBe(generateGroupedFingerprint(2, rule(), identity(), {}));
+  });
+});
+
+describe('previewGrouping', () => {
+  it('merges overlapping incidents with the same key', () => {
+    const incidents = [
+      incident('2024-05-01T10:00:00Z', '2024-05-01T10:30:00Z', { instance_id: 'pod-1' }),
+      incident('2024-05-01T10:10:00Z', '2024-05-01T10:45:00Z', { instance_id: 'pod-2', severity: 'critical' }),
+      incident('2024-05-01T10:20:00Z', '2024-05-01T10:25:00Z', { instance_id: 'pod-3' })
+    ];
+
+    const preview = previewGrouping(incidents, rule());
+
+    expect(preview.matched).toBe(3);
+    expect(preview.resultingIncidents).toBe(1);
+    expect(preview.groups).toEqual([{
+      key: { namespace: 'shop', service: 'checkout' },
+      incidentCount: 3,
+      services: ['shop::checkout'],
+      instances: ['pod-1', 'pod-2', 'pod-3'],
+      severity: 'critical',
+      sampleMessage: 'Database connection refused',
+      start: '2024-05-01T10:00:00.000Z',
+      end: '2024-05-01T10:45:00.000Z',
+      incidentIds: incidents.map(item => item.id)
+    }]);
+  });
+
+  it('starts a new incident once the previous group has resolved', () => {
+    const preview = previewGrouping([
+      incident('2024-05-01T10:00:00Z', '2024-05-01T10:30:00Z'),
+      incident('2024-05-01T11:00:00Z', null),
+      incident('2024-05-01T12:00:00Z', null)
+    ], rule());
+
+    expect(preview.resultingIncidents).toBe(2);
+    expect(preview.groups).toHaveLength(1);
+    expect(preview.groups[0]).toMatchObject({ incidentCount: 2, start: '2024-05-01T11:00:00.000Z', end: null });
+  });
+
+  it('keeps different keys and unmatched incidents apart', () => {
+    const preview = previewGrouping([
+      incident('2024-05-01T10:00:00Z', null, { service_name: 'checkout' }),
+      incident('2024-05-01T10:05:00Z', null, { service_name: 'payments' }),
+      incident('2024-05-01T10:10:00Z', null, { service_namespace: 'billing' })
+    ], rule({ match_namespace: 'shop' }));
+
+    expect(preview.matched).toBe(2);
+    expect(preview.resultingIncidents).toBe(2);
+    expect(preview.groups).toEqual([]);
+  });
+
+  it('groups by labels, treating missing labels as empty', () => {
+    const preview = previewGrouping([
+      incident('2024-05-01T10:00:00Z', null, { labels: { alertname: 'DatabaseDown' }, service_name: 'checkout' }),
+      incident('2024-05-01T10:01:00Z', null, { labels: { alertname: 'DatabaseDown' }, service_name: 'payments' }),
+      incident('2024-05-01T10:02:00Z', null, { labels: null, service_name: 'orders' })
+    ], rule({ group_by: ['alertname'] }));
+
+    expect(preview.resultingIncidents).toBe(2);
+    expect(preview.groups[0]).toMatchObject({
+      key: { alertname: 'DatabaseDown' },
+      services: ['shop::checkout', 'shop::payments']
+    });
+  });
+});
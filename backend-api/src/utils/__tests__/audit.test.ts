@@ -0,0 +1,52 @@
+import { describe, it, expect } from '@jest/globals';
+import { redact } from '../audit';
+
+describe('redact', () => {
+  it('turns missing states into null', () => {
+    expect(redact(undefined)).toBeNull();
+    expect(redact(null)).toBeNull();
+  });
+
+  it('keeps scalars, dates and fields that are not secret', () => {
+    const createdAt = new Date('2024-05-01T10:00:00Z');
+
+    expect(redact('text')).toBe('text');
+    expect(redact({ id: 4, name: 'payments-slack', created_at: createdAt, tags: ['tier-1'] }))
+      .toEqual({ id: 4, name: 'payments-slack', created_at: createdAt, tags: ['tier-1'] });
+  });
+
+  it('redacts secret fields at the top level', () => {
+    expect(redact({ username: 'ops', password_hash: 'abc', token: 't', key_hash: 'k' }))
+      .toEqual({ username: 'ops', password_hash: '[redacted]', token: '[redacted]', key_hash: '[redacted]' });
+  });
+
+  it('redacts notification channel URLs and header values in nested config', () => {
+    const channel = {
+      id: 1,
+      channel_type: 'webhook',
+      config: {
+        url: 'https://hooks.example.com/services/T000/B000/XXXX',
+        headers: { Authorization: 'Bearer secret', 'X-Team': 'payments' }
+      }
+    };
+
+    expect(redact(channel)).toEqual({
+      id: 1,
+      channel_type: 'webhook',
+      config: {
+        url: '[redacted]',
+        headers: { Authorization: '[redacted]', 'X-Team': '[redacted]' }
+      }
+    });
+    expect(channel.config.url).toBe('https://hooks.example.com/services/T000/B000/XXXX');
+  });
+
+  it('redacts inside arrays and matches field names case-insensitively', () => {
+    expect(redact([{ name: 'a', Signing_Secret: 's' }, { name: 'b', nested: { Password: 'p' } }]))
+      .toEqual([{ name: 'a', Signing_Secret: '[redacted]' }, { name: 'b', nested: { Password: '[redacted]' } }]);
+  });
+
+  it('redacts headers that are not an object as a whole', () => {
+    expect(redact({ headers: 'Authorization: Bearer secret' })).toEqual({ headers: '[redacted]' });
+  });
+});
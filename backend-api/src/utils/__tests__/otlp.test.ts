@@ -0,0 +1,200 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseOtlpJson, decodeOtlpProtobuf, SPAN_KIND, SPAN_STATUS_CODE } from '../otlp';
+
+// Minimal protobuf writer for building ExportTraceServiceRequest payloads
+
+function varint(value: number | bigint): Buffer {
+  const bytes: number[] = [];
+  let remaining = BigInt(value);
+  do {
+    let byte = Number(remaining & BigInt(0x7f));
+    remaining >>= BigInt(7);
+    if (remaining > BigInt(0)) byte |= 0x80;
+    bytes.push(byte);
+  } while (remaining > BigInt(0));
+  return Buffer.from(bytes);
+}
+
+function tag(field: number, wireType: number): Buffer {
+  return varint((field << 3) | wireType);
+}
+
+function varintField(field: number, value: number | bigint): Buffer {
+  return Buffer.concat([tag(field, 0), varint(value)]);
+}
+
+function bytesField(field: number, value: Buffer | string): Buffer {
+  const bytes = typeof value === 'string' ? Buffer.from(value, 'utf8') : value;
+  return Buffer.concat([tag(field, 2), varint(bytes.length), bytes]);
+}
+
+function fixed64Field(field: number, value: bigint): Buffer {
+  const bytes = Buffer.alloc(8);
+  bytes.writeBigUInt64LE(value);
+  return Buffer.concat([tag(field, 1), bytes]);
+}
+
+function doubleField(field: number, value: number): Buffer {
+  const bytes = Buffer.alloc(8);
+  bytes.writeDoubleLE(value);
+  return Buffer.concat([tag(field, 1), bytes]);
+}
+
+function keyValue(key: string, anyValue: Buffer): Buffer {
+  return Buffer.concat([bytesField(1, key), bytesField(2, anyValue)]);
+}
+
+const stringValue = (value: string) => bytesField(1, value);
+
+describe('parseOtlpJson', () => {
+  it('normalises spans, enums, timestamps and attributes', () => {
+    const [resourceSpans] = parseOtlpJson({
+      resourceSpans: [{
+        resource: {
+          attributes: [
+            { key: 'service.name', value: { stringValue: 'checkout' } },
+            { key: 'service.namespace', value: { stringValue: 'shop' } }
+          ]
+        },
+        scopeSpans: [{
+          spans: [{
+            traceId: 'abc',
+            spanId: '01',
+            parentSpanId: '00',
+            name: 'GET /cart',
+            kind: 'SPAN_KIND_CLIENT',
+            startTimeUnixNano: '1700000000000000000',
+            endTimeUnixNano: 1700000000250000000,
+            status: { code: 'STATUS_CODE_ERROR' },
+            attributes: [
+              { key: 'http.status_code', value: { intValue: '500' } },
+              { key: 'retried', value: { boolValue: true } },
+              { key: 'ratio', value: { doubleValue: 0.5 } },
+              { key: 'hosts', value: { arrayValue: { values: [{ stringValue: 'a' }, { stringValue: 'b' }] } } },
+              { key: 'peer', value: { kvlistValue: { values: [{ key: 'zone', value: { stringValue: 'eu' } }] } } },
+              { key: 'empty', value: {} }
+            ]
+          }]
+        }]
+      }]
+    });
+
+    expect(resourceSpans.resource).toEqual({ 'service.name': 'checkout', 'service.namespace': 'shop' });
+    expect(resourceSpans.spans).toHaveLength(1);
+
+    const span = resourceSpans.spans[0];
+    expect(span).toMatchObject({
+      traceId: 'abc',
+      spanId: '01',
+      parentSpanId: '00',
+      name: 'GET /cart',
+      kind: SPAN_KIND.CLIENT,
+      statusCode: SPAN_STATUS_CODE.ERROR,
+      startTimeUnixNano: BigInt('1700000000000000000')
+    });
+    expect(span.endTimeUnixNano).toBeGreaterThan(span.startTimeUnixNano);
+    expect(span.attributes).toEqual({
+      'http.status_code': 500,
+      retried: true,
+      ratio: 0.5,
+      hosts: ['a', 'b'],
+      peer: { zone: 'eu' },
+      empty: null
+    });
+  });
+
+  it('accepts legacy instrumentationLibrarySpans and numeric enums', () => {
+    const [resourceSpans] = parseOtlpJson({
+      resourceSpans: [{ instrumentationLibrarySpans: [{ spans: [{ spanId: '02', kind: 2, status: { code: 1 } }] }] }]
+    });
+
+    expect(resourceSpans.resource).toEqual({});
+    expect(resourceSpans.spans[0]).toMatchObject({ spanId: '02', kind: SPAN_KIND.SERVER, statusCode: SPAN_STATUS_CODE.OK });
+    expect(resourceSpans.spans[0].startTimeUnixNano).toBe(BigInt(0));
+  });
+
+  it('rejects payloads without a resourceSpans array', () => {
+    expect(() => parseOtlpJson(undefined)).toThrow('missing resourceSpans');
+    expect(() => parseOtlpJson({ resourceSpans: {} })).toThrow('missing resourceSpans');
+  });
+});
+
+describe('decodeOtlpProtobuf', () => {
+  const traceId = Buffer.from('0102030405060708090a0b0c0d0e0f10', 'hex');
+  const spanId = Buffer.from('1112131415161718', 'hex');
+  const parentSpanId = Buffer.from('2122232425262728', 'hex');
+
+  const span = Buffer.concat([
+    bytesField(1, traceId),
+    bytesField(2, spanId),
+    bytesField(4, parentSpanId),
+    bytesField(5, 'SELECT orders'),
+    varintField(6, SPAN_KIND.CLIENT),
+    fixed64Field(7, BigInt('1700000000000000000')),
+    fixed64Field(8, BigInt('1700000000125000000')),
+    bytesField(9, keyValue('db.system', stringValue('postgresql'))),
+    bytesField(9, keyValue('net.peer.port', varintField(3, 5432))),
+    bytesField(9, keyValue('sampled', varintField(2, 1))),
+    bytesField(9, keyValue('weight', doubleField(4, 1.5))),
+    bytesField(9, keyValue('tags', bytesField(5, Buffer.concat([bytesField(1, stringValue('x')), bytesField(1, stringValue('y'))])))),
+    bytesField(9, keyValue('labels', bytesField(6, bytesField(1, keyValue('tier', stringValue('db')))))),
+    bytesField(9, keyValue('raw', bytesField(7, Buffer.from([0xde, 0xad])))),
+    bytesField(15, Buffer.concat([bytesField(2, 'timeout'), varintField(3, SPAN_STATUS_CODE.ERROR)])),
+    // Unknown fields are skipped
+    varintField(99, 7)
+  ]);
+
+  const resource = bytesField(1, keyValue('service.name', stringValue('orders')));
+
+  it('decodes resources, spans and attribute values', () => {
+    const payload = bytesField(1, Buffer.concat([bytesField(1, resource), bytesField(2, bytesField(2, span))]));
+    const decoded = decodeOtlpProtobuf(payload);
+
+    expect(decoded).toHaveLength(1);
+    expect(decoded[0].resource).toEqual({ 'service.name': 'orders' });
+    expect(decoded[0].spans).toHaveLength(1);
+    expect(decoded[0].spans[0]).toEqual({
+      traceId: traceId.toString('hex'),
+      spanId: spanId.toString('hex'),
+      parentSpanId: parentSpanId.toString('hex'),
+      name: 'SELECT orders',
+      kind: SPAN_KIND.CLIENT,
+      startTimeUnixNano: BigInt('1700000000000000000'),
+      endTimeUnixNano: BigInt('1700000000125000000'),
+      statusCode: SPAN_STATUS_CODE.ERROR,
+      attributes: {
+        'db.system': 'postgresql',
+        'net.peer.port': 5432,
+        sampled: true,
+        weight: 1.5,
+        tags: ['x', 'y'],
+        labels: { tier: 'db' },
+        raw: Buffer.from([0xde, 0xad]).toString('base64')
+      }
+    });
+  });
+
+  it('decodes negative integer attributes', () => {
+    const negative = BigInt.asUintN(64, BigInt(-3));
+    const payload = bytesField(1, bytesField(2, bytesField(2, bytesField(9, keyValue('delta', varintField(3, negative))))));
+
+    expect(decodeOtlpProtobuf(payload)[0].spans[0].attributes).toEqual({ delta: -3 });
+  });
+
+  it('accepts legacy instrumentation_library_spans', () => {
+    const payload = bytesField(1, bytesField(1000, bytesField(2, span)));
+
+    expect(decodeOtlpProtobuf(payload)[0].spans[0].name).toBe('SELECT orders');
+  });
+
+  it('decodes an empty request', () => {
+    expect(decodeOtlpProtobuf(Buffer.alloc(0))).toEqual([]);
+  });
+
+  it('rejects truncated payloads', () => {
+    const payload = bytesField(1, bytesField(2, bytesField(2, span)));
+
+    expect(() => decodeOtlpProtobuf(payload.subarray(0, payload.length - 4))).toThrow('Invalid OTLP protobuf');
+    expect(() => decodeOtlpProtobuf(Buffer.from([0x0a, 0xff]))).toThrow('truncated varint');
+  });
+});
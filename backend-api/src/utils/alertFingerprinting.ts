@@ -56,7 +56,7 @@ export function generateAlertFingerprint(identity: AlertIdentity): string {
  * This handles cases where Alertmanager might send slightly different
  * message formatting for the same underlying alert.
  */
-function normalizeMessage(message: string): string {
+export function normalizeMessage(message: string): string {
   return message
     .trim()
     .toLowerCase()
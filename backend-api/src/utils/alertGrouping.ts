@@ -0,0 +1,334 @@
+import crypto from 'crypto';
+import { PoolClient } from 'pg';
+import { AlertIdentity, normalizeMessage } from './alertFingerprinting';
+import { ValidationResult } from './validation';
+
+/**
+ * Configurable alert grouping
+ *
+ * A grouping policy replaces the default fingerprint for the alerts it matches, so e.g. one
+ * database outage reported by 40 instances becomes one incident instead of 40. Policies are
+ * tried in priority order and the first match wins; alerts no policy matches keep the default.
+ */
+
+export interface AlertGroupingPolicy {
+  id: number;
+  name: string;
+  description: string | null;
+  enabled: boolean;
+  priority: number;
+  match_namespace: string | null;
+  match_service: string | null;
+  match_severity: string | null;
+  match_labels: Record<string, string>;
+  group_by: string[];
+}
+
+// The parts of a policy that decide matching and grouping - all a preview candidate needs
+export type GroupingRule = Pick<
+  AlertGroupingPolicy,
+  'match_namespace' | 'match_service' | 'match_severity' | 'match_labels' | 'group_by'
+>;
+
+export interface GroupingPreviewIncident {
+  id: number;
+  service_namespace: string;
+  service_name: string;
+  instance_id: string;
+  severity: string;
+  message: string;
+  incident_start: Date;
+  incident_end: Date | null;
+  labels: Record<string, string> | null;
+}
+
+export interface GroupingPreviewGroup {
+  key: Record<string, string>;
+  incidentCount: number;
+  services: string[];
+  instances: string[];
+  severity: string;
+  sampleMessage: string;
+  start: string;
+  end: string | null;
+  incidentIds: number[];
+}
+
+export const GROUP_BY_FIELDS = ['namespace', 'service', 'instance', 'severity', 'message', 'alertname'];
+export const LABEL_FIELD_PREFIX = 'label:';
+
+const VALID_SEVERITIES = ['fatal', 'critical', 'warning', 'none'];
+const SEVERITY_RANK: Record<string, number> = { fatal: 4, critical: 3, warning: 2, none: 1 };
+const MAX_NAME_LENGTH = 255;
+const MAX_LISTED_INCIDENT_IDS = 50;
+const MAX_LISTED_INSTANCES = 10;
+
+function isGroupByField(field: unknown): field is string {
+  if (typeof field !== 'string') return false;
+  if (GROUP_BY_FIELDS.includes(field)) return true;
+  return field.startsWith(LABEL_FIELD_PREFIX) && field.length > LABEL_FIELD_PREFIX.length;
+}
+
+/**
+ * Validate a grouping policy body. `requireName` is false for preview candidates, which are never stored.
+ */
+export function validateGroupingPolicy(input: any, requireName: boolean = true): ValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { isValid: false, errors: ['Body must be an object'], warnings };
+  }
+
+  if (requireName || input.name !== undefined) {
+    if (typeof input.name !== 'string' || input.name.trim() === '') {
+      errors.push('name is required and must be a non-empty string');
+    } else if (input.name.length > MAX_NAME_LENGTH) {
+      errors.push(`name exceeds maximum length of ${MAX_NAME_LENGTH} characters`);
+    }
+  }
+
+  if (input.description !== undefined && input.description !== null && typeof input.description !== 'string') {
+    errors.push('description must be a string');
+  }
+
+  if (input.enabled !== undefined && typeof input.enabled !== 'boolean') {
+    errors.push('enabled must be a boolean');
+  }
+
+  if (input.priority !== undefined && !Number.isInteger(input.priority)) {
+    errors.push('priority must be an integer');
+  }
+
+  (['match_namespace', 'match_service'] as const).forEach(field => {
+    const value = input[field];
+    if (value === undefined || value === null) return;
+    if (typeof value !== 'string' || value.trim() === '') {
+      errors.push(`${field} must be a non-empty string or null`);
+    } else if (value.length > MAX_NAME_LENGTH) {
+      errors.push(`${field} exceeds maximum length of ${MAX_NAME_LENGTH} characters`);
+    }
+  });
+
+  if (input.match_severity !== undefined && input.match_severity !== null && !VALID_SEVERITIES.includes(input.match_severity)) {
+    errors.push(`match_severity must be one of: ${VALID_SEVERITIES.join(', ')}`);
+  }
+
+  if (input.match_labels !== undefined && input.match_labels !== null) {
+    const labels = input.match_labels;
+    if (typeof labels !== 'object' || Array.isArray(labels)) {
+      errors.push('match_labels must be an object of label name to value');
+    } else if (Object.values(labels).some(value => typeof value !== 'string')) {
+      errors.push('match_labels values must be strings');
+    }
+  }
+
+  if (!Array.isArray(input.group_by) || input.group_by.length === 0) {
+    errors.push('group_by is required and must be a non-empty array');
+  } else {
+    const invalid = input.group_by.filter((field: unknown) => !isGroupByField(field));
+    if (invalid.length > 0) {
+      errors.push(`group_by contains unknown fields: ${invalid.join(', ')} (allowed: ${GROUP_BY_FIELDS.join(', ')}, ${LABEL_FIELD_PREFIX}<name>)`);
+    }
+    if (new Set(input.group_by).size !== input.group_by.length) {
+      errors.push('group_by must not contain duplicate fields');
+    }
+    if (!input.group_by.includes('service') && !input.match_service) {
+      warnings.push('group_by does not include service - alerts from different services will share an incident');
+    }
+  }
+
+  const hasMatchCriteria = input.match_namespace || input.match_service || input.match_severity ||
+    (input.match_labels && Object.keys(input.match_labels).length > 0);
+  if (!hasMatchCriteria) {
+    warnings.push('No match criteria - the policy applies to every alert');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings
+  };
+}
+
+/**
+ * Enabled policies in the order processIncident tries them
+ */
+export async function loadGroupingPolicies(client: PoolClient): Promise<AlertGroupingPolicy[]> {
+  const result = await client.query(`
+    SELECT id, name, description, enabled, priority, match_namespace, match_service,
+           match_severity, match_labels, group_by
+    FROM alert_grouping_policies
+    WHERE enabled = TRUE
+    ORDER BY priority, id
+  `);
+
+  return result.rows;
+}
+
+export function policyMatches(
+  rule: GroupingRule,
+  identity: AlertIdentity,
+  labels: Record<string, string>
+): boolean {
+  if (rule.match_namespace && rule.match_namespace !== identity.serviceNamespace) return false;
+  if (rule.match_service && rule.match_service !== identity.serviceName) return false;
+  if (rule.match_severity && rule.match_severity !== identity.severity) return false;
+
+  return Object.entries(rule.match_labels || {}).every(([name, value]) => labels[name] === value);
+}
+
+export function findMatchingPolicy(
+  policies: AlertGroupingPolicy[],
+  identity: AlertIdentity,
+  labels: Record<string, string>
+): AlertGroupingPolicy | null {
+  return policies.find(policy => policyMatches(policy, identity, labels)) || null;
+}
+
+function groupByValue(field: string, identity: AlertIdentity, labels: Record<string, string>): string {
+  switch (field) {
+    case 'namespace':
+      return identity.serviceNamespace.trim().toLowerCase();
+    case 'service':
+      return identity.serviceName.trim().toLowerCase();
+    case 'instance':
+      return identity.instanceId.trim().toLowerCase();
+    case 'severity':
+      return identity.severity.trim().toLowerCase();
+    case 'message':
+      return normalizeMessage(identity.message);
+    case 'alertname':
+      return labels.alertname || '';
+    default:
+      return labels[field.substring(LABEL_FIELD_PREFIX.length)] || '';
+  }
+}
+
+/**
+ * The values an alert contributes to each group_by field
+ */
+export function groupingKey(
+  rule: GroupingRule,
+  identity: AlertIdentity,
+  labels: Record<string, string>
+): Record<string, string> {
+  const key: Record<string, string> = {};
+  rule.group_by.forEach(field => {
+    key[field] = groupByValue(field, identity, labels);
+  });
+  return key;
+}
+
+/**
+ * Fingerprint for an alert grouped by a policy. The policy id is part of the hash so a policy
+ * never joins incidents created by the default fingerprint or by another policy.
+ */
+export function generateGroupedFingerprint(
+  policyId: number | string,
+  rule: GroupingRule,
+  identity: AlertIdentity,
+  labels: Record<string, string>
+): string {
+  const key = groupingKey(rule, identity, labels);
+  const content = [
+    `policy:${policyId}`,
+    ...rule.group_by.map(field => `${field}=${key[field]}`)
+  ].join('::');
+
+  return crypto
+    .createHash('sha256')
+    .update(content)
+    .digest('hex')
+    .substring(0, 64);
+}
+
+/**
+ * Regroup past incidents under a candidate rule. Incidents with the same key are merged when
+ * they overlap in time - the same rule applied live would have added them to the open incident
+ * instead of creating a new one.
+ */
+export function previewGrouping(
+  incidents: GroupingPreviewIncident[],
+  rule: GroupingRule
+): { matched: number; resultingIncidents: number; groups: GroupingPreviewGroup[] } {
+  const openGroups = new Map<string, { group: GroupingPreviewIncident[]; end: number | null }>();
+  const groups: GroupingPreviewIncident[][] = [];
+  let matched = 0;
+
+  const ordered = [...incidents].sort((a, b) =>
+    new Date(a.incident_start).getTime() - new Date(b.incident_start).getTime()
+  );
+
+  ordered.forEach(incident => {
+    const identity: AlertIdentity = {
+      serviceNamespace: incident.service_namespace,
+      serviceName: incident.service_name,
+      instanceId: incident.instance_id || '',
+      severity: incident.severity,
+      message: incident.message
+    };
+    const labels = incident.labels || {};
+
+    if (!policyMatches(rule, identity, labels)) return;
+    matched++;
+
+    const fingerprint = generateGroupedFingerprint('preview', rule, identity, labels);
+    const start = new Date(incident.incident_start).getTime();
+    const end = incident.incident_end ? new Date(incident.incident_end).getTime() : null;
+    const open = openGroups.get(fingerprint);
+
+    if (open && (open.end === null || start <= open.end)) {
+      open.group.push(incident);
+      open.end = open.end === null || end === null ? null : Math.max(open.end, end);
+      return;
+    }
+
+    const group = [incident];
+    groups.push(group);
+    openGroups.set(fingerprint, { group, end });
+  });
+
+  const summarized = groups
+    .filter(group => group.length > 1)
+    .map(group => summarizeGroup(group, rule))
+    .sort((a, b) => b.incidentCount - a.incidentCount || a.start.localeCompare(b.start));
+
+  return {
+    matched,
+    resultingIncidents: groups.length,
+    groups: summarized
+  };
+}
+
+function summarizeGroup(group: GroupingPreviewIncident[], rule: GroupingRule): GroupingPreviewGroup {
+  const first = group[0];
+  const key = groupingKey(rule, {
+    serviceNamespace: first.service_namespace,
+    serviceName: first.service_name,
+    instanceId: first.instance_id || '',
+    severity: first.severity,
+    message: first.message
+  }, first.labels || {});
+
+  const services = [...new Set(group.map(incident => `${incident.service_namespace}::${incident.service_name}`))];
+  const instances = [...new Set(group.map(incident => incident.instance_id).filter(Boolean))];
+  const severity = group.reduce((highest, incident) =>
+    (SEVERITY_RANK[incident.severity] || 0) > (SEVERITY_RANK[highest] || 0) ? incident.severity : highest,
+    first.severity
+  );
+  const stillFiring = group.some(incident => !incident.incident_end);
+  const lastEnd = stillFiring ? null : Math.max(...group.map(incident => new Date(incident.incident_end!).getTime()));
+
+  return {
+    key,
+    incidentCount: group.length,
+    services,
+    instances: instances.slice(0, MAX_LISTED_INSTANCES),
+    severity,
+    sampleMessage: first.message,
+    start: new Date(first.incident_start).toISOString(),
+    end: lastEnd === null ? null : new Date(lastEnd).toISOString(),
+    incidentIds: group.slice(0, MAX_LISTED_INCIDENT_IDS).map(incident => incident.id)
+  };
+}
@@ -2,6 +2,7 @@ import { PoolClient } from 'pg';
 import { ParsedAlert } from './alertmanager';
 import { processIncident, ProcessedAlert, IncidentProcessingResult } from './incidentProcessing';
 import { Logger } from './logger';
+import { enqueueIncidentNotifications } from './notifications';
 
 export interface AlertProcessingResult {
   incidentId: number;
@@ -9,6 +10,7 @@ export interface AlertProcessingResult {
   action: 'created' | 'updated' | 'resolved' | 'reactivated';
   isNewIncident: boolean;
   incidentDuration?: number;
+  silenced?: boolean;
 }
 
 /**
@@ -31,6 +33,11 @@ export async function processAlert(
       alertSource: 'alertmanager',
       externalAlertId: alert.externalAlertId,
       eventTime: alert.status === 'resolved' && alert.endsAt ? alert.endsAt : alert.startsAt,
+      labels: alert.labels,
+      annotations: alert.annotations,
+      upstreamFingerprint: alert.fingerprint,
+      generatorUrl: alert.generatorUrl,
+      runbookUrl: alert.runbookUrl,
       eventData: {
         starts_at: alert.startsAt.toISOString(),
         ends_at: alert.endsAt?.toISOString() || null,
@@ -98,6 +105,7 @@ export async function processManualAlert(
 export async function resolveManualAlert(
   client: PoolClient,
   incidentId: number,
+  actor: string,
   logger: Logger
 ): Promise<AlertProcessingResult> {
   try {
@@ -112,6 +120,7 @@ export async function resolveManualAlert(
         status,
         alert_source,
         external_alert_id,
+        alert_fingerprint,
         incident_start
       FROM alert_incidents 
       WHERE id = $1
@@ -138,9 +147,13 @@ export async function resolveManualAlert(
       alertSource: incident.alert_source,
       externalAlertId: incident.external_alert_id,
       eventTime: new Date(),
+      // Resolve this incident as a whole, even if it groups several alerts
+      incidentFingerprint: incident.alert_fingerprint,
+      resolvedBy: actor,
       eventData: {
         resolved_via: 'manual_api',
         api_timestamp: new Date().toISOString(),
+        resolved_by: actor,
         original_incident_start: incident.incident_start
       }
     };
@@ -160,6 +173,7 @@ export async function resolveManualAlert(
 export async function acknowledgeManualAlert(
   client: PoolClient,
   incidentId: number,
+  actor: string,
   logger: Logger
 ): Promise<AlertProcessingResult> {
   try {
@@ -200,16 +214,16 @@ export async function acknowledgeManualAlert(
     await client.query(`
       UPDATE alert_incidents 
       SET acknowledged_at = $1,
-          acknowledged_by = 'default_user',
+          acknowledged_by = $3,
           updated_at = $1
       WHERE id = $2
-    `, [acknowledgeTime, incidentId]);
+    `, [acknowledgeTime, incidentId, actor]);
 
     // Create acknowledgment event
     const eventData = {
       acknowledged_via: 'manual_api',
       api_timestamp: acknowledgeTime.toISOString(),
-      acknowledged_by: 'default_user',
+      acknowledged_by: actor,
       original_incident_start: incident.incident_start
     };
 
@@ -226,9 +240,12 @@ export async function acknowledgeManualAlert(
 
     const eventId = eventResult.rows[0].id;
 
+    await enqueueIncidentNotifications(client, incidentId, 'incident_acknowledged', logger);
+
     logger.info({ 
       incidentId, 
       eventId, 
+      acknowledgedBy: actor,
       acknowledgeTime: acknowledgeTime.toISOString() 
     }, 'Incident acknowledged');
 
@@ -276,7 +293,8 @@ function mapIncidentResultToAlertResult(
     eventId: incidentResult.eventId,
     action,
     isNewIncident: incidentResult.isNewIncident,
-    incidentDuration: incidentResult.incidentDuration
+    incidentDuration: incidentResult.incidentDuration,
+    silenced: !!incidentResult.silenceId
   };
 }
 
@@ -288,6 +306,7 @@ export function summarizeAlertProcessing(results: AlertProcessingResult[]): {
   updated: number;
   resolved: number;
   reactivated: number;
+  silenced: number;
   totalProcessed: number;
   totalIncidents: number;
   totalEvents: number;
@@ -297,6 +316,7 @@ export function summarizeAlertProcessing(results: AlertProcessingResult[]): {
     updated: 0,
     resolved: 0,
     reactivated: 0,
+    silenced: 0,
     totalProcessed: results.length,
     totalIncidents: 0,
     totalEvents: results.length
@@ -306,6 +326,9 @@ export function summarizeAlertProcessing(results: AlertProcessingResult[]): {
 
   results.forEach(result => {
     uniqueIncidents.add(result.incidentId);
+    if (result.silenced) {
+      summary.silenced++;
+    }
     
     switch (result.action) {
       case 'created':
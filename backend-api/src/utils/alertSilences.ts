@@ -0,0 +1,238 @@
+import { PoolClient } from 'pg';
+import { ValidationResult } from './validation';
+
+/**
+ * Alert silences
+ *
+ * A silence matches alerts on namespace, service, severity, service tags and a message regex
+ * (every criterion given must match). Matching incidents are still stored but carry the
+ * silence's id, and are left out of /alerts and the map while the silence is active.
+ */
+
+export interface AlertSilence {
+  id: number;
+  match_namespace: string | null;
+  match_service: string | null;
+  match_severity: string | null;
+  match_tags: string[];
+  message_pattern: string | null;
+  starts_at: Date;
+  ends_at: Date;
+  comment: string | null;
+  created_by: string;
+}
+
+export interface SilenceTarget {
+  serviceNamespace: string;
+  serviceName: string;
+  severity: string;
+  message: string;
+}
+
+const VALID_SEVERITIES = ['fatal', 'critical', 'warning', 'none'];
+const MAX_NAME_LENGTH = 255;
+const MAX_PATTERN_LENGTH = 500;
+
+/**
+ * SQL condition keeping incidents that are not muted by an active silence
+ */
+export function notSilencedCondition(alias: string = 'i'): string {
+  return `NOT EXISTS (
+    SELECT 1 FROM alert_silences sil
+    WHERE sil.id = ${alias}.silence_id AND sil.starts_at <= NOW() AND sil.ends_at > NOW()
+  )`;
+}
+
+function parseDate(value: unknown): Date | null {
+  if (value instanceof Date) return value;
+  if (typeof value !== 'string' || !value) return null;
+  const parsed = new Date(value);
+  return isNaN(parsed.getTime()) ? null : parsed;
+}
+
+/**
+ * Validate a silence body. At least one matcher is required so a silence can never mute everything.
+ */
+export function validateSilence(input: any): ValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { isValid: false, errors: ['Body must be an object'], warnings };
+  }
+
+  (['match_namespace', 'match_service'] as const).forEach(field => {
+    const value = input[field];
+    if (value === undefined || value === null) return;
+    if (typeof value !== 'string' || value.trim() === '') {
+      errors.push(`${field} must be a non-empty string or null`);
+    } else if (value.length > MAX_NAME_LENGTH) {
+      errors.push(`${field} exceeds maximum length of ${MAX_NAME_LENGTH} characters`);
+    }
+  });
+
+  if (input.match_severity !== undefined && input.match_severity !== null && !VALID_SEVERITIES.includes(input.match_severity)) {
+    errors.push(`match_severity must be one of: ${VALID_SEVERITIES.join(', ')}`);
+  }
+
+  if (input.match_tags !== undefined && input.match_tags !== null) {
+    if (!Array.isArray(input.match_tags) || input.match_tags.some((tag: unknown) => typeof tag !== 'string' || tag.trim() === '')) {
+      errors.push('match_tags must be an array of non-empty strings');
+    }
+  }
+
+  if (input.message_pattern !== undefined && input.message_pattern !== null) {
+    if (typeof input.message_pattern !== 'string' || input.message_pattern === '') {
+      errors.push('message_pattern must be a non-empty string or null');
+    } else if (input.message_pattern.length > MAX_PATTERN_LENGTH) {
+      errors.push(`message_pattern exceeds maximum length of ${MAX_PATTERN_LENGTH} characters`);
+    } else {
+      try {
+        new RegExp(input.message_pattern, 'i');
+      } catch (error) {
+        errors.push(`message_pattern is not a valid regular expression: ${error instanceof Error ? error.message : 'parse error'}`);
+      }
+    }
+  }
+
+  const hasMatcher = input.match_namespace || input.match_service || input.match_severity ||
+    (Array.isArray(input.match_tags) && input.match_tags.length > 0) || input.message_pattern;
+  if (!hasMatcher) {
+    errors.push('At least one of match_namespace, match_service, match_severity, match_tags or message_pattern is required');
+  }
+
+  const startsAt = input.starts_at === undefined || input.starts_at === null ? new Date() : parseDate(input.starts_at);
+  const endsAt = parseDate(input.ends_at);
+  if (!startsAt) {
+    errors.push('starts_at must be a valid timestamp');
+  }
+  if (!endsAt) {
+    errors.push('ends_at is required and must be a valid timestamp');
+  } else if (startsAt && endsAt <= startsAt) {
+    errors.push('ends_at must be after starts_at');
+  } else if (endsAt <= new Date()) {
+    errors.push('ends_at must be in the future');
+  }
+
+  if (input.comment !== undefined && input.comment !== null && typeof input.comment !== 'string') {
+    errors.push('comment must be a string');
+  }
+
+  if (!input.match_service && !input.match_namespace && !(Array.isArray(input.match_tags) && input.match_tags.length > 0)) {
+    warnings.push('No namespace, service or tag matcher - the silence applies across every service');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings
+  };
+}
+
+/**
+ * Silences that are active now or still to come, earliest start first
+ */
+export async function loadSilences(client: PoolClient): Promise<AlertSilence[]> {
+  const result = await client.query(`
+    SELECT id, match_namespace, match_service, match_severity, match_tags, message_pattern,
+           starts_at, ends_at, comment, created_by
+    FROM alert_silences
+    WHERE ends_at > NOW()
+    ORDER BY starts_at, id
+  `);
+
+  return result.rows;
+}
+
+export async function loadServiceTags(client: PoolClient, namespace: string, name: string): Promise<string[]> {
+  const result = await client.query(
+    'SELECT tags FROM services WHERE service_namespace = $1 AND service_name = $2',
+    [namespace, name]
+  );
+
+  return result.rows[0]?.tags || [];
+}
+
+export function isSilenceActive(silence: AlertSilence, at: Date = new Date()): boolean {
+  return new Date(silence.starts_at) <= at && new Date(silence.ends_at) > at;
+}
+
+/**
+ * Whether the silence's namespace, service and tag matchers fit a service
+ */
+export function silenceCoversService(silence: AlertSilence, namespace: string, name: string, tags: string[]): boolean {
+  if (silence.match_namespace && silence.match_namespace !== namespace) return false;
+  if (silence.match_service && silence.match_service !== name) return false;
+  return (silence.match_tags || []).every(tag => tags.includes(tag));
+}
+
+/**
+ * A silence on a whole service (or namespace or tag set), with no severity or message filter,
+ * puts the services it covers in maintenance
+ */
+export function isMaintenanceSilence(silence: AlertSilence): boolean {
+  const scoped = !!silence.match_namespace || !!silence.match_service || (silence.match_tags || []).length > 0;
+  return scoped && !silence.match_severity && !silence.message_pattern;
+}
+
+export function silenceMatches(silence: AlertSilence, target: SilenceTarget, tags: string[]): boolean {
+  if (!silenceCoversService(silence, target.serviceNamespace, target.serviceName, tags)) return false;
+  if (silence.match_severity && silence.match_severity !== target.severity) return false;
+
+  if (silence.message_pattern) {
+    try {
+      if (!new RegExp(silence.message_pattern, 'i').test(target.message)) return false;
+    } catch {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * The silence to flag an alert with: an active match if there is one, otherwise the next
+ * scheduled match so the incident is muted once that window opens
+ */
+export function findMatchingSilence(
+  silences: AlertSilence[],
+  target: SilenceTarget,
+  tags: string[]
+): AlertSilence | null {
+  const matching = silences.filter(silence => silenceMatches(silence, target, tags));
+  return matching.find(silence => isSilenceActive(silence)) || matching[0] || null;
+}
+
+/**
+ * Flag the firing incidents a silence matches, and unflag any it no longer matches after an edit.
+ * Returns the number of firing incidents now carrying the silence.
+ */
+export async function applySilenceToFiringIncidents(client: PoolClient, silence: AlertSilence): Promise<number> {
+  const result = await client.query(`
+    SELECT i.id, i.service_namespace, i.service_name, i.severity, i.message, COALESCE(s.tags, '{}') AS tags
+    FROM alert_incidents i
+    LEFT JOIN services s ON s.service_namespace = i.service_namespace AND s.service_name = i.service_name
+    WHERE i.status = 'firing' AND (i.silence_id IS NULL OR i.silence_id = $1)
+  `, [silence.id]);
+
+  const matched = result.rows
+    .filter((row: any) => silenceMatches(silence, {
+      serviceNamespace: row.service_namespace,
+      serviceName: row.service_name,
+      severity: row.severity,
+      message: row.message
+    }, row.tags))
+    .map((row: any) => row.id);
+
+  await client.query(`
+    UPDATE alert_incidents SET silence_id = $1
+    WHERE id = ANY($2::int[]) AND silence_id IS NULL
+  `, [silence.id, matched]);
+
+  await client.query(`
+    UPDATE alert_incidents SET silence_id = NULL
+    WHERE silence_id = $1 AND status = 'firing' AND NOT (id = ANY($2::int[]))
+  `, [silence.id, matched]);
+
+  return matched.length;
+}
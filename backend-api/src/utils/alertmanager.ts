@@ -1,3 +1,4 @@
+import crypto from 'crypto';
 import { validateAlertLabels, validateParsedAlert, sanitizeParsedAlert } from './validation';
 import { Logger } from './logger';
 
@@ -8,6 +9,7 @@ export interface AlertmanagerAlert {
   startsAt: string;
   endsAt: string;
   generatorURL?: string;
+  fingerprint?: string;
 }
 
 export interface AlertmanagerWebhook {
@@ -30,6 +32,12 @@ export interface ParsedAlert {
   externalAlertId: string;
   startsAt: Date;
   endsAt?: Date;
+  labels: Record<string, string>;
+  annotations: Record<string, string>;
+  // Alertmanager's own fingerprint of the label set - stable for the life of the alert
+  fingerprint?: string;
+  generatorUrl?: string;
+  runbookUrl?: string;
 }
 
 export function parseAlertmanagerAlert(
@@ -37,7 +45,8 @@ export function parseAlertmanagerAlert(
   defaultNamespace: string,
   logger?: Logger
 ): ParsedAlert | null {
-  const { labels, annotations, status, startsAt, endsAt } = alert;
+  const { labels, status, startsAt, endsAt, generatorURL, fingerprint } = alert;
+  const annotations = alert.annotations || {};
 
   // Pre-validate labels
   const labelValidation = validateAlertLabels(labels);
@@ -82,8 +91,8 @@ export function parseAlertmanagerAlert(
   // Extract message from annotations or labels with fallback
   const message = extractMessage(annotations, labels);
 
-  // Create external alert ID from labels
-  const externalAlertId = createExternalAlertId(labels);
+  // Create external alert ID from the upstream fingerprint (or the label set)
+  const externalAlertId = createExternalAlertId(labels, fingerprint);
 
   // Create parsed alert
   const parsedAlert: ParsedAlert = {
@@ -95,7 +104,12 @@ export function parseAlertmanagerAlert(
     status,
     externalAlertId,
     startsAt: new Date(startsAt),
-    endsAt: endsAt && endsAt !== '0001-01-01T00:00:00Z' ? new Date(endsAt) : undefined
+    endsAt: endsAt && endsAt !== '0001-01-01T00:00:00Z' ? new Date(endsAt) : undefined,
+    labels,
+    annotations,
+    fingerprint: fingerprint || undefined,
+    generatorUrl: generatorURL || undefined,
+    runbookUrl: annotations.runbook_url || annotations.runbook || undefined
   };
 
   // Validate parsed alert
@@ -147,13 +161,20 @@ function extractMessage(annotations: Record<string, string>, labels: Record<stri
          'Alertmanager alert';
 }
 
-function createExternalAlertId(labels: Record<string, string>): string {
-  // Create a unique ID from key labels
-  const alertname = labels.alertname || labels.alert || 'unknown';
-  const instance = labels.instance || labels.service_instance || 'unknown';
-  const timestamp = Date.now();
-  
-  return `alertmanager-${alertname}-${instance}-${timestamp}`;
+function createExternalAlertId(labels: Record<string, string>, fingerprint?: string): string {
+  if (fingerprint) {
+    return `alertmanager-${fingerprint}`;
+  }
+
+  // No upstream fingerprint (older senders) - derive a stable one from the full label set
+  // so repeat deliveries of the same alert share an ID
+  const labelSet = Object.keys(labels)
+    .sort()
+    .map(name => `${name}=${labels[name]}`)
+    .join(',');
+  const hash = crypto.createHash('sha256').update(labelSet).digest('hex').substring(0, 16);
+
+  return `alertmanager-${hash}`;
 }
 
 export function parseAlertmanagerWebhook(
@@ -0,0 +1,106 @@
+import { Pool, PoolClient } from 'pg';
+import { Request } from 'express';
+import { actorName } from './auth';
+
+/**
+ * Audit log
+ *
+ * Every mutating route records what it changed with recordAudit, passing the client of its own
+ * transaction where it has one so the audit row commits or rolls back with the change. Ingestion
+ * (telemetry, OTLP, alerts and the Alertmanager webhook) is not audited; alert_events and
+ * dependency_changes already record what it writes.
+ */
+
+export type AuditEntityType =
+  | 'service'
+  | 'incident'
+  | 'namespace_dependency'
+  | 'silence'
+  | 'alert_grouping_policy'
+  | 'escalation_policy'
+  | 'notification_channel'
+  | 'notification_rule'
+  | 'notification_delivery'
+  | 'graph_snapshot'
+  | 'user'
+  | 'session'
+  | 'api_token'
+  | 'ingestion_key'
+  | 'cleanup'
+  | 'performance';
+
+export interface AuditEntry {
+  action: string;
+  entityType: AuditEntityType;
+  entityId?: string | number | null;
+  // Entity before the change; omit for creates and actions
+  before?: unknown;
+  // Entity after the change, or the result of an action; omit for deletes
+  after?: unknown;
+  // Defaults to the request's user; logins have none yet
+  actor?: string;
+}
+
+// Never written to the audit log, whatever entity they appear on or however deeply nested.
+// Notification channel URLs (Slack and webhook URLs carry their secret in the path) count too.
+const REDACTED_FIELDS = [
+  'password', 'password_hash', 'token', 'token_hash', 'key', 'key_hash', 'signing_secret', 'secret', 'url'
+];
+// Objects whose keys are kept but whose values are all redacted, such as webhook auth headers
+const REDACTED_VALUE_FIELDS = ['headers'];
+
+const REDACTED = '[redacted]';
+
+function redactValues(value: unknown): unknown {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return REDACTED;
+  }
+  return Object.fromEntries(Object.keys(value).map(field => [field, REDACTED]));
+}
+
+/**
+ * Copy of an entity with its secrets replaced, recursing into nested objects and arrays;
+ * undefined and null become null
+ */
+export function redact(value: unknown): unknown {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item));
+  }
+  if (typeof value !== 'object' || value instanceof Date) {
+    return value;
+  }
+
+  const copy: Record<string, unknown> = {};
+  for (const [field, fieldValue] of Object.entries(value as Record<string, unknown>)) {
+    const name = field.toLowerCase();
+    if (REDACTED_FIELDS.includes(name)) {
+      copy[field] = REDACTED;
+    } else if (REDACTED_VALUE_FIELDS.includes(name)) {
+      copy[field] = redactValues(fieldValue);
+    } else {
+      copy[field] = redact(fieldValue);
+    }
+  }
+  return copy;
+}
+
+export async function recordAudit(db: Pool | PoolClient, req: Request, entry: AuditEntry): Promise<void> {
+  const before = redact(entry.before);
+  const after = redact(entry.after);
+
+  await db.query(`
+    INSERT INTO audit_log (actor, action, entity_type, entity_id, before_state, after_state, request_id)
+    VALUES ($1, $2, $3, $4, $5, $6, $7)
+  `, [
+    entry.actor || actorName(req),
+    entry.action,
+    entry.entityType,
+    entry.entityId === undefined || entry.entityId === null ? null : String(entry.entityId),
+    before === null ? null : JSON.stringify(before),
+    after === null ? null : JSON.stringify(after),
+    req.requestId || null
+  ]);
+}
@@ -0,0 +1,318 @@
+import { Pool, PoolClient } from 'pg';
+import { Request } from 'express';
+import { randomBytes, createHash } from 'crypto';
+import { AuthConfig } from '../config/auth';
+import { Logger } from './logger';
+import { ValidationResult } from './validation';
+import { hashPassword, verifyPassword, MIN_PASSWORD_LENGTH } from './passwords';
+
+/**
+ * Authentication
+ *
+ * Users sign in through an AuthProvider and receive a bearer token. Only a SHA-256 of each token
+ * is stored. Session tokens expire after AUTH_SESSION_HOURS; API tokens are created by a user for
+ * scripts and last until revoked or their own expiry. Providers other than 'local' (e.g. OIDC)
+ * register with registerAuthProvider and map external identities onto users rows.
+ */
+
+// Ordered from least to most privileged; each role can do everything the ones before it can
+export const ROLES = ['viewer', 'responder', 'team-owner', 'admin'] as const;
+
+export type Role = typeof ROLES[number];
+
+export interface AuthUser {
+  id: number | null;
+  username: string;
+  displayName: string | null;
+  email: string | null;
+  provider: string;
+  role: Role;
+  teams: string[];
+}
+
+export type TokenKind = 'session' | 'api';
+
+export interface AuthenticatedToken {
+  user: AuthUser;
+  tokenId: number;
+  kind: TokenKind;
+}
+
+export interface IssuedToken {
+  id: number;
+  token: string;
+  prefix: string;
+  expiresAt: Date | null;
+}
+
+export interface AuthProvider {
+  name: string;
+  // The user the credentials identify, or null when they are wrong
+  authenticate(client: PoolClient, credentials: Record<string, unknown>): Promise<AuthUser | null>;
+}
+
+// Acts for every request while authentication is disabled, with no access control
+export const ANONYMOUS_USER: AuthUser = {
+  id: null,
+  username: 'anonymous',
+  displayName: 'Anonymous',
+  email: null,
+  provider: 'none',
+  role: 'admin',
+  teams: []
+};
+
+const TOKEN_PREFIX = 'olana_';
+const TOKEN_BYTES = 32;
+const DISPLAYED_PREFIX_LENGTH = TOKEN_PREFIX.length + 6;
+const USERNAME_PATTERN = /^[A-Za-z0-9._@-]{2,255}$/;
+
+const USER_COLUMNS = 'id, username, display_name, email, auth_provider, role, teams';
+
+function toAuthUser(row: any): AuthUser {
+  return {
+    id: row.id,
+    username: row.username,
+    displayName: row.display_name,
+    email: row.email,
+    provider: row.auth_provider,
+    role: row.role,
+    teams: row.teams || []
+  };
+}
+
+export function hasRole(user: AuthUser, role: Role): boolean {
+  return ROLES.indexOf(user.role) >= ROLES.indexOf(role);
+}
+
+// Services created from telemetry get the placeholder team 'unknown' until someone sets one
+export function isUnownedTeam(team: string | null): boolean {
+  return !team || team === 'unknown';
+}
+
+/**
+ * Whether the user may act on something owned by team. Admins act for every team; everyone
+ * else only for their own teams. Unowned targets (null, empty or the placeholder 'unknown') are
+ * allowed only when allowUnowned is set.
+ */
+export function canActForTeam(user: AuthUser, team: string | null, allowUnowned: boolean): boolean {
+  if (user.role === 'admin') return true;
+  if (team === null || isUnownedTeam(team)) return allowUnowned;
+  return user.teams.includes(team);
+}
+
+const localPasswordProvider: AuthProvider = {
+  name: 'local',
+  async authenticate(client, credentials) {
+    const { username, password } = credentials;
+    if (typeof username !== 'string' || typeof password !== 'string') {
+      return null;
+    }
+
+    const result = await client.query(`
+      SELECT ${USER_COLUMNS}, password_hash
+      FROM users
+      WHERE username = $1 AND auth_provider = 'local' AND disabled = false
+    `, [username]);
+
+    const row = result.rows[0];
+    if (!row || !row.password_hash || !(await verifyPassword(password, row.password_hash))) {
+      return null;
+    }
+
+    return toAuthUser(row);
+  }
+};
+
+const providers = new Map<string, AuthProvider>([[localPasswordProvider.name, localPasswordProvider]]);
+
+export function registerAuthProvider(provider: AuthProvider): void {
+  providers.set(provider.name, provider);
+}
+
+export function getAuthProvider(name: string): AuthProvider | undefined {
+  return providers.get(name);
+}
+
+export function listAuthProviders(): string[] {
+  return Array.from(providers.keys());
+}
+
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export async function issueToken(
+  client: PoolClient,
+  userId: number,
+  kind: TokenKind,
+  options: { name?: string | null; expiresAt?: Date | null } = {}
+): Promise<IssuedToken> {
+  const token = TOKEN_PREFIX + randomBytes(TOKEN_BYTES).toString('base64url');
+  const prefix = token.slice(0, DISPLAYED_PREFIX_LENGTH);
+  const expiresAt = options.expiresAt ?? null;
+
+  const result = await client.query(`
+    INSERT INTO auth_tokens (user_id, kind, name, token_hash, token_prefix, expires_at)
+    VALUES ($1, $2, $3, $4, $5, $6)
+    RETURNING id
+  `, [userId, kind, options.name || null, hashToken(token), prefix, expiresAt]);
+
+  return { id: result.rows[0].id, token, prefix, expiresAt };
+}
+
+/**
+ * The user a bearer token belongs to, or null for unknown, expired or revoked tokens and
+ * disabled users. last_used_at is refreshed at most once a minute per token.
+ */
+export async function resolveToken(pool: Pool, token: string): Promise<AuthenticatedToken | null> {
+  if (!token.startsWith(TOKEN_PREFIX)) {
+    return null;
+  }
+
+  const result = await pool.query(`
+    SELECT t.id AS token_id, t.kind, t.last_used_at,
+           u.id, u.username, u.display_name, u.email, u.auth_provider, u.role, u.teams
+    FROM auth_tokens t
+    JOIN users u ON u.id = t.user_id
+    WHERE t.token_hash = $1
+      AND t.revoked_at IS NULL
+      AND (t.expires_at IS NULL OR t.expires_at > NOW())
+      AND u.disabled = false
+  `, [hashToken(token)]);
+
+  const row = result.rows[0];
+  if (!row) {
+    return null;
+  }
+
+  if (!row.last_used_at || Date.now() - new Date(row.last_used_at).getTime() > 60_000) {
+    await pool.query('UPDATE auth_tokens SET last_used_at = NOW() WHERE id = $1', [row.token_id]);
+  }
+
+  return { user: toAuthUser(row), tokenId: row.token_id, kind: row.kind };
+}
+
+/**
+ * Name recorded as the actor for changes made by this request
+ */
+export function actorName(req: Request): string {
+  return req.user?.username || ANONYMOUS_USER.username;
+}
+
+/**
+ * Validate a user body. Passwords are only required when creating a local user.
+ */
+export function validateUser(input: any, isNew: boolean): ValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { isValid: false, errors: ['Body must be an object'], warnings };
+  }
+
+  if (isNew && (typeof input.username !== 'string' || !USERNAME_PATTERN.test(input.username))) {
+    errors.push('username is required: 2-255 letters, digits or . _ @ -');
+  }
+
+  ['display_name', 'email'].forEach(field => {
+    if (input[field] !== undefined && input[field] !== null &&
+        (typeof input[field] !== 'string' || input[field].length > 255)) {
+      errors.push(`${field} must be a string of at most 255 characters`);
+    }
+  });
+
+  if (input.password !== undefined || isNew) {
+    if (typeof input.password !== 'string' || input.password.length < MIN_PASSWORD_LENGTH) {
+      errors.push(`password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+    }
+  }
+
+  if (input.disabled !== undefined && typeof input.disabled !== 'boolean') {
+    errors.push('disabled must be a boolean');
+  }
+
+  if (input.role !== undefined && !ROLES.includes(input.role)) {
+    errors.push(`role must be one of: ${ROLES.join(', ')}`);
+  }
+
+  if (input.teams !== undefined &&
+      (!Array.isArray(input.teams) || input.teams.some((team: unknown) => typeof team !== 'string' || team.trim() === ''))) {
+    errors.push('teams must be an array of team names');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings
+  };
+}
+
+export async function createLocalUser(
+  client: PoolClient,
+  user: {
+    username: string;
+    password: string;
+    display_name?: string | null;
+    email?: string | null;
+    role?: Role;
+    teams?: string[];
+  }
+) {
+  const result = await client.query(`
+    INSERT INTO users (username, display_name, email, auth_provider, password_hash, role, teams)
+    VALUES ($1, $2, $3, 'local', $4, $5, $6)
+    RETURNING id, username, display_name, email, auth_provider, role, teams, disabled, last_login_at, created_at, updated_at
+  `, [
+    user.username,
+    user.display_name || null,
+    user.email || null,
+    await hashPassword(user.password),
+    user.role || 'viewer',
+    (user.teams || []).map(team => team.trim())
+  ]);
+
+  return result.rows[0];
+}
+
+/**
+ * Create the configured bootstrap account when the users table is empty, so a fresh install
+ * can sign in. Does nothing once any user exists.
+ */
+export async function ensureBootstrapUser(pool: Pool, config: AuthConfig, logger: Logger): Promise<void> {
+  if (!config.enabled) {
+    return;
+  }
+
+  const client = await pool.connect();
+
+  try {
+    const existing = await client.query('SELECT COUNT(*)::int AS count FROM users');
+    if (existing.rows[0].count > 0) {
+      return;
+    }
+
+    if (!config.bootstrapUsername || !config.bootstrapPassword) {
+      logger.warn('No users exist - set AUTH_BOOTSTRAP_USERNAME and AUTH_BOOTSTRAP_PASSWORD to create the first one');
+      return;
+    }
+
+    const validation = validateUser({ username: config.bootstrapUsername, password: config.bootstrapPassword }, true);
+    if (!validation.isValid) {
+      logger.error({ errors: validation.errors }, 'Bootstrap user is invalid');
+      return;
+    }
+
+    await createLocalUser(client, {
+      username: config.bootstrapUsername,
+      password: config.bootstrapPassword,
+      role: 'admin'
+    });
+    logger.info({ username: config.bootstrapUsername }, 'Bootstrap admin created');
+
+  } catch (error) {
+    logger.error({ error: error instanceof Error ? error.message : 'Unknown error' }, 'Failed to create bootstrap user');
+  } finally {
+    client.release();
+  }
+}
@@ -0,0 +1,74 @@
+import { PoolClient } from 'pg';
+
+export type DependencyChangeType = 'added' | 'disappeared' | 'returned';
+export type DependencyChangeSource = 'telemetry' | 'otlp' | 'cleanup';
+
+export interface DependencyEdge {
+  from_service_namespace: string;
+  from_service_name: string;
+  to_service_namespace: string;
+  to_service_name: string;
+}
+
+/**
+ * Record a newly inserted edge as 'added', or 'returned' if it has history
+ */
+export async function recordEdgeAppeared(
+  client: PoolClient,
+  edge: DependencyEdge,
+  source: DependencyChangeSource
+): Promise<DependencyChangeType> {
+  const historyResult = await client.query(`
+    SELECT 1 FROM dependency_changes
+    WHERE from_service_namespace = $1 AND from_service_name = $2
+      AND to_service_namespace = $3 AND to_service_name = $4
+    LIMIT 1
+  `, [edge.from_service_namespace, edge.from_service_name, edge.to_service_namespace, edge.to_service_name]);
+
+  const changeType: DependencyChangeType = historyResult.rows.length > 0 ? 'returned' : 'added';
+
+  await client.query(`
+    INSERT INTO dependency_changes (
+      from_service_namespace, from_service_name, to_service_namespace, to_service_name,
+      change_type, source, changed_at
+    )
+    VALUES ($1, $2, $3, $4, $5, $6, NOW())
+  `, [
+    edge.from_service_namespace,
+    edge.from_service_name,
+    edge.to_service_namespace,
+    edge.to_service_name,
+    changeType,
+    source
+  ]);
+
+  return changeType;
+}
+
+/**
+ * Record deleted edges (rows from a DELETE ... RETURNING) as 'disappeared'
+ */
+export async function recordEdgesDisappeared(
+  client: PoolClient,
+  edges: DependencyEdge[],
+  source: DependencyChangeSource,
+  reason: string
+): Promise<void> {
+  if (edges.length === 0) return;
+
+  await client.query(`
+    INSERT INTO dependency_changes (
+      from_service_namespace, from_service_name, to_service_namespace, to_service_name,
+      change_type, source, reason, changed_at
+    )
+    SELECT e.from_ns, e.from_name, e.to_ns, e.to_name, 'disappeared', $5, $6, NOW()
+    FROM unnest($1::text[], $2::text[], $3::text[], $4::text[]) AS e(from_ns, from_name, to_ns, to_name)
+  `, [
+    edges.map(e => e.from_service_namespace),
+    edges.map(e => e.from_service_name),
+    edges.map(e => e.to_service_namespace),
+    edges.map(e => e.to_service_name),
+    source,
+    reason
+  ]);
+}
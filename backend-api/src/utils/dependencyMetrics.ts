@@ -0,0 +1,111 @@
+import { PoolClient } from 'pg';
+
+export interface DependencyCallMetrics {
+  call_count: number;
+  error_count?: number;
+  latency_p50_ms?: number;
+  latency_p95_ms?: number;
+  latency_p99_ms?: number;
+}
+
+/**
+ * Nearest-rank latency percentiles from raw call durations
+ */
+export function computeLatencyPercentiles(durationsMs: number[]): {
+  latency_p50_ms?: number;
+  latency_p95_ms?: number;
+  latency_p99_ms?: number;
+} {
+  if (durationsMs.length === 0) return {};
+
+  const sorted = [...durationsMs].sort((a, b) => a - b);
+  const percentile = (p: number) => sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+
+  return {
+    latency_p50_ms: percentile(50),
+    latency_p95_ms: percentile(95),
+    latency_p99_ms: percentile(99)
+  };
+}
+
+/**
+ * Pull call metrics from a telemetry depends_on entry, or null when it carries none
+ */
+export function extractDependencyMetrics(dep: any): DependencyCallMetrics | null {
+  const callCount = Number(dep?.call_count);
+  if (!Number.isFinite(callCount) || callCount <= 0) return null;
+
+  const optionalNumber = (value: any): number | undefined => {
+    const n = Number(value);
+    return value !== undefined && value !== null && Number.isFinite(n) && n >= 0 ? n : undefined;
+  };
+
+  return {
+    call_count: Math.round(callCount),
+    error_count: Math.round(optionalNumber(dep.error_count) || 0),
+    latency_p50_ms: optionalNumber(dep.latency_p50_ms),
+    latency_p95_ms: optionalNumber(dep.latency_p95_ms),
+    latency_p99_ms: optionalNumber(dep.latency_p99_ms)
+  };
+}
+
+/**
+ * Add call metrics for an edge into the current time bucket.
+ * Counts are summed; percentiles are merged as a call-weighted average (an approximation,
+ * since exact percentiles can't be combined without the underlying distributions).
+ */
+export async function recordDependencyMetrics(
+  client: PoolClient,
+  from: { service_namespace: string; service_name: string },
+  to: { service_namespace: string; service_name: string },
+  metrics: DependencyCallMetrics,
+  bucketMinutes: number
+): Promise<void> {
+  const bucketSeconds = Math.max(1, Math.round(bucketMinutes * 60));
+
+  await client.query(`
+    INSERT INTO service_dependency_metrics AS m (
+      from_service_namespace, from_service_name, to_service_namespace, to_service_name,
+      bucket_start, call_count, error_count, latency_p50_ms, latency_p95_ms, latency_p99_ms, updated_at
+    )
+    VALUES (
+      $1, $2, $3, $4,
+      to_timestamp(floor(EXTRACT(EPOCH FROM NOW()) / $5) * $5)::timestamp,
+      $6, $7, $8, $9, $10, NOW()
+    )
+    ON CONFLICT (from_service_namespace, from_service_name, to_service_namespace, to_service_name, bucket_start)
+    DO UPDATE SET
+      latency_p50_ms = CASE
+        WHEN EXCLUDED.latency_p50_ms IS NULL THEN m.latency_p50_ms
+        WHEN m.latency_p50_ms IS NULL THEN EXCLUDED.latency_p50_ms
+        ELSE (m.latency_p50_ms * m.call_count + EXCLUDED.latency_p50_ms * EXCLUDED.call_count)
+             / NULLIF(m.call_count + EXCLUDED.call_count, 0)
+      END,
+      latency_p95_ms = CASE
+        WHEN EXCLUDED.latency_p95_ms IS NULL THEN m.latency_p95_ms
+        WHEN m.latency_p95_ms IS NULL THEN EXCLUDED.latency_p95_ms
+        ELSE (m.latency_p95_ms * m.call_count + EXCLUDED.latency_p95_ms * EXCLUDED.call_count)
+             / NULLIF(m.call_count + EXCLUDED.call_count, 0)
+      END,
+      latency_p99_ms = CASE
+        WHEN EXCLUDED.latency_p99_ms IS NULL THEN m.latency_p99_ms
+        WHEN m.latency_p99_ms IS NULL THEN EXCLUDED.latency_p99_ms
+        ELSE (m.latency_p99_ms * m.call_count + EXCLUDED.latency_p99_ms * EXCLUDED.call_count)
+             / NULLIF(m.call_count + EXCLUDED.call_count, 0)
+      END,
+      call_count = m.call_count + EXCLUDED.call_count,
+      error_count = m.error_count + EXCLUDED.error_count,
+      updated_at = NOW()
+  `, [
+    from.service_namespace,
+    from.service_name,
+    to.service_namespace,
+    to.service_name,
+    bucketSeconds,
+    metrics.call_count,
+    metrics.error_count || 0,
+    metrics.latency_p50_ms ?? null,
+    metrics.latency_p95_ms ?? null,
+    metrics.latency_p99_ms ?? null
+  ]);
+}
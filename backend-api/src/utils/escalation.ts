@@ -0,0 +1,164 @@
+import { PoolClient } from 'pg';
+import { ValidationResult } from './validation';
+
+/**
+ * Escalation policies
+ *
+ * A policy lists levels, each with a delay (minutes since the incident started) and the
+ * notification channels to alert. While an incident is firing and unacknowledged, the
+ * EscalationScheduler moves it up to the highest level whose delay has passed.
+ * A team's own policy applies first; the policy with no team is the default for everyone else.
+ */
+
+export interface EscalationLevel {
+  delay_minutes: number;
+  channel_ids: number[];
+  note?: string;
+}
+
+export interface EscalationPolicy {
+  id: number;
+  name: string;
+  team: string | null;
+  match_severities: string[];
+  levels: EscalationLevel[];
+  enabled: boolean;
+}
+
+const VALID_SEVERITIES = ['fatal', 'critical', 'warning', 'none'];
+const MAX_NAME_LENGTH = 255;
+const MAX_LEVELS = 10;
+const MAX_NOTE_LENGTH = 500;
+
+/**
+ * Validate a policy body. Levels must have strictly increasing delays and at least one target channel.
+ */
+export function validateEscalationPolicy(input: any): ValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { isValid: false, errors: ['Body must be an object'], warnings };
+  }
+
+  if (typeof input.name !== 'string' || input.name.trim() === '') {
+    errors.push('name is required and must be a non-empty string');
+  } else if (input.name.length > MAX_NAME_LENGTH) {
+    errors.push(`name exceeds maximum length of ${MAX_NAME_LENGTH} characters`);
+  }
+
+  if (input.team !== undefined && input.team !== null) {
+    if (typeof input.team !== 'string' || input.team.trim() === '') {
+      errors.push('team must be a non-empty string, or null for the default policy');
+    } else if (input.team.length > MAX_NAME_LENGTH) {
+      errors.push(`team exceeds maximum length of ${MAX_NAME_LENGTH} characters`);
+    }
+  }
+
+  if (input.description !== undefined && input.description !== null && typeof input.description !== 'string') {
+    errors.push('description must be a string');
+  }
+
+  if (input.match_severities !== undefined && input.match_severities !== null) {
+    if (!Array.isArray(input.match_severities) ||
+        input.match_severities.some((severity: unknown) => !VALID_SEVERITIES.includes(severity as string))) {
+      errors.push(`match_severities must be an array of: ${VALID_SEVERITIES.join(', ')}`);
+    }
+  }
+
+  if (input.enabled !== undefined && typeof input.enabled !== 'boolean') {
+    errors.push('enabled must be a boolean');
+  }
+
+  if (!Array.isArray(input.levels) || input.levels.length === 0) {
+    errors.push('levels is required and must be a non-empty array');
+  } else if (input.levels.length > MAX_LEVELS) {
+    errors.push(`levels cannot have more than ${MAX_LEVELS} entries`);
+  } else {
+    let previousDelay = -1;
+    input.levels.forEach((level: any, index: number) => {
+      const label = `levels[${index}]`;
+      if (!level || typeof level !== 'object' || Array.isArray(level)) {
+        errors.push(`${label} must be an object`);
+        return;
+      }
+
+      if (typeof level.delay_minutes !== 'number' || !isFinite(level.delay_minutes) || level.delay_minutes < 0) {
+        errors.push(`${label}.delay_minutes must be a non-negative number`);
+      } else if (level.delay_minutes <= previousDelay) {
+        errors.push(`${label}.delay_minutes must be greater than the previous level's`);
+      } else {
+        previousDelay = level.delay_minutes;
+      }
+
+      if (!Array.isArray(level.channel_ids) || level.channel_ids.length === 0 ||
+          level.channel_ids.some((id: unknown) => !Number.isInteger(id) || (id as number) <= 0)) {
+        errors.push(`${label}.channel_ids must be a non-empty array of notification channel IDs`);
+      }
+
+      if (level.note !== undefined && level.note !== null &&
+          (typeof level.note !== 'string' || level.note.length > MAX_NOTE_LENGTH)) {
+        errors.push(`${label}.note must be a string of at most ${MAX_NOTE_LENGTH} characters`);
+      }
+    });
+
+    if (input.levels[0]?.delay_minutes === 0) {
+      warnings.push('The first level has no delay - every unacknowledged incident escalates on the next check');
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings
+  };
+}
+
+/**
+ * Channel IDs referenced by a policy's levels that do not exist
+ */
+export async function findMissingChannels(client: PoolClient, levels: EscalationLevel[]): Promise<number[]> {
+  const channelIds = Array.from(new Set(levels.flatMap(level => level.channel_ids)));
+  const result = await client.query('SELECT id FROM notification_channels WHERE id = ANY($1::int[])', [channelIds]);
+  const found = new Set(result.rows.map((row: { id: number }) => row.id));
+  return channelIds.filter(id => !found.has(id));
+}
+
+export async function loadEscalationPolicies(client: PoolClient): Promise<EscalationPolicy[]> {
+  const result = await client.query(`
+    SELECT id, name, team, match_severities, levels, enabled
+    FROM escalation_policies
+    WHERE enabled = true
+    ORDER BY id
+  `);
+
+  return result.rows;
+}
+
+/**
+ * The team's own policy, or the default policy for teams without one; null when that
+ * policy does not cover the incident's severity
+ */
+export function findPolicyForIncident(
+  policies: EscalationPolicy[],
+  team: string | null,
+  severity: string
+): EscalationPolicy | null {
+  const covers = (policy: EscalationPolicy) =>
+    policy.match_severities.length === 0 || policy.match_severities.includes(severity);
+
+  const teamPolicy = team ? policies.find(policy => policy.team === team) : undefined;
+  if (teamPolicy) {
+    return covers(teamPolicy) ? teamPolicy : null;
+  }
+
+  const defaultPolicy = policies.find(policy => policy.team === null);
+  return defaultPolicy && covers(defaultPolicy) ? defaultPolicy : null;
+}
+
+/**
+ * Highest level (1-based) whose delay has passed, or 0 if none has
+ */
+export function levelDue(policy: EscalationPolicy, minutesSinceStart: number): number {
+  return policy.levels.filter(level => level.delay_minutes <= minutesSinceStart).length;
+}
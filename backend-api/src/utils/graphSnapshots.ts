@@ -0,0 +1,249 @@
+import { PoolClient } from 'pg';
+
+export type GraphSnapshotTrigger = 'scheduled' | 'manual';
+
+export interface GraphSnapshot {
+  id: number;
+  taken_at: Date;
+  trigger: GraphSnapshotTrigger;
+  service_count: number;
+  dependency_count: number;
+  namespace_dependency_count: number;
+}
+
+// Services, service dependencies and namespace dependencies as of one point in time
+export interface GraphState {
+  services: Array<{
+    service_namespace: string;
+    service_name: string;
+    environment: string | null;
+    team: string | null;
+    component_type: string | null;
+  }>;
+  dependencies: Array<{
+    from_service_namespace: string;
+    from_service_name: string;
+    to_service_namespace: string;
+    to_service_name: string;
+  }>;
+  namespaceDependencies: Array<{
+    from_namespace: string;
+    to_namespace: string;
+    dependency_type: string | null;
+  }>;
+}
+
+// Node and edge ids match the ones returned by GET /graph so the frontend can overlay a diff
+export interface GraphDiffNode {
+  id: string;
+  nodeType: 'service' | 'namespace';
+  namespace: string;
+  name?: string;
+  team?: string | null;
+  environment?: string | null;
+  component_type?: string | null;
+}
+
+export interface GraphDiffEdge {
+  id: string;
+  from: string;
+  to: string;
+  edgeType: 'service' | 'namespace';
+  dependency_type?: string | null;
+}
+
+export interface GraphDiff {
+  nodes: { added: GraphDiffNode[]; removed: GraphDiffNode[] };
+  edges: { added: GraphDiffEdge[]; removed: GraphDiffEdge[] };
+}
+
+function formatSnapshot(row: any): GraphSnapshot {
+  return {
+    id: parseInt(row.id),
+    taken_at: row.taken_at,
+    trigger: row.trigger,
+    service_count: row.service_count,
+    dependency_count: row.dependency_count,
+    namespace_dependency_count: row.namespace_dependency_count
+  };
+}
+
+/**
+ * Copy the current services, service dependencies and namespace dependencies into a new snapshot
+ */
+export async function takeGraphSnapshot(client: PoolClient, trigger: GraphSnapshotTrigger): Promise<GraphSnapshot> {
+  const snapshotResult = await client.query(`
+    INSERT INTO graph_snapshots (trigger) VALUES ($1) RETURNING id
+  `, [trigger]);
+  const snapshotId = snapshotResult.rows[0].id;
+
+  const servicesResult = await client.query(`
+    INSERT INTO graph_snapshot_services (snapshot_id, service_namespace, service_name, environment, team, component_type)
+    SELECT $1, service_namespace, service_name, environment, team, component_type
+    FROM services
+  `, [snapshotId]);
+
+  const dependenciesResult = await client.query(`
+    INSERT INTO graph_snapshot_dependencies (snapshot_id, from_service_namespace, from_service_name, to_service_namespace, to_service_name)
+    SELECT $1, from_service_namespace, from_service_name, to_service_namespace, to_service_name
+    FROM service_dependencies
+  `, [snapshotId]);
+
+  const namespaceDepsResult = await client.query(`
+    INSERT INTO graph_snapshot_namespace_dependencies (snapshot_id, from_namespace, to_namespace, dependency_type)
+    SELECT $1, from_namespace, to_namespace, dependency_type
+    FROM namespace_dependencies
+  `, [snapshotId]);
+
+  const result = await client.query(`
+    UPDATE graph_snapshots
+    SET service_count = $2, dependency_count = $3, namespace_dependency_count = $4
+    WHERE id = $1
+    RETURNING *
+  `, [snapshotId, servicesResult.rowCount || 0, dependenciesResult.rowCount || 0, namespaceDepsResult.rowCount || 0]);
+
+  return formatSnapshot(result.rows[0]);
+}
+
+/**
+ * Most recent snapshot taken at or before the given time
+ */
+export async function findSnapshotAt(client: PoolClient, at: Date): Promise<GraphSnapshot | null> {
+  const result = await client.query(`
+    SELECT * FROM graph_snapshots
+    WHERE taken_at <= $1
+    ORDER BY taken_at DESC, id DESC
+    LIMIT 1
+  `, [at]);
+
+  return result.rows.length > 0 ? formatSnapshot(result.rows[0]) : null;
+}
+
+export async function listGraphSnapshots(client: PoolClient, limit: number): Promise<GraphSnapshot[]> {
+  const result = await client.query(`
+    SELECT * FROM graph_snapshots
+    ORDER BY taken_at DESC, id DESC
+    LIMIT $1
+  `, [limit]);
+
+  return result.rows.map(formatSnapshot);
+}
+
+/**
+ * Delete snapshots older than the retention window; returns the number removed
+ */
+export async function pruneGraphSnapshots(client: PoolClient, retentionDays: number): Promise<number> {
+  if (retentionDays <= 0) {
+    return 0;
+  }
+
+  const cutoffTime = new Date(Date.now() - (retentionDays * 24 * 60 * 60 * 1000));
+  const result = await client.query(`
+    DELETE FROM graph_snapshots WHERE taken_at < $1
+  `, [cutoffTime]);
+
+  return result.rowCount || 0;
+}
+
+/**
+ * Load the graph as recorded in a snapshot, or the live graph when snapshotId is null
+ */
+export async function loadGraphState(client: PoolClient, snapshotId: number | null): Promise<GraphState> {
+  const params = snapshotId === null ? [] : [snapshotId];
+  const where = snapshotId === null ? '' : 'WHERE snapshot_id = $1';
+
+  const servicesResult = await client.query(`
+    SELECT service_namespace, service_name, environment, team, component_type
+    FROM ${snapshotId === null ? 'services' : 'graph_snapshot_services'}
+    ${where}
+  `, params);
+
+  const dependenciesResult = await client.query(`
+    SELECT from_service_namespace, from_service_name, to_service_namespace, to_service_name
+    FROM ${snapshotId === null ? 'service_dependencies' : 'graph_snapshot_dependencies'}
+    ${where}
+  `, params);
+
+  const namespaceDepsResult = await client.query(`
+    SELECT from_namespace, to_namespace, dependency_type
+    FROM ${snapshotId === null ? 'namespace_dependencies' : 'graph_snapshot_namespace_dependencies'}
+    ${where}
+  `, params);
+
+  return {
+    services: servicesResult.rows,
+    dependencies: dependenciesResult.rows,
+    namespaceDependencies: namespaceDepsResult.rows
+  };
+}
+
+function graphElements(state: GraphState): { nodes: Map<string, GraphDiffNode>; edges: Map<string, GraphDiffEdge> } {
+  const nodes = new Map<string, GraphDiffNode>();
+  const edges = new Map<string, GraphDiffEdge>();
+
+  for (const service of state.services) {
+    if (!nodes.has(service.service_namespace)) {
+      nodes.set(service.service_namespace, {
+        id: service.service_namespace,
+        nodeType: 'namespace',
+        namespace: service.service_namespace
+      });
+    }
+
+    const serviceId = `${service.service_namespace}::${service.service_name}`;
+    nodes.set(serviceId, {
+      id: serviceId,
+      nodeType: 'service',
+      namespace: service.service_namespace,
+      name: service.service_name,
+      team: service.team,
+      environment: service.environment,
+      component_type: service.component_type
+    });
+  }
+
+  for (const dep of state.dependencies) {
+    const from = `${dep.from_service_namespace}::${dep.from_service_name}`;
+    const to = `${dep.to_service_namespace}::${dep.to_service_name}`;
+    const id = `${from}-->${to}`;
+    edges.set(id, { id, from, to, edgeType: 'service' });
+  }
+
+  for (const dep of state.namespaceDependencies) {
+    const id = `${dep.from_namespace}==>${dep.to_namespace}`;
+    edges.set(id, {
+      id,
+      from: dep.from_namespace,
+      to: dep.to_namespace,
+      edgeType: 'namespace',
+      dependency_type: dep.dependency_type
+    });
+  }
+
+  return { nodes, edges };
+}
+
+function missingFrom<T>(source: Map<string, T>, other: Map<string, T>): T[] {
+  return Array.from(source.entries())
+    .filter(([key]) => !other.has(key))
+    .map(([, value]) => value);
+}
+
+/**
+ * Nodes and edges present in `to` but not `from` (added) and vice versa (removed)
+ */
+export function diffGraphStates(from: GraphState, to: GraphState): GraphDiff {
+  const before = graphElements(from);
+  const after = graphElements(to);
+
+  return {
+    nodes: {
+      added: missingFrom(after.nodes, before.nodes),
+      removed: missingFrom(before.nodes, after.nodes)
+    },
+    edges: {
+      added: missingFrom(after.edges, before.edges),
+      removed: missingFrom(before.edges, after.edges)
+    }
+  };
+}
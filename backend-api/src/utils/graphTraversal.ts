@@ -0,0 +1,160 @@
+import { PoolClient } from 'pg';
+
+export type TraversalDirection = 'upstream' | 'downstream' | 'both';
+
+export const TRAVERSAL_DIRECTIONS: TraversalDirection[] = ['upstream', 'downstream', 'both'];
+
+export interface ServiceKey {
+  service_namespace: string;
+  service_name: string;
+}
+
+export interface TraversedService extends ServiceKey {
+  // Fewest hops from the root (0 for the root itself)
+  distance: number;
+  // Which walk(s) reached the service: callers (upstream) and/or callees (downstream)
+  directions: Array<'root' | 'upstream' | 'downstream'>;
+}
+
+/**
+ * Parse a `namespace::name` service key
+ */
+export function parseServiceKey(key: string): ServiceKey | null {
+  const separator = key.indexOf('::');
+  if (separator <= 0 || separator === key.length - 2) return null;
+
+  return {
+    service_namespace: key.slice(0, separator),
+    service_name: key.slice(separator + 2)
+  };
+}
+
+/**
+ * Walk service_dependencies from a root service with a recursive query.
+ * Upstream follows callers (edges into a service), downstream follows callees; `both` runs the two
+ * walks independently rather than wandering back and forth, so siblings of the root are not pulled in.
+ * Rows are deduplicated per (service, direction, distance) which bounds the walk by depth even with cycles.
+ */
+export async function traverseServices(
+  client: PoolClient,
+  root: ServiceKey,
+  direction: TraversalDirection,
+  maxDepth: number
+): Promise<TraversedService[]> {
+  const walks = direction === 'both' ? ['upstream', 'downstream'] : [direction];
+
+  const result = await client.query(`
+    WITH RECURSIVE walk (service_namespace, service_name, direction, distance) AS (
+      SELECT $1::varchar, $2::varchar, d::text, 0
+      FROM unnest($3::text[]) AS d
+
+      UNION
+
+      SELECT
+        CASE WHEN w.direction = 'downstream' THEN sd.to_service_namespace ELSE sd.from_service_namespace END,
+        CASE WHEN w.direction = 'downstream' THEN sd.to_service_name ELSE sd.from_service_name END,
+        w.direction,
+        w.distance + 1
+      FROM walk w
+      JOIN service_dependencies sd ON (
+        (w.direction = 'downstream' AND sd.from_service_namespace = w.service_namespace AND sd.from_service_name = w.service_name)
+        OR (w.direction = 'upstream' AND sd.to_service_namespace = w.service_namespace AND sd.to_service_name = w.service_name)
+      )
+      WHERE w.distance < $4
+    )
+    SELECT
+      service_namespace,
+      service_name,
+      MIN(distance) as distance,
+      array_agg(DISTINCT direction) FILTER (WHERE distance > 0) as directions
+    FROM walk
+    GROUP BY service_namespace, service_name
+    ORDER BY MIN(distance), service_namespace, service_name
+  `, [root.service_namespace, root.service_name, walks, maxDepth]);
+
+  return result.rows.map((row: any) => {
+    const distance = parseInt(row.distance);
+    return {
+      service_namespace: row.service_namespace,
+      service_name: row.service_name,
+      distance,
+      directions: distance === 0 ? ['root'] : (row.directions || [])
+    };
+  });
+}
+
+/**
+ * Walk namespace_dependencies upstream from a namespace: every namespace that declares a dependency on it,
+ * directly or transitively, with its fewest hops. The starting namespace itself is not returned.
+ */
+export async function traverseNamespacesUpstream(
+  client: PoolClient,
+  namespace: string,
+  maxDepth: number
+): Promise<Map<string, number>> {
+  const result = await client.query(`
+    WITH RECURSIVE walk (namespace, distance) AS (
+      SELECT $1::varchar, 0
+
+      UNION
+
+      SELECT nd.from_namespace, w.distance + 1
+      FROM walk w
+      JOIN namespace_dependencies nd ON nd.to_namespace = w.namespace
+      WHERE w.distance < $2
+    )
+    SELECT namespace, MIN(distance) as distance
+    FROM walk
+    WHERE namespace <> $1
+    GROUP BY namespace
+  `, [namespace, maxDepth]);
+
+  return new Map(result.rows.map((row: any) => [row.namespace, parseInt(row.distance)]));
+}
+
+export interface DownstreamReach {
+  origin: string;
+  service: string;
+  distance: number;
+}
+
+/**
+ * Everything each origin service reaches by following its calls downstream, in one recursive query.
+ * Returns (origin, reached service, fewest hops) triples keyed as `namespace::name`; origins themselves are not included.
+ */
+export async function reachDownstream(
+  client: PoolClient,
+  origins: ServiceKey[],
+  maxDepth: number
+): Promise<DownstreamReach[]> {
+  if (origins.length === 0) return [];
+
+  const result = await client.query(`
+    WITH RECURSIVE walk (origin_namespace, origin_name, service_namespace, service_name, distance) AS (
+      SELECT o.ns, o.name, o.ns, o.name, 0
+      FROM unnest($1::varchar[], $2::varchar[]) AS o(ns, name)
+
+      UNION
+
+      SELECT w.origin_namespace, w.origin_name, sd.to_service_namespace, sd.to_service_name, w.distance + 1
+      FROM walk w
+      JOIN service_dependencies sd
+        ON sd.from_service_namespace = w.service_namespace AND sd.from_service_name = w.service_name
+      WHERE w.distance < $3
+    )
+    SELECT
+      origin_namespace || '::' || origin_name as origin,
+      service_namespace || '::' || service_name as service,
+      MIN(distance) as distance
+    FROM walk
+    WHERE distance > 0
+      AND NOT (service_namespace = origin_namespace AND service_name = origin_name)
+    GROUP BY origin_namespace, origin_name, service_namespace, service_name
+  `, [origins.map(o => o.service_namespace), origins.map(o => o.service_name), maxDepth]);
+
+  return result.rows.map((row: any) => ({
+    origin: row.origin,
+    service: row.service,
+    distance: parseInt(row.distance)
+  }));
+}
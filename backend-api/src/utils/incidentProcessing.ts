@@ -7,6 +7,9 @@ import {
   createAlertDisplayId,
   AlertIdentity 
 } from './alertFingerprinting';
+import { loadGroupingPolicies, findMatchingPolicy, generateGroupedFingerprint } from './alertGrouping';
+import { loadSilences, loadServiceTags, findMatchingSilence, isSilenceActive } from './alertSilences';
+import { enqueueIncidentNotifications } from './notifications';
 
 export interface ProcessedAlert {
   serviceNamespace: string;
@@ -19,6 +22,23 @@ export interface ProcessedAlert {
   externalAlertId?: string;
   eventTime: Date;
   eventData?: Record<string, any>;
+  labels?: Record<string, string>;
+  annotations?: Record<string, string>;
+  // Sender-assigned fingerprint (Alertmanager), used to match updates and resolves to the open incident
+  upstreamFingerprint?: string;
+  generatorUrl?: string;
+  runbookUrl?: string;
+  // Set when resolving a known incident, so the fingerprint is not recomputed
+  incidentFingerprint?: string;
+  // User resolving the incident by hand; unset when its source resolves it
+  resolvedBy?: string;
+}
+
+// Present when a grouping policy produced the fingerprint; each alert in the group is a member
+interface IncidentGrouping {
+  policyId: number;
+  policyName: string;
+  memberFingerprint: string;
 }
 
 export interface IncidentProcessingResult {
@@ -28,6 +48,7 @@ export interface IncidentProcessingResult {
   isNewIncident: boolean;
   incidentDuration?: number; // in milliseconds, if resolved
   eventType: 'fired' | 'resolved' | 'updated';
+  silenceId?: number; // set when a silence matched the alert
 }
 
 /**
@@ -47,25 +68,56 @@ export async function processIncident(
       throw new Error(`Invalid alert identity: ${validation.errors.join(', ')}`);
     }
 
-    // Generate fingerprint for incident grouping
-    const fingerprint = generateAlertFingerprint(identity);
+    // Generate fingerprint for incident grouping - the first matching grouping policy
+    // replaces the default per-alert fingerprint
+    const defaultFingerprint = generateAlertFingerprint(identity);
+    const memberFingerprint = alert.upstreamFingerprint || defaultFingerprint;
+    let fingerprint = alert.incidentFingerprint || defaultFingerprint;
+    let grouping: IncidentGrouping | null = null;
+
+    if (!alert.incidentFingerprint) {
+      const labels = alert.labels || {};
+      const policy = findMatchingPolicy(await loadGroupingPolicies(client), identity, labels);
+      if (policy) {
+        fingerprint = generateGroupedFingerprint(policy.id, policy, identity, labels);
+        grouping = { policyId: policy.id, policyName: policy.name, memberFingerprint };
+      }
+    }
+
     const displayId = createAlertDisplayId(identity);
 
     logger.info({
       displayId,
       fingerprint,
+      groupingPolicy: grouping?.policyName,
       status: alert.status,
       eventTime: alert.eventTime.toISOString()
     }, 'Processing incident');
 
+    let result: IncidentProcessingResult;
     if (alert.status === 'firing') {
-      return await handleFiringAlert(client, alert, fingerprint, displayId, logger);
+      result = await handleFiringAlert(client, alert, fingerprint, grouping, defaultFingerprint, displayId, logger);
     } else if (alert.status === 'resolved') {
-      return await handleResolvedAlert(client, alert, fingerprint, displayId, logger);
+      result = await handleResolvedAlert(client, alert, fingerprint, grouping, defaultFingerprint, displayId, logger);
     } else {
       throw new Error(`Unknown alert status: ${alert.status}`);
     }
 
+    // Silenced incidents are stored as usual but flagged, which hides them while the silence is active
+    const silenceId = await flagSilencedIncident(client, alert, identity, result.incidentId);
+    if (silenceId) {
+      logger.info({ incidentId: result.incidentId, displayId, silenceId }, 'Incident matched a silence');
+    }
+
+    // Queued in this transaction so a rolled-back alert never notifies; silenced incidents are skipped
+    if (result.action === 'incident_created' && result.eventType === 'fired') {
+      await enqueueIncidentNotifications(client, result.incidentId, 'incident_created', logger);
+    } else if (result.action === 'incident_resolved') {
+      await enqueueIncidentNotifications(client, result.incidentId, 'incident_resolved', logger);
+    }
+
+    return silenceId ? { ...result, silenceId } : result;
+
   } catch (error) {
     logger.error({ error }, 'Error processing incident');
     throw error;
@@ -79,42 +131,30 @@ async function handleFiringAlert(
   client: PoolClient,
   alert: ProcessedAlert,
   fingerprint: string,
+  grouping: IncidentGrouping | null,
+  defaultFingerprint: string,
   displayId: string,
   logger: Logger
 ): Promise<IncidentProcessingResult> {
-  
-  // Check for existing incident with this fingerprint
-  const existingResult = await client.query(`
-    SELECT id, status, incident_start, incident_end, updated_at
-    FROM alert_incidents 
-    WHERE alert_fingerprint = $1 
-    ORDER BY incident_start DESC 
-    LIMIT 1
-  `, [fingerprint]);
-
-  if (existingResult.rows.length === 0) {
-    // No existing incident - create new one
-    return await createNewIncident(client, alert, fingerprint, displayId, logger);
-  }
 
-  const existingIncident = existingResult.rows[0];
-  
-  if (existingIncident.status === 'firing') {
-    // Incident already firing - add update event
+  // An alert that is already firing keeps updating its incident, under the grouping it was opened with
+  const firing = await findFiringIncident(client, alert, fingerprint, grouping, defaultFingerprint);
+  if (firing) {
     return await addIncidentEvent(
-      client, 
-      existingIncident.id, 
-      'updated', 
-      alert, 
+      client,
+      firing.incident.id,
+      'updated',
+      alert,
+      firing.grouping,
       displayId,
       'incident_updated',
       logger
     );
-  } else {
-    // Previous incident was resolved - create new incident for this occurrence
-    // This enables proper timeline tracking: alert can fire → resolve → fire again
-    return await createNewIncident(client, alert, fingerprint, displayId, logger);
   }
+
+  // No firing incident - create a new one. A previous, resolved incident with this fingerprint
+  // is kept, which enables proper timeline tracking: alert can fire → resolve → fire again
+  return await createNewIncident(client, alert, fingerprint, grouping, displayId, logger);
 }
 
 /**
@@ -124,26 +164,46 @@ async function handleResolvedAlert(
   client: PoolClient,
   alert: ProcessedAlert,
   fingerprint: string,
+  grouping: IncidentGrouping | null,
+  defaultFingerprint: string,
   displayId: string,
   logger: Logger
 ): Promise<IncidentProcessingResult> {
   
-  // Find the currently firing incident for this fingerprint
-  const firingResult = await client.query(`
-    SELECT id, incident_start, status
-    FROM alert_incidents 
-    WHERE alert_fingerprint = $1 AND status = 'firing'
-    ORDER BY incident_start DESC 
-    LIMIT 1
-  `, [fingerprint]);
+  const firing = await findFiringIncident(client, alert, fingerprint, grouping, defaultFingerprint);
 
-  if (firingResult.rows.length === 0) {
+  if (!firing) {
     // No firing incident found - create a resolved incident for tracking
     logger.warn({ displayId }, 'No firing incident found for resolved alert');
-    return await createResolvedIncident(client, alert, fingerprint, displayId, logger);
+    return await createResolvedIncident(client, alert, fingerprint, grouping, displayId, logger);
+  }
+
+  const firingIncident = firing.incident;
+  const incidentGrouping = firing.grouping;
+
+  // A grouped incident stays firing until every member alert has resolved
+  if (incidentGrouping) {
+    const stillFiring = await countFiringMembers(client, firingIncident.id, incidentGrouping.memberFingerprint);
+    if (stillFiring > 0) {
+      logger.info({
+        incidentId: firingIncident.id,
+        displayId,
+        stillFiring
+      }, 'Grouped alert resolved, other members still firing');
+
+      return await addIncidentEvent(
+        client,
+        firingIncident.id,
+        'updated',
+        alert,
+        incidentGrouping,
+        displayId,
+        'incident_updated',
+        logger
+      );
+    }
   }
 
-  const firingIncident = firingResult.rows[0];
   const incidentStart = new Date(firingIncident.incident_start);
   const incidentDuration = alert.eventTime.getTime() - incidentStart.getTime();
 
@@ -152,9 +212,10 @@ async function handleResolvedAlert(
     UPDATE alert_incidents 
     SET status = 'resolved', 
         incident_end = $1,
+        resolved_by = $3,
         updated_at = $1
     WHERE id = $2
-  `, [alert.eventTime, firingIncident.id]);
+  `, [alert.eventTime, firingIncident.id, alert.resolvedBy ?? null]);
 
   // Add resolved event
   const eventResult = await addIncidentEvent(
@@ -162,6 +223,7 @@ async function handleResolvedAlert(
     firingIncident.id,
     'resolved',
     alert,
+    incidentGrouping,
     displayId,
     'incident_resolved',
     logger
@@ -179,6 +241,170 @@ async function handleResolvedAlert(
   };
 }
 
+/**
+ * Flag the incident with the silence matching this alert, if any, and return its id.
+ * An incident already flagged keeps its silence unless a different one now matches.
+ */
+async function flagSilencedIncident(
+  client: PoolClient,
+  alert: ProcessedAlert,
+  identity: AlertIdentity,
+  incidentId: number
+): Promise<number | null> {
+  const silences = (await loadSilences(client)).filter(silence =>
+    alert.status === 'firing' || isSilenceActive(silence, alert.eventTime)
+  );
+  if (silences.length === 0) return null;
+
+  const needsTags = silences.some(silence => (silence.match_tags || []).length > 0);
+  const tags = needsTags ? await loadServiceTags(client, identity.serviceNamespace, identity.serviceName) : [];
+  const silence = findMatchingSilence(silences, identity, tags);
+  if (!silence) return null;
+
+  await client.query(`
+    UPDATE alert_incidents
+    SET silence_id = $1
+    WHERE id = $2 AND silence_id IS DISTINCT FROM $1
+  `, [silence.id, incidentId]);
+
+  return silence.id;
+}
+
+interface FiringIncident {
+  id: number;
+  incident_start: Date;
+  status: string;
+}
+
+/**
+ * The firing incident this alert belongs to, with the grouping it was opened under, if any.
+ * Grouping policies may have been created, edited or deleted since it fired, which changes the
+ * fingerprint computed now, so when that finds nothing this also tries the grouped incident the
+ * alert is a member of, the sender's fingerprint and the default per-alert fingerprint.
+ */
+async function findFiringIncident(
+  client: PoolClient,
+  alert: ProcessedAlert,
+  fingerprint: string,
+  grouping: IncidentGrouping | null,
+  defaultFingerprint: string
+): Promise<{ incident: FiringIncident; grouping: IncidentGrouping | null } | null> {
+  const memberFingerprint = alert.upstreamFingerprint || defaultFingerprint;
+  const withGrouping = async (incident: FiringIncident | null) =>
+    incident ? { incident, grouping: await findIncidentGrouping(client, incident.id, memberFingerprint) } : null;
+
+  // The sender's fingerprint survives message changes that would alter ours
+  if (!grouping && alert.upstreamFingerprint && !alert.incidentFingerprint) {
+    const incident = await findFiringByUpstreamFingerprint(client, alert.upstreamFingerprint);
+    if (incident) return withGrouping(incident);
+  }
+
+  const current = await findFiringByFingerprint(client, fingerprint);
+  if (current) {
+    return { incident: current, grouping };
+  }
+
+  // A manual resolve names its incident's own fingerprint
+  if (alert.incidentFingerprint) {
+    return null;
+  }
+
+  // A grouped incident the alert joined, whichever policy grouped it
+  const member = await client.query(`
+    SELECT i.id, i.incident_start, i.status
+    FROM alert_incidents i
+    WHERE i.status = 'firing'
+      AND EXISTS (
+        SELECT 1 FROM alert_events e
+        WHERE e.incident_id = i.id AND e.event_data->>'member_fingerprint' = $1
+      )
+    ORDER BY i.incident_start DESC
+    LIMIT 1
+  `, [memberFingerprint]);
+  if (member.rows[0]) {
+    return withGrouping(member.rows[0]);
+  }
+
+  // An incident opened before a policy started grouping the alert
+  if (grouping && alert.upstreamFingerprint) {
+    const incident = await findFiringByUpstreamFingerprint(client, alert.upstreamFingerprint);
+    if (incident) return withGrouping(incident);
+  }
+
+  if (fingerprint === defaultFingerprint) {
+    return null;
+  }
+
+  return withGrouping(await findFiringByFingerprint(client, defaultFingerprint));
+}
+
+/**
+ * How an incident groups its alerts, taken from its member events rather than today's policies;
+ * null for an incident that is not grouped
+ */
+async function findIncidentGrouping(
+  client: PoolClient,
+  incidentId: number,
+  memberFingerprint: string
+): Promise<IncidentGrouping | null> {
+  const result = await client.query(`
+    SELECT event_data->>'grouping_policy_id' AS policy_id, event_data->>'grouping_policy' AS policy_name
+    FROM alert_events
+    WHERE incident_id = $1 AND event_data ? 'member_fingerprint'
+    ORDER BY event_time, id
+    LIMIT 1
+  `, [incidentId]);
+
+  const row = result.rows[0];
+  return row ? { policyId: parseInt(row.policy_id), policyName: row.policy_name, memberFingerprint } : null;
+}
+
+/**
+ * The latest firing incident with this fingerprint, if any
+ */
+async function findFiringByFingerprint(client: PoolClient, fingerprint: string): Promise<FiringIncident | null> {
+  const result = await client.query(`
+    SELECT id, incident_start, status
+    FROM alert_incidents
+    WHERE alert_fingerprint = $1 AND status = 'firing'
+    ORDER BY incident_start DESC
+    LIMIT 1
+  `, [fingerprint]);
+
+  return result.rows[0] || null;
+}
+
+/**
+ * The firing incident opened by an alert with this sender fingerprint, if any
+ */
+async function findFiringByUpstreamFingerprint(
+  client: PoolClient,
+  upstreamFingerprint: string
+): Promise<FiringIncident | null> {
+  const result = await client.query(`
+    SELECT id, incident_start, status
+    FROM alert_incidents
+    WHERE upstream_fingerprint = $1 AND status = 'firing'
+    ORDER BY incident_start DESC
+    LIMIT 1
+  `, [upstreamFingerprint]);
+
+  return result.rows[0] || null;
+}
+
+/**
+ * Column values for upstream_fingerprint, labels, annotations, generator_url and runbook_url
+ */
+function incidentMetadata(alert: ProcessedAlert): Array<string | null> {
+  return [
+    alert.upstreamFingerprint || null,
+    JSON.stringify(alert.labels || {}),
+    JSON.stringify(alert.annotations || {}),
+    alert.generatorUrl || null,
+    alert.runbookUrl || null
+  ];
+}
+
 /**
  * Create a new incident and initial fire event
  */
@@ -186,6 +412,7 @@ async function createNewIncident(
   client: PoolClient,
   alert: ProcessedAlert,
   fingerprint: string,
+  grouping: IncidentGrouping | null,
   displayId: string,
   logger: Logger
 ): Promise<IncidentProcessingResult> {
@@ -202,9 +429,15 @@ async function createNewIncident(
       incident_start,
       status,
       alert_source,
-      external_alert_id
+      external_alert_id,
+      grouping_policy_id,
+      upstream_fingerprint,
+      labels,
+      annotations,
+      generator_url,
+      runbook_url
     )
-    VALUES ($1, $2, $3, $4, $5, $6, $7, 'firing', $8, $9)
+    VALUES ($1, $2, $3, $4, $5, $6, $7, 'firing', $8, $9, $10, $11, $12, $13, $14, $15)
     RETURNING id
   `, [
     alert.serviceNamespace,
@@ -215,7 +448,9 @@ async function createNewIncident(
     fingerprint,
     alert.eventTime,
     alert.alertSource,
-    alert.externalAlertId
+    alert.externalAlertId,
+    grouping?.policyId ?? null,
+    ...incidentMetadata(alert)
   ]);
 
   const incidentId = incidentResult.rows[0].id;
@@ -226,6 +461,7 @@ async function createNewIncident(
     incidentId,
     'fired',
     alert,
+    grouping,
     displayId,
     'incident_created',
     logger
@@ -246,6 +482,7 @@ async function createResolvedIncident(
   client: PoolClient,
   alert: ProcessedAlert,
   fingerprint: string,
+  grouping: IncidentGrouping | null,
   displayId: string,
   logger: Logger
 ): Promise<IncidentProcessingResult> {
@@ -266,9 +503,15 @@ async function createResolvedIncident(
       incident_end,
       status,
       alert_source,
-      external_alert_id
+      external_alert_id,
+      grouping_policy_id,
+      upstream_fingerprint,
+      labels,
+      annotations,
+      generator_url,
+      runbook_url
     )
-    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, 'resolved', $9, $10)
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, 'resolved', $9, $10, $11, $12, $13, $14, $15, $16)
     RETURNING id
   `, [
     alert.serviceNamespace,
@@ -280,7 +523,9 @@ async function createResolvedIncident(
     estimatedStart,
     alert.eventTime,
     alert.alertSource,
-    alert.externalAlertId
+    alert.externalAlertId,
+    grouping?.policyId ?? null,
+    ...incidentMetadata(alert)
   ]);
 
   const incidentId = incidentResult.rows[0].id;
@@ -291,6 +536,7 @@ async function createResolvedIncident(
     incidentId,
     'resolved',
     alert,
+    grouping,
     displayId,
     'incident_created',
     logger
@@ -313,6 +559,7 @@ async function addIncidentEvent(
   incidentId: number,
   eventType: 'fired' | 'resolved' | 'updated',
   alert: ProcessedAlert,
+  grouping: IncidentGrouping | null,
   displayId: string,
   action: IncidentProcessingResult['action'],
   logger: Logger
@@ -323,6 +570,13 @@ async function addIncidentEvent(
     alert_source: alert.alertSource,
     external_alert_id: alert.externalAlertId,
     event_timestamp: alert.eventTime.toISOString(),
+    ...(alert.labels ? { labels: alert.labels } : {}),
+    ...(grouping ? {
+      grouping_policy_id: grouping.policyId,
+      grouping_policy: grouping.policyName,
+      member_fingerprint: grouping.memberFingerprint,
+      member_status: alert.status
+    } : {}),
     ...alert.eventData
   };
 
@@ -351,6 +605,31 @@ async function addIncidentEvent(
   };
 }
 
+/**
+ * Members of a grouped incident, other than the given one, whose latest event left them firing
+ */
+async function countFiringMembers(
+  client: PoolClient,
+  incidentId: number,
+  excludeMemberFingerprint: string
+): Promise<number> {
+  const result = await client.query(`
+    SELECT COUNT(*) AS firing_members
+    FROM (
+      SELECT DISTINCT ON (event_data->>'member_fingerprint')
+        event_data->>'member_status' AS member_status
+      FROM alert_events
+      WHERE incident_id = $1
+        AND event_data ? 'member_fingerprint'
+        AND event_data->>'member_fingerprint' <> $2
+      ORDER BY event_data->>'member_fingerprint', event_time DESC, id DESC
+    ) latest
+    WHERE member_status = 'firing'
+  `, [incidentId, excludeMemberFingerprint]);
+
+  return parseInt(result.rows[0].firing_members);
+}
+
 /**
  * Get incident statistics for reporting
  */
@@ -0,0 +1,237 @@
+import { Pool, PoolClient } from 'pg';
+import { randomBytes, createHmac, timingSafeEqual } from 'crypto';
+import { hashToken } from './auth';
+import { ValidationResult } from './validation';
+
+/**
+ * Ingestion API keys
+ *
+ * Collectors, exporters and Alertmanager write with a key scoped to one ingestion type and,
+ * optionally, to the namespaces they may write. Bearer keys are stored as a SHA-256 like user
+ * tokens. HMAC keys sign the request body instead of being sent, so the key is kept to verify it.
+ */
+
+export const INGESTION_TYPES = ['telemetry', 'alerts', 'alertmanager'] as const;
+
+export type IngestionType = typeof INGESTION_TYPES[number];
+
+export type IngestionKeyVerification = 'bearer' | 'hmac';
+
+export interface IngestionKey {
+  id: number;
+  name: string;
+  type: IngestionType;
+  // Empty means every namespace
+  namespaces: string[];
+}
+
+export type IngestionRejectionReason =
+  | 'missing_key'
+  | 'invalid_key'
+  | 'wrong_type'
+  | 'invalid_signature'
+  | 'namespace_not_allowed';
+
+export interface IngestionRejectionStats {
+  total: number;
+  byReason: Record<IngestionRejectionReason, number>;
+  lastRejectedAt: Date | null;
+  lastReason: IngestionRejectionReason | null;
+}
+
+// Distinct from user tokens (olana_) so the authentication middleware never looks them up
+const KEY_PREFIX = 'olingest_';
+const KEY_BYTES = 32;
+const DISPLAYED_PREFIX_LENGTH = KEY_PREFIX.length + 6;
+
+export const SIGNATURE_HEADER = 'X-Olana-Signature';
+export const KEY_ID_HEADER = 'X-Olana-Key-Id';
+
+export const INGESTION_KEY_COLUMNS = `
+  id, name, ingestion_type, namespaces, verification, key_prefix,
+  created_by, last_used_at, revoked_at, created_at
+`;
+
+// Rejections since startup, per ingestion type
+const rejections = new Map<IngestionType, IngestionRejectionStats>();
+
+function emptyStats(): IngestionRejectionStats {
+  return {
+    total: 0,
+    byReason: {
+      missing_key: 0,
+      invalid_key: 0,
+      wrong_type: 0,
+      invalid_signature: 0,
+      namespace_not_allowed: 0
+    },
+    lastRejectedAt: null,
+    lastReason: null
+  };
+}
+
+export function recordIngestionRejection(type: IngestionType, reason: IngestionRejectionReason, count = 1): void {
+  const stats = rejections.get(type) || emptyStats();
+  stats.total += count;
+  stats.byReason[reason] += count;
+  stats.lastRejectedAt = new Date();
+  stats.lastReason = reason;
+  rejections.set(type, stats);
+}
+
+export function getIngestionRejections(type: IngestionType): IngestionRejectionStats {
+  const stats = rejections.get(type) || emptyStats();
+  return { ...stats, byReason: { ...stats.byReason } };
+}
+
+/**
+ * Whether a request may write to namespace. Requests without a key (ingestion keys not
+ * required) may write anywhere.
+ */
+export function canIngestNamespace(key: IngestionKey | undefined, namespace: string): boolean {
+  return !key || key.namespaces.length === 0 || key.namespaces.includes(namespace);
+}
+
+export function namespaceNotAllowedMessage(namespace: string): string {
+  return `This ingestion key cannot write to namespace '${namespace}'`;
+}
+
+function toIngestionKey(row: any): IngestionKey {
+  return {
+    id: row.id,
+    name: row.name,
+    type: row.ingestion_type,
+    namespaces: row.namespaces || []
+  };
+}
+
+// last_used_at is refreshed at most once a minute per key
+async function touchKey(pool: Pool, row: any): Promise<void> {
+  if (!row.last_used_at || Date.now() - new Date(row.last_used_at).getTime() > 60_000) {
+    await pool.query('UPDATE ingestion_keys SET last_used_at = NOW() WHERE id = $1', [row.id]);
+  }
+}
+
+/**
+ * The bearer key a request was made with, or null for unknown and revoked keys. HMAC keys are
+ * never accepted as bearer keys.
+ */
+export async function resolveIngestionKey(pool: Pool, key: string): Promise<IngestionKey | null> {
+  if (!key.startsWith(KEY_PREFIX)) {
+    return null;
+  }
+
+  const result = await pool.query(`
+    SELECT id, name, ingestion_type, namespaces, last_used_at
+    FROM ingestion_keys
+    WHERE key_hash = $1 AND verification = 'bearer' AND revoked_at IS NULL
+  `, [hashToken(key)]);
+
+  const row = result.rows[0];
+  if (!row) {
+    return null;
+  }
+
+  await touchKey(pool, row);
+  return toIngestionKey(row);
+}
+
+/**
+ * The HMAC key identified by keyId when signature ("sha256=<hex>") is its HMAC-SHA256 of body,
+ * otherwise null
+ */
+export async function verifySignedRequest(
+  pool: Pool,
+  keyId: number,
+  signature: string,
+  body: Buffer
+): Promise<IngestionKey | null> {
+  const result = await pool.query(`
+    SELECT id, name, ingestion_type, namespaces, signing_secret, last_used_at
+    FROM ingestion_keys
+    WHERE id = $1 AND verification = 'hmac' AND revoked_at IS NULL
+  `, [keyId]);
+
+  const row = result.rows[0];
+  if (!row || !row.signing_secret) {
+    return null;
+  }
+
+  const expected = Buffer.from(`sha256=${createHmac('sha256', row.signing_secret).update(body).digest('hex')}`);
+  const provided = Buffer.from(signature.trim().toLowerCase());
+  if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+    return null;
+  }
+
+  await touchKey(pool, row);
+  return toIngestionKey(row);
+}
+
+export function validateIngestionKey(input: any): ValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { isValid: false, errors: ['Body must be an object'], warnings };
+  }
+
+  if (typeof input.name !== 'string' || input.name.trim() === '' || input.name.length > 255) {
+    errors.push('name is required and must be at most 255 characters');
+  }
+
+  if (!INGESTION_TYPES.includes(input.ingestion_type)) {
+    errors.push(`ingestion_type must be one of: ${INGESTION_TYPES.join(', ')}`);
+  }
+
+  if (input.namespaces !== undefined &&
+      (!Array.isArray(input.namespaces) ||
+       input.namespaces.some((ns: unknown) => typeof ns !== 'string' || ns.trim() === ''))) {
+    errors.push('namespaces must be an array of namespace names');
+  } else if (!input.namespaces || input.namespaces.length === 0) {
+    warnings.push('Key can write to every namespace');
+  }
+
+  if (input.verification !== undefined && input.verification !== 'bearer' && input.verification !== 'hmac') {
+    errors.push('verification must be bearer or hmac');
+  } else if (input.verification === 'hmac' && input.ingestion_type !== 'alertmanager') {
+    errors.push('hmac verification is only available for alertmanager keys');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings
+  };
+}
+
+export async function createIngestionKey(
+  client: PoolClient,
+  input: {
+    name: string;
+    ingestion_type: IngestionType;
+    namespaces?: string[];
+    verification?: IngestionKeyVerification;
+  },
+  createdBy: string
+): Promise<{ key: string; row: any }> {
+  const key = KEY_PREFIX + randomBytes(KEY_BYTES).toString('base64url');
+  const verification = input.verification || 'bearer';
+
+  const result = await client.query(`
+    INSERT INTO ingestion_keys
+      (name, ingestion_type, namespaces, verification, key_hash, key_prefix, signing_secret, created_by)
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+    RETURNING ${INGESTION_KEY_COLUMNS}
+  `, [
+    input.name.trim(),
+    input.ingestion_type,
+    Array.from(new Set((input.namespaces || []).map(ns => ns.trim()))),
+    verification,
+    hashToken(key),
+    key.slice(0, DISPLAYED_PREFIX_LENGTH),
+    verification === 'hmac' ? key : null,
+    createdBy
+  ]);
+
+  return { key, row: result.rows[0] };
+}
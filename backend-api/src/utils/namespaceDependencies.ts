@@ -0,0 +1,173 @@
+import yaml from 'js-yaml';
+import { ValidationResult } from './validation';
+
+export interface NamespaceDependencyInput {
+  from_namespace: string;
+  to_namespace: string;
+  dependency_type?: string;
+  description?: string;
+}
+
+export interface NamespaceEdge {
+  from_namespace: string;
+  to_namespace: string;
+}
+
+const MAX_NAMESPACE_LENGTH = 255;
+const MAX_DEPENDENCY_TYPE_LENGTH = 50;
+
+/**
+ * Validate a namespace dependency body. Both namespaces must be known to `services` and
+ * a namespace may not depend on itself.
+ */
+export function validateNamespaceDependency(
+  input: any,
+  knownNamespaces: Set<string>
+): ValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { isValid: false, errors: ['Body must be an object'], warnings };
+  }
+
+  (['from_namespace', 'to_namespace'] as const).forEach(field => {
+    const value = input[field];
+    if (typeof value !== 'string' || value.trim() === '') {
+      errors.push(`${field} is required and must be a non-empty string`);
+    } else if (value.length > MAX_NAMESPACE_LENGTH) {
+      errors.push(`${field} exceeds maximum length of ${MAX_NAMESPACE_LENGTH} characters`);
+    } else if (!knownNamespaces.has(value)) {
+      errors.push(`${field} '${value}' does not match any namespace in services`);
+    }
+  });
+
+  if (typeof input.from_namespace === 'string' && input.from_namespace === input.to_namespace) {
+    errors.push('A namespace cannot depend on itself');
+  }
+
+  if (input.dependency_type !== undefined && input.dependency_type !== null) {
+    if (typeof input.dependency_type !== 'string' || input.dependency_type.trim() === '') {
+      errors.push('dependency_type must be a non-empty string');
+    } else if (input.dependency_type.length > MAX_DEPENDENCY_TYPE_LENGTH) {
+      errors.push(`dependency_type exceeds maximum length of ${MAX_DEPENDENCY_TYPE_LENGTH} characters`);
+    }
+  }
+
+  if (input.description !== undefined && input.description !== null && typeof input.description !== 'string') {
+    errors.push('description must be a string');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings
+  };
+}
+
+/**
+ * If the edges contain a path from `to` back to `from`, return the cycle the edge from -> to closes
+ * (e.g. [a, b, c, a]); otherwise null. Breadth-first so the shortest cycle is reported.
+ */
+export function findNamespaceCycle(edges: NamespaceEdge[], from: string, to: string): string[] | null {
+  if (from === to) return [from, to];
+
+  const adjacency = new Map<string, string[]>();
+  edges.forEach(edge => {
+    if (!adjacency.has(edge.from_namespace)) adjacency.set(edge.from_namespace, []);
+    adjacency.get(edge.from_namespace)!.push(edge.to_namespace);
+  });
+
+  const previous = new Map<string, string>();
+  const queue = [to];
+  const visited = new Set([to]);
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (current === from) {
+      const path = [from];
+      let step = from;
+      while (step !== to) {
+        step = previous.get(step)!;
+        path.unshift(step);
+      }
+      return [from, ...path];
+    }
+
+    (adjacency.get(current) || []).forEach(next => {
+      if (!visited.has(next)) {
+        visited.add(next);
+        previous.set(next, current);
+        queue.push(next);
+      }
+    });
+  }
+
+  return null;
+}
+
+/**
+ * Cycle warnings for each dependency when added on top of the others
+ */
+export function describeCycles(edges: NamespaceEdge[], candidates: NamespaceEdge[]): string[] {
+  const warnings: string[] = [];
+  const seen = new Set<string>();
+
+  candidates.forEach(candidate => {
+    const others = edges.filter(edge =>
+      !(edge.from_namespace === candidate.from_namespace && edge.to_namespace === candidate.to_namespace)
+    );
+    const cycle = findNamespaceCycle(others, candidate.from_namespace, candidate.to_namespace);
+    if (!cycle) return;
+
+    // The same cycle is reported once however many of its edges are being checked
+    const key = [...new Set(cycle)].sort().join(',');
+    if (seen.has(key)) return;
+    seen.add(key);
+
+    warnings.push(`Creates a dependency cycle: ${cycle.join(' -> ')}`);
+  });
+
+  return warnings;
+}
+
+/**
+ * Parse a bulk import body: a JSON array, an object with a `dependencies` array, or the same shapes as YAML text
+ */
+export function parseNamespaceDependencyImport(body: any): { dependencies: any[] | null; error?: string } {
+  let parsed = body;
+
+  if (typeof body === 'string') {
+    try {
+      parsed = yaml.load(body);
+    } catch (error) {
+      return { dependencies: null, error: `Invalid YAML: ${error instanceof Error ? error.message : 'parse error'}` };
+    }
+  }
+
+  if (Array.isArray(parsed)) {
+    return { dependencies: parsed };
+  }
+
+  if (parsed && typeof parsed === 'object' && Array.isArray(parsed.dependencies)) {
+    return { dependencies: parsed.dependencies };
+  }
+
+  return { dependencies: null, error: 'Expected a list of dependencies or an object with a dependencies list' };
+}
+
+/**
+ * Serialise dependencies for export in the same shape the import accepts
+ */
+export function formatNamespaceDependencyExport(rows: any[], format: 'json' | 'yaml'): string {
+  const document = {
+    dependencies: rows.map(row => ({
+      from_namespace: row.from_namespace,
+      to_namespace: row.to_namespace,
+      dependency_type: row.dependency_type || 'manual',
+      ...(row.description ? { description: row.description } : {})
+    }))
+  };
+
+  return format === 'yaml' ? yaml.dump(document) : JSON.stringify(document, null, 2);
+}
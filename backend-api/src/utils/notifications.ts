@@ -0,0 +1,528 @@
+import { PoolClient } from 'pg';
+import nodemailer from 'nodemailer';
+import { Logger } from './logger';
+import { ValidationResult } from './validation';
+import { notSilencedCondition } from './alertSilences';
+import { NotificationConfig } from '../config/notifications';
+
+/**
+ * Outbound notifications
+ *
+ * Incident events are matched against notification rules inside the transaction that produced
+ * them, and a pending delivery is queued per matching channel. The NotificationDispatcher sends
+ * queued deliveries and retries failures, so a slow or broken channel never holds up ingestion.
+ */
+
+export const NOTIFICATION_EVENTS = [
+  'incident_created', 'incident_resolved', 'incident_acknowledged', 'incident_escalated'
+] as const;
+export const CHANNEL_TYPES = ['webhook', 'slack', 'email'] as const;
+
+export type NotificationEvent = typeof NOTIFICATION_EVENTS[number];
+export type ChannelType = typeof CHANNEL_TYPES[number];
+
+export interface NotificationChannel {
+  id: number;
+  name: string;
+  channel_type: ChannelType;
+  config: Record<string, any>;
+  enabled: boolean;
+}
+
+export interface NotificationRule {
+  id: number;
+  name: string;
+  channel_id: number;
+  match_namespaces: string[];
+  match_teams: string[];
+  match_severities: string[];
+  events: NotificationEvent[];
+  enabled: boolean;
+}
+
+export interface NotificationPayload {
+  event: NotificationEvent | 'test';
+  incident: {
+    id: number;
+    service_namespace: string;
+    service_name: string;
+    instance_id: string | null;
+    severity: string;
+    message: string;
+    status: string;
+    team: string | null;
+    incident_start: string;
+    incident_end: string | null;
+    acknowledged_at: string | null;
+    acknowledged_by: string | null;
+    resolved_by: string | null;
+    escalation_level: number;
+    runbook_url: string | null;
+    generator_url: string | null;
+    labels: Record<string, string>;
+  } | null;
+  occurred_at: string;
+  details?: Record<string, any>;
+}
+
+export interface EnqueueOptions {
+  // Extra context sent with the payload (e.g. the escalation level)
+  details?: Record<string, any>;
+  // Channels that receive the event whether or not a rule routes it there (escalation targets)
+  channelIds?: number[];
+}
+
+export interface DeliveryResult {
+  responseStatus: number | null;
+}
+
+/**
+ * Raised when a channel rejects or cannot receive a notification
+ */
+export class NotificationDeliveryError extends Error {
+  constructor(message: string, public readonly responseStatus: number | null = null) {
+    super(message);
+    this.name = 'NotificationDeliveryError';
+  }
+}
+
+const VALID_SEVERITIES = ['fatal', 'critical', 'warning', 'none'];
+const MAX_NAME_LENGTH = 255;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const SEVERITY_COLORS: Record<string, string> = {
+  fatal: '#722ed1',
+  critical: '#f5222d',
+  warning: '#fa8c16',
+  none: '#1890ff'
+};
+
+const EVENT_LABELS: Record<NotificationPayload['event'], string> = {
+  incident_created: 'FIRING',
+  incident_resolved: 'RESOLVED',
+  incident_acknowledged: 'ACKNOWLEDGED',
+  incident_escalated: 'ESCALATED',
+  test: 'TEST'
+};
+
+function isHttpUrl(value: unknown): boolean {
+  if (typeof value !== 'string') return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string' && item.trim() !== '');
+}
+
+function validateChannelConfig(channelType: ChannelType, config: any, errors: string[]): void {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    errors.push('config must be an object');
+    return;
+  }
+
+  if (channelType === 'webhook' || channelType === 'slack') {
+    if (!isHttpUrl(config.url)) {
+      errors.push('config.url must be an http(s) URL');
+    }
+  }
+
+  if (channelType === 'webhook' && config.headers !== undefined) {
+    const headers = config.headers;
+    if (!headers || typeof headers !== 'object' || Array.isArray(headers) ||
+        Object.values(headers).some(value => typeof value !== 'string')) {
+      errors.push('config.headers must be an object of string values');
+    }
+  }
+
+  if (channelType === 'email') {
+    const recipients = typeof config.to === 'string' ? [config.to] : config.to;
+    if (!isStringArray(recipients) || recipients.length === 0) {
+      errors.push('config.to must be an email address or a non-empty array of them');
+    } else if (recipients.some(address => !EMAIL_PATTERN.test(address))) {
+      errors.push('config.to contains an invalid email address');
+    }
+    if (config.from !== undefined && (typeof config.from !== 'string' || !EMAIL_PATTERN.test(config.from))) {
+      errors.push('config.from must be an email address');
+    }
+  }
+}
+
+/**
+ * Validate a channel body; config is checked against the fields its channel type needs
+ */
+export function validateChannel(input: any): ValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { isValid: false, errors: ['Body must be an object'], warnings };
+  }
+
+  if (typeof input.name !== 'string' || input.name.trim() === '') {
+    errors.push('name is required and must be a non-empty string');
+  } else if (input.name.length > MAX_NAME_LENGTH) {
+    errors.push(`name exceeds maximum length of ${MAX_NAME_LENGTH} characters`);
+  }
+
+  if (!CHANNEL_TYPES.includes(input.channel_type)) {
+    errors.push(`channel_type must be one of: ${CHANNEL_TYPES.join(', ')}`);
+  } else {
+    validateChannelConfig(input.channel_type, input.config, errors);
+  }
+
+  if (input.enabled !== undefined && typeof input.enabled !== 'boolean') {
+    errors.push('enabled must be a boolean');
+  }
+
+  if (input.channel_type === 'webhook' && isHttpUrl(input.config?.url) && input.config.url.startsWith('http:')) {
+    warnings.push('Webhook URL is not HTTPS - notification payloads will be sent unencrypted');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings
+  };
+}
+
+/**
+ * Validate a routing rule body. Empty match arrays match every namespace, team or severity.
+ */
+export function validateRule(input: any): ValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { isValid: false, errors: ['Body must be an object'], warnings };
+  }
+
+  if (typeof input.name !== 'string' || input.name.trim() === '') {
+    errors.push('name is required and must be a non-empty string');
+  } else if (input.name.length > MAX_NAME_LENGTH) {
+    errors.push(`name exceeds maximum length of ${MAX_NAME_LENGTH} characters`);
+  }
+
+  if (!Number.isInteger(input.channel_id) || input.channel_id <= 0) {
+    errors.push('channel_id is required and must be a positive integer');
+  }
+
+  (['match_namespaces', 'match_teams', 'match_severities'] as const).forEach(field => {
+    const value = input[field];
+    if (value !== undefined && value !== null && !isStringArray(value)) {
+      errors.push(`${field} must be an array of non-empty strings`);
+    }
+  });
+
+  if (isStringArray(input.match_severities)) {
+    const invalid = input.match_severities.filter((severity: string) => !VALID_SEVERITIES.includes(severity));
+    if (invalid.length > 0) {
+      errors.push(`match_severities contains invalid values (${invalid.join(', ')}) - expected ${VALID_SEVERITIES.join(', ')}`);
+    }
+  }
+
+  if (input.events !== undefined && input.events !== null) {
+    if (!isStringArray(input.events) || input.events.length === 0) {
+      errors.push('events must be a non-empty array');
+    } else {
+      const invalid = input.events.filter((event: string) => !(NOTIFICATION_EVENTS as readonly string[]).includes(event));
+      if (invalid.length > 0) {
+        errors.push(`events contains invalid values (${invalid.join(', ')}) - expected ${NOTIFICATION_EVENTS.join(', ')}`);
+      }
+    }
+  }
+
+  if (input.enabled !== undefined && typeof input.enabled !== 'boolean') {
+    errors.push('enabled must be a boolean');
+  }
+
+  const scoped = ['match_namespaces', 'match_teams', 'match_severities']
+    .some(field => Array.isArray(input[field]) && input[field].length > 0);
+  if (!scoped) {
+    warnings.push('No namespace, team or severity matcher - every incident event will be sent to this channel');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings
+  };
+}
+
+export function ruleMatches(
+  rule: NotificationRule,
+  event: NotificationEvent,
+  incident: { service_namespace: string; team: string | null; severity: string }
+): boolean {
+  if (!rule.events.includes(event)) return false;
+  if (rule.match_namespaces.length > 0 && !rule.match_namespaces.includes(incident.service_namespace)) return false;
+  if (rule.match_teams.length > 0 && !rule.match_teams.includes(incident.team || '')) return false;
+  if (rule.match_severities.length > 0 && !rule.match_severities.includes(incident.severity)) return false;
+  return true;
+}
+
+function toIso(value: Date | string | null): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
+/**
+ * Queue a delivery on every enabled channel with a rule matching this incident event, plus any
+ * channels named in options.channelIds. Runs inside the caller's transaction; incidents muted by
+ * an active silence are skipped. Returns the number of deliveries queued.
+ */
+export async function enqueueIncidentNotifications(
+  client: PoolClient,
+  incidentId: number,
+  event: NotificationEvent,
+  logger: Logger,
+  options: EnqueueOptions = {}
+): Promise<number> {
+  const targetChannelIds = options.channelIds || [];
+  const rulesResult = await client.query(`
+    SELECT r.id, r.name, r.channel_id, r.match_namespaces, r.match_teams, r.match_severities, r.events, r.enabled
+    FROM notification_rules r
+    JOIN notification_channels c ON c.id = r.channel_id
+    WHERE r.enabled = true AND c.enabled = true AND $1 = ANY(r.events)
+    ORDER BY r.id
+  `, [event]);
+
+  const targetsResult = targetChannelIds.length > 0
+    ? await client.query('SELECT id FROM notification_channels WHERE id = ANY($1::int[]) AND enabled = true', [targetChannelIds])
+    : { rows: [] };
+
+  if (rulesResult.rows.length === 0 && targetsResult.rows.length === 0) return 0;
+
+  const incidentResult = await client.query(`
+    SELECT i.id, i.service_namespace, i.service_name, i.instance_id, i.severity, i.message, i.status,
+           i.incident_start, i.incident_end, i.acknowledged_at, i.acknowledged_by, i.resolved_by, i.escalation_level,
+           i.runbook_url, i.generator_url, COALESCE(i.labels, '{}') AS labels, s.team,
+           ${notSilencedCondition('i')} AS not_silenced
+    FROM alert_incidents i
+    LEFT JOIN services s ON s.service_namespace = i.service_namespace AND s.service_name = i.service_name
+    WHERE i.id = $1
+  `, [incidentId]);
+
+  const incident = incidentResult.rows[0];
+  if (!incident) return 0;
+
+  if (!incident.not_silenced) {
+    logger.info({ incidentId, event }, 'Incident is silenced, skipping notifications');
+    return 0;
+  }
+
+  // One delivery per channel, attributed to the first rule that routed the event there
+  const channelRules = new Map<number, number | null>();
+  targetsResult.rows.forEach((row: { id: number }) => channelRules.set(row.id, null));
+  (rulesResult.rows as NotificationRule[])
+    .filter(rule => ruleMatches(rule, event, incident))
+    .forEach(rule => {
+      if (!channelRules.has(rule.channel_id)) channelRules.set(rule.channel_id, rule.id);
+    });
+
+  if (channelRules.size === 0) return 0;
+
+  const payload: NotificationPayload = {
+    event,
+    incident: {
+      id: incident.id,
+      service_namespace: incident.service_namespace,
+      service_name: incident.service_name,
+      instance_id: incident.instance_id,
+      severity: incident.severity,
+      message: incident.message,
+      status: incident.status,
+      team: incident.team || null,
+      incident_start: toIso(incident.incident_start)!,
+      incident_end: toIso(incident.incident_end),
+      acknowledged_at: toIso(incident.acknowledged_at),
+      acknowledged_by: incident.acknowledged_by,
+      resolved_by: incident.resolved_by,
+      escalation_level: incident.escalation_level,
+      runbook_url: incident.runbook_url,
+      generator_url: incident.generator_url,
+      labels: incident.labels
+    },
+    occurred_at: new Date().toISOString(),
+    ...(options.details ? { details: options.details } : {})
+  };
+
+  for (const [channelId, ruleId] of channelRules) {
+    await client.query(`
+      INSERT INTO notification_deliveries (channel_id, rule_id, incident_id, event_type, payload)
+      VALUES ($1, $2, $3, $4, $5)
+    `, [channelId, ruleId, incidentId, event, JSON.stringify(payload)]);
+  }
+
+  logger.info({ incidentId, event, channels: channelRules.size }, 'Queued incident notifications');
+
+  return channelRules.size;
+}
+
+/**
+ * Payload for the "send test" endpoint
+ */
+export function buildTestPayload(channel: NotificationChannel): NotificationPayload {
+  return {
+    event: 'test',
+    incident: null,
+    occurred_at: new Date().toISOString(),
+    details: { message: `Test notification for channel '${channel.name}'` }
+  };
+}
+
+function describeIncident(payload: NotificationPayload): string {
+  const incident = payload.incident;
+  if (!incident) {
+    return payload.details?.message || 'Olana notification';
+  }
+  return `${incident.service_namespace}::${incident.service_name} - ${incident.message}`;
+}
+
+export function formatSubject(payload: NotificationPayload): string {
+  const severity = payload.incident ? ` [${payload.incident.severity.toUpperCase()}]` : '';
+  return `[${EVENT_LABELS[payload.event]}]${severity} ${describeIncident(payload)}`;
+}
+
+/**
+ * Plain-text body shared by the email and Slack formats
+ */
+export function formatText(payload: NotificationPayload): string {
+  const incident = payload.incident;
+  if (!incident) {
+    return `${describeIncident(payload)}\nSent at ${payload.occurred_at}`;
+  }
+
+  const lines = [
+    `${EVENT_LABELS[payload.event]}: ${describeIncident(payload)}`,
+    `Severity: ${incident.severity}`,
+    `Instance: ${incident.instance_id || '-'}`,
+    `Team: ${incident.team || '-'}`,
+    `Started: ${incident.incident_start}`
+  ];
+
+  if (incident.incident_end) lines.push(`Resolved: ${incident.incident_end}${incident.resolved_by ? ` by ${incident.resolved_by}` : ''}`);
+  // An escalation payload names the level it was sent for, which may be below the incident's current one
+  const escalationLevel = payload.details?.level ?? incident.escalation_level;
+  if (escalationLevel > 0) {
+    const policy = payload.details?.escalation_policy ? ` (${payload.details.escalation_policy})` : '';
+    lines.push(`Escalation: level ${escalationLevel}${policy}`);
+  }
+  if (payload.details?.note) lines.push(`Note: ${payload.details.note}`);
+  if (incident.acknowledged_at) lines.push(`Acknowledged: ${incident.acknowledged_at} by ${incident.acknowledged_by || 'unknown'}`);
+  if (incident.runbook_url) lines.push(`Runbook: ${incident.runbook_url}`);
+  if (incident.generator_url) lines.push(`Source: ${incident.generator_url}`);
+
+  return lines.join('\n');
+}
+
+function slackBody(payload: NotificationPayload): Record<string, any> {
+  const color = payload.event === 'incident_resolved'
+    ? '#52c41a'
+    : SEVERITY_COLORS[payload.incident?.severity || 'none'] || SEVERITY_COLORS.none;
+
+  return {
+    text: formatSubject(payload),
+    attachments: [{
+      color,
+      text: formatText(payload)
+    }]
+  };
+}
+
+async function postJson(
+  url: string,
+  body: unknown,
+  headers: Record<string, string>,
+  timeoutMs: number
+): Promise<DeliveryResult> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(timeoutMs)
+    });
+  } catch (error) {
+    // fetch reports network failures as "fetch failed" with the socket error as the cause
+    const cause = (error as { cause?: { code?: string } })?.cause?.code;
+    const reason = error instanceof Error && error.name === 'TimeoutError'
+      ? `timed out after ${timeoutMs}ms`
+      : cause || (error instanceof Error ? error.message : 'request failed');
+    throw new NotificationDeliveryError(`POST ${new URL(url).host} ${reason}`);
+  }
+
+  if (!response.ok) {
+    const text = (await response.text().catch(() => '')).slice(0, 200);
+    throw new NotificationDeliveryError(
+      `POST ${new URL(url).host} returned ${response.status}${text ? `: ${text}` : ''}`,
+      response.status
+    );
+  }
+
+  return { responseStatus: response.status };
+}
+
+async function sendEmail(
+  channel: NotificationChannel,
+  payload: NotificationPayload,
+  config: NotificationConfig
+): Promise<DeliveryResult> {
+  const smtp = config.smtp;
+  const transport = nodemailer.createTransport({
+    host: smtp.host,
+    port: smtp.port,
+    secure: smtp.secure,
+    ...(smtp.user ? { auth: { user: smtp.user, pass: smtp.password } } : {}),
+    connectionTimeout: config.requestTimeoutMs,
+    greetingTimeout: config.requestTimeoutMs,
+    socketTimeout: config.requestTimeoutMs
+  });
+
+  try {
+    await transport.sendMail({
+      from: channel.config.from || smtp.from,
+      to: channel.config.to,
+      subject: formatSubject(payload),
+      text: formatText(payload)
+    });
+    return { responseStatus: null };
+  } catch (error) {
+    throw new NotificationDeliveryError(
+      `SMTP ${smtp.host}:${smtp.port} ${error instanceof Error ? error.message : 'send failed'}`
+    );
+  } finally {
+    transport.close();
+  }
+}
+
+/**
+ * Send a payload to a channel in the channel's format. Throws NotificationDeliveryError on failure.
+ */
+export async function sendNotification(
+  channel: NotificationChannel,
+  payload: NotificationPayload,
+  config: NotificationConfig
+): Promise<DeliveryResult> {
+  switch (channel.channel_type) {
+    case 'webhook':
+      return postJson(channel.config.url, payload, channel.config.headers || {}, config.requestTimeoutMs);
+    case 'slack':
+      return postJson(channel.config.url, slackBody(payload), {}, config.requestTimeoutMs);
+    case 'email':
+      return sendEmail(channel, payload, config);
+    default:
+      throw new NotificationDeliveryError(`Unsupported channel type: ${channel.channel_type}`);
+  }
+}
+
+/**
+ * Delay before the next attempt: retryBaseSeconds, doubling per attempt already made
+ */
+export function retryDelaySeconds(attempts: number, retryBaseSeconds: number): number {
+  return retryBaseSeconds * Math.pow(2, Math.max(0, attempts - 1));
+}
@@ -0,0 +1,483 @@
+import { OtlpConfig } from '../config/otlp';
+
+// Normalised view of OTLP trace data, independent of the wire encoding (JSON or protobuf)
+
+export type OtlpAttributeValue =
+  | string
+  | number
+  | boolean
+  | null
+  | OtlpAttributeValue[]
+  | { [key: string]: OtlpAttributeValue };
+
+export type OtlpAttributes = Record<string, OtlpAttributeValue>;
+
+export const SPAN_KIND = {
+  UNSPECIFIED: 0,
+  INTERNAL: 1,
+  SERVER: 2,
+  CLIENT: 3,
+  PRODUCER: 4,
+  CONSUMER: 5
+} as const;
+
+export const SPAN_STATUS_CODE = {
+  UNSET: 0,
+  OK: 1,
+  ERROR: 2
+} as const;
+
+export interface OtlpSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId: string;
+  name: string;
+  kind: number;
+  startTimeUnixNano: bigint;
+  endTimeUnixNano: bigint;
+  attributes: OtlpAttributes;
+  statusCode: number;
+}
+
+export interface OtlpResourceSpans {
+  resource: OtlpAttributes;
+  spans: OtlpSpan[];
+}
+
+export interface OtlpServiceIdentity {
+  service_namespace: string;
+  service_name: string;
+  environment?: string;
+  team?: string;
+}
+
+export interface OtlpObservedService extends OtlpServiceIdentity {
+  spans: OtlpSpan[];
+}
+
+export interface OtlpDependency {
+  from: OtlpServiceIdentity;
+  to: OtlpServiceIdentity;
+  callCount: number;
+  errorCount: number;
+  // Durations of the callee's spans for this edge, used for latency percentiles
+  durationsMs: number[];
+}
+
+export interface OtlpTopology {
+  services: OtlpObservedService[];
+  dependencies: OtlpDependency[];
+  // traceId:spanId of spans whose children run in another service (internal calls)
+  crossServiceSpanIds: Set<string>;
+  spanCount: number;
+  unresolvedParents: number;
+}
+
+// ---------------------------------------------------------------------------
+// JSON decoding (OTLP/HTTP with Content-Type: application/json)
+// ---------------------------------------------------------------------------
+
+const SPAN_KIND_NAMES: Record<string, number> = {
+  SPAN_KIND_UNSPECIFIED: SPAN_KIND.UNSPECIFIED,
+  SPAN_KIND_INTERNAL: SPAN_KIND.INTERNAL,
+  SPAN_KIND_SERVER: SPAN_KIND.SERVER,
+  SPAN_KIND_CLIENT: SPAN_KIND.CLIENT,
+  SPAN_KIND_PRODUCER: SPAN_KIND.PRODUCER,
+  SPAN_KIND_CONSUMER: SPAN_KIND.CONSUMER
+};
+
+const STATUS_CODE_NAMES: Record<string, number> = {
+  STATUS_CODE_UNSET: SPAN_STATUS_CODE.UNSET,
+  STATUS_CODE_OK: SPAN_STATUS_CODE.OK,
+  STATUS_CODE_ERROR: SPAN_STATUS_CODE.ERROR
+};
+
+/**
+ * Parse an OTLP JSON ExportTraceServiceRequest into normalised resource spans
+ */
+export function parseOtlpJson(body: any): OtlpResourceSpans[] {
+  if (!body || typeof body !== 'object' || !Array.isArray(body.resourceSpans)) {
+    throw new Error('Invalid OTLP payload - missing resourceSpans array');
+  }
+
+  return body.resourceSpans.map((resourceSpans: any) => {
+    // scopeSpans replaced instrumentationLibrarySpans in OTLP 0.15; accept both
+    const scopes: any[] = resourceSpans?.scopeSpans || resourceSpans?.instrumentationLibrarySpans || [];
+
+    return {
+      resource: jsonAttributes(resourceSpans?.resource?.attributes),
+      spans: scopes.flatMap(scope => (scope?.spans || []).map(jsonSpan))
+    };
+  });
+}
+
+function jsonSpan(span: any): OtlpSpan {
+  return {
+    traceId: String(span?.traceId || ''),
+    spanId: String(span?.spanId || ''),
+    parentSpanId: String(span?.parentSpanId || ''),
+    name: String(span?.name || ''),
+    kind: jsonEnum(span?.kind, SPAN_KIND_NAMES),
+    startTimeUnixNano: jsonNanos(span?.startTimeUnixNano),
+    endTimeUnixNano: jsonNanos(span?.endTimeUnixNano),
+    attributes: jsonAttributes(span?.attributes),
+    statusCode: jsonEnum(span?.status?.code, STATUS_CODE_NAMES)
+  };
+}
+
+function jsonEnum(value: any, names: Record<string, number>): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') {
+    if (value in names) return names[value];
+    const parsed = parseInt(value);
+    return isNaN(parsed) ? 0 : parsed;
+  }
+  return 0;
+}
+
+function jsonNanos(value: any): bigint {
+  if (value === undefined || value === null || value === '') return BigInt(0);
+  try {
+    return BigInt(typeof value === 'number' ? Math.trunc(value) : String(value));
+  } catch {
+    return BigInt(0);
+  }
+}
+
+function jsonAttributes(keyValues: any): OtlpAttributes {
+  const attributes: OtlpAttributes = {};
+  if (!Array.isArray(keyValues)) return attributes;
+
+  for (const kv of keyValues) {
+    if (kv && typeof kv.key === 'string') {
+      attributes[kv.key] = jsonAnyValue(kv.value);
+    }
+  }
+  return attributes;
+}
+
+function jsonAnyValue(value: any): OtlpAttributeValue {
+  if (!value || typeof value !== 'object') return null;
+
+  if (value.stringValue !== undefined) return String(value.stringValue);
+  if (value.boolValue !== undefined) return Boolean(value.boolValue);
+  if (value.intValue !== undefined) return Number(value.intValue);
+  if (value.doubleValue !== undefined) return Number(value.doubleValue);
+  if (value.arrayValue !== undefined) return (value.arrayValue?.values || []).map(jsonAnyValue);
+  if (value.kvlistValue !== undefined) return jsonAttributes(value.kvlistValue?.values);
+  if (value.bytesValue !== undefined) return String(value.bytesValue);
+
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Protobuf decoding (OTLP/HTTP with Content-Type: application/x-protobuf)
+//
+// Only the handful of messages needed to derive topology are decoded; unknown
+// fields are skipped so newer collector versions keep working.
+// ---------------------------------------------------------------------------
+
+type ProtoField =
+  | { field: number; wireType: 0; value: bigint }
+  | { field: number; wireType: 1 | 2 | 5; value: Buffer };
+
+function readVarint(buf: Buffer, offset: number): { value: bigint; offset: number } {
+  let result = BigInt(0);
+  let shift = BigInt(0);
+
+  while (offset < buf.length) {
+    const byte = buf[offset++];
+    result |= BigInt(byte & 0x7f) << shift;
+    if ((byte & 0x80) === 0) {
+      return { value: result, offset };
+    }
+    shift += BigInt(7);
+    if (shift > BigInt(63)) {
+      throw new Error('Invalid OTLP protobuf - varint too long');
+    }
+  }
+
+  throw new Error('Invalid OTLP protobuf - truncated varint');
+}
+
+function readFields(buf: Buffer): ProtoField[] {
+  const fields: ProtoField[] = [];
+  let offset = 0;
+
+  while (offset < buf.length) {
+    const tag = readVarint(buf, offset);
+    offset = tag.offset;
+
+    const field = Number(tag.value >> BigInt(3));
+    const wireType = Number(tag.value & BigInt(7));
+
+    switch (wireType) {
+      case 0: {
+        const varint = readVarint(buf, offset);
+        offset = varint.offset;
+        fields.push({ field, wireType: 0, value: varint.value });
+        break;
+      }
+      case 1:
+      case 5: {
+        const size = wireType === 1 ? 8 : 4;
+        if (offset + size > buf.length) {
+          throw new Error('Invalid OTLP protobuf - truncated fixed-width field');
+        }
+        fields.push({ field, wireType, value: buf.subarray(offset, offset + size) });
+        offset += size;
+        break;
+      }
+      case 2: {
+        const length = readVarint(buf, offset);
+        offset = length.offset;
+        const end = offset + Number(length.value);
+        if (end > buf.length) {
+          throw new Error('Invalid OTLP protobuf - truncated length-delimited field');
+        }
+        fields.push({ field, wireType: 2, value: buf.subarray(offset, end) });
+        offset = end;
+        break;
+      }
+      default:
+        throw new Error(`Invalid OTLP protobuf - unsupported wire type ${wireType}`);
+    }
+  }
+
+  return fields;
+}
+
+/**
+ * Decode a protobuf ExportTraceServiceRequest into normalised resource spans
+ */
+export function decodeOtlpProtobuf(buf: Buffer): OtlpResourceSpans[] {
+  return readFields(buf)
+    .filter(f => f.field === 1 && f.wireType === 2)
+    .map(f => protoResourceSpans(f.value as Buffer));
+}
+
+function protoResourceSpans(buf: Buffer): OtlpResourceSpans {
+  const result: OtlpResourceSpans = { resource: {}, spans: [] };
+
+  for (const f of readFields(buf)) {
+    if (f.wireType !== 2) continue;
+
+    if (f.field === 1) {
+      // Resource { repeated KeyValue attributes = 1; }
+      for (const rf of readFields(f.value)) {
+        if (rf.field === 1 && rf.wireType === 2) {
+          protoKeyValue(rf.value, result.resource);
+        }
+      }
+    } else if (f.field === 2 || f.field === 1000) {
+      // ScopeSpans { repeated Span spans = 2; } (1000 = legacy instrumentation_library_spans)
+      for (const sf of readFields(f.value)) {
+        if (sf.field === 2 && sf.wireType === 2) {
+          result.spans.push(protoSpan(sf.value));
+        }
+      }
+    }
+  }
+
+  return result;
+}
+
+function protoSpan(buf: Buffer): OtlpSpan {
+  const span: OtlpSpan = {
+    traceId: '',
+    spanId: '',
+    parentSpanId: '',
+    name: '',
+    kind: SPAN_KIND.UNSPECIFIED,
+    startTimeUnixNano: BigInt(0),
+    endTimeUnixNano: BigInt(0),
+    attributes: {},
+    statusCode: SPAN_STATUS_CODE.UNSET
+  };
+
+  for (const f of readFields(buf)) {
+    if (f.wireType === 0) {
+      if (f.field === 6) span.kind = Number(f.value);
+      continue;
+    }
+
+    switch (f.field) {
+      case 1: span.traceId = f.value.toString('hex'); break;
+      case 2: span.spanId = f.value.toString('hex'); break;
+      case 4: span.parentSpanId = f.value.toString('hex'); break;
+      case 5: span.name = f.value.toString('utf8'); break;
+      case 7: if (f.wireType === 1) span.startTimeUnixNano = f.value.readBigUInt64LE(0); break;
+      case 8: if (f.wireType === 1) span.endTimeUnixNano = f.value.readBigUInt64LE(0); break;
+      case 9: if (f.wireType === 2) protoKeyValue(f.value, span.attributes); break;
+      case 15:
+        // Status { string message = 2; StatusCode code = 3; }
+        for (const sf of readFields(f.value)) {
+          if (sf.field === 3 && sf.wireType === 0) span.statusCode = Number(sf.value);
+        }
+        break;
+    }
+  }
+
+  return span;
+}
+
+function protoKeyValue(buf: Buffer, target: OtlpAttributes): void {
+  let key: string | undefined;
+  let value: OtlpAttributeValue = null;
+
+  for (const f of readFields(buf)) {
+    if (f.wireType !== 2) continue;
+    if (f.field === 1) key = f.value.toString('utf8');
+    if (f.field === 2) value = protoAnyValue(f.value);
+  }
+
+  if (key !== undefined) {
+    target[key] = value;
+  }
+}
+
+function protoAnyValue(buf: Buffer): OtlpAttributeValue {
+  let value: OtlpAttributeValue = null;
+
+  for (const f of readFields(buf)) {
+    switch (f.field) {
+      case 1: if (f.wireType === 2) value = f.value.toString('utf8'); break;
+      case 2: if (f.wireType === 0) value = f.value !== BigInt(0); break;
+      case 3: if (f.wireType === 0) value = Number(BigInt.asIntN(64, f.value)); break;
+      case 4: if (f.wireType === 1) value = f.value.readDoubleLE(0); break;
+      case 5:
+        // ArrayValue { repeated AnyValue values = 1; }
+        if (f.wireType === 2) {
+          value = readFields(f.value)
+            .filter(af => af.field === 1 && af.wireType === 2)
+            .map(af => protoAnyValue(af.value as Buffer));
+        }
+        break;
+      case 6:
+        // KeyValueList { repeated KeyValue values = 1; }
+        if (f.wireType === 2) {
+          const kvlist: OtlpAttributes = {};
+          for (const kf of readFields(f.value)) {
+            if (kf.field === 1 && kf.wireType === 2) protoKeyValue(kf.value, kvlist);
+          }
+          value = kvlist;
+        }
+        break;
+      case 7: if (f.wireType === 2) value = f.value.toString('base64'); break;
+    }
+  }
+
+  return value;
+}
+
+// ---------------------------------------------------------------------------
+// Topology derivation
+// ---------------------------------------------------------------------------
+
+/**
+ * Read a string attribute, ignoring empty and non-string values
+ */
+export function getStringAttribute(attributes: OtlpAttributes, ...keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = attributes[key];
+    if (typeof value === 'string' && value.trim() !== '') {
+      return value.trim();
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Resolve the Olana service identity from OTel resource attributes
+ */
+export function resolveServiceIdentity(resource: OtlpAttributes, config: OtlpConfig): OtlpServiceIdentity {
+  return {
+    // SDKs report unknown_service[:process] when service.name is not configured
+    service_name: getStringAttribute(resource, 'service.name') || 'unknown_service',
+    service_namespace: getStringAttribute(resource, 'service.namespace') || config.defaultNamespace,
+    environment: getStringAttribute(resource, 'deployment.environment.name', 'deployment.environment'),
+    team: getStringAttribute(resource, ...config.teamAttributes)
+  };
+}
+
+/**
+ * Span duration in milliseconds (0 when timestamps are missing or inverted)
+ */
+export function spanDurationMs(span: OtlpSpan): number {
+  if (span.endTimeUnixNano <= span.startTimeUnixNano) return 0;
+  return Number(span.endTimeUnixNano - span.startTimeUnixNano) / 1e6;
+}
+
+/**
+ * Walk span parent/child links and derive service-to-service dependencies.
+ * A dependency is recorded whenever a span's parent belongs to a different service;
+ * parents outside the current export batch cannot be resolved and are counted only.
+ */
+export function deriveTopology(resourceSpans: OtlpResourceSpans[], config: OtlpConfig): OtlpTopology {
+  const services = new Map<string, OtlpObservedService>();
+  const spanOwners = new Map<string, string>();
+  const ownedSpans: { span: OtlpSpan; serviceKey: string }[] = [];
+
+  for (const rs of resourceSpans) {
+    const identity = resolveServiceIdentity(rs.resource, config);
+    const serviceKey = `${identity.service_namespace}::${identity.service_name}`;
+
+    let service = services.get(serviceKey);
+    if (!service) {
+      service = { ...identity, spans: [] };
+      services.set(serviceKey, service);
+    } else {
+      service.environment = service.environment || identity.environment;
+      service.team = service.team || identity.team;
+    }
+
+    for (const span of rs.spans) {
+      spanOwners.set(`${span.traceId}:${span.spanId}`, serviceKey);
+      ownedSpans.push({ span, serviceKey });
+      service.spans.push(span);
+    }
+  }
+
+  const dependencies = new Map<string, OtlpDependency>();
+  const crossServiceSpanIds = new Set<string>();
+  let unresolvedParents = 0;
+
+  for (const { span, serviceKey } of ownedSpans) {
+    if (!span.parentSpanId) continue;
+
+    const parentKey = spanOwners.get(`${span.traceId}:${span.parentSpanId}`);
+    if (!parentKey) {
+      unresolvedParents++;
+      continue;
+    }
+    if (parentKey === serviceKey) continue;
+
+    crossServiceSpanIds.add(`${span.traceId}:${span.parentSpanId}`);
+
+    const edgeKey = `${parentKey}-->${serviceKey}`;
+    let edge = dependencies.get(edgeKey);
+    if (!edge) {
+      edge = {
+        from: services.get(parentKey)!,
+        to: services.get(serviceKey)!,
+        callCount: 0,
+        errorCount: 0,
+        durationsMs: []
+      };
+      dependencies.set(edgeKey, edge);
+    }
+
+    edge.callCount++;
+    if (span.statusCode === SPAN_STATUS_CODE.ERROR) edge.errorCount++;
+    const durationMs = spanDurationMs(span);
+    if (durationMs > 0) edge.durationsMs.push(durationMs);
+  }
+
+  return {
+    services: Array.from(services.values()),
+    dependencies: Array.from(dependencies.values()),
+    crossServiceSpanIds,
+    spanCount: ownedSpans.length,
+    unresolvedParents
+  };
+}
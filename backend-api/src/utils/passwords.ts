@@ -0,0 +1,43 @@
+import { scrypt, randomBytes, timingSafeEqual, ScryptOptions } from 'crypto';
+
+/**
+ * Password hashing with scrypt. Hashes are stored as scrypt$N$r$p$salt$hash (salt and hash
+ * base64) so the cost parameters can be raised later without invalidating existing passwords.
+ */
+
+const COST = 16384;
+const BLOCK_SIZE = 8;
+const PARALLELIZATION = 1;
+const KEY_LENGTH = 64;
+const SALT_BYTES = 16;
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+function deriveKey(password: string, salt: Buffer, options: ScryptOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, options, (error, key) => {
+      if (error) reject(error);
+      else resolve(key);
+    });
+  });
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES);
+  const key = await deriveKey(password, salt, { N: COST, r: BLOCK_SIZE, p: PARALLELIZATION });
+
+  return ['scrypt', COST, BLOCK_SIZE, PARALLELIZATION, salt.toString('base64'), key.toString('base64')].join('$');
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [algorithm, cost, blockSize, parallelization, salt, hash] = stored.split('$');
+  const options = { N: parseInt(cost), r: parseInt(blockSize), p: parseInt(parallelization) };
+  if (algorithm !== 'scrypt' || !salt || !hash || Object.values(options).some(isNaN)) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, 'base64');
+  const key = await deriveKey(password, Buffer.from(salt, 'base64'), options);
+
+  return key.length === expected.length && timingSafeEqual(key, expected);
+}
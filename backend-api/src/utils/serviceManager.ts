@@ -1,5 +1,7 @@
 import { PoolClient } from 'pg';
 import { Logger } from './logger';
+import { mergeCalls, externalCallKey, databaseCallKey, rpcCallKey } from './spanEnrichment';
+import { recordEdgeAppeared, recordEdgesDisappeared, DependencyChangeSource } from './dependencyChanges';
 
 // Types for different service update sources
 export type ServiceSource = 'otel' | 'alertmanager' | 'user';
@@ -21,6 +23,9 @@ export interface ServiceUpdateData {
   external_calls?: any[];
   database_calls?: any[];
   rpc_calls?: any[];
+  // Aggregate call counts into the stored enrichment instead of replacing it
+  merge_calls?: boolean;
+  max_call_entries?: number;
   source: ServiceSource;
 }
 
@@ -293,13 +298,22 @@ function determineFieldUpdates(
 
   // Always update these fields from any source (they're additive/latest-wins)
   if (updateData.external_calls !== undefined) {
-    updates.external_calls = JSON.stringify(updateData.external_calls);
+    const calls = updateData.merge_calls
+      ? mergeCalls(existing.external_calls || [], updateData.external_calls, externalCallKey, updateData.max_call_entries)
+      : updateData.external_calls;
+    updates.external_calls = JSON.stringify(calls);
   }
   if (updateData.database_calls !== undefined) {
-    updates.database_calls = JSON.stringify(updateData.database_calls);
+    const calls = updateData.merge_calls
+      ? mergeCalls(existing.database_calls || [], updateData.database_calls, databaseCallKey, updateData.max_call_entries)
+      : updateData.database_calls;
+    updates.database_calls = JSON.stringify(calls);
   }
   if (updateData.rpc_calls !== undefined) {
-    updates.rpc_calls = JSON.stringify(updateData.rpc_calls);
+    const calls = updateData.merge_calls
+      ? mergeCalls(existing.rpc_calls || [], updateData.rpc_calls, rpcCallKey, updateData.max_call_entries)
+      : updateData.rpc_calls;
+    updates.rpc_calls = JSON.stringify(calls);
   }
 
   // For metadata fields, prefer higher priority sources
@@ -358,4 +372,83 @@ function buildUpdateQuery(
     query,
     params: [...params, ...whereParams]
   };
-}
\ No newline at end of file
+}
+/**
+ * Record an observed dependency edge between two services using natural keys
+ * Refreshes last_seen when the edge already exists; new edges are written to the change log
+ */
+export async function upsertServiceDependency(
+  client: PoolClient,
+  from: { service_namespace: string; service_name: string },
+  to: { service_namespace: string; service_name: string },
+  source: DependencyChangeSource = 'telemetry'
+): Promise<{ inserted: boolean }> {
+  const result = await client.query(`
+    INSERT INTO service_dependencies (from_service_namespace, from_service_name, to_service_namespace, to_service_name, last_seen)
+    VALUES ($1, $2, $3, $4, NOW())
+    ON CONFLICT (from_service_namespace, from_service_name, to_service_namespace, to_service_name)
+    DO UPDATE SET last_seen = NOW()
+    RETURNING (xmax = 0) AS inserted
+  `, [from.service_namespace, from.service_name, to.service_namespace, to.service_name]);
+
+  const inserted = result.rows[0]?.inserted === true;
+
+  if (inserted) {
+    await recordEdgeAppeared(client, {
+      from_service_namespace: from.service_namespace,
+      from_service_name: from.service_name,
+      to_service_namespace: to.service_namespace,
+      to_service_name: to.service_name
+    }, source);
+  }
+
+  return { inserted };
+}
+
+/**
+ * Create a placeholder service if it does not exist yet, without touching an existing one.
+ * Used for dependency targets outside an ingestion key's namespaces: the reporter may record
+ * the edge, but not refresh last_seen or metadata of another namespace's services.
+ */
+export async function ensureServiceExists(
+  client: PoolClient,
+  service: { service_namespace: string; service_name: string }
+): Promise<{ created: boolean }> {
+  const result = await client.query(`
+    INSERT INTO services (
+      service_namespace, service_name, environment, team, component_type,
+      tags, tag_sources, external_calls, database_calls, rpc_calls,
+      last_seen, created_at
+    )
+    VALUES ($1, $2, 'unknown', 'unknown', 'service', '{}', '{}', '[]', '[]', '[]', NOW(), NOW())
+    ON CONFLICT (service_namespace, service_name) DO NOTHING
+  `, [service.service_namespace, service.service_name]);
+
+  return { created: (result.rowCount || 0) > 0 };
+}
+
+/**
+ * Delete outgoing dependencies of a service that are not in the reported list
+ * Used for authoritative full-replace reports; retained edges keep their created_at
+ */
+export async function removeUnreportedDependencies(
+  client: PoolClient,
+  from: { service_namespace: string; service_name: string },
+  reported: { service_namespace: string; service_name: string }[],
+  source: DependencyChangeSource = 'telemetry'
+): Promise<number> {
+  const result = await client.query(`
+    DELETE FROM service_dependencies
+    WHERE from_service_namespace = $1 AND from_service_name = $2
+      AND NOT ((to_service_namespace || '::' || to_service_name) = ANY($3::text[]))
+    RETURNING from_service_namespace, from_service_name, to_service_namespace, to_service_name
+  `, [
+    from.service_namespace,
+    from.service_name,
+    reported.map(dep => `${dep.service_namespace}::${dep.service_name}`)
+  ]);
+
+  await recordEdgesDisappeared(client, result.rows, source, 'replaced');
+
+  return result.rowCount || 0;
+}
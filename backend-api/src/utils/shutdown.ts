@@ -1,14 +1,33 @@
 import { Pool } from 'pg';
 import ServiceCleanup from '../services/ServiceCleanup';
+import GraphSnapshotter from '../services/GraphSnapshotter';
+import NotificationDispatcher from '../services/NotificationDispatcher';
+import EscalationScheduler from '../services/EscalationScheduler';
 import { logger } from './logger';
 
-export function setupGracefulShutdown(pool: Pool, serviceCleanup: ServiceCleanup): void {
+export function setupGracefulShutdown(
+  pool: Pool,
+  serviceCleanup: ServiceCleanup,
+  graphSnapshotter: GraphSnapshotter,
+  notificationDispatcher: NotificationDispatcher,
+  escalationScheduler: EscalationScheduler
+): void {
   process.on('SIGINT', async () => {
     logger.info('Shutting down gracefully...');
     
     // Stop ServiceCleanup first
     logger.info('Stopping ServiceCleanup...');
     await serviceCleanup.stop();
+
+    logger.info('Stopping GraphSnapshotter...');
+    await graphSnapshotter.stop();
+
+    // Escalations queue notifications, so stop them before the dispatcher
+    logger.info('Stopping EscalationScheduler...');
+    await escalationScheduler.stop();
+
+    logger.info('Stopping NotificationDispatcher...');
+    await notificationDispatcher.stop();
     
     // Then close database pool
     logger.info('Closing database connection pool...');
@@ -0,0 +1,206 @@
+import { OtlpSpan, OtlpAttributes, SPAN_KIND, getStringAttribute } from './otlp';
+
+// Enrichment entries stored in the services.external_calls / database_calls / rpc_calls JSONB columns
+
+export interface ExternalCall {
+  host: string;
+  method?: string;
+  path?: string;
+  count: number;
+}
+
+export interface DatabaseCall {
+  system: string;
+  name?: string;
+  host?: string;
+  operation?: string;
+  count: number;
+}
+
+export interface RpcCall {
+  service: string;
+  method?: string;
+  count: number;
+}
+
+export interface ServiceCalls {
+  external_calls: ExternalCall[];
+  database_calls: DatabaseCall[];
+  rpc_calls: RpcCall[];
+}
+
+const LOCAL_HOSTS = new Set(['localhost', '127.0.0.1', '0.0.0.0', '::1', '[::1]']);
+
+/**
+ * Whether a host refers to the local machine (health checks, sidecars, agents)
+ */
+export function isLocalHost(host: string): boolean {
+  const normalized = host.toLowerCase();
+  return LOCAL_HOSTS.has(normalized) || normalized.endsWith('.localhost') || normalized.startsWith('127.');
+}
+
+/**
+ * Stable key used to aggregate call entries of the same shape
+ */
+export function externalCallKey(call: ExternalCall): string {
+  return `${call.host}|${call.method || ''}|${call.path || ''}`;
+}
+
+export function databaseCallKey(call: DatabaseCall): string {
+  return `${call.system}|${call.name || ''}|${call.host || ''}|${call.operation || ''}`;
+}
+
+export function rpcCallKey(call: RpcCall): string {
+  return `${call.service}|${call.method || ''}`;
+}
+
+/**
+ * Merge call entries by key, summing counts, and keep the busiest maxEntries
+ */
+export function mergeCalls<T extends { count: number }>(
+  existing: T[],
+  incoming: T[],
+  keyFn: (call: T) => string,
+  maxEntries?: number
+): T[] {
+  const merged = new Map<string, T>();
+
+  for (const call of [...existing, ...incoming]) {
+    const key = keyFn(call);
+    const current = merged.get(key);
+    if (current) {
+      current.count += call.count || 0;
+    } else {
+      merged.set(key, { ...call, count: call.count || 0 });
+    }
+  }
+
+  const sorted = Array.from(merged.values()).sort((a, b) => b.count - a.count);
+  return maxEntries !== undefined ? sorted.slice(0, maxEntries) : sorted;
+}
+
+function attributeHost(attributes: OtlpAttributes): string | undefined {
+  // Stable semconv first, then the pre-1.21 names still emitted by many SDKs
+  const host = getStringAttribute(attributes, 'server.address', 'net.peer.name', 'http.host', 'net.sock.peer.addr');
+  if (host) return host.replace(/:\d+$/, '');
+
+  const url = getStringAttribute(attributes, 'url.full', 'http.url');
+  if (url) {
+    try {
+      return new URL(url).hostname;
+    } catch {
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+function attributePath(attributes: OtlpAttributes): string | undefined {
+  // Prefer the low-cardinality route template when instrumentation provides it
+  const route = getStringAttribute(attributes, 'http.route', 'url.template');
+  if (route) return route;
+
+  const path = getStringAttribute(attributes, 'url.path', 'http.target');
+  if (path) return path.split('?')[0];
+
+  const url = getStringAttribute(attributes, 'url.full', 'http.url');
+  if (url) {
+    try {
+      return new URL(url).pathname;
+    } catch {
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+function classifyDatabaseCall(attributes: OtlpAttributes): DatabaseCall | null {
+  const system = getStringAttribute(attributes, 'db.system', 'db.system.name');
+  if (!system) return null;
+
+  // Databases without a host (embedded ones such as SQLite) are kept; local ones are not
+  const host = getStringAttribute(attributes, 'server.address', 'net.peer.name');
+  if (host && isLocalHost(host)) return null;
+  const port = attributes['server.port'] ?? attributes['net.peer.port'];
+
+  return {
+    system,
+    name: getStringAttribute(attributes, 'db.namespace', 'db.name'),
+    host: host && port !== undefined && port !== null ? `${host}:${port}` : host,
+    operation: getStringAttribute(attributes, 'db.operation.name', 'db.operation'),
+    count: 1
+  };
+}
+
+function classifyRpcCall(attributes: OtlpAttributes): RpcCall | null {
+  if (!getStringAttribute(attributes, 'rpc.system')) return null;
+
+  const service = getStringAttribute(attributes, 'rpc.service');
+  if (!service) return null;
+
+  return {
+    service,
+    method: getStringAttribute(attributes, 'rpc.method'),
+    count: 1
+  };
+}
+
+function classifyExternalCall(attributes: OtlpAttributes): ExternalCall | null {
+  const method = getStringAttribute(attributes, 'http.request.method', 'http.method');
+  const hasUrl = !!getStringAttribute(attributes, 'url.full', 'http.url', 'url.path', 'http.target');
+  if (!method && !hasUrl) return null;
+
+  const host = attributeHost(attributes);
+  if (!host || isLocalHost(host)) return null;
+
+  return {
+    host,
+    method,
+    path: attributePath(attributes),
+    count: 1
+  };
+}
+
+/**
+ * Classify client spans into external HTTP, database and RPC calls using OTel
+ * semantic conventions, aggregating identical calls into counts.
+ * Spans listed in skipSpanIds (calls to other instrumented services) are ignored.
+ */
+export function extractServiceCalls(
+  spans: OtlpSpan[],
+  skipSpanIds: Set<string> = new Set(),
+  maxEntries?: number
+): ServiceCalls {
+  const external: ExternalCall[] = [];
+  const database: DatabaseCall[] = [];
+  const rpc: RpcCall[] = [];
+
+  for (const span of spans) {
+    if (span.kind !== SPAN_KIND.CLIENT) continue;
+    if (skipSpanIds.has(`${span.traceId}:${span.spanId}`)) continue;
+
+    // Order matters: DB and RPC client spans frequently carry HTTP attributes too
+    const dbCall = classifyDatabaseCall(span.attributes);
+    if (dbCall) {
+      database.push(dbCall);
+      continue;
+    }
+
+    const rpcCall = classifyRpcCall(span.attributes);
+    if (rpcCall) {
+      rpc.push(rpcCall);
+      continue;
+    }
+
+    const externalCall = classifyExternalCall(span.attributes);
+    if (externalCall) {
+      external.push(externalCall);
+    }
+  }
+
+  return {
+    external_calls: mergeCalls([], external, externalCallKey, maxEntries),
+    database_calls: mergeCalls([], database, databaseCallKey, maxEntries),
+    rpc_calls: mergeCalls([], rpc, rpcCallKey, maxEntries)
+  };
+}
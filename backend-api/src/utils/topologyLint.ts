@@ -0,0 +1,81 @@
+export interface LintEdge {
+  from: string;
+  to: string;
+}
+
+/**
+ * Strongly connected components of a directed graph (Tarjan), iterative so deep call chains
+ * cannot overflow the stack. Only components with more than one member are returned - a single
+ * node is trivially strongly connected.
+ */
+export function findStronglyConnectedComponents(nodes: string[], edges: LintEdge[]): string[][] {
+  const adjacency = new Map<string, string[]>();
+  nodes.forEach(node => adjacency.set(node, []));
+  edges.forEach(edge => {
+    if (!adjacency.has(edge.from)) adjacency.set(edge.from, []);
+    if (!adjacency.has(edge.to)) adjacency.set(edge.to, []);
+    adjacency.get(edge.from)!.push(edge.to);
+  });
+
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let nextIndex = 0;
+
+  adjacency.forEach((_, start) => {
+    if (index.has(start)) return;
+
+    // Each frame is a node plus how far through its neighbours we are
+    const callStack: Array<{ node: string; neighbour: number }> = [{ node: start, neighbour: 0 }];
+    index.set(start, nextIndex);
+    lowLink.set(start, nextIndex);
+    nextIndex++;
+    stack.push(start);
+    onStack.add(start);
+
+    while (callStack.length > 0) {
+      const frame = callStack[callStack.length - 1];
+      const neighbours = adjacency.get(frame.node)!;
+
+      if (frame.neighbour < neighbours.length) {
+        const next = neighbours[frame.neighbour++];
+        if (!index.has(next)) {
+          index.set(next, nextIndex);
+          lowLink.set(next, nextIndex);
+          nextIndex++;
+          stack.push(next);
+          onStack.add(next);
+          callStack.push({ node: next, neighbour: 0 });
+        } else if (onStack.has(next)) {
+          lowLink.set(frame.node, Math.min(lowLink.get(frame.node)!, index.get(next)!));
+        }
+        continue;
+      }
+
+      // All neighbours visited: pop the frame and close a component if this node is its root
+      callStack.pop();
+      if (callStack.length > 0) {
+        const parent = callStack[callStack.length - 1].node;
+        lowLink.set(parent, Math.min(lowLink.get(parent)!, lowLink.get(frame.node)!));
+      }
+
+      if (lowLink.get(frame.node) === index.get(frame.node)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== frame.node);
+
+        if (component.length > 1) {
+          components.push(component.sort());
+        }
+      }
+    }
+  });
+
+  return components.sort((a, b) => b.length - a.length || a[0].localeCompare(b[0]));
+}
@@ -83,7 +83,8 @@ export function sanitizeParsedAlert(alert: ParsedAlert): ParsedAlert {
     instanceId: alert.instanceId.trim(),
     message: alert.message.trim().substring(0, DEFAULT_VALIDATION_CONFIG.maxMessageLength),
     // Ensure external alert ID is reasonable length
-    externalAlertId: alert.externalAlertId.substring(0, 255)
+    externalAlertId: alert.externalAlertId.substring(0, 255),
+    fingerprint: alert.fingerprint?.substring(0, 64)
   };
 }
 
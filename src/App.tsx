@@ -11,8 +11,13 @@ import 'antd/dist/reset.css';
 import { ServicesPage } from './components/Services/ServicesPage';
 import { ServiceDetailPage } from './components/Services/ServiceDetailPage';
 import { ServiceHealth } from './components/Operations/ServiceHealth';
+import { SilenceManager } from './components/Operations/SilenceManager';
 import { MissionControl } from './components/Dashboard/MissionControl';
 import { ThemeToggle } from './components/Common/ThemeToggle';
+import { UserMenu } from './components/Common/UserMenu';
+import { AdministrationPage } from './components/Admin/AdministrationPage';
+import { AnalyticsPage } from './components/Analytics/AnalyticsPage';
+import { useAuth } from './hooks/useAuth';
 
 
 const { Header, Content, Sider } = Layout;
@@ -34,6 +39,10 @@ const menuItems = [
         key: 'operations-service-health',
         label: 'Service Health',
       },
+      {
+        key: 'operations-silences',
+        label: 'Silences',
+      },
     ],
   },
   {
@@ -76,6 +85,17 @@ const App: React.FC = () => {
   const [selectedKey, setSelectedKey] = useState('home');
   const [serviceDetailParams, setServiceDetailParams] = useState<{namespace: string, name: string} | null>(null);
   const [, setDashboardLastUpdated] = useState<Date | null>(null);
+  // Service the Mission Control map should focus on when another page links into it
+  const [mapFocusService, setMapFocusService] = useState<string | null>(null);
+  const { hasRole } = useAuth();
+  // Administration is admin-only on the backend, so only admins see it
+  const visibleMenuItems = hasRole('admin') ? menuItems : menuItems.filter(item => item.key !== 'admin');
+
+  const showServiceInMap = (serviceKey: string) => {
+    setServiceDetailParams(null);
+    setMapFocusService(serviceKey);
+    setSelectedKey('home');
+  };
   
   const {
     token: { colorBgContainer, borderRadiusLG },
@@ -148,7 +168,7 @@ const App: React.FC = () => {
 
     switch (selectedKey) {
       case 'home':
-        return <MissionControl onLastUpdatedChange={setDashboardLastUpdated} />;
+        return <MissionControl onLastUpdatedChange={setDashboardLastUpdated} focusService={mapFocusService} />;
       case 'services-overview':
       case 'services-catalog':
       case 'services-dependencies':
@@ -156,13 +176,16 @@ const App: React.FC = () => {
         return <ServicesPage 
           activeTab={selectedKey} 
           onServiceSelect={(namespace: string, name: string) => setServiceDetailParams({namespace, name})}
+          onShowInMap={showServiceInMap}
         />;
       case 'operations-service-health':
         return <ServiceHealth />;
+      case 'operations-silences':
+        return <SilenceManager />;
       case 'analytics':
-        return <div>Analytics page (coming soon)</div>;
+        return <AnalyticsPage />;
       case 'admin':
-        return <div>Admin page (coming soon)</div>;
+        return <AdministrationPage />;
       default:
         return <MissionControl onLastUpdatedChange={setDashboardLastUpdated} />;
     }
@@ -231,8 +254,11 @@ const App: React.FC = () => {
           theme="dark"
           selectedKeys={[selectedKey]}
           mode="inline"
-          items={menuItems}
-          onSelect={({ key }) => setSelectedKey(key)}
+          items={visibleMenuItems}
+          onSelect={({ key }) => {
+            setMapFocusService(null);
+            setSelectedKey(key);
+          }}
         />
       </Sider>
 
@@ -279,6 +305,7 @@ const App: React.FC = () => {
                 })}
               </div>
               <ThemeToggle />
+              <UserMenu />
             </div>
         </Header>
 
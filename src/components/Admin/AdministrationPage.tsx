@@ -0,0 +1,50 @@
+import React from 'react';
+import { Tabs } from 'antd';
+import {
+  AuditOutlined,
+  ClearOutlined,
+  DatabaseOutlined,
+  DashboardOutlined,
+  ApiOutlined
+} from '@ant-design/icons';
+import { AuditLogViewer } from './AuditLogViewer';
+import { CleanupPanel } from './CleanupPanel';
+import { IncidentHealthPanel } from './IncidentHealthPanel';
+import { PerformancePanel } from './PerformancePanel';
+import { AlertmanagerStatusPanel } from './AlertmanagerStatusPanel';
+
+/**
+ * Admin-only tools, one tab each. Tabs load their data when first opened.
+ */
+export const AdministrationPage: React.FC = () => (
+  <Tabs
+    defaultActiveKey="cleanup"
+    items={[
+      {
+        key: 'cleanup',
+        label: <span><ClearOutlined /> Cleanup</span>,
+        children: <CleanupPanel />
+      },
+      {
+        key: 'incidents',
+        label: <span><DatabaseOutlined /> Incident Storage</span>,
+        children: <IncidentHealthPanel />
+      },
+      {
+        key: 'performance',
+        label: <span><DashboardOutlined /> Performance</span>,
+        children: <PerformancePanel />
+      },
+      {
+        key: 'alertmanager',
+        label: <span><ApiOutlined /> Alertmanager</span>,
+        children: <AlertmanagerStatusPanel />
+      },
+      {
+        key: 'audit',
+        label: <span><AuditOutlined /> Audit Log</span>,
+        children: <AuditLogViewer />
+      }
+    ]}
+  />
+);
@@ -0,0 +1,132 @@
+import React from 'react';
+import { Card, Typography, Space, Table, Tag, Button, Alert, Row, Col, Statistic, Descriptions } from 'antd';
+import { ApiOutlined, ReloadOutlined } from '@ant-design/icons';
+import type { AlertmanagerStatus, IngestionRejectionReason } from '../../types';
+import { useAlertmanagerStatus } from '../../hooks/useAlertmanagerStatus';
+
+const { Text } = Typography;
+
+type AlertmanagerKey = AlertmanagerStatus['keys'][number];
+
+const REJECTION_LABELS: Record<IngestionRejectionReason, string> = {
+  missing_key: 'Missing key',
+  invalid_key: 'Unknown or revoked key',
+  wrong_type: 'Key of another type',
+  invalid_signature: 'Bad signature',
+  namespace_not_allowed: 'Namespace not allowed'
+};
+
+const formatTime = (value: string | null) => value ? new Date(value).toLocaleString() : 'never';
+
+const keyColumns = [
+  {
+    title: 'Name',
+    dataIndex: 'name',
+    key: 'name'
+  },
+  {
+    title: 'Key',
+    key: 'key',
+    render: (record: AlertmanagerKey) => (
+      <Space size={4}>
+        <Text style={{ fontFamily: 'monospace', fontSize: '12px' }}>{record.key_prefix}…</Text>
+        <Tag>{record.verification}</Tag>
+      </Space>
+    )
+  },
+  {
+    title: 'Namespaces',
+    dataIndex: 'namespaces',
+    key: 'namespaces',
+    render: (namespaces: string[]) => namespaces.length === 0
+      ? <Text type="secondary">all</Text>
+      : <Space size={[4, 4]} wrap>{namespaces.map(ns => <Tag key={ns} color="blue">{ns}</Tag>)}</Space>
+  },
+  {
+    title: 'Last used',
+    dataIndex: 'last_used_at',
+    key: 'last_used_at',
+    render: formatTime
+  }
+];
+
+/**
+ * Alertmanager webhook ingestion: whether it is enabled and needs a key, the keys it accepts,
+ * and requests and alerts rejected since the backend started
+ */
+export const AlertmanagerStatusPanel: React.FC = () => {
+  const { status, loading, error, refresh } = useAlertmanagerStatus();
+
+  const rejections = status?.rejections;
+
+  return (
+    <Card
+      title={
+        <Space>
+          <ApiOutlined style={{ color: '#1890ff' }} />
+          <span>Alertmanager Ingestion</span>
+          {status && (
+            <Tag color={status.webhook.enabled ? 'green' : 'default'}>
+              {status.webhook.enabled ? 'enabled' : 'disabled'}
+            </Tag>
+          )}
+        </Space>
+      }
+      extra={<Button size="small" icon={<ReloadOutlined />} onClick={refresh} loading={loading} />}
+      loading={loading && !status}
+    >
+      {error && (
+        <Alert message="Failed to load Alertmanager status" description={error} type="error" showIcon style={{ marginBottom: 16 }} />
+      )}
+      {status && status.webhook.keyRequired && status.keys.length === 0 && (
+        <Alert
+          type="warning"
+          showIcon
+          message="No Alertmanager keys"
+          description="The webhook needs an alertmanager ingestion key and none is active, so every request is rejected."
+          style={{ marginBottom: 16 }}
+        />
+      )}
+
+      {status && rejections && (
+        <>
+          <Descriptions size="small" column={2} bordered style={{ marginBottom: 16 }}>
+            <Descriptions.Item label="Endpoint">
+              <Text code>POST {status.webhook.endpoint}</Text>
+            </Descriptions.Item>
+            <Descriptions.Item label="Key required">{status.webhook.keyRequired ? 'yes' : 'no'}</Descriptions.Item>
+            <Descriptions.Item label="Last request">{formatTime(status.integration.lastProcessed)}</Descriptions.Item>
+            <Descriptions.Item label="Services created by alerts">
+              {status.services.alertCreatedServices} of {status.services.totalServices}
+            </Descriptions.Item>
+          </Descriptions>
+
+          <Row gutter={16} style={{ marginBottom: 16 }}>
+            <Col span={4}><Statistic title="Rejected since startup" value={rejections.total} /></Col>
+            {(Object.keys(REJECTION_LABELS) as IngestionRejectionReason[]).map(reason => (
+              <Col span={4} key={reason}>
+                <Statistic title={REJECTION_LABELS[reason]} value={rejections.byReason[reason]} />
+              </Col>
+            ))}
+          </Row>
+          {rejections.lastRejectedAt && rejections.lastReason && (
+            <Text type="secondary" style={{ display: 'block', marginBottom: 16 }}>
+              Last rejection: {REJECTION_LABELS[rejections.lastReason]} at {formatTime(rejections.lastRejectedAt)}
+            </Text>
+          )}
+        </>
+      )}
+
+      <Text strong>Keys</Text>
+      <Table
+        dataSource={status?.keys || []}
+        columns={keyColumns}
+        rowKey="id"
+        pagination={false}
+        size="small"
+        locale={{ emptyText: 'No active Alertmanager keys' }}
+        style={{ marginTop: 8 }}
+      />
+    </Card>
+  );
+};
@@ -0,0 +1,200 @@
+import React, { useState } from 'react';
+import { Card, Typography, Space, Table, Tag, Button, Select, Input, DatePicker, Alert } from 'antd';
+import { AuditOutlined, ReloadOutlined } from '@ant-design/icons';
+import type { Dayjs } from 'dayjs';
+import type { AuditLogEntry, AuditLogFilters } from '../../types';
+import { useAuditLog } from '../../hooks/useAuditLog';
+
+const { Text } = Typography;
+const { RangePicker } = DatePicker;
+
+// Mirrors AuditEntityType in the backend's utils/audit.ts
+const ENTITY_TYPES = [
+  'service',
+  'incident',
+  'namespace_dependency',
+  'silence',
+  'alert_grouping_policy',
+  'escalation_policy',
+  'notification_channel',
+  'notification_rule',
+  'notification_delivery',
+  'graph_snapshot',
+  'user',
+  'session',
+  'api_token',
+  'ingestion_key',
+  'cleanup',
+  'performance'
+];
+
+const ACTION_COLORS: Record<string, string> = {
+  create: 'green',
+  update: 'blue',
+  update_tags: 'blue',
+  delete: 'red',
+  revoke: 'red',
+  resolve: 'green',
+  acknowledge: 'gold',
+  expire: 'orange',
+  run: 'purple'
+};
+
+const JsonBlock: React.FC<{ title: string; value: unknown }> = ({ title, value }) => (
+  <div style={{ flex: 1, minWidth: 0 }}>
+    <Text strong style={{ fontSize: '12px' }}>{title}</Text>
+    <pre style={{ fontSize: '11px', maxHeight: 320, overflow: 'auto', margin: '4px 0 0', whiteSpace: 'pre-wrap' }}>
+      {value === null || value === undefined ? '—' : JSON.stringify(value, null, 2)}
+    </pre>
+  </div>
+);
+
+/**
+ * Who changed what through the API, with each entity's state before and after
+ */
+export const AuditLogViewer: React.FC = () => {
+  const [entityType, setEntityType] = useState<string | undefined>();
+  const [actorInput, setActorInput] = useState('');
+  const [actionInput, setActionInput] = useState('');
+  const [filters, setFilters] = useState<AuditLogFilters>({});
+  const { entries, loading, error, refresh } = useAuditLog({ ...filters, entityType });
+
+  const applyTextFilters = () => {
+    setFilters(current => ({
+      ...current,
+      actor: actorInput.trim() || undefined,
+      action: actionInput.trim() || undefined
+    }));
+  };
+
+  const handleRangeChange = (range: [Dayjs | null, Dayjs | null] | null) => {
+    setFilters(current => ({
+      ...current,
+      from: range?.[0]?.toISOString(),
+      to: range?.[1]?.toISOString()
+    }));
+  };
+
+  const filterByEntity = (record: AuditLogEntry) => {
+    setEntityType(record.entity_type);
+    setFilters(current => ({ ...current, entityId: record.entity_id || undefined }));
+  };
+
+  const columns = [
+    {
+      title: 'Time',
+      dataIndex: 'occurred_at',
+      key: 'occurred_at',
+      width: 180,
+      render: (occurredAt: string) => (
+        <Text style={{ fontSize: '12px' }}>{new Date(occurredAt).toLocaleString()}</Text>
+      )
+    },
+    {
+      title: 'Actor',
+      dataIndex: 'actor',
+      key: 'actor',
+      width: 140
+    },
+    {
+      title: 'Action',
+      dataIndex: 'action',
+      key: 'action',
+      width: 130,
+      render: (action: string) => <Tag color={ACTION_COLORS[action] || 'default'}>{action}</Tag>
+    },
+    {
+      title: 'Entity',
+      key: 'entity',
+      render: (record: AuditLogEntry) => (
+        <Space size={4}>
+          <Tag>{record.entity_type}</Tag>
+          {record.entity_id && (
+            <Button type="link" size="small" style={{ padding: 0 }} onClick={() => filterByEntity(record)}>
+              {record.entity_id}
+            </Button>
+          )}
+        </Space>
+      )
+    },
+    {
+      title: 'Request ID',
+      dataIndex: 'request_id',
+      key: 'request_id',
+      width: 200,
+      render: (requestId: string | null) => requestId
+        ? <Text copyable style={{ fontSize: '11px', fontFamily: 'monospace' }}>{requestId}</Text>
+        : <Text type="secondary">—</Text>
+    }
+  ];
+
+  return (
+    <Card
+      title={
+        <Space>
+          <AuditOutlined style={{ color: '#1890ff' }} />
+          <span>Audit Log</span>
+          <Tag color="blue">{entries.length}</Tag>
+        </Space>
+      }
+      extra={<Button size="small" icon={<ReloadOutlined />} onClick={refresh} loading={loading} />}
+    >
+      <Space wrap style={{ marginBottom: 16 }}>
+        <Select
+          allowClear
+          placeholder="Entity type"
+          value={entityType}
+          onChange={value => {
+            setEntityType(value);
+            setFilters(current => ({ ...current, entityId: undefined }));
+          }}
+          style={{ width: 200 }}
+          options={ENTITY_TYPES.map(type => ({ value: type, label: type }))}
+        />
+        <Input.Search
+          allowClear
+          placeholder="Actor"
+          value={actorInput}
+          onChange={event => setActorInput(event.target.value)}
+          onSearch={applyTextFilters}
+          style={{ width: 160 }}
+        />
+        <Input.Search
+          allowClear
+          placeholder="Action"
+          value={actionInput}
+          onChange={event => setActionInput(event.target.value)}
+          onSearch={applyTextFilters}
+          style={{ width: 160 }}
+        />
+        <RangePicker showTime onChange={handleRangeChange} />
+        {filters.entityId && (
+          <Tag closable onClose={() => setFilters(current => ({ ...current, entityId: undefined }))}>
+            id={filters.entityId}
+          </Tag>
+        )}
+      </Space>
+      {error && (
+        <Alert message="Failed to load audit log" description={error} type="error" showIcon style={{ marginBottom: 16 }} />
+      )}
+      <Table
+        dataSource={entries}
+        columns={columns}
+        rowKey="id"
+        loading={loading}
+        pagination={{ pageSize: 20, hideOnSinglePage: true }}
+        size="small"
+        locale={{ emptyText: 'No audit entries' }}
+        expandable={{
+          expandedRowRender: (record: AuditLogEntry) => (
+            <div style={{ display: 'flex', gap: 16 }}>
+              <JsonBlock title="Before" value={record.before_state} />
+              <JsonBlock title="After" value={record.after_state} />
+            </div>
+          ),
+          rowExpandable: (record: AuditLogEntry) => record.before_state !== null || record.after_state !== null
+        }}
+      />
+    </Card>
+  );
+};
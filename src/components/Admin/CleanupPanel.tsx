@@ -0,0 +1,264 @@
+import React, { useState } from 'react';
+import {
+  Card,
+  Typography,
+  Space,
+  Table,
+  Tag,
+  Button,
+  Alert,
+  Row,
+  Col,
+  Statistic,
+  Descriptions,
+  Modal,
+  Popconfirm
+} from 'antd';
+import { DeleteOutlined, EyeOutlined, ReloadOutlined, ClearOutlined } from '@ant-design/icons';
+import type { CleanupPreview } from '../../types';
+import { useCleanup } from '../../hooks/useCleanup';
+
+const { Text } = Typography;
+
+type PreviewService = CleanupPreview['services'][number];
+type PreviewDependency = CleanupPreview['dependencies'][number];
+
+const formatTime = (value: string | null) => value ? new Date(value).toLocaleString() : '—';
+
+const serviceColumns = [
+  {
+    title: 'Service',
+    key: 'service',
+    render: (record: PreviewService) => `${record.service_namespace}::${record.service_name}`
+  },
+  {
+    title: 'Last seen',
+    dataIndex: 'last_seen',
+    key: 'last_seen',
+    render: formatTime
+  },
+  {
+    title: 'Days stale',
+    dataIndex: 'days_stale',
+    key: 'days_stale',
+    width: 110,
+    render: (days: number) => Number(days).toFixed(1)
+  }
+];
+
+const dependencyColumns = [
+  {
+    title: 'Dependency',
+    key: 'dependency',
+    render: (record: PreviewDependency) =>
+      `${record.from_service_namespace}::${record.from_service_name} → ${record.to_service_namespace}::${record.to_service_name}`
+  },
+  {
+    title: 'Last seen',
+    dataIndex: 'last_seen',
+    key: 'last_seen',
+    render: formatTime
+  },
+  {
+    title: 'Hours stale',
+    dataIndex: 'hours_stale',
+    key: 'hours_stale',
+    width: 110,
+    render: (hours: number) => Number(hours).toFixed(1)
+  }
+];
+
+const PreviewTables: React.FC<{ preview: CleanupPreview }> = ({ preview }) => (
+  <>
+    <Text strong>Stale services ({preview.count})</Text>
+    <Table
+      dataSource={preview.services}
+      columns={serviceColumns}
+      rowKey={record => `${record.service_namespace}::${record.service_name}`}
+      pagination={{ pageSize: 10, hideOnSinglePage: true }}
+      size="small"
+      locale={{ emptyText: 'No stale services' }}
+      style={{ margin: '8px 0 16px' }}
+    />
+    <Text strong>Stale dependencies ({preview.dependencyCount})</Text>
+    <Table
+      dataSource={preview.dependencies}
+      columns={dependencyColumns}
+      rowKey={record =>
+        `${record.from_service_namespace}::${record.from_service_name}->${record.to_service_namespace}::${record.to_service_name}`
+      }
+      pagination={{ pageSize: 10, hideOnSinglePage: true }}
+      size="small"
+      locale={{ emptyText: 'No stale dependencies' }}
+      style={{ marginTop: 8 }}
+    />
+  </>
+);
+
+/**
+ * Stale service cleanup: its configuration, a dry-run preview, and manual runs confirmed against
+ * that preview
+ */
+export const CleanupPanel: React.FC = () => {
+  const {
+    status,
+    preview,
+    loading,
+    previewing,
+    running,
+    error,
+    loadPreview,
+    runCleanup,
+    cleanupOrphanedDependencies,
+    refresh
+  } = useCleanup();
+  const [isConfirmOpen, setIsConfirmOpen] = useState(false);
+
+  // Always confirm against a fresh preview
+  const openConfirm = async () => {
+    if (await loadPreview()) {
+      setIsConfirmOpen(true);
+    }
+  };
+
+  const handleRun = async () => {
+    await runCleanup();
+    setIsConfirmOpen(false);
+  };
+
+  const config = status?.config;
+  const metrics = status?.metrics;
+  const stats = status?.stats;
+
+  return (
+    <Card
+      title={
+        <Space>
+          <ClearOutlined style={{ color: '#1890ff' }} />
+          <span>Service Cleanup</span>
+          {config && (
+            <Tag color={config.enabled ? 'green' : 'default'}>{config.enabled ? 'enabled' : 'disabled'}</Tag>
+          )}
+          {config?.dryRun && <Tag color="orange">dry run</Tag>}
+        </Space>
+      }
+      extra={<Button size="small" icon={<ReloadOutlined />} onClick={refresh} loading={loading} />}
+      loading={loading && !status}
+    >
+      {error && (
+        <Alert message="Failed to load cleanup status" description={error} type="error" showIcon style={{ marginBottom: 16 }} />
+      )}
+      {config && !config.enabled && (
+        <Alert
+          type="info"
+          showIcon
+          message="Cleanup is disabled"
+          description="Stale services are not deleted on a schedule or from here while ENABLE_AUTO_CLEANUP is false."
+          style={{ marginBottom: 16 }}
+        />
+      )}
+      {config?.dryRun && (
+        <Alert
+          type="warning"
+          showIcon
+          message="Dry run mode"
+          description="Cleanup runs report what they would delete but change nothing (CLEANUP_DRY_RUN)."
+          style={{ marginBottom: 16 }}
+        />
+      )}
+      {metrics?.lastError && (
+        <Alert message="Last run failed" description={metrics.lastError} type="error" showIcon style={{ marginBottom: 16 }} />
+      )}
+
+      {stats && (
+        <Row gutter={16} style={{ marginBottom: 16 }}>
+          <Col span={6}><Statistic title="Services" value={stats.totalServices} /></Col>
+          <Col span={6}><Statistic title="Stale services" value={stats.staleServices} /></Col>
+          <Col span={6}><Statistic title="Stale dependencies" value={stats.staleDependencies} /></Col>
+          <Col span={6}><Statistic title="Orphaned dependencies" value={stats.orphanedDependencies} /></Col>
+        </Row>
+      )}
+
+      {config && metrics && (
+        <Descriptions size="small" column={2} bordered style={{ marginBottom: 16 }}>
+          <Descriptions.Item label="Service TTL">{config.ttlHours} h</Descriptions.Item>
+          <Descriptions.Item label="Dependency TTL">
+            {config.dependencyTtlHours > 0 ? `${config.dependencyTtlHours} h` : 'off'}
+          </Descriptions.Item>
+          <Descriptions.Item label="Dependency metrics retention">
+            {config.dependencyMetricsRetentionHours > 0 ? `${config.dependencyMetricsRetentionHours} h` : 'off'}
+          </Descriptions.Item>
+          <Descriptions.Item label="Interval">{config.intervalHours} h</Descriptions.Item>
+          <Descriptions.Item label="Max services per run">{config.maxServicesPerRun}</Descriptions.Item>
+          <Descriptions.Item label="Oldest service">
+            {stats?.oldestService
+              ? `${stats.oldestService.service} (${Number(stats.oldestService.days_stale).toFixed(1)} days)`
+              : '—'}
+          </Descriptions.Item>
+          <Descriptions.Item label="Last run">
+            {formatTime(metrics.lastRunTime)}
+            {metrics.lastRunTime && ` · ${metrics.lastRunDuration}ms · ${metrics.servicesDeleted} services, ${metrics.dependenciesDeleted} dependencies`}
+          </Descriptions.Item>
+          <Descriptions.Item label="Next run">{formatTime(metrics.nextRunTime)}</Descriptions.Item>
+          <Descriptions.Item label="Runs since startup">{metrics.totalRuns}</Descriptions.Item>
+          <Descriptions.Item label="Deleted since startup">
+            {metrics.totalServicesDeleted} services, {metrics.totalDependenciesDeleted} dependencies
+          </Descriptions.Item>
+        </Descriptions>
+      )}
+
+      <Space wrap style={{ marginBottom: preview ? 16 : 0 }}>
+        <Button icon={<EyeOutlined />} onClick={loadPreview} loading={previewing && !isConfirmOpen}>
+          Preview
+        </Button>
+        <Button
+          type="primary"
+          danger
+          icon={<DeleteOutlined />}
+          onClick={openConfirm}
+          loading={previewing}
+          disabled={!config?.enabled || metrics?.isRunning}
+        >
+          Run cleanup…
+        </Button>
+        <Popconfirm
+          title="Delete dependencies whose services no longer exist?"
+          onConfirm={cleanupOrphanedDependencies}
+          okText="Delete"
+          okButtonProps={{ danger: true }}
+        >
+          <Button disabled={!stats?.orphanedDependencies} loading={running && !isConfirmOpen}>
+            Clean orphaned dependencies
+          </Button>
+        </Popconfirm>
+      </Space>
+
+      {preview && <PreviewTables preview={preview} />}
+
+      <Modal
+        title={config?.dryRun ? 'Run cleanup (dry run)' : 'Run cleanup'}
+        open={isConfirmOpen}
+        onCancel={() => setIsConfirmOpen(false)}
+        onOk={handleRun}
+        okText={config?.dryRun ? 'Run dry run' : 'Delete'}
+        okButtonProps={{ danger: !config?.dryRun }}
+        confirmLoading={running}
+        width={720}
+      >
+        {preview && (
+          <>
+            <Text style={{ display: 'block', marginBottom: 12 }}>
+              {config?.dryRun ? 'This run would delete ' : 'This will delete '}
+              <Text strong>{preview.count}</Text> stale service{preview.count === 1 ? '' : 's'} (with their
+              dependencies) and <Text strong>{preview.dependencyCount}</Text> stale
+              dependenc{preview.dependencyCount === 1 ? 'y' : 'ies'}.
+              {preview.count >= (config?.maxServicesPerRun || Infinity) &&
+                ` At most ${config?.maxServicesPerRun} services are removed per run.`}
+            </Text>
+            <PreviewTables preview={preview} />
+          </>
+        )}
+      </Modal>
+    </Card>
+  );
+};
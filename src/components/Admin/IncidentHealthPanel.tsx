@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import {
+  Card,
+  Typography,
+  Space,
+  Button,
+  Alert,
+  Row,
+  Col,
+  Statistic,
+  Descriptions,
+  InputNumber,
+  Checkbox,
+  Popconfirm,
+  Divider
+} from 'antd';
+import { DatabaseOutlined, ReloadOutlined, DeleteOutlined } from '@ant-design/icons';
+import { useIncidentHealth } from '../../hooks/useIncidentHealth';
+
+const { Text } = Typography;
+
+const formatTime = (value: string | null) => value ? new Date(value).toLocaleString() : '—';
+
+/**
+ * Incident and alert event storage: counts, table sizes, recent activity and cleanup of old
+ * resolved incidents
+ */
+export const IncidentHealthPanel: React.FC = () => {
+  const { health, loading, cleaning, error, cleanupIncidents, refresh } = useIncidentHealth();
+  const [daysOld, setDaysOld] = useState(90);
+  const [includeIncidents, setIncludeIncidents] = useState(false);
+
+  const system = health?.system_health;
+
+  return (
+    <Card
+      title={
+        <Space>
+          <DatabaseOutlined style={{ color: '#1890ff' }} />
+          <span>Incident Storage</span>
+        </Space>
+      }
+      extra={<Button size="small" icon={<ReloadOutlined />} onClick={refresh} loading={loading} />}
+      loading={loading && !health}
+    >
+      {error && (
+        <Alert message="Failed to load incident health" description={error} type="error" showIcon style={{ marginBottom: 16 }} />
+      )}
+
+      {health && system && (
+        <>
+          <Row gutter={16} style={{ marginBottom: 16 }}>
+            <Col span={6}><Statistic title="Incidents" value={system.total_incidents} /></Col>
+            <Col span={6}><Statistic title="Firing" value={system.active_incidents} /></Col>
+            <Col span={6}><Statistic title="Alert events" value={system.total_events} /></Col>
+            <Col span={6}><Statistic title="Storage used" value={health.storage.total_size} /></Col>
+          </Row>
+          <Descriptions size="small" column={2} bordered>
+            <Descriptions.Item label="Incidents table">{health.storage.incidents_table_size}</Descriptions.Item>
+            <Descriptions.Item label="Events table">{health.storage.events_table_size}</Descriptions.Item>
+            <Descriptions.Item label="Distinct alerts">{system.unique_alert_types}</Descriptions.Item>
+            <Descriptions.Item label="Affected services">{system.affected_services}</Descriptions.Item>
+            <Descriptions.Item label="Oldest incident">{formatTime(system.oldest_incident)}</Descriptions.Item>
+            <Descriptions.Item label="Newest incident">{formatTime(system.newest_incident)}</Descriptions.Item>
+            <Descriptions.Item label="New incidents" span={2}>
+              {health.activity.incidents_last_hour} in the last hour · {health.activity.incidents_last_day} in
+              the last day · {health.activity.incidents_last_week} in the last week
+            </Descriptions.Item>
+          </Descriptions>
+        </>
+      )}
+
+      <Divider orientation="left" plain>Cleanup</Divider>
+      <Space wrap align="center">
+        <Text>Delete events of incidents resolved more than</Text>
+        <InputNumber min={1} max={3650} value={daysOld} onChange={value => setDaysOld(value || 90)} style={{ width: 90 }} />
+        <Text>days ago</Text>
+        <Checkbox checked={includeIncidents} onChange={event => setIncludeIncidents(event.target.checked)}>
+          and the incidents themselves
+        </Checkbox>
+        <Popconfirm
+          title={
+            includeIncidents
+              ? `Delete incidents resolved more than ${daysOld} days ago, with their events?`
+              : `Delete events of incidents resolved more than ${daysOld} days ago?`
+          }
+          description={
+            includeIncidents
+              ? 'This cannot be undone, and MTTA/MTTR history for that period goes with the incidents.'
+              : 'This cannot be undone.'
+          }
+          onConfirm={() => cleanupIncidents(daysOld, includeIncidents)}
+          okText="Delete"
+          okButtonProps={{ danger: true }}
+        >
+          <Button danger icon={<DeleteOutlined />} loading={cleaning}>
+            Clean up
+          </Button>
+        </Popconfirm>
+      </Space>
+    </Card>
+  );
+};
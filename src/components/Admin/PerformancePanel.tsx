@@ -0,0 +1,236 @@
+import React from 'react';
+import {
+  Card,
+  Typography,
+  Space,
+  Table,
+  Tag,
+  Button,
+  Alert,
+  Row,
+  Col,
+  Statistic,
+  Progress,
+  Popconfirm,
+  List
+} from 'antd';
+import {
+  DashboardOutlined,
+  ReloadOutlined,
+  HeartOutlined,
+  SyncOutlined,
+  ClearOutlined
+} from '@ant-design/icons';
+import type { QueryPerformance, PerformanceRecommendation, PoolStatus } from '../../types';
+import { usePerformance } from '../../hooks/usePerformance';
+
+const { Text } = Typography;
+
+type SlowQuery = QueryPerformance['slowest_queries'][number];
+type RecentQuery = QueryPerformance['recent_queries'][number];
+
+const IMPACT_COLORS: Record<SlowQuery['performance_impact'], string> = {
+  high: 'red',
+  medium: 'orange',
+  low: 'green'
+};
+
+const SEVERITY_ALERT_TYPES: Record<PerformanceRecommendation['severity'], 'error' | 'warning' | 'info'> = {
+  critical: 'error',
+  warning: 'warning',
+  info: 'info'
+};
+
+const POOL_STATUS_COLORS: Record<PoolStatus['pool_health']['status'], string> = {
+  healthy: 'green',
+  high_usage: 'orange',
+  under_pressure: 'red'
+};
+
+const QueryText: React.FC<{ query: string }> = ({ query }) => (
+  <Text
+    style={{ fontFamily: 'monospace', fontSize: '11px' }}
+    ellipsis={{ tooltip: query }}
+  >
+    {query}
+  </Text>
+);
+
+const slowColumns = [
+  {
+    title: 'Query',
+    dataIndex: 'query',
+    key: 'query',
+    render: (query: string) => <QueryText query={query} />
+  },
+  {
+    title: 'Duration',
+    dataIndex: 'duration',
+    key: 'duration',
+    width: 100,
+    render: (duration: number) => `${duration}ms`
+  },
+  {
+    title: 'Impact',
+    dataIndex: 'performance_impact',
+    key: 'performance_impact',
+    width: 90,
+    render: (impact: SlowQuery['performance_impact']) => <Tag color={IMPACT_COLORS[impact]}>{impact}</Tag>
+  },
+  {
+    title: 'When',
+    dataIndex: 'timestamp',
+    key: 'timestamp',
+    width: 180,
+    render: (timestamp: string) => new Date(timestamp).toLocaleString()
+  }
+];
+
+const recentColumns = [
+  {
+    title: 'Query',
+    dataIndex: 'query',
+    key: 'query',
+    render: (query: string, record: RecentQuery) => (
+      <Space direction="vertical" size={0} style={{ width: '100%' }}>
+        <QueryText query={query} />
+        {record.error && <Text type="danger" style={{ fontSize: '11px' }}>{record.error}</Text>}
+      </Space>
+    )
+  },
+  {
+    title: 'Duration',
+    dataIndex: 'duration',
+    key: 'duration',
+    width: 100,
+    render: (duration: number) => `${duration}ms`
+  },
+  {
+    title: 'Status',
+    dataIndex: 'status',
+    key: 'status',
+    width: 90,
+    render: (status: RecentQuery['status']) => <Tag color={status === 'failed' ? 'red' : 'green'}>{status}</Tag>
+  }
+];
+
+/**
+ * Backend database performance: recent and slowest queries, connection pool usage and
+ * recommendations. Query metrics cover the last MAX_METRICS_HISTORY queries since startup.
+ */
+export const PerformancePanel: React.FC = () => {
+  const {
+    queries,
+    pool,
+    recommendations,
+    loading,
+    busy,
+    error,
+    runHealthCheck,
+    refreshCache,
+    clearMetrics,
+    refresh
+  } = usePerformance();
+
+  return (
+    <Space direction="vertical" size={16} style={{ width: '100%' }}>
+      <Card
+        title={
+          <Space>
+            <DashboardOutlined style={{ color: '#1890ff' }} />
+            <span>Database Performance</span>
+          </Space>
+        }
+        extra={
+          <Space>
+            <Button size="small" icon={<HeartOutlined />} onClick={runHealthCheck} loading={busy}>
+              Health check
+            </Button>
+            <Button size="small" icon={<SyncOutlined />} onClick={refreshCache} loading={busy}>
+              Refresh overview cache
+            </Button>
+            <Popconfirm title="Clear the recorded query metrics?" onConfirm={clearMetrics} okText="Clear">
+              <Button size="small" icon={<ClearOutlined />} loading={busy}>
+                Clear metrics
+              </Button>
+            </Popconfirm>
+            <Button size="small" icon={<ReloadOutlined />} onClick={refresh} loading={loading} />
+          </Space>
+        }
+        loading={loading && !queries}
+      >
+        {error && (
+          <Alert message="Failed to load performance metrics" description={error} type="error" showIcon style={{ marginBottom: 16 }} />
+        )}
+        {queries && pool && (
+          <Row gutter={16}>
+            <Col span={4}><Statistic title="Queries recorded" value={queries.summary.totalQueries} /></Col>
+            <Col span={4}>
+              <Statistic title="Average duration" value={Math.round(queries.summary.avgDuration)} suffix="ms" />
+            </Col>
+            <Col span={4}><Statistic title="Slow queries" value={queries.summary.slowQueries} /></Col>
+            <Col span={4}><Statistic title="Errors" value={queries.summary.errors} /></Col>
+            <Col span={8}>
+              <Text type="secondary">Connection pool</Text>
+              <Progress
+                percent={pool.pool_health.utilization_percent}
+                status={pool.pool_health.status === 'under_pressure' ? 'exception' : 'normal'}
+                style={{ marginBottom: 4 }}
+              />
+              <Space size={4} wrap>
+                <Tag color={POOL_STATUS_COLORS[pool.pool_health.status]}>{pool.pool_health.status.replace('_', ' ')}</Tag>
+                <Text style={{ fontSize: '12px' }}>
+                  {pool.total_connections}/{pool.pool_config.max} open · {pool.idle_connections} idle ·{' '}
+                  {pool.waiting_clients} waiting
+                </Text>
+              </Space>
+            </Col>
+          </Row>
+        )}
+      </Card>
+
+      {recommendations.length > 0 && (
+        <Card title="Recommendations" size="small">
+          <List
+            dataSource={recommendations}
+            renderItem={recommendation => (
+              <List.Item>
+                <Alert
+                  type={SEVERITY_ALERT_TYPES[recommendation.severity]}
+                  showIcon
+                  message={recommendation.title}
+                  description={`${recommendation.description} ${recommendation.action}.`}
+                  style={{ width: '100%' }}
+                />
+              </List.Item>
+            )}
+          />
+        </Card>
+      )}
+
+      <Card title="Slowest queries" size="small">
+        <Table
+          dataSource={(queries?.slowest_queries || []).map((query, index) => ({ ...query, key: index }))}
+          columns={slowColumns}
+          loading={loading}
+          pagination={false}
+          size="small"
+          tableLayout="fixed"
+          locale={{ emptyText: 'No queries recorded' }}
+        />
+      </Card>
+
+      <Card title="Recent queries" size="small">
+        <Table
+          dataSource={(queries?.recent_queries || []).map((query, index) => ({ ...query, key: index })).reverse()}
+          columns={recentColumns}
+          loading={loading}
+          pagination={false}
+          size="small"
+          tableLayout="fixed"
+          locale={{ emptyText: 'No queries recorded' }}
+        />
+      </Card>
+    </Space>
+  );
+};
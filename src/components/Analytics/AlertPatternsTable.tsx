@@ -0,0 +1,87 @@
+import React from 'react';
+import { Card, Table, Tag, Typography } from 'antd';
+import type { AlertPattern } from '../../types';
+
+const { Text } = Typography;
+
+const PATTERN_COLORS: Record<AlertPattern['pattern_type'], string> = {
+  flapping: 'red',
+  frequent: 'orange',
+  recurring: 'blue'
+};
+
+const formatHours = (hours: number) => hours < 1 ? `${Math.round(hours * 60)} min` : `${hours} h`;
+
+interface AlertPatternsTableProps {
+  patterns: AlertPattern[];
+  loading: boolean;
+}
+
+/**
+ * Alerts that resolved and came back in the range: flapping (under an hour apart), frequent
+ * (three or more under a day apart) and recurring
+ */
+export const AlertPatternsTable: React.FC<AlertPatternsTableProps> = ({ patterns, loading }) => {
+  const columns = [
+    {
+      title: 'Pattern',
+      dataIndex: 'pattern_type',
+      key: 'pattern_type',
+      width: 110,
+      filters: (['flapping', 'frequent', 'recurring'] as const).map(type => ({ text: type, value: type })),
+      onFilter: (value: React.Key | boolean, record: AlertPattern) => record.pattern_type === value,
+      render: (type: AlertPattern['pattern_type']) => <Tag color={PATTERN_COLORS[type]}>{type}</Tag>
+    },
+    {
+      title: 'Alert',
+      key: 'alert',
+      render: (record: AlertPattern) => (
+        <div>
+          <Text strong>{record.service}</Text> <Tag>{record.severity}</Tag>
+          <div>
+            <Text type="secondary" style={{ fontSize: '12px' }} ellipsis={{ tooltip: record.message }}>
+              {record.message}
+            </Text>
+          </div>
+        </div>
+      )
+    },
+    {
+      title: 'Incidents',
+      dataIndex: 'incident_count',
+      key: 'incident_count',
+      width: 90
+    },
+    {
+      title: 'Time between',
+      key: 'between',
+      width: 200,
+      render: (record: AlertPattern) => (
+        <Text style={{ fontSize: '12px' }}>
+          avg {formatHours(record.avg_hours_between)} (min {formatHours(record.min_hours_between)},
+          max {formatHours(record.max_hours_between)})
+        </Text>
+      )
+    },
+    {
+      title: 'Recommendation',
+      dataIndex: 'recommendation',
+      key: 'recommendation',
+      render: (recommendation: string) => <Text style={{ fontSize: '12px' }}>{recommendation}</Text>
+    }
+  ];
+
+  return (
+    <Card title="Flapping and recurring alerts" style={{ marginBottom: 24 }}>
+      <Table
+        dataSource={patterns.map((pattern, index) => ({ ...pattern, key: index }))}
+        columns={columns}
+        loading={loading}
+        pagination={{ pageSize: 10, hideOnSinglePage: true }}
+        size="small"
+        tableLayout="fixed"
+        locale={{ emptyText: 'No recurring alerts in this range' }}
+      />
+    </Card>
+  );
+};
@@ -0,0 +1,69 @@
+import React, { useMemo, useState } from 'react';
+import { Space, DatePicker, Segmented, Button, Alert, Typography } from 'antd';
+import { ReloadOutlined } from '@ant-design/icons';
+import type { Dayjs } from 'dayjs';
+import dayjs from 'dayjs';
+import type { AlertTrendGroupBy } from '../../types';
+import { useReliabilityReport } from '../../hooks/useReliabilityReport';
+import { MttTrendChart } from './MttTrendChart';
+import { NoisyFingerprintsTable } from './NoisyFingerprintsTable';
+import { AlertPatternsTable } from './AlertPatternsTable';
+import { WeekOverWeekCard } from './WeekOverWeekCard';
+
+const { RangePicker } = DatePicker;
+const { Text } = Typography;
+
+/**
+ * Reliability reporting over a date range: MTTA/MTTR trends by namespace or team, the noisiest
+ * alerts, flapping and recurring alerts, and week-over-week changes
+ */
+export const AnalyticsPage: React.FC = () => {
+  const [range, setRange] = useState<[Dayjs, Dayjs]>(() => [dayjs().subtract(30, 'day').startOf('day'), dayjs()]);
+  const [groupBy, setGroupBy] = useState<AlertTrendGroupBy>('namespace');
+
+  // ISO strings keep the report from refetching on every render
+  const [startDate, endDate] = useMemo(() => [range[0].toISOString(), range[1].toISOString()], [range]);
+  const { trends, fingerprints, patterns, weekOverWeek, loading, error, refresh } =
+    useReliabilityReport(startDate, endDate, groupBy);
+
+  return (
+    <div>
+      <Space wrap style={{ marginBottom: 16 }}>
+        <RangePicker
+          value={range}
+          onChange={value => {
+            if (value?.[0] && value[1]) {
+              setRange([value[0], value[1]]);
+            }
+          }}
+          allowClear={false}
+          disabledDate={date => date.isAfter(dayjs().endOf('day'))}
+          presets={[
+            { label: 'Last 7 days', value: [dayjs().subtract(7, 'day').startOf('day'), dayjs()] },
+            { label: 'Last 30 days', value: [dayjs().subtract(30, 'day').startOf('day'), dayjs()] },
+            { label: 'Last 90 days', value: [dayjs().subtract(90, 'day').startOf('day'), dayjs()] }
+          ]}
+        />
+        <Text type="secondary">Group by</Text>
+        <Segmented
+          value={groupBy}
+          onChange={value => setGroupBy(value as AlertTrendGroupBy)}
+          options={[
+            { value: 'namespace', label: 'Namespace' },
+            { value: 'team', label: 'Team' }
+          ]}
+        />
+        <Button icon={<ReloadOutlined />} onClick={refresh} loading={loading} />
+      </Space>
+
+      {error && (
+        <Alert message="Failed to load analytics" description={error} type="error" showIcon style={{ marginBottom: 16 }} />
+      )}
+
+      <MttTrendChart trends={trends} loading={loading} />
+      <WeekOverWeekCard weekOverWeek={weekOverWeek} loading={loading} />
+      <NoisyFingerprintsTable fingerprints={fingerprints} loading={loading} />
+      <AlertPatternsTable patterns={patterns} loading={loading} />
+    </div>
+  );
+};
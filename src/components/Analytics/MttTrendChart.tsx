@@ -0,0 +1,100 @@
+import React, { useMemo, useState } from 'react';
+import { Card, Segmented, Typography, Empty } from 'antd';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import type { AlertTrends, AlertTrendPoint } from '../../types';
+
+const { Text } = Typography;
+
+type TrendMetric = 'mtta_minutes' | 'mttr_minutes' | 'incidents';
+
+const METRIC_LABELS: Record<TrendMetric, string> = {
+  mtta_minutes: 'MTTA (min)',
+  mttr_minutes: 'MTTR (min)',
+  incidents: 'Incidents'
+};
+
+const LINE_COLORS = ['#1890ff', '#52c41a', '#fa8c16', '#eb2f96', '#722ed1', '#13c2c2', '#faad14', '#f5222d'];
+
+interface MttTrendChartProps {
+  trends: AlertTrends | null;
+  loading: boolean;
+}
+
+/**
+ * MTTA, MTTR or incident count per day or week, one line per namespace or team
+ */
+export const MttTrendChart: React.FC<MttTrendChartProps> = ({ trends, loading }) => {
+  const [metric, setMetric] = useState<TrendMetric>('mttr_minutes');
+
+  // One row per bucket with a column per group; buckets a group had no incidents in stay empty
+  const data = useMemo(() => {
+    if (!trends) return [];
+    return trends.buckets.map(bucket => {
+      const row: Record<string, string | number | null> = { bucket };
+      for (const group of trends.groups) {
+        const point = group.points.find((p: AlertTrendPoint) => p.bucket === bucket);
+        row[group.group] = point ? point[metric] : null;
+      }
+      return row;
+    });
+  }, [trends, metric]);
+
+  const formatBucket = (bucket: string) => new Date(bucket).toLocaleDateString();
+
+  return (
+    <Card
+      title={`${METRIC_LABELS[metric]} by ${trends?.group_by || 'namespace'}${trends ? `, per ${trends.interval}` : ''}`}
+      extra={
+        <Segmented
+          size="small"
+          value={metric}
+          onChange={value => setMetric(value as TrendMetric)}
+          options={[
+            { value: 'mtta_minutes', label: 'MTTA' },
+            { value: 'mttr_minutes', label: 'MTTR' },
+            { value: 'incidents', label: 'Incidents' }
+          ]}
+        />
+      }
+      loading={loading && !trends}
+      style={{ marginBottom: 24 }}
+    >
+      {trends && trends.groups.length === 0 ? (
+        <Empty description="No incidents in this range" />
+      ) : (
+        <div style={{ height: 320 }}>
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={data} margin={{ top: 8, right: 24, bottom: 8, left: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="bucket" tickFormatter={formatBucket} fontSize={12} />
+              <YAxis fontSize={12} allowDecimals={metric !== 'incidents'} />
+              <Tooltip labelFormatter={label => formatBucket(String(label))} />
+              <Legend />
+              {trends?.groups.map((group, index) => (
+                <Line
+                  key={group.group}
+                  type="monotone"
+                  dataKey={group.group}
+                  stroke={LINE_COLORS[index % LINE_COLORS.length]}
+                  strokeWidth={2}
+                  dot={{ r: 2 }}
+                  connectNulls
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+      {trends && trends.other_groups > 0 && (
+        <Text type="secondary" style={{ fontSize: '12px' }}>
+          Showing the {trends.groups.length} busiest {trends.group_by}s; {trends.other_groups} more not shown.
+        </Text>
+      )}
+      {metric === 'mtta_minutes' && (
+        <Text type="secondary" style={{ display: 'block', fontSize: '12px' }}>
+          MTTA counts incidents that were never acknowledged up to now.
+        </Text>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,96 @@
+import React from 'react';
+import { Card, Table, Tag, Typography, Progress, Tooltip } from 'antd';
+import type { NoisyFingerprint } from '../../types';
+
+const { Text } = Typography;
+
+const SEVERITY_COLORS: Record<string, string> = {
+  fatal: 'magenta',
+  critical: 'red',
+  warning: 'orange',
+  none: 'default'
+};
+
+interface NoisyFingerprintsTableProps {
+  fingerprints: NoisyFingerprint[];
+  loading: boolean;
+}
+
+/**
+ * Alerts that opened the most incidents in the range. Frequent alerts that are rarely
+ * acknowledged are the first candidates for tuning or grouping.
+ */
+export const NoisyFingerprintsTable: React.FC<NoisyFingerprintsTableProps> = ({ fingerprints, loading }) => {
+  const columns = [
+    {
+      title: 'Alert',
+      key: 'alert',
+      render: (record: NoisyFingerprint) => (
+        <div>
+          <Text strong>{record.service}</Text>{' '}
+          <Tag color={SEVERITY_COLORS[record.severity] || 'default'}>{record.severity}</Tag>
+          <div>
+            <Text type="secondary" style={{ fontSize: '12px' }} ellipsis={{ tooltip: record.message }}>
+              {record.message}
+            </Text>
+          </div>
+        </div>
+      )
+    },
+    {
+      title: 'Incidents',
+      dataIndex: 'incidents',
+      key: 'incidents',
+      width: 100,
+      render: (incidents: number, record: NoisyFingerprint) => (
+        <Tooltip title={`${record.share_percent}% of all incidents${record.firing > 0 ? `, ${record.firing} firing` : ''}`}>
+          <Text strong>{incidents}</Text>
+        </Tooltip>
+      )
+    },
+    {
+      title: 'Acknowledged',
+      dataIndex: 'acknowledgment_rate',
+      key: 'acknowledgment_rate',
+      width: 150,
+      render: (rate: number) => (
+        <Progress
+          percent={rate}
+          size="small"
+          status={rate < 25 ? 'exception' : 'normal'}
+        />
+      )
+    },
+    {
+      title: 'Avg duration',
+      dataIndex: 'avg_duration_minutes',
+      key: 'avg_duration_minutes',
+      width: 110,
+      render: (minutes: number | null) => minutes === null ? '—' : `${minutes} min`
+    },
+    {
+      title: 'Last incident',
+      dataIndex: 'last_incident',
+      key: 'last_incident',
+      width: 170,
+      render: (lastIncident: string) => (
+        <Text style={{ fontSize: '12px' }}>{new Date(lastIncident).toLocaleString()}</Text>
+      )
+    }
+  ];
+
+  return (
+    <Card title="Noisiest alerts" style={{ marginBottom: 24 }}>
+      <Table
+        dataSource={fingerprints}
+        columns={columns}
+        rowKey="alert_fingerprint"
+        loading={loading}
+        pagination={false}
+        size="small"
+        tableLayout="fixed"
+        locale={{ emptyText: 'No incidents in this range' }}
+      />
+    </Card>
+  );
+};
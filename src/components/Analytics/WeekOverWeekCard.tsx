@@ -0,0 +1,142 @@
+import React from 'react';
+import { Card, Row, Col, Statistic, Table, Typography } from 'antd';
+import { ArrowUpOutlined, ArrowDownOutlined } from '@ant-design/icons';
+import type { WeekOverWeek } from '../../hooks/useReliabilityReport';
+import type { AlertTrendGroup } from '../../types';
+
+const { Text } = Typography;
+
+type GroupComparison = {
+  group: string;
+  current: AlertTrendGroup | undefined;
+  previous: AlertTrendGroup | undefined;
+};
+
+// Change from previous to current; fewer incidents and faster MTTA/MTTR are improvements
+const Change: React.FC<{ current: number | null | undefined; previous: number | null | undefined }> = ({ current, previous }) => {
+  if (current === null || current === undefined || previous === null || previous === undefined || previous === 0) {
+    return <Text type="secondary">—</Text>;
+  }
+  const percent = Math.round(((current - previous) / previous) * 100);
+  if (percent === 0) {
+    return <Text type="secondary">0%</Text>;
+  }
+  return (
+    <Text type={percent > 0 ? 'danger' : 'success'}>
+      {percent > 0 ? <ArrowUpOutlined /> : <ArrowDownOutlined />} {Math.abs(percent)}%
+    </Text>
+  );
+};
+
+const formatMinutes = (minutes: number | null | undefined) =>
+  minutes === null || minutes === undefined ? '—' : `${Math.round(minutes)} min`;
+
+interface WeekOverWeekCardProps {
+  weekOverWeek: WeekOverWeek | null;
+  loading: boolean;
+}
+
+/**
+ * The last seven days of the range against the seven days before, overall and per namespace or team
+ */
+export const WeekOverWeekCard: React.FC<WeekOverWeekCardProps> = ({ weekOverWeek, loading }) => {
+  const current = weekOverWeek?.current;
+  const previous = weekOverWeek?.previous;
+
+  const groupNames = new Set([
+    ...(weekOverWeek?.currentGroups.groups.map(group => group.group) || []),
+    ...(weekOverWeek?.previousGroups.groups.map(group => group.group) || [])
+  ]);
+  const comparisons: GroupComparison[] = Array.from(groupNames)
+    .map(group => ({
+      group,
+      current: weekOverWeek?.currentGroups.groups.find(g => g.group === group),
+      previous: weekOverWeek?.previousGroups.groups.find(g => g.group === group)
+    }))
+    .sort((a, b) => (b.current?.incidents || 0) - (a.current?.incidents || 0));
+
+  const columns = [
+    {
+      title: weekOverWeek?.currentGroups.group_by === 'team' ? 'Team' : 'Namespace',
+      dataIndex: 'group',
+      key: 'group'
+    },
+    {
+      title: 'Incidents',
+      key: 'incidents',
+      render: (record: GroupComparison) => (
+        <span>
+          {record.current?.incidents || 0} <Text type="secondary">vs {record.previous?.incidents || 0}</Text>{' '}
+          <Change current={record.current?.incidents || 0} previous={record.previous?.incidents} />
+        </span>
+      )
+    },
+    {
+      title: 'MTTA',
+      key: 'mtta',
+      render: (record: GroupComparison) => (
+        <span>
+          {formatMinutes(record.current?.mtta_minutes)}{' '}
+          <Text type="secondary">vs {formatMinutes(record.previous?.mtta_minutes)}</Text>{' '}
+          <Change current={record.current?.mtta_minutes} previous={record.previous?.mtta_minutes} />
+        </span>
+      )
+    },
+    {
+      title: 'MTTR',
+      key: 'mttr',
+      render: (record: GroupComparison) => (
+        <span>
+          {formatMinutes(record.current?.mttr_minutes)}{' '}
+          <Text type="secondary">vs {formatMinutes(record.previous?.mttr_minutes)}</Text>{' '}
+          <Change current={record.current?.mttr_minutes} previous={record.previous?.mttr_minutes} />
+        </span>
+      )
+    }
+  ];
+
+  return (
+    <Card
+      title="Week over week"
+      extra={
+        weekOverWeek && (
+          <Text type="secondary" style={{ fontSize: '12px' }}>
+            {new Date(weekOverWeek.currentStart).toLocaleDateString()} – {new Date(weekOverWeek.end).toLocaleDateString()} vs
+            the 7 days before
+          </Text>
+        )
+      }
+      loading={loading && !weekOverWeek}
+      style={{ marginBottom: 24 }}
+    >
+      {current && previous && (
+        <Row gutter={16} style={{ marginBottom: 16 }}>
+          <Col span={6}>
+            <Statistic title="Incidents" value={current.summary.total_incidents} />
+            <Change current={current.summary.total_incidents} previous={previous.summary.total_incidents} />
+          </Col>
+          <Col span={6}>
+            <Statistic title="MTTA" value={formatMinutes(current.mtta.average_minutes)} />
+            <Change current={current.mtta.average_minutes} previous={previous.mtta.average_minutes} />
+          </Col>
+          <Col span={6}>
+            <Statistic title="MTTR" value={formatMinutes(current.mttr.average_minutes)} />
+            <Change current={current.mttr.average_minutes} previous={previous.mttr.average_minutes} />
+          </Col>
+          <Col span={6}>
+            <Statistic title="Affected services" value={current.summary.affected_services} />
+            <Change current={current.summary.affected_services} previous={previous.summary.affected_services} />
+          </Col>
+        </Row>
+      )}
+      <Table
+        dataSource={comparisons}
+        columns={columns}
+        rowKey="group"
+        pagination={{ pageSize: 10, hideOnSinglePage: true }}
+        size="small"
+        locale={{ emptyText: 'No incidents in either week' }}
+      />
+    </Card>
+  );
+};
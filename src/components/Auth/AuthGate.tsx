@@ -0,0 +1,24 @@
+import React from 'react';
+import { Spin } from 'antd';
+import App from '../../App';
+import { useAuth } from '../../hooks/useAuth';
+import { LoginPage } from './LoginPage';
+
+// Shows the login page until there is a signed-in user (or the backend does not require one)
+export const AuthGate: React.FC = () => {
+  const { user, authEnabled, loading } = useAuth();
+
+  if (loading) {
+    return (
+      <div style={{ minHeight: '100vh', display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+        <Spin size="large" />
+      </div>
+    );
+  }
+
+  if (authEnabled && !user) {
+    return <LoginPage />;
+  }
+
+  return <App />;
+};
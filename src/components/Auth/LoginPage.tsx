@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { Card, Form, Input, Button, Alert, Typography, theme } from 'antd';
+import { UserOutlined, LockOutlined } from '@ant-design/icons';
+import { useAuth } from '../../hooks/useAuth';
+import { ThemeToggle } from '../Common/ThemeToggle';
+
+const { Title, Text } = Typography;
+
+interface LoginForm {
+  username: string;
+  password: string;
+}
+
+export const LoginPage: React.FC = () => {
+  const { login } = useAuth();
+  const { token } = theme.useToken();
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (values: LoginForm) => {
+    try {
+      setSubmitting(true);
+      setError(null);
+      await login(values.username, values.password);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sign in failed');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div style={{
+      minHeight: '100vh',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      background: token.colorBgLayout,
+      position: 'relative'
+    }}>
+      <div style={{ position: 'absolute', top: 16, right: 16 }}>
+        <ThemeToggle />
+      </div>
+
+      <Card style={{ width: 360 }}>
+        <div style={{ textAlign: 'center', marginBottom: 24 }}>
+          <Title level={3} style={{ marginBottom: 4 }}>Olana</Title>
+          <Text type="secondary">Sign in to continue</Text>
+        </div>
+
+        {error && (
+          <Alert type="error" message={error} showIcon style={{ marginBottom: 16 }} />
+        )}
+
+        <Form<LoginForm> layout="vertical" onFinish={handleSubmit} requiredMark={false}>
+          <Form.Item
+            name="username"
+            label="Username"
+            rules={[{ required: true, message: 'Enter your username' }]}
+          >
+            <Input prefix={<UserOutlined />} autoComplete="username" autoFocus />
+          </Form.Item>
+          <Form.Item
+            name="password"
+            label="Password"
+            rules={[{ required: true, message: 'Enter your password' }]}
+          >
+            <Input.Password prefix={<LockOutlined />} autoComplete="current-password" />
+          </Form.Item>
+          <Button type="primary" htmlType="submit" block loading={submitting}>
+            Sign in
+          </Button>
+        </Form>
+      </Card>
+    </div>
+  );
+};
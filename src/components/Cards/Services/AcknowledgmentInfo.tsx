@@ -1,12 +1,14 @@
 import React from 'react';
-import { Space, Typography, Tooltip } from 'antd';
-import { CheckCircleOutlined } from '@ant-design/icons';
+import { Space, Typography, Tooltip, Tag } from 'antd';
+import { CheckCircleOutlined, RiseOutlined } from '@ant-design/icons';
 
 const { Text } = Typography;
 
 interface AcknowledgmentInfoProps {
   acknowledgedBy: string | null;
   acknowledgedAt: string | null;
+  escalationLevel?: number;
+  escalatedAt?: string | null;
   size?: 'small' | 'default';
   layout?: 'horizontal' | 'vertical';
   showIcons?: boolean;
@@ -15,6 +17,8 @@ interface AcknowledgmentInfoProps {
 export const AcknowledgmentInfo: React.FC<AcknowledgmentInfoProps> = ({
   acknowledgedBy,
   acknowledgedAt,
+  escalationLevel = 0,
+  escalatedAt = null,
   size = 'default',
   layout = 'horizontal',
   showIcons = true
@@ -31,6 +35,19 @@ export const AcknowledgmentInfo: React.FC<AcknowledgmentInfoProps> = ({
   const fontSize = size === 'small' ? '12px' : '14px';
   const iconSize = size === 'small' ? 12 : 14;
 
+  // Level reached by the escalation policy while nobody acknowledged the incident
+  const escalationTag = escalationLevel > 0 ? (
+    <Tooltip title={escalatedAt ? `Escalated to level ${escalationLevel} on ${formatDateTime(escalatedAt).full}` : `Escalated to level ${escalationLevel}`}>
+      <Tag
+        color="orange"
+        icon={showIcons ? <RiseOutlined /> : undefined}
+        style={{ fontSize, marginInlineEnd: 0 }}
+      >
+        L{escalationLevel}
+      </Tag>
+    </Tooltip>
+  ) : null;
+
   if (!acknowledgedBy && !acknowledgedAt) {
     return (
       <Space size={4} direction={layout}>
@@ -51,6 +68,7 @@ export const AcknowledgmentInfo: React.FC<AcknowledgmentInfoProps> = ({
         >
           Not acknowledged
         </Text>
+        {escalationTag}
       </Space>
     );
   }
@@ -81,6 +99,8 @@ export const AcknowledgmentInfo: React.FC<AcknowledgmentInfoProps> = ({
           </Text>
         </Tooltip>
       )}
+
+      {escalationTag}
     </Space>
   );
 };
\ No newline at end of file
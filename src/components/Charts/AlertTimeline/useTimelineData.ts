@@ -1,7 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import type { FilterState, AlertAnalyticsResponse, ProcessedTimelineData, TimelineDataPoint, TimelineEvent } from './types';
 
-import { API_BASE_URL } from '../../../utils/api';
+import { API_BASE_URL, apiFetch } from '../../../utils/api';
 
 interface UseTimelineDataProps {
   filters?: FilterState;
@@ -53,7 +53,7 @@ export const useTimelineData = ({
         params.append('search', filters.search.trim());
       }
 
-      const response = await fetch(`${API_BASE_URL}/alerts/analytics?${params}`);
+      const response = await apiFetch(`${API_BASE_URL}/alerts/analytics?${params}`);
       
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`);
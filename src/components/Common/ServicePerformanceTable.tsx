@@ -3,7 +3,7 @@ import { Table, Typography, Space, Button } from 'antd';
 import type { SortOrder } from 'antd/es/table/interface';
 import { ClearOutlined } from '@ant-design/icons';
 import type { Node } from '../../types';
-import { API_BASE_URL } from '../../utils/api';
+import { API_BASE_URL, apiFetch } from '../../utils/api';
 import { logger } from '../../utils/logger';
 
 const { Text } = Typography;
@@ -61,8 +61,8 @@ export const ServicePerformanceTable: React.FC<ServicePerformanceTableProps> = (
       const analyticsPromises = services.map(async (service) => {
         try {
           const [analytics24h, analyticsOverall] = await Promise.all([
-            fetch(`${API_BASE_URL}/alerts/analytics/service/${service.namespace}/${service.serviceName}?hours=24`),
-            fetch(`${API_BASE_URL}/alerts/analytics/service/${service.namespace}/${service.serviceName}?hours=87600`) // Whole DB
+            apiFetch(`${API_BASE_URL}/alerts/analytics/service/${service.namespace}/${service.serviceName}?hours=24`),
+            apiFetch(`${API_BASE_URL}/alerts/analytics/service/${service.namespace}/${service.serviceName}?hours=87600`) // Whole DB
           ]);
 
           const data24h = analytics24h.ok ? await analytics24h.json() : null;
@@ -0,0 +1,31 @@
+import React from 'react';
+import { Button, Space, Tooltip } from 'antd';
+import { UserOutlined, LogoutOutlined } from '@ant-design/icons';
+import { useAuth } from '../../hooks/useAuth';
+
+export const UserMenu: React.FC = () => {
+  const { user, authEnabled, logout } = useAuth();
+
+  if (!authEnabled || !user) {
+    return null;
+  }
+
+  return (
+    <Space size={4}>
+      <Tooltip title={user.email || user.username}>
+        <span style={{ color: '#666' }}>
+          <UserOutlined style={{ marginRight: 6 }} />
+          {user.displayName || user.username}
+        </span>
+      </Tooltip>
+      <Tooltip title="Sign out">
+        <Button
+          type="text"
+          icon={<LogoutOutlined />}
+          onClick={logout}
+          aria-label="Sign out"
+        />
+      </Tooltip>
+    </Space>
+  );
+};
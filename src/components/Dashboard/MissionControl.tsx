@@ -1,4 +1,4 @@
-import React, { useEffect, useCallback } from 'react';
+import React, { useEffect, useCallback, useState } from 'react';
 import { Row, Col, Alert, Collapse } from 'antd';
 import { 
   ForkOutlined,
@@ -6,7 +6,7 @@ import {
   AlertOutlined
 } from '@ant-design/icons';
 import { AlertsFilters } from '../Incidents/AlertsFilters';
-import { ServiceMapEasy } from '../ServiceMap';
+import { ServiceMapEasy, ServiceMapTimeSlider } from '../ServiceMap';
 import { AlertTimeline } from '../Charts';
 import { useFilterState } from '../../hooks/useFilterState';
 import { useServiceMapData } from '../../hooks/useServiceMapData';
@@ -35,9 +35,11 @@ import { RecentDeploymentsTable } from '../Common/RecentDeploymentsTable';
 
 interface MissionControlProps {
   onLastUpdatedChange: (date: Date) => void;
+  // Service (namespace::name) to focus the service map on, e.g. when linked from another page
+  focusService?: string | null;
 }
 
-export const MissionControl: React.FC<MissionControlProps> = ({ onLastUpdatedChange }) => {
+export const MissionControl: React.FC<MissionControlProps> = ({ onLastUpdatedChange, focusService = null }) => {
   // Use reusable filter state hook
   const { state: filterState, actions: filterActions, helpers: filterHelpers } = useFilterState();
   
@@ -48,6 +50,9 @@ export const MissionControl: React.FC<MissionControlProps> = ({ onLastUpdatedCha
   const { data: analytics24h, loading: analytics24hLoading, fetchAnalytics: fetchAnalytics24h } = useAnalytics();
   const { data: analyticsOverall, loading: analyticsOverallLoading, fetchAnalytics: fetchAnalyticsOverall } = useAnalytics();
 
+  // Service map replay time (null = live)
+  const [replayAt, setReplayAt] = useState<string | null>(null);
+
   // Memoize the fetch function to prevent infinite loops (EXACTLY like original)
   const memoizedFetchData = useCallback(async () => {
     const filters = {
@@ -299,8 +304,12 @@ export const MissionControl: React.FC<MissionControlProps> = ({ onLastUpdatedCha
               </div>
             ),
             children: (
-              <ServiceMapEasy
+              <>
+                <ServiceMapTimeSlider value={replayAt} onChange={setReplayAt} />
+                <ServiceMapEasy
                   filters={filters}
+                  at={replayAt}
+                  focusService={focusService}
                   config={{
                     height: '500px',
                     showControls: true,
@@ -314,6 +323,7 @@ export const MissionControl: React.FC<MissionControlProps> = ({ onLastUpdatedCha
                   onRefresh={handleRefresh}
                   onToggleChange={handleToggleChange}
                 />
+              </>
             ),
           },
         ]}
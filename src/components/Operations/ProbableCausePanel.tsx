@@ -0,0 +1,125 @@
+import React from 'react';
+import { Card, Typography, Space, Tag, Button, List, Progress, Empty, Alert, Tooltip } from 'antd';
+import { BulbOutlined, ReloadOutlined, InfoCircleOutlined } from '@ant-design/icons';
+import type { RootCauseCandidate } from '../../types';
+import { useRootCauseAnalysis } from '../../hooks/useRootCauseAnalysis';
+
+const { Text } = Typography;
+
+interface ProbableCausePanelProps {
+  namespaces?: string[];
+}
+
+const CONFIDENCE_COLORS: Record<RootCauseCandidate['confidence'], string> = {
+  high: 'red',
+  medium: 'orange',
+  low: 'default'
+};
+
+const getSeverityColor = (severity: string | null) => {
+  switch (severity) {
+    case 'fatal': return '#ff4d4f';
+    case 'critical': return '#ff7a45';
+    case 'warning': return '#faad14';
+    default: return '#52c41a';
+  }
+};
+
+/**
+ * Ranked guesses at what is actually broken when many services fire together,
+ * based on where the firing services sit in the dependency graph and when they started.
+ */
+export const ProbableCausePanel: React.FC<ProbableCausePanelProps> = ({ namespaces }) => {
+  const { analysis, loading, error, refresh } = useRootCauseAnalysis(namespaces);
+
+  const renderCandidate = (candidate: RootCauseCandidate, index: number) => (
+    <List.Item key={candidate.service}>
+      <div style={{ width: '100%' }}>
+        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '12px', flexWrap: 'wrap' }}>
+          <Space wrap>
+            <Text strong>#{index + 1}</Text>
+            <Text strong>{candidate.name}</Text>
+            <Text type="secondary">({candidate.namespace})</Text>
+            {candidate.firing ? (
+              <Tag color={getSeverityColor(candidate.highestSeverity)}>
+                {candidate.incidentCount} {candidate.highestSeverity}
+              </Tag>
+            ) : (
+              <Tag>not firing</Tag>
+            )}
+            <Tag color={CONFIDENCE_COLORS[candidate.confidence]}>{candidate.confidence} confidence</Tag>
+            {candidate.team && <Tag color="orange">{candidate.team}</Tag>}
+          </Space>
+          <div style={{ width: '160px' }}>
+            <Progress percent={candidate.score} size="small" format={percent => `${percent}`} />
+          </div>
+        </div>
+
+        <ul style={{ margin: '8px 0 0', paddingLeft: '20px' }}>
+          {candidate.reasons.map(reason => (
+            <li key={reason}>
+              <Text type="secondary" style={{ fontSize: '12px' }}>{reason}</Text>
+            </li>
+          ))}
+        </ul>
+
+        {candidate.explains.length > 0 && (
+          <div style={{ marginTop: '6px' }}>
+            <Text type="secondary" style={{ fontSize: '12px', marginRight: '6px' }}>Would explain:</Text>
+            {candidate.explains.map(service => (
+              <Tag key={service} style={{ fontSize: '11px', marginBottom: '4px' }}>{service}</Tag>
+            ))}
+          </div>
+        )}
+      </div>
+    </List.Item>
+  );
+
+  const renderBody = () => {
+    if (error) {
+      return <Alert message="Failed to load root cause analysis" description={error} type="error" showIcon />;
+    }
+
+    if (!analysis || analysis.candidates.length === 0) {
+      return (
+        <Empty
+          image={Empty.PRESENTED_IMAGE_SIMPLE}
+          description={loading ? 'Analysing firing incidents...' : 'No firing incidents to analyse'}
+        />
+      );
+    }
+
+    return (
+      <List
+        size="small"
+        loading={loading}
+        dataSource={analysis.candidates}
+        renderItem={renderCandidate}
+      />
+    );
+  };
+
+  return (
+    <Card
+      title={
+        <Space>
+          <BulbOutlined style={{ color: '#faad14' }} />
+          <span>Probable Cause</span>
+          <Tooltip title="Firing incidents overlaid on the dependency graph: services that other firing services depend on, that have no firing dependencies themselves, and that started firing first rank highest">
+            <InfoCircleOutlined style={{ color: '#8c8c8c' }} />
+          </Tooltip>
+          {analysis && analysis.firingServices > 0 && (
+            <Text type="secondary" style={{ fontSize: '12px', fontWeight: 'normal' }}>
+              {analysis.firingIncidents} incidents across {analysis.firingServices} services
+            </Text>
+          )}
+        </Space>
+      }
+      extra={<Button size="small" icon={<ReloadOutlined />} onClick={refresh} loading={loading} />}
+      size="small"
+      style={{ marginBottom: 24 }}
+    >
+      {renderBody()}
+    </Card>
+  );
+};
@@ -8,6 +8,7 @@ import { useServiceHealth } from '../../hooks/useServiceHealth';
 import { ArrangeByControl, SortByControl, AckFilter } from '../Controls';
 import type { AckFilterOption } from '../Controls/AckFilter';
 import { ServicesList } from '../Services/ServicesList';
+import { ProbableCausePanel } from './ProbableCausePanel';
 import { calculateMTTA } from '../../utils/mttaCalculations';
 import {
   ServicesWithIssuesCard,
@@ -263,6 +264,8 @@ export const ServiceHealth: React.FC = () => {
         </Col>
       </Row>
 
+      {/* Probable root causes of the firing incidents */}
+      <ProbableCausePanel namespaces={filterState.selectedNamespaces} />
 
       {/* Arrangement and Sorting Controls */}
       <div style={{
@@ -0,0 +1,337 @@
+import React, { useState } from 'react';
+import {
+  Card,
+  Typography,
+  Space,
+  Table,
+  Tag,
+  Button,
+  Select,
+  Modal,
+  Form,
+  Input,
+  DatePicker,
+  Popconfirm,
+  Alert,
+  Tooltip
+} from 'antd';
+import {
+  StopOutlined,
+  PlusOutlined,
+  EditOutlined,
+  DeleteOutlined,
+  ReloadOutlined,
+  FieldTimeOutlined
+} from '@ant-design/icons';
+import type { Dayjs } from 'dayjs';
+import dayjs from 'dayjs';
+import type { AlertSilence } from '../../types';
+import { useSilences } from '../../hooks/useSilences';
+import type { SilenceState } from '../../hooks/useSilences';
+import { useAuth } from '../../hooks/useAuth';
+
+const { Text } = Typography;
+const { TextArea } = Input;
+const { RangePicker } = DatePicker;
+
+type SilenceFormValues = {
+  match_namespace?: string;
+  match_service?: string;
+  match_severity?: string;
+  match_tags?: string[];
+  message_pattern?: string;
+  window: [Dayjs, Dayjs];
+  comment?: string;
+};
+
+const STATE_COLORS: Record<AlertSilence['state'], string> = {
+  active: 'green',
+  pending: 'blue',
+  expired: 'default'
+};
+
+const SEVERITIES = ['fatal', 'critical', 'warning', 'none'];
+
+// A silence with no severity or message filter mutes whole services - shown on the map as maintenance
+const isMaintenance = (silence: AlertSilence) =>
+  !silence.match_severity && !silence.message_pattern &&
+  (!!silence.match_namespace || !!silence.match_service || silence.match_tags.length > 0);
+
+/**
+ * Create and manage alert silences and maintenance windows
+ */
+export const SilenceManager: React.FC = () => {
+  const [stateFilter, setStateFilter] = useState<SilenceState>('current');
+  const { silences, loading, saving, error, saveSilence, expireSilence, deleteSilence, refresh } = useSilences(stateFilter);
+  const { hasRole } = useAuth();
+  const canManage = hasRole('responder');
+
+  const [form] = Form.useForm<SilenceFormValues>();
+  const [editing, setEditing] = useState<AlertSilence | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+
+  const openCreate = () => {
+    setEditing(null);
+    form.resetFields();
+    form.setFieldsValue({ window: [dayjs(), dayjs().add(2, 'hour')] });
+    setIsFormOpen(true);
+  };
+
+  const openEdit = (silence: AlertSilence) => {
+    setEditing(silence);
+    form.resetFields();
+    form.setFieldsValue({
+      match_namespace: silence.match_namespace || undefined,
+      match_service: silence.match_service || undefined,
+      match_severity: silence.match_severity || undefined,
+      match_tags: silence.match_tags,
+      message_pattern: silence.message_pattern || undefined,
+      window: [dayjs(silence.starts_at), dayjs(silence.ends_at)],
+      comment: silence.comment || undefined
+    });
+    setIsFormOpen(true);
+  };
+
+  const handleSubmit = async () => {
+    const values = await form.validateFields();
+    const saved = await saveSilence({
+      match_namespace: values.match_namespace?.trim() || null,
+      match_service: values.match_service?.trim() || null,
+      match_severity: values.match_severity || null,
+      match_tags: values.match_tags || [],
+      message_pattern: values.message_pattern || null,
+      starts_at: values.window[0].toISOString(),
+      ends_at: values.window[1].toISOString(),
+      comment: values.comment || null
+    }, editing?.id);
+
+    if (saved) {
+      setIsFormOpen(false);
+    }
+  };
+
+  const columns = [
+    {
+      title: 'State',
+      dataIndex: 'state',
+      key: 'state',
+      width: 110,
+      render: (state: AlertSilence['state'], record: AlertSilence) => (
+        <Space size={4} direction="vertical">
+          <Tag color={STATE_COLORS[state]}>{state}</Tag>
+          {isMaintenance(record) && <Tag color="purple">maintenance</Tag>}
+        </Space>
+      )
+    },
+    {
+      title: 'Matchers',
+      key: 'matchers',
+      render: (record: AlertSilence) => (
+        <Space size={[4, 4]} wrap>
+          {record.match_namespace && <Tag color="blue">namespace={record.match_namespace}</Tag>}
+          {record.match_service && <Tag color="blue">service={record.match_service}</Tag>}
+          {record.match_severity && <Tag color="orange">severity={record.match_severity}</Tag>}
+          {record.match_tags.map(tag => <Tag key={tag}>tag:{tag}</Tag>)}
+          {record.message_pattern && (
+            <Tag style={{ fontFamily: 'monospace' }}>message=~/{record.message_pattern}/</Tag>
+          )}
+        </Space>
+      )
+    },
+    {
+      title: 'Window',
+      key: 'window',
+      render: (record: AlertSilence) => (
+        <Text style={{ fontSize: '12px' }}>
+          {new Date(record.starts_at).toLocaleString()} → {new Date(record.ends_at).toLocaleString()}
+        </Text>
+      ),
+      sorter: (a: AlertSilence, b: AlertSilence) => new Date(a.ends_at).getTime() - new Date(b.ends_at).getTime()
+    },
+    {
+      title: 'Muted',
+      dataIndex: 'firing_incidents',
+      key: 'firing_incidents',
+      width: 80,
+      render: (count: number) => (
+        <Tooltip title="Firing incidents matched by this silence">
+          <Text strong={count > 0}>{count}</Text>
+        </Tooltip>
+      )
+    },
+    {
+      title: 'Comment',
+      key: 'comment',
+      render: (record: AlertSilence) => (
+        <Space direction="vertical" size={0}>
+          <Text style={{ fontSize: '12px' }}>{record.comment || '-'}</Text>
+          <Text type="secondary" style={{ fontSize: '11px' }}>by {record.created_by}</Text>
+        </Space>
+      )
+    },
+    ...(canManage ? [{
+      title: '',
+      key: 'actions',
+      width: 130,
+      render: (record: AlertSilence) => (
+        <Space size={4}>
+          {record.state !== 'expired' && (
+            <>
+              <Button size="small" type="text" icon={<EditOutlined />} onClick={() => openEdit(record)} />
+              <Popconfirm
+                title="Expire this silence now?"
+                description="Matching alerts will show again immediately."
+                onConfirm={() => expireSilence(record.id)}
+                okText="Expire"
+              >
+                <Tooltip title="Expire now">
+                  <Button size="small" type="text" icon={<FieldTimeOutlined />} />
+                </Tooltip>
+              </Popconfirm>
+            </>
+          )}
+          <Popconfirm
+            title="Delete this silence?"
+            onConfirm={() => deleteSilence(record.id)}
+            okText="Delete"
+            okButtonProps={{ danger: true }}
+          >
+            <Button size="small" type="text" danger icon={<DeleteOutlined />} />
+          </Popconfirm>
+        </Space>
+      )
+    }] : [])
+  ];
+
+  return (
+    <Card
+      title={
+        <Space>
+          <StopOutlined style={{ color: '#1890ff' }} />
+          <span>Silences & Maintenance Windows</span>
+          <Tag color="blue">{silences.length}</Tag>
+        </Space>
+      }
+      extra={
+        <Space>
+          <Select
+            size="small"
+            value={stateFilter}
+            onChange={setStateFilter}
+            style={{ width: '150px' }}
+            options={[
+              { value: 'current', label: 'Active & pending' },
+              { value: 'active', label: 'Active' },
+              { value: 'pending', label: 'Pending' },
+              { value: 'expired', label: 'Expired' },
+              { value: 'all', label: 'All' }
+            ]}
+          />
+          {canManage && (
+            <Button size="small" type="primary" icon={<PlusOutlined />} onClick={openCreate}>
+              New Silence
+            </Button>
+          )}
+          <Button size="small" icon={<ReloadOutlined />} onClick={refresh} loading={loading} />
+        </Space>
+      }
+      style={{ marginBottom: 24 }}
+    >
+      {error && (
+        <Alert message="Failed to load silences" description={error} type="error" showIcon style={{ marginBottom: 16 }} />
+      )}
+
+      <Table
+        dataSource={silences}
+        columns={columns}
+        rowKey="id"
+        loading={loading}
+        pagination={{ pageSize: 10, hideOnSinglePage: true }}
+        size="small"
+        locale={{ emptyText: 'No silences' }}
+      />
+
+      <Modal
+        title={editing ? 'Edit Silence' : 'New Silence'}
+        open={isFormOpen}
+        onCancel={() => setIsFormOpen(false)}
+        onOk={handleSubmit}
+        okText={editing ? 'Save' : 'Create'}
+        confirmLoading={saving}
+        width={560}
+        forceRender
+      >
+        <Form form={form} layout="vertical">
+          <Text type="secondary" style={{ display: 'block', marginBottom: 12, fontSize: '12px' }}>
+            Alerts matching every field you fill in are recorded but hidden from alert lists and the map.
+            Leave severity and message empty to put whole services in maintenance.
+          </Text>
+          <Space style={{ display: 'flex' }} align="start">
+            <Form.Item name="match_namespace" label="Namespace" style={{ flex: 1 }}>
+              <Input placeholder="Any" />
+            </Form.Item>
+            <Form.Item name="match_service" label="Service" style={{ flex: 1 }}>
+              <Input placeholder="Any" />
+            </Form.Item>
+            <Form.Item name="match_severity" label="Severity" style={{ width: 120 }}>
+              <Select allowClear placeholder="Any" options={SEVERITIES.map(severity => ({ value: severity, label: severity }))} />
+            </Form.Item>
+          </Space>
+          <Form.Item name="match_tags" label="Service tags (all required)">
+            <Select mode="tags" placeholder="e.g. tier-1" tokenSeparators={[',']} />
+          </Form.Item>
+          <Form.Item
+            name="message_pattern"
+            label="Message (regular expression)"
+            rules={[{
+              validator: (_, value) => {
+                if (!value) return Promise.resolve();
+                try {
+                  new RegExp(value, 'i');
+                  return Promise.resolve();
+                } catch {
+                  return Promise.reject(new Error('Not a valid regular expression'));
+                }
+              }
+            }]}
+          >
+            <Input placeholder="e.g. disk (usage|space)" style={{ fontFamily: 'monospace' }} />
+          </Form.Item>
+          <Form.Item
+            name="window"
+            label="Window"
+            rules={[{ required: true, message: 'Choose when the silence starts and ends' }]}
+          >
+            <RangePicker
+              showTime
+              style={{ width: '100%' }}
+              presets={[
+                { label: 'Next hour', value: [dayjs(), dayjs().add(1, 'hour')] },
+                { label: 'Next 2 hours', value: [dayjs(), dayjs().add(2, 'hour')] },
+                { label: 'Next 4 hours', value: [dayjs(), dayjs().add(4, 'hour')] },
+                { label: 'Next 24 hours', value: [dayjs(), dayjs().add(1, 'day')] }
+              ]}
+            />
+          </Form.Item>
+          <Form.Item
+            name="comment"
+            label="Comment"
+            dependencies={['match_namespace', 'match_service', 'match_severity', 'match_tags', 'message_pattern']}
+            rules={[({ getFieldValue }) => ({
+              validator: () => {
+                const hasMatcher = getFieldValue('match_namespace') || getFieldValue('match_service') ||
+                  getFieldValue('match_severity') || (getFieldValue('match_tags') || []).length > 0 ||
+                  getFieldValue('message_pattern');
+                return hasMatcher
+                  ? Promise.resolve()
+                  : Promise.reject(new Error('Fill in at least one matcher above'));
+              }
+            })]}
+          >
+            <TextArea rows={2} maxLength={500} placeholder="e.g. Deploy of checkout v2.3" />
+          </Form.Item>
+        </Form>
+      </Modal>
+    </Card>
+  );
+};
@@ -1,8 +1,9 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
 import { Typography, Space, Button, Switch, Select, Tooltip, theme, Modal } from 'antd';
-import { ExpandOutlined, CompressOutlined, AimOutlined, ReloadOutlined, ClockCircleOutlined, WarningOutlined, ExclamationCircleOutlined } from '@ant-design/icons';
+import { ExpandOutlined, CompressOutlined, AimOutlined, ReloadOutlined, ClockCircleOutlined, WarningOutlined, ExclamationCircleOutlined, DiffOutlined } from '@ant-design/icons';
 import { Network, DataSet } from "vis-network/standalone/esm/vis-network";
-import type { Alert as AlertType, Node, Edge } from '../../types';
+import type { Alert as AlertType, Node, Edge, GraphDiff, TraversalDirection } from '../../types';
+import { useGraphTraversal } from '../../hooks/useGraphTraversal';
 import { logger } from '../../utils/logger';
 
 const { Text } = Typography;
@@ -40,11 +41,28 @@ export interface ServiceMapProps {
   onRefresh?: () => void;
   onIncludeDependentNamespacesChange?: (include: boolean) => void;
   onShowFullChainChange?: (show: boolean) => void;
+
+  // Diff mode: overlay nodes/edges added or removed since an earlier graph snapshot
+  diff?: GraphDiff | null;
+  diffWindowHours?: number | null;
+  diffError?: string | null;
+  onDiffWindowChange?: (hours: number | null) => void;
+
+  // Open focus mode on this service (namespace::name), e.g. when linked from another page
+  focusService?: string | null;
 }
 
-interface EnhancedNode extends Node {
+type DiffStatus = 'added' | 'removed';
+
+const DIFF_ADDED_COLOR = '#52c41a';
+const DIFF_REMOVED_COLOR = '#ff4d4f';
+
+interface EnhancedNode extends Omit<Node, 'color'> {
+  color?: string | { background: string; border: string };
+  diffStatus?: DiffStatus;
   distance?: number;
   isHighlighted?: boolean;
+  opacity?: number;
   font?: any;
   title?: string;
   borderWidth?: number;
@@ -56,6 +74,8 @@ interface EnhancedEdge extends Omit<Edge, 'dashes'> {
   smooth?: any;
   shadow?: any;
   dashes?: boolean | number[];
+  tooltipContent?: string;
+  diffStatus?: DiffStatus;
 }
 
 export const ServiceMap: React.FC<ServiceMapProps> = ({
@@ -71,7 +91,12 @@ export const ServiceMap: React.FC<ServiceMapProps> = ({
   filters,
   onRefresh,
   onIncludeDependentNamespacesChange,
-  onShowFullChainChange
+  onShowFullChainChange,
+  diff = null,
+  diffWindowHours = null,
+  diffError = null,
+  onDiffWindowChange,
+  focusService = null
 }) => {
   const { token } = theme.useToken();
   
@@ -101,6 +126,7 @@ export const ServiceMap: React.FC<ServiceMapProps> = ({
   const graphRef = useRef<HTMLDivElement>(null);
   const networkRef = useRef<Network | null>(null);
   const nodesDataSetRef = useRef<DataSet<EnhancedNode> | null>(null);
+  const edgesDataSetRef = useRef<DataSet<EnhancedEdge> | null>(null);
   const animationFrameRef = useRef<number | null>(null);
   
   // Interactive controls state
@@ -123,6 +149,26 @@ export const ServiceMap: React.FC<ServiceMapProps> = ({
     }
   }, [hasAnyFilters, mapConfig.defaultShowNamespaces]);
   const [focusMode, setFocusMode] = useState(false);
+  // Read by the network's click handler, which outlives the render that registered it
+  const focusModeRef = useRef(focusMode);
+  focusModeRef.current = focusMode;
+
+  // Focus mode: highlight the dependency chain around one service, walked server-side
+  const [focusRoot, setFocusRoot] = useState<string | null>(null);
+  const [focusDirection, setFocusDirection] = useState<TraversalDirection>('both');
+  const [focusDepth, setFocusDepth] = useState<number>(2);
+  const { traversal: focusTraversal, loading: focusLoading } = useGraphTraversal(
+    focusMode ? focusRoot : null,
+    focusDirection,
+    focusDepth
+  );
+
+  useEffect(() => {
+    if (focusService) {
+      setFocusMode(true);
+      setFocusRoot(focusService);
+    }
+  }, [focusService]);
   const [layoutStyle, setLayoutStyle] = useState<'hierarchical' | 'static' | 'clustered'>(mapConfig.defaultLayout);
   const [autoRefresh, setAutoRefresh] = useState<boolean>(false);
   const [refreshInterval, setRefreshInterval] = useState<number>(300);
@@ -181,6 +227,75 @@ export const ServiceMap: React.FC<ServiceMapProps> = ({
     }
   }, []);
 
+  // Diff mode: status per node/edge id, plus placeholders for nodes and edges that no longer exist
+  const diffNodeStatus = new Map<string, DiffStatus>();
+  const diffEdgeStatus = new Map<string, DiffStatus>();
+  let removedNodes: Node[] = [];
+  let removedEdges: Edge[] = [];
+
+  if (diff) {
+    diff.nodes.added.forEach(node => diffNodeStatus.set(node.id, 'added'));
+    diff.nodes.removed.forEach(node => diffNodeStatus.set(node.id, 'removed'));
+    diff.edges.added.forEach(edge => diffEdgeStatus.set(edge.id, 'added'));
+    diff.edges.removed.forEach(edge => diffEdgeStatus.set(edge.id, 'removed'));
+
+    const nodeIds = new Set(nodes.map(node => node.id));
+    const edgeIds = new Set(edges.map(edge => edge.id));
+
+    removedNodes = diff.nodes.removed
+      .filter(node => !nodeIds.has(node.id))
+      .map(node => ({
+        id: node.id,
+        label: node.name || node.namespace,
+        nodeType: node.nodeType,
+        team: node.team || undefined,
+        environment: node.environment || undefined,
+        component_type: node.component_type || undefined
+      }));
+
+    removedEdges = [
+      ...diff.edges.removed
+        .filter(edge => !edgeIds.has(edge.id))
+        .map(edge => ({ id: edge.id, from: edge.from, to: edge.to, edgeType: edge.edgeType })),
+      // Keep removed services attached to their namespace node like live ones
+      ...diff.nodes.removed
+        .filter(node => node.nodeType === 'service' && !nodeIds.has(node.id))
+        .map(node => ({ id: `${node.namespace}->${node.id}`, from: node.namespace, to: node.id }))
+    ];
+    removedEdges.forEach(edge => diffEdgeStatus.set(edge.id!, 'removed'));
+  }
+
+  // Focus mode: hop distance per service in the traversal, plus traversed services/edges outside the current filters
+  const focusDistance = new Map<string, number>();
+  const focusNamespaces = new Set<string>();
+  let focusNodes: Node[] = [];
+  let focusEdges: Edge[] = [];
+
+  if (focusTraversal) {
+    focusTraversal.nodes.forEach(node => {
+      focusDistance.set(node.id, node.distance);
+      focusNamespaces.add(node.namespace);
+    });
+
+    const nodeIds = new Set([...nodes, ...removedNodes].map(node => node.id));
+    const edgeIds = new Set([...edges, ...removedEdges].map(edge => edge.id));
+    focusNodes = focusTraversal.nodes.filter(node => !nodeIds.has(node.id));
+    focusEdges = focusTraversal.edges.filter(edge => !edgeIds.has(edge.id));
+  }
+
+  const allNodes = [...nodes, ...removedNodes, ...focusNodes];
+  const diffSinceLabel = diff ? new Date(diff.from.takenAt).toLocaleString() : '';
+
+  // Tooltip footer explaining a node/edge's diff status
+  const buildDiffNote = (status: DiffStatus) => {
+    const color = status === 'added' ? DIFF_ADDED_COLOR : DIFF_REMOVED_COLOR;
+    return `
+      <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; font-size: 12px; font-weight: 600; color: ${color}; margin-top: 6px;">
+        ${status === 'added' ? 'New' : 'Removed'} since ${diffSinceLabel}
+      </div>
+    `;
+  };
+
   // Process nodes with enhanced styling and alert information
   const processNodes = (): EnhancedNode[] => {
     console.log('[ServiceMap] Processing nodes, input nodes with alerts:', 
@@ -191,7 +306,7 @@ export const ServiceMap: React.FC<ServiceMapProps> = ({
       }))
     );
     
-    return nodes
+    return allNodes
       .filter(node => {
         if (!showServices && node.nodeType === 'service') return false;
         if (!showNamespaces && node.nodeType === 'namespace') return false;
@@ -287,6 +402,15 @@ export const ServiceMap: React.FC<ServiceMapProps> = ({
             `);
           }
 
+          // Maintenance section
+          if (node.inMaintenance) {
+            sectionsHtml.push(`
+              <div style="font-size: 12px; font-weight: 600; color: #722ed1; margin-bottom: 8px;">
+                🔧 In maintenance${node.maintenanceUntil ? ` until ${new Date(node.maintenanceUntil).toLocaleString()}` : ''}
+              </div>
+            `);
+          }
+
           // Alerts section
           if (nodeAlerts.length > 0) {
             const alertsHtml = nodeAlerts.slice(0, 3).map(alert => {
@@ -318,8 +442,17 @@ export const ServiceMap: React.FC<ServiceMapProps> = ({
           `;
         };
 
-        const nodeColor = getNodeColor();
+        const diffStatus = diffNodeStatus.get(node.id);
+        const nodeColor = diffStatus === 'removed' ? '#bfbfbf' : getNodeColor();
         const alertLabel = alertCount > 0 ? `\n${alertCount} alert${alertCount > 1 ? 's' : ''}` : '';
+        const diffLabel = diffStatus === 'added' ? '\n(new)' : diffStatus === 'removed' ? '\n(removed)' : '';
+        const maintenanceLabel = isService && node.inMaintenance ? '\n🔧 maintenance' : '';
+
+        // Focus mode: label hop distance, dim everything outside the traversal
+        const distance = focusTraversal && isService ? focusDistance.get(node.id) : undefined;
+        const isFocusRoot = distance === 0;
+        const focusLabel = distance === undefined ? '' : isFocusRoot ? '\n(focus)' : `\n${distance} hop${distance > 1 ? 's' : ''}`;
+        const isDimmed = !!focusTraversal && (isService ? distance === undefined : !focusNamespaces.has(node.id));
         
         // Border configuration
         const getBorderConfig = () => {
@@ -342,11 +475,19 @@ export const ServiceMap: React.FC<ServiceMapProps> = ({
           // Explicitly preserve alert properties for animation
           alertCount,
           highestSeverity: severity,
-          label: isService ? `${node.label}${alertLabel}` : node.label,
-          color: nodeColor,
+          label: isService ? `${node.label}${maintenanceLabel}${alertLabel}${diffLabel}${focusLabel}` : `${node.label}${diffLabel}`,
+          color: diffStatus
+            ? { background: nodeColor, border: diffStatus === 'added' ? DIFF_ADDED_COLOR : DIFF_REMOVED_COLOR }
+            : nodeColor,
+          diffStatus,
+          distance,
+          isHighlighted: distance !== undefined,
+          opacity: isDimmed ? 0.2 : 1,
           borderColor: borderConfig.color,
+          // Dashed outline marks services in a maintenance window
+          shapeProperties: isService && node.inMaintenance ? { borderDashes: [4, 4] } : undefined,
           shape: isService ? 'dot' : 'box',
-          size: isService ? (focusMode ? 20 : 25) : (focusMode ? 15 : 20),
+          size: isService ? (isFocusRoot ? 30 : focusMode ? 20 : 25) : (focusMode ? 15 : 20),
           font: { 
             size: focusMode ? 11 : 12, 
             color: isDarkTheme ? (isService ? '#a0a6b8' : '#ffffff') : '#ffffff',
@@ -354,7 +495,7 @@ export const ServiceMap: React.FC<ServiceMapProps> = ({
             strokeWidth: isService && alertCount > 0 ? 2 : 1, 
             strokeColor: nodeColor
           },
-          borderWidth: borderConfig.width,
+          borderWidth: diffStatus ? 4 : borderConfig.width,
           shadow: {
             enabled: true,
             color: alertCount > 0 ? nodeColor : 'rgba(255, 255, 255, 0.2)',
@@ -368,7 +509,7 @@ export const ServiceMap: React.FC<ServiceMapProps> = ({
               values.shadowColor = nodeColor;
             }
           } : undefined,
-          tooltipContent: buildTooltip()
+          tooltipContent: diffStatus ? `${buildTooltip()}${buildDiffNote(diffStatus)}` : buildTooltip()
         };
         
         if (isService && alertCount > 0) {
@@ -382,11 +523,51 @@ export const ServiceMap: React.FC<ServiceMapProps> = ({
       });
   };
 
+  // Build tooltip content for a service dependency edge with call metrics
+  const buildEdgeTooltip = (edge: Edge, metrics: NonNullable<Edge['metrics']>, edgeColor: string) => {
+    const primaryTextColor = isDarkTheme ? '#ffffff' : '#262626';
+    const secondaryTextColor = isDarkTheme ? '#a6adb4' : '#8c8c8c';
+    const tertiaryTextColor = isDarkTheme ? '#8a919a' : '#595959';
+    const formatLatency = (value: number | null) => value === null ? '—' : `${value.toFixed(value < 10 ? 1 : 0)} ms`;
+    const windowLabel = metrics.windowMinutes >= 60 && metrics.windowMinutes % 60 === 0
+      ? `${metrics.windowMinutes / 60}h`
+      : `${metrics.windowMinutes}m`;
+
+    return `
+      <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.4;">
+        <div style="font-weight: 600; font-size: 14px; margin-bottom: 8px; color: ${primaryTextColor};">
+          ${edge.from.split('::')[1] || edge.from} → ${edge.to.split('::')[1] || edge.to}
+        </div>
+        <div style="font-size: 12px; color: ${tertiaryTextColor};">
+          <strong>Calls:</strong> ${metrics.callCount.toLocaleString()}<br>
+          <strong>Errors:</strong> <span style="color: ${metrics.errorCount > 0 ? edgeColor : tertiaryTextColor};">${metrics.errorCount.toLocaleString()} (${(metrics.errorRate * 100).toFixed(2)}%)</span><br>
+          <strong>Latency:</strong> p50 ${formatLatency(metrics.latencyP50Ms)} · p95 ${formatLatency(metrics.latencyP95Ms)} · p99 ${formatLatency(metrics.latencyP99Ms)}
+        </div>
+        <div style="font-size: 11px; color: ${secondaryTextColor}; margin-top: 6px;">Last ${windowLabel}</div>
+      </div>
+    `;
+  };
+
+  // Build tooltip content for an edge added or removed since the diff snapshot
+  const buildDiffEdgeTooltip = (edge: Edge, status: DiffStatus) => {
+    const primaryTextColor = isDarkTheme ? '#ffffff' : '#262626';
+
+    return `
+      <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.4;">
+        <div style="font-weight: 600; font-size: 14px; color: ${primaryTextColor};">
+          ${edge.from.split('::')[1] || edge.from} → ${edge.to.split('::')[1] || edge.to}
+        </div>
+        ${buildDiffNote(status)}
+      </div>
+    `;
+  };
+
   // Process edges with enhanced styling
   const processEdges = (): EnhancedEdge[] => {
-    return edges.map(edge => {
-      const fromNode = nodes.find(n => n.id === edge.from);
-      const toNode = nodes.find(n => n.id === edge.to);
+    return [...edges, ...removedEdges, ...focusEdges].map(edge => {
+      const fromNode = allNodes.find(n => n.id === edge.from);
+      const toNode = allNodes.find(n => n.id === edge.to);
+      const diffStatus = edge.id ? diffEdgeStatus.get(edge.id) : undefined;
       
       const isServiceToService = fromNode?.nodeType === 'service' && toNode?.nodeType === 'service';
       const isServiceToNamespace = (fromNode?.nodeType === 'service' && toNode?.nodeType === 'namespace') ||
@@ -394,8 +575,17 @@ export const ServiceMap: React.FC<ServiceMapProps> = ({
       const isNamespaceToNamespace = fromNode?.nodeType === 'namespace' && toNode?.nodeType === 'namespace';
       
       let edgeColor, isDashed = false;
+      const metrics = isServiceToService ? edge.metrics : undefined;
       
-      if (isServiceToService) {
+      // In diff mode colour means added/removed, so it takes precedence over error rates
+      if (diffStatus) {
+        edgeColor = diffStatus === 'added' ? DIFF_ADDED_COLOR : DIFF_REMOVED_COLOR;
+        isDashed = diffStatus === 'removed' || isNamespaceToNamespace;
+      } else if (isServiceToService && metrics && metrics.errorRate >= 0.05) {
+        edgeColor = '#ff4d4f';
+      } else if (isServiceToService && metrics && metrics.errorRate >= 0.01) {
+        edgeColor = '#faad14';
+      } else if (isServiceToService) {
         edgeColor = isDarkTheme ? 'rgba(100, 200, 255, 0.8)' : '#2B7CE9';
         isDashed = false;
       } else if (isServiceToNamespace) {
@@ -409,6 +599,17 @@ export const ServiceMap: React.FC<ServiceMapProps> = ({
         isDashed = false;
       }
       
+      // Focus mode: fade edges outside the traversed chain
+      if (focusTraversal && !diffStatus && !(focusDistance.has(edge.from) && focusDistance.has(edge.to))) {
+        edgeColor = isDarkTheme ? 'rgba(180, 180, 180, 0.12)' : 'rgba(140, 140, 140, 0.15)';
+      }
+
+      // Scale width with traffic so hot paths stand out (log scale, capped)
+      const baseWidth = focusMode ? 2 : 3;
+      const edgeWidth = metrics && metrics.callCount > 0
+        ? Math.min(baseWidth + Math.log10(metrics.callCount) * 1.5, 10)
+        : baseWidth;
+
       return {
         ...edge,
         color: {
@@ -416,7 +617,7 @@ export const ServiceMap: React.FC<ServiceMapProps> = ({
           highlight: '#00d4aa',
           hover: '#00d4aa'
         },
-        width: focusMode ? 2 : 3,
+        width: edgeWidth,
         arrows: { 
           to: { 
             enabled: true, 
@@ -436,7 +637,11 @@ export const ServiceMap: React.FC<ServiceMapProps> = ({
           size: 1,
           x: 0,
           y: 0
-        }
+        },
+        diffStatus,
+        tooltipContent: diffStatus
+          ? buildDiffEdgeTooltip(edge, diffStatus)
+          : metrics ? buildEdgeTooltip(edge, metrics, edgeColor) : undefined
       };
     });
   };
@@ -593,6 +798,7 @@ export const ServiceMap: React.FC<ServiceMapProps> = ({
       };
       
       nodesDataSetRef.current = nodesDataSet;
+      edgesDataSetRef.current = edgesDataSet;
 
       const options = {
         nodes: {
@@ -660,6 +866,32 @@ export const ServiceMap: React.FC<ServiceMapProps> = ({
         setCustomTooltip(prev => ({ ...prev, visible: false }));
       });
 
+      network.on('hoverEdge', (event) => {
+        const edge = edgesDataSetRef.current?.get(event.edge as string);
+        if (edge && edge.tooltipContent) {
+          const { DOM } = event.pointer;
+          setCustomTooltip({
+            visible: true,
+            content: edge.tooltipContent,
+            x: DOM.x + 10,
+            y: DOM.y - 10
+          });
+        }
+      });
+
+      network.on('blurEdge', () => {
+        setCustomTooltip(prev => ({ ...prev, visible: false }));
+      });
+
+      // In focus mode, clicking a service makes it the focus root
+      network.on('click', (event) => {
+        if (!focusModeRef.current || event.nodes.length === 0) return;
+        const node = nodesDataSetRef.current?.get(event.nodes[0] as string);
+        if (node && node.nodeType === 'service') {
+          setFocusRoot(node.id);
+        }
+      });
+
       network.on('dragStart', () => {
         setCustomTooltip(prev => ({ ...prev, visible: false }));
       });
@@ -699,6 +931,7 @@ export const ServiceMap: React.FC<ServiceMapProps> = ({
         networkRef.current = null;
       }
       nodesDataSetRef.current = null;
+      edgesDataSetRef.current = null;
     };
   }, [isDarkTheme]);
   
@@ -719,7 +952,9 @@ export const ServiceMap: React.FC<ServiceMapProps> = ({
     nodes,
     edges,
     alerts,
-    isDarkTheme
+    isDarkTheme,
+    diff,
+    focusTraversal
   ]);
 
   return (
@@ -754,7 +989,7 @@ export const ServiceMap: React.FC<ServiceMapProps> = ({
               </Tooltip>
             )}
             {mapConfig.enableFocusMode && (
-              <Tooltip title="Toggle focus mode for cleaner view">
+              <Tooltip title="Toggle focus mode: compact view, click a service to highlight its dependency chain">
                 <Button
                   size="small"
                   icon={focusMode ? <CompressOutlined /> : <ExpandOutlined />}
@@ -887,6 +1122,93 @@ export const ServiceMap: React.FC<ServiceMapProps> = ({
                   </Space>
                 </div>
               )}
+
+              {/* Focus Controls */}
+              {focusMode && (
+                <div style={{ display: 'flex', alignItems: 'center', gap: '12px', flexWrap: 'wrap' }}>
+                  <Space>
+                    <AimOutlined style={{ fontSize: '12px', color: '#1890ff' }} />
+                    <Text strong style={{ fontSize: '13px', color: token.colorText }}>Focus on:</Text>
+                    <Select
+                      size="small"
+                      showSearch
+                      allowClear
+                      placeholder="Click or search a service"
+                      value={focusRoot ?? undefined}
+                      onChange={(value?: string) => setFocusRoot(value ?? null)}
+                      style={{ width: '240px' }}
+                    >
+                      {nodes.filter(node => node.nodeType === 'service').map(node => (
+                        <Option key={node.id} value={node.id}>{node.id}</Option>
+                      ))}
+                    </Select>
+                    <Select
+                      size="small"
+                      value={focusDirection}
+                      onChange={setFocusDirection}
+                      style={{ width: '160px' }}
+                    >
+                      <Option value="both">Callers & callees</Option>
+                      <Option value="upstream">Callers (upstream)</Option>
+                      <Option value="downstream">Callees (downstream)</Option>
+                    </Select>
+                    <Select
+                      size="small"
+                      value={focusDepth}
+                      onChange={setFocusDepth}
+                      style={{ width: '90px' }}
+                    >
+                      {[1, 2, 3, 4, 5].map(depth => (
+                        <Option key={depth} value={depth}>{depth} hop{depth > 1 ? 's' : ''}</Option>
+                      ))}
+                    </Select>
+                  </Space>
+                  {focusRoot && (
+                    <Text style={{ fontSize: '12px', color: token.colorTextSecondary }}>
+                      {focusLoading
+                        ? 'Loading dependency chain...'
+                        : focusTraversal
+                          ? `${focusTraversal.nodes.length - 1} related service${focusTraversal.nodes.length === 2 ? '' : 's'} within ${focusTraversal.maxDistance} hop${focusTraversal.maxDistance === 1 ? '' : 's'}`
+                          : ''}
+                    </Text>
+                  )}
+                </div>
+              )}
+
+              {/* Diff Controls */}
+              {onDiffWindowChange && (
+                <div style={{ display: 'flex', alignItems: 'center', gap: '12px', flexWrap: 'wrap' }}>
+                  <Space>
+                    <DiffOutlined style={{ fontSize: '12px', color: '#1890ff' }} />
+                    <Tooltip title="Highlight services and dependencies added or removed since an earlier graph snapshot">
+                      <Text strong style={{ fontSize: '13px', color: token.colorText }}>Compare with:</Text>
+                    </Tooltip>
+                    <Select
+                      size="small"
+                      value={diffWindowHours ?? 0}
+                      onChange={(value: number) => onDiffWindowChange(value === 0 ? null : value)}
+                      style={{ width: '130px' }}
+                    >
+                      <Option value={0}>Off</Option>
+                      <Option value={1}>1 hour ago</Option>
+                      <Option value={6}>6 hours ago</Option>
+                      <Option value={24}>24 hours ago</Option>
+                      <Option value={168}>7 days ago</Option>
+                    </Select>
+                  </Space>
+                  {diff && (
+                    <Text style={{ fontSize: '12px', color: token.colorTextSecondary }}>
+                      Snapshot {diffSinceLabel}:{' '}
+                      <span style={{ color: DIFF_ADDED_COLOR }}>+{diff.summary.nodesAdded} nodes, +{diff.summary.edgesAdded} edges</span>
+                      {' / '}
+                      <span style={{ color: DIFF_REMOVED_COLOR }}>−{diff.summary.nodesRemoved} nodes, −{diff.summary.edgesRemoved} edges</span>
+                    </Text>
+                  )}
+                  {diffWindowHours !== null && diffError && (
+                    <Text type="warning" style={{ fontSize: '12px' }}>{diffError}</Text>
+                  )}
+                </div>
+              )}
             </Space>
           </div>
         )}
@@ -978,6 +1300,18 @@ export const ServiceMap: React.FC<ServiceMapProps> = ({
                 }}>┅</span>
                 <Text style={{ fontSize: '12px', color: token.colorText }}>Namespace Dependencies</Text>
               </Space>
+              <Space>
+                <span style={{ color: '#faad14', fontSize: '14px', fontWeight: 'bold' }}>━</span>
+                <span style={{ color: '#ff4d4f', fontSize: '14px', fontWeight: 'bold' }}>━</span>
+                <Text style={{ fontSize: '12px', color: token.colorText }}>Edge errors ≥1% / ≥5% (width = traffic)</Text>
+              </Space>
+              {diff && (
+                <Space>
+                  <span style={{ color: DIFF_ADDED_COLOR, fontSize: '14px', fontWeight: 'bold' }}>━</span>
+                  <span style={{ color: DIFF_REMOVED_COLOR, fontSize: '14px', fontWeight: 'bold' }}>┅</span>
+                  <Text style={{ fontSize: '12px', color: token.colorText }}>New / removed since snapshot</Text>
+                </Space>
+              )}
               <Space>
                 <div style={{ 
                   width: '10px', 
@@ -1,7 +1,8 @@
-import React, { useEffect, useCallback } from 'react';
+import React, { useEffect, useCallback, useState } from 'react';
 import { ServiceMap } from './ServiceMap';
 import { useServiceMapData } from '../../hooks/useServiceMapData';
 import { useFilterState } from '../../hooks/useFilterState';
+import { useGraphDiff } from '../../hooks/useGraphDiff';
 
 // Simple, clean interface - exactly what you wanted
 export interface ServiceMapEasyProps {
@@ -25,8 +26,15 @@ export interface ServiceMapEasyProps {
     defaultLayout?: 'hierarchical' | 'static' | 'clustered';
     defaultIncludeDependentNamespaces?: boolean;
     defaultShowFullChain?: boolean;
+    enableDiffMode?: boolean;
   };
   
+  // Replay the map as of this ISO timestamp (null/undefined = live)
+  at?: string | null;
+
+  // Open the map in focus mode on this service (namespace::name)
+  focusService?: string | null;
+
   // Callbacks
   onRefresh?: () => void;
   onToggleChange?: (includeDependentNamespaces: boolean, showFullChain: boolean) => void;
@@ -47,6 +55,8 @@ export interface ServiceMapEasyProps {
 export const ServiceMapEasy: React.FC<ServiceMapEasyProps> = ({
   filters = {},
   config = {},
+  at = null,
+  focusService = null,
   onRefresh,
   onToggleChange,
 }) => {
@@ -55,6 +65,10 @@ export const ServiceMapEasy: React.FC<ServiceMapEasyProps> = ({
   const { state: filterState, actions: filterActions } = useFilterState();
   const { data, serviceMapData, fetchData, refreshData } = useServiceMapData();
 
+  // Diff mode: compare the live graph with the snapshot from N hours ago (null = off)
+  const [diffWindowHours, setDiffWindowHours] = useState<number | null>(null);
+  const { diff, error: diffError, refresh: refreshDiff } = useGraphDiff(diffWindowHours, filters.namespaces);
+
   // Set up the filters based on props (same logic as Mission Control)
   const memoizedFetchData = useCallback(async () => {
     const apiFilters = {
@@ -66,7 +80,8 @@ export const ServiceMapEasy: React.FC<ServiceMapEasyProps> = ({
     
     const options = {
       includeDependentNamespaces: config.defaultIncludeDependentNamespaces || filterState.includeDependentNamespaces,
-      showFullChain: config.defaultShowFullChain || filterState.showFullChain
+      showFullChain: config.defaultShowFullChain || filterState.showFullChain,
+      at
     };
     
     await fetchData(apiFilters, options);
@@ -76,6 +91,7 @@ export const ServiceMapEasy: React.FC<ServiceMapEasyProps> = ({
     config.defaultShowFullChain,
     filterState.includeDependentNamespaces,
     filterState.showFullChain,
+    at,
     fetchData
   ]);
 
@@ -87,8 +103,9 @@ export const ServiceMapEasy: React.FC<ServiceMapEasyProps> = ({
   // Handle refresh
   const handleRefresh = useCallback(() => {
     refreshData();
+    refreshDiff();
     onRefresh?.();
-  }, [refreshData, onRefresh]);
+  }, [refreshData, refreshDiff, onRefresh]);
 
   // Handle toggle changes
   const handleIncludeDependentNamespacesChange = useCallback((value: boolean) => {
@@ -116,6 +133,11 @@ export const ServiceMapEasy: React.FC<ServiceMapEasyProps> = ({
       onRefresh={handleRefresh}
       onIncludeDependentNamespacesChange={handleIncludeDependentNamespacesChange}
       onShowFullChainChange={handleShowFullChainChange}
+      diff={diff}
+      diffWindowHours={diffWindowHours}
+      diffError={diffError}
+      onDiffWindowChange={config.enableDiffMode !== false ? setDiffWindowHours : undefined}
+      focusService={focusService}
       config={{
         height: config.height || '400px',
         showControls: config.showControls !== false, // Default true
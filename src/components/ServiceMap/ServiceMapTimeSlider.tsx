@@ -0,0 +1,162 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Typography, Space, Button, Select, Slider, Tag, Tooltip, theme } from 'antd';
+import { HistoryOutlined, CaretRightOutlined, PauseOutlined } from '@ant-design/icons';
+
+const { Text } = Typography;
+const { Option } = Select;
+
+export interface ServiceMapTimeSliderProps {
+  // ISO timestamp currently being replayed, null when live
+  value: string | null;
+  onChange: (at: string | null) => void;
+}
+
+// Number of steps playback takes to cross the whole window
+const PLAYBACK_STEPS = 48;
+const PLAYBACK_INTERVAL_MS = 1500;
+
+/**
+ * Time slider for replaying the service map over a recent window.
+ * The right-hand end of the slider is "now" (live); anything left of it replays the map as of that time.
+ */
+export const ServiceMapTimeSlider: React.FC<ServiceMapTimeSliderProps> = ({ value, onChange }) => {
+  const { token } = theme.useToken();
+
+  const [windowHours, setWindowHours] = useState<number>(24);
+  const [anchorMs, setAnchorMs] = useState<number>(() => Date.now());
+  const [playing, setPlaying] = useState(false);
+
+  const windowMinutes = windowHours * 60;
+  const windowStartMs = anchorMs - windowMinutes * 60 * 1000;
+
+  // Slider position in minutes from the start of the window
+  const positionFromValue = (at: string | null) => {
+    if (!at) return windowMinutes;
+    const minutes = Math.round((new Date(at).getTime() - windowStartMs) / 60000);
+    return Math.min(Math.max(minutes, 0), windowMinutes);
+  };
+
+  // Position while the handle is being dragged; otherwise derived from the committed value
+  const [dragPosition, setDragPosition] = useState<number | null>(null);
+  const position = dragPosition ?? positionFromValue(value);
+
+  const commitPosition = useCallback((minutes: number) => {
+    if (minutes >= windowMinutes) {
+      onChange(null);
+    } else {
+      onChange(new Date(windowStartMs + minutes * 60 * 1000).toISOString());
+    }
+  }, [onChange, windowMinutes, windowStartMs]);
+
+  // Playback: step forward through the window until reaching live
+  useEffect(() => {
+    if (!playing) return;
+
+    const step = Math.max(Math.round(windowMinutes / PLAYBACK_STEPS), 1);
+    const timeoutId = setTimeout(() => {
+      const next = Math.min(position + step, windowMinutes);
+      commitPosition(next);
+      if (next >= windowMinutes) {
+        setPlaying(false);
+      }
+    }, PLAYBACK_INTERVAL_MS);
+
+    return () => clearTimeout(timeoutId);
+  }, [playing, position, windowMinutes, commitPosition]);
+
+  const handleWindowChange = (hours: number) => {
+    setPlaying(false);
+    setWindowHours(hours);
+    setAnchorMs(Date.now());
+    onChange(null);
+  };
+
+  const handlePlay = () => {
+    if (playing) {
+      setPlaying(false);
+      return;
+    }
+
+    // Start from the beginning of the window when already live
+    if (position >= windowMinutes) {
+      const now = Date.now();
+      setAnchorMs(now);
+      onChange(new Date(now - windowMinutes * 60 * 1000).toISOString());
+    }
+    setPlaying(true);
+  };
+
+  const handleLive = () => {
+    setPlaying(false);
+    setAnchorMs(Date.now());
+    onChange(null);
+  };
+
+  const formatPosition = (minutes?: number) => {
+    if (minutes === undefined || minutes >= windowMinutes) return 'Live';
+    return new Date(windowStartMs + minutes * 60 * 1000).toLocaleString();
+  };
+
+  return (
+    <div style={{
+      padding: '8px 12px',
+      marginBottom: '12px',
+      backgroundColor: token.colorFillSecondary,
+      borderRadius: token.borderRadius,
+      border: `1px solid ${value ? '#faad14' : token.colorBorder}`
+    }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '12px', flexWrap: 'wrap' }}>
+        <Space>
+          <HistoryOutlined style={{ fontSize: '12px', color: '#1890ff' }} />
+          <Text strong style={{ fontSize: '13px', color: token.colorText }}>Replay:</Text>
+          <Select
+            size="small"
+            value={windowHours}
+            onChange={handleWindowChange}
+            style={{ width: '110px' }}
+          >
+            <Option value={1}>Last 1h</Option>
+            <Option value={6}>Last 6h</Option>
+            <Option value={24}>Last 24h</Option>
+            <Option value={72}>Last 3 days</Option>
+          </Select>
+          <Tooltip title={playing ? 'Pause playback' : 'Play through the window up to now'}>
+            <Button
+              size="small"
+              icon={playing ? <PauseOutlined /> : <CaretRightOutlined />}
+              onClick={handlePlay}
+            />
+          </Tooltip>
+        </Space>
+
+        <div style={{ flex: 1, minWidth: '200px' }}>
+          <Slider
+            min={0}
+            max={windowMinutes}
+            value={position}
+            onChange={(minutes: number) => {
+              setPlaying(false);
+              setDragPosition(minutes);
+            }}
+            onChangeComplete={(minutes: number) => {
+              setDragPosition(null);
+              commitPosition(minutes);
+            }}
+            tooltip={{ formatter: formatPosition }}
+          />
+        </div>
+
+        <Space>
+          {value ? (
+            <Tag color="orange">Replaying {new Date(value).toLocaleString()}</Tag>
+          ) : (
+            <Tag color="green">Live</Tag>
+          )}
+          <Button size="small" onClick={handleLive} disabled={!value && !playing}>
+            Live
+          </Button>
+        </Space>
+      </div>
+    </div>
+  );
+};
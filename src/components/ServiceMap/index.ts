@@ -1,3 +1,5 @@
 // ServiceMap removed - only ServiceMapEasy is used throughout the app
 export { ServiceMapEasy } from './ServiceMapEasy';
-export type { ServiceMapEasyProps } from './ServiceMapEasy';
\ No newline at end of file
+export type { ServiceMapEasyProps } from './ServiceMapEasy';
+export { ServiceMapTimeSlider } from './ServiceMapTimeSlider';
+export type { ServiceMapTimeSliderProps } from './ServiceMapTimeSlider';
@@ -0,0 +1,210 @@
+import React, { useState } from 'react';
+import { Card, Typography, Space, Table, Tag, Button, Select, Row, Col, Statistic, Empty, Alert, Tooltip } from 'antd';
+import {
+  SwapOutlined,
+  ReloadOutlined,
+  CheckCircleOutlined,
+  ExclamationCircleOutlined,
+  ClockCircleOutlined,
+  PlusOutlined
+} from '@ant-design/icons';
+import type { UndeclaredNamespaceTraffic, StaleNamespaceDependency } from '../../types';
+import { useNamespaceDependencyDrift } from '../../hooks/useNamespaceDependencyDrift';
+import { useAuth } from '../../hooks/useAuth';
+
+const { Text, Title } = Typography;
+const { Option } = Select;
+
+/**
+ * Drift between hand-curated namespace dependencies and observed cross-namespace calls
+ */
+export const NamespaceDependencyDrift: React.FC = () => {
+  const [staleDays, setStaleDays] = useState<number>(30);
+  const { drift, loading, error, promoting, promote, refresh } = useNamespaceDependencyDrift(staleDays);
+  const { hasRole } = useAuth();
+  const canPromote = hasRole('team-owner');
+
+  const undeclaredColumns = [
+    {
+      title: 'Dependency',
+      key: 'dependency',
+      render: (record: UndeclaredNamespaceTraffic) => (
+        <Space>
+          <Tag color="blue">{record.from_namespace}</Tag>
+          <span>→</span>
+          <Tag color="blue">{record.to_namespace}</Tag>
+        </Space>
+      )
+    },
+    {
+      title: 'Service Calls',
+      dataIndex: 'service_calls',
+      key: 'service_calls',
+      render: (count: number, record: UndeclaredNamespaceTraffic) => (
+        <Tooltip title={record.examples.join('\n')} overlayStyle={{ whiteSpace: 'pre-line', maxWidth: 480 }}>
+          <Text strong style={{ cursor: 'help' }}>{count}</Text>
+        </Tooltip>
+      ),
+      sorter: (a: UndeclaredNamespaceTraffic, b: UndeclaredNamespaceTraffic) => a.service_calls - b.service_calls
+    },
+    {
+      title: 'First Seen',
+      dataIndex: 'first_seen',
+      key: 'first_seen',
+      render: (date: string) => new Date(date).toLocaleDateString()
+    },
+    {
+      title: 'Last Seen',
+      dataIndex: 'last_seen',
+      key: 'last_seen',
+      render: (date: string) => new Date(date).toLocaleString()
+    },
+    ...(canPromote ? [{
+      title: '',
+      key: 'actions',
+      width: 170,
+      render: (record: UndeclaredNamespaceTraffic) => (
+        <Button
+          size="small"
+          type="primary"
+          icon={<PlusOutlined />}
+          loading={promoting.has(`${record.from_namespace}==>${record.to_namespace}`)}
+          onClick={() => promote(record)}
+        >
+          Promote to declared
+        </Button>
+      )
+    }] : [])
+  ];
+
+  const staleColumns = [
+    {
+      title: 'Dependency',
+      key: 'dependency',
+      render: (record: StaleNamespaceDependency) => (
+        <Space>
+          <Tag color="purple">{record.from_namespace}</Tag>
+          <span>→</span>
+          <Tag color="purple">{record.to_namespace}</Tag>
+        </Space>
+      )
+    },
+    {
+      title: 'Type',
+      dataIndex: 'dependency_type',
+      key: 'dependency_type',
+      render: (type: string | null) => <Tag>{type || 'manual'}</Tag>
+    },
+    {
+      title: 'Description',
+      dataIndex: 'description',
+      key: 'description',
+      render: (description: string | null) => <Text type="secondary" style={{ fontSize: '12px' }}>{description || '-'}</Text>
+    },
+    {
+      title: 'Last Observed',
+      dataIndex: 'last_observed',
+      key: 'last_observed',
+      render: (date: string | null) => (
+        date ? new Date(date).toLocaleString() : <Tag color="red">never</Tag>
+      )
+    }
+  ];
+
+  return (
+    <Card
+      title={
+        <Space>
+          <SwapOutlined style={{ color: '#1890ff' }} />
+          <span>Declared vs Observed Namespace Dependencies</span>
+        </Space>
+      }
+      extra={
+        <Space>
+          <Text type="secondary" style={{ fontSize: '12px' }}>Stale after</Text>
+          <Select size="small" value={staleDays} onChange={setStaleDays} style={{ width: '100px' }}>
+            <Option value={7}>7 days</Option>
+            <Option value={30}>30 days</Option>
+            <Option value={90}>90 days</Option>
+          </Select>
+          <Button size="small" icon={<ReloadOutlined />} onClick={refresh} loading={loading} />
+        </Space>
+      }
+      style={{ marginBottom: 24 }}
+    >
+      {error && (
+        <Alert message="Failed to load drift report" description={error} type="error" showIcon style={{ marginBottom: 16 }} />
+      )}
+
+      {drift && (
+        <Space direction="vertical" size={16} style={{ width: '100%' }}>
+          <Row gutter={[16, 16]}>
+            <Col xs={12} md={6}>
+              <Statistic title="Declared" value={drift.summary.declared} />
+            </Col>
+            <Col xs={12} md={6}>
+              <Statistic
+                title="Matched by Traffic"
+                value={drift.summary.matched}
+                prefix={<CheckCircleOutlined />}
+                valueStyle={{ color: '#52c41a' }}
+              />
+            </Col>
+            <Col xs={12} md={6}>
+              <Statistic
+                title="Undeclared Traffic"
+                value={drift.summary.undeclared}
+                prefix={<ExclamationCircleOutlined />}
+                valueStyle={{ color: drift.summary.undeclared > 0 ? '#fa8c16' : '#52c41a' }}
+              />
+            </Col>
+            <Col xs={12} md={6}>
+              <Statistic
+                title="Stale Declarations"
+                value={drift.summary.stale}
+                prefix={<ClockCircleOutlined />}
+                valueStyle={{ color: drift.summary.stale > 0 ? '#fa8c16' : '#52c41a' }}
+              />
+            </Col>
+          </Row>
+
+          <div>
+            <Title level={5} style={{ marginBottom: '12px' }}>
+              Observed calls with no declared dependency ({drift.undeclared.length})
+            </Title>
+            {drift.undeclared.length > 0 ? (
+              <Table
+                dataSource={drift.undeclared}
+                columns={undeclaredColumns}
+                rowKey={(record: UndeclaredNamespaceTraffic) => `${record.from_namespace}==>${record.to_namespace}`}
+                pagination={{ pageSize: 10, hideOnSinglePage: true }}
+                size="small"
+                loading={loading}
+              />
+            ) : (
+              <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="All observed cross-namespace calls are declared" />
+            )}
+          </div>
+
+          <div>
+            <Title level={5} style={{ marginBottom: '12px' }}>
+              Declared dependencies with no traffic in {drift.staleDays} days ({drift.stale.length})
+            </Title>
+            {drift.stale.length > 0 ? (
+              <Table
+                dataSource={drift.stale}
+                columns={staleColumns}
+                rowKey="id"
+                pagination={{ pageSize: 10, hideOnSinglePage: true }}
+                size="small"
+                loading={loading}
+              />
+            ) : (
+              <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="Every declared dependency has recent traffic" />
+            )}
+          </div>
+        </Space>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,360 @@
+import React, { useState, useMemo } from 'react';
+import {
+  Card,
+  Typography,
+  Space,
+  Table,
+  Tag,
+  Button,
+  Select,
+  Modal,
+  Form,
+  Input,
+  Radio,
+  Checkbox,
+  Popconfirm,
+  Alert,
+  Dropdown
+} from 'antd';
+import {
+  ApartmentOutlined,
+  PlusOutlined,
+  EditOutlined,
+  DeleteOutlined,
+  ReloadOutlined,
+  UploadOutlined,
+  DownloadOutlined
+} from '@ant-design/icons';
+import type { NamespaceDependency, NamespaceDependencyImportResult } from '../../types';
+import { useNamespaceDependencies } from '../../hooks/useNamespaceDependencies';
+import type { NamespaceDependencyForm } from '../../hooks/useNamespaceDependencies';
+import { useAuth } from '../../hooks/useAuth';
+
+const { Text } = Typography;
+const { TextArea } = Input;
+
+const DEPENDENCY_TYPES = ['manual', 'observed', 'business', 'data', 'runtime'];
+
+/**
+ * Manage declared namespace dependencies: create, edit, delete and bulk import/export
+ */
+export const NamespaceDependencyManager: React.FC = () => {
+  const {
+    dependencies,
+    namespaces,
+    loading,
+    saving,
+    error,
+    saveDependency,
+    deleteDependency,
+    importDependencies,
+    exportDependencies,
+    refresh
+  } = useNamespaceDependencies();
+  const { hasRole } = useAuth();
+  const canEdit = hasRole('team-owner');
+
+  const [namespaceFilter, setNamespaceFilter] = useState<string | null>(null);
+
+  // Create/edit modal
+  const [form] = Form.useForm<NamespaceDependencyForm>();
+  const [editing, setEditing] = useState<NamespaceDependency | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+
+  // Import modal
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [importContent, setImportContent] = useState('');
+  const [importFormat, setImportFormat] = useState<'json' | 'yaml'>('yaml');
+  const [importMode, setImportMode] = useState<'merge' | 'replace'>('merge');
+  const [importPreview, setImportPreview] = useState<NamespaceDependencyImportResult | null>(null);
+
+  const filteredDependencies = useMemo(() => {
+    if (!namespaceFilter) return dependencies;
+    return dependencies.filter(dep => dep.from_namespace === namespaceFilter || dep.to_namespace === namespaceFilter);
+  }, [dependencies, namespaceFilter]);
+
+  const namespaceOptions = namespaces.map(ns => ({ value: ns.namespace, label: ns.namespace }));
+
+  const openCreate = () => {
+    setEditing(null);
+    form.resetFields();
+    form.setFieldsValue({ dependency_type: 'manual' });
+    setIsFormOpen(true);
+  };
+
+  const openEdit = (dependency: NamespaceDependency) => {
+    setEditing(dependency);
+    form.setFieldsValue({
+      from_namespace: dependency.from_namespace,
+      to_namespace: dependency.to_namespace,
+      dependency_type: dependency.dependency_type || 'manual',
+      description: dependency.description || undefined
+    });
+    setIsFormOpen(true);
+  };
+
+  const handleSubmit = async () => {
+    const values = await form.validateFields();
+    const saved = await saveDependency(values, editing?.id);
+    if (saved) {
+      setIsFormOpen(false);
+    }
+  };
+
+  const closeImport = () => {
+    setIsImportOpen(false);
+    setImportPreview(null);
+  };
+
+  const handleImport = async (dryRun: boolean) => {
+    const result = await importDependencies(importContent, importFormat, importMode, dryRun);
+    if (!result) return;
+
+    if (dryRun) {
+      setImportPreview(result);
+    } else {
+      closeImport();
+      setImportContent('');
+    }
+  };
+
+  const columns = [
+    {
+      title: 'From',
+      dataIndex: 'from_namespace',
+      key: 'from_namespace',
+      render: (namespace: string) => <Tag color="blue">{namespace}</Tag>,
+      sorter: (a: NamespaceDependency, b: NamespaceDependency) => a.from_namespace.localeCompare(b.from_namespace)
+    },
+    {
+      title: 'To',
+      dataIndex: 'to_namespace',
+      key: 'to_namespace',
+      render: (namespace: string) => <Tag color="purple">{namespace}</Tag>,
+      sorter: (a: NamespaceDependency, b: NamespaceDependency) => a.to_namespace.localeCompare(b.to_namespace)
+    },
+    {
+      title: 'Type',
+      dataIndex: 'dependency_type',
+      key: 'dependency_type',
+      render: (type: string | null) => <Tag>{type || 'manual'}</Tag>
+    },
+    {
+      title: 'Description',
+      dataIndex: 'description',
+      key: 'description',
+      render: (description: string | null) => <Text type="secondary" style={{ fontSize: '12px' }}>{description || '-'}</Text>
+    },
+    {
+      title: 'Created By',
+      dataIndex: 'created_by',
+      key: 'created_by',
+      render: (createdBy: string | null) => <Text type="secondary" style={{ fontSize: '12px' }}>{createdBy || '-'}</Text>
+    },
+    {
+      title: 'Updated',
+      dataIndex: 'updated_at',
+      key: 'updated_at',
+      render: (date: string, record: NamespaceDependency) => (
+        <div>
+          <div>{new Date(date).toLocaleString()}</div>
+          {record.updated_by && (
+            <Text type="secondary" style={{ fontSize: '11px' }}>by {record.updated_by}</Text>
+          )}
+        </div>
+      )
+    },
+    ...(canEdit ? [{
+      title: '',
+      key: 'actions',
+      width: 90,
+      render: (record: NamespaceDependency) => (
+        <Space size={4}>
+          <Button size="small" type="text" icon={<EditOutlined />} onClick={() => openEdit(record)} />
+          <Popconfirm
+            title="Delete this namespace dependency?"
+            description={`${record.from_namespace} → ${record.to_namespace}`}
+            onConfirm={() => deleteDependency(record.id)}
+            okText="Delete"
+            okButtonProps={{ danger: true }}
+          >
+            <Button size="small" type="text" danger icon={<DeleteOutlined />} />
+          </Popconfirm>
+        </Space>
+      )
+    }] : [])
+  ];
+
+  return (
+    <Card
+      title={
+        <Space>
+          <ApartmentOutlined style={{ color: '#1890ff' }} />
+          <span>Namespace Dependencies</span>
+          <Tag color="blue">{dependencies.length}</Tag>
+        </Space>
+      }
+      extra={
+        <Space>
+          <Select
+            size="small"
+            allowClear
+            showSearch
+            placeholder="Filter by namespace"
+            value={namespaceFilter ?? undefined}
+            onChange={(value?: string) => setNamespaceFilter(value ?? null)}
+            options={namespaceOptions}
+            style={{ width: '200px' }}
+          />
+          {canEdit && (
+            <Button size="small" icon={<UploadOutlined />} onClick={() => setIsImportOpen(true)}>
+              Import
+            </Button>
+          )}
+          <Dropdown
+            menu={{
+              items: [
+                { key: 'yaml', label: 'YAML' },
+                { key: 'json', label: 'JSON' }
+              ],
+              onClick: ({ key }) => exportDependencies(key as 'json' | 'yaml')
+            }}
+          >
+            <Button size="small" icon={<DownloadOutlined />}>Export</Button>
+          </Dropdown>
+          {canEdit && (
+            <Button size="small" type="primary" icon={<PlusOutlined />} onClick={openCreate}>
+              Add
+            </Button>
+          )}
+          <Button size="small" icon={<ReloadOutlined />} onClick={refresh} loading={loading} />
+        </Space>
+      }
+      style={{ marginBottom: 24 }}
+    >
+      {error && (
+        <Alert message="Failed to load namespace dependencies" description={error} type="error" showIcon style={{ marginBottom: 16 }} />
+      )}
+
+      <Table
+        dataSource={filteredDependencies}
+        columns={columns}
+        rowKey="id"
+        loading={loading}
+        pagination={{ pageSize: 10, hideOnSinglePage: true }}
+        size="small"
+        locale={{ emptyText: 'No namespace dependencies declared' }}
+      />
+
+      {/* Create / Edit */}
+      <Modal
+        title={editing ? 'Edit Namespace Dependency' : 'Add Namespace Dependency'}
+        open={isFormOpen}
+        onCancel={() => setIsFormOpen(false)}
+        onOk={handleSubmit}
+        okText={editing ? 'Save' : 'Create'}
+        confirmLoading={saving}
+        forceRender
+      >
+        <Form form={form} layout="vertical">
+          <Form.Item
+            name="from_namespace"
+            label="From namespace"
+            rules={[{ required: true, message: 'Select the namespace that depends on another' }]}
+          >
+            <Select showSearch options={namespaceOptions} placeholder="Dependent namespace" />
+          </Form.Item>
+          <Form.Item
+            name="to_namespace"
+            label="To namespace"
+            dependencies={['from_namespace']}
+            rules={[
+              { required: true, message: 'Select the namespace it depends on' },
+              ({ getFieldValue }) => ({
+                validator: (_, value) => (
+                  value && value === getFieldValue('from_namespace')
+                    ? Promise.reject(new Error('A namespace cannot depend on itself'))
+                    : Promise.resolve()
+                )
+              })
+            ]}
+          >
+            <Select showSearch options={namespaceOptions} placeholder="Dependency" />
+          </Form.Item>
+          <Form.Item name="dependency_type" label="Type">
+            <Select options={DEPENDENCY_TYPES.map(type => ({ value: type, label: type }))} />
+          </Form.Item>
+          <Form.Item name="description" label="Description">
+            <TextArea rows={2} maxLength={500} />
+          </Form.Item>
+        </Form>
+      </Modal>
+
+      {/* Bulk Import */}
+      <Modal
+        title="Import Namespace Dependencies"
+        open={isImportOpen}
+        onCancel={closeImport}
+        width={640}
+        footer={[
+          <Button key="cancel" onClick={closeImport}>Cancel</Button>,
+          <Button key="validate" onClick={() => handleImport(true)} loading={saving} disabled={!importContent.trim()}>
+            Validate
+          </Button>,
+          <Button
+            key="import"
+            type="primary"
+            danger={importMode === 'replace'}
+            onClick={() => handleImport(false)}
+            loading={saving}
+            disabled={!importContent.trim()}
+          >
+            Import
+          </Button>
+        ]}
+      >
+        <Space direction="vertical" size={12} style={{ width: '100%' }}>
+          <Space wrap>
+            <Radio.Group value={importFormat} onChange={e => setImportFormat(e.target.value)} size="small">
+              <Radio.Button value="yaml">YAML</Radio.Button>
+              <Radio.Button value="json">JSON</Radio.Button>
+            </Radio.Group>
+            <Checkbox
+              checked={importMode === 'replace'}
+              onChange={e => {
+                setImportMode(e.target.checked ? 'replace' : 'merge');
+                setImportPreview(null);
+              }}
+            >
+              Replace all (delete dependencies not in the import)
+            </Checkbox>
+          </Space>
+          <TextArea
+            rows={12}
+            value={importContent}
+            onChange={e => {
+              setImportContent(e.target.value);
+              setImportPreview(null);
+            }}
+            placeholder={importFormat === 'yaml'
+              ? 'dependencies:\n  - from_namespace: checkout\n    to_namespace: payments\n    dependency_type: business\n    description: Checkout charges cards'
+              : '{ "dependencies": [ { "from_namespace": "checkout", "to_namespace": "payments" } ] }'}
+            style={{ fontFamily: 'monospace', fontSize: '12px' }}
+          />
+          {importPreview && (
+            <Alert
+              type={importPreview.warnings.length > 0 ? 'warning' : 'success'}
+              showIcon
+              message={`Valid: ${importPreview.created} to create, ${importPreview.updated} to update, ${importPreview.deleted} to delete`}
+              description={importPreview.warnings.length > 0 ? (
+                <ul style={{ margin: 0, paddingLeft: 20 }}>
+                  {importPreview.warnings.map(warning => <li key={warning}>{warning}</li>)}
+                </ul>
+              ) : undefined}
+            />
+          )}
+        </Space>
+      </Modal>
+    </Card>
+  );
+};
@@ -9,9 +9,12 @@ import {
   ExclamationCircleOutlined,
   InfoCircleOutlined,
   WarningOutlined,
-  ThunderboltOutlined
+  ThunderboltOutlined,
+  DisconnectOutlined,
+  ApiOutlined
 } from '@ant-design/icons';
-import type { ServiceDetailResponse } from '../../types';
+import type { ServiceDetailResponse, DependencyChange } from '../../types';
+import { useDependencyChanges } from '../../hooks/useDependencyChanges';
 
 const { Text } = Typography;
 
@@ -31,6 +34,7 @@ interface ActivityEvent {
 
 export const ServiceActivityFeed: React.FC<ServiceActivityFeedProps> = ({ serviceData }) => {
   const { service, alerts, dependencies } = serviceData;
+  const { changes: dependencyChanges } = useDependencyChanges(service.namespace, service.name);
   
   // Generate activity events from available data
   const activityEvents = useMemo(() => {
@@ -91,8 +95,42 @@ export const ServiceActivityFeed: React.FC<ServiceActivityFeedProps> = ({ servic
       }
     });
     
-    // Add dependency events (simulated based on first_seen timestamps)
-    const allDependencies = [...dependencies.incoming, ...dependencies.outgoing];
+    // Add dependency events from the change log
+    const changeTitles: Record<DependencyChange['change_type'], string> = {
+      added: 'New Dependency Detected',
+      disappeared: 'Dependency Disappeared',
+      returned: 'Dependency Returned'
+    };
+    const reasonLabels: Record<string, string> = {
+      replaced: 'no longer reported',
+      ttl_expired: 'not seen within TTL',
+      service_removed: 'service removed',
+      orphaned: 'orphaned edge'
+    };
+
+    dependencyChanges.forEach(change => {
+      const isOutgoing = change.direction === 'outgoing';
+      const other = isOutgoing
+        ? `${change.to_service_namespace}/${change.to_service_name}`
+        : `${change.from_service_namespace}/${change.from_service_name}`;
+
+      events.push({
+        id: `dependency-change-${change.id}`,
+        timestamp: change.changed_at,
+        type: 'dependency_change',
+        title: changeTitles[change.change_type],
+        description: `${isOutgoing ? 'Calls to' : 'Calls from'} ${other}${change.reason ? ` (${reasonLabels[change.reason] || change.reason})` : ''}`,
+        severity: change.change_type === 'disappeared' ? 'warning' : 'info',
+        metadata: {
+          change_type: change.change_type,
+          direction: change.direction,
+          source: change.source
+        }
+      });
+    });
+
+    // Edges that predate the change log only have first_seen to go on
+    const allDependencies = dependencyChanges.length > 0 ? [] : [...dependencies.incoming, ...dependencies.outgoing];
     allDependencies.forEach(dep => {
       if (dep.first_seen) {
         events.push({
@@ -130,7 +168,7 @@ export const ServiceActivityFeed: React.FC<ServiceActivityFeedProps> = ({ servic
     
     // Sort events by timestamp (newest first)
     return events.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
-  }, [service, alerts.current, dependencies]);
+  }, [service, alerts.current, dependencies, dependencyChanges]);
   
   // Get event icon and color
   const getEventStyle = (event: ActivityEvent) => {
@@ -151,6 +189,12 @@ export const ServiceActivityFeed: React.FC<ServiceActivityFeedProps> = ({ servic
         return { icon: <ThunderboltOutlined />, color: '#722ed1' };
       
       case 'dependency_change':
+        if (event.metadata?.change_type === 'disappeared') {
+          return { icon: <DisconnectOutlined />, color: '#faad14' };
+        }
+        if (event.metadata?.change_type === 'returned') {
+          return { icon: <ApiOutlined />, color: '#13c2c2' };
+        }
         return { icon: <DatabaseOutlined />, color: '#1890ff' };
       
       case 'configuration_update':
@@ -24,7 +24,7 @@ import {
 } from '@ant-design/icons';
 import type { ServiceSummary, ServicesListResponse } from '../../types';
 import { ServiceExpandableCard } from './ServiceExpandableCard';
-import { API_BASE_URL } from '../../utils/api';
+import { API_BASE_URL, apiFetch } from '../../utils/api';
 import { logger } from '../../utils/logger';
 
 const { Title, Text } = Typography;
@@ -76,7 +76,7 @@ export const ServiceCatalog: React.FC<ServiceCatalogProps> = ({ onServiceSelect:
       if (filters.namespace) searchParams.append('namespace', filters.namespace);
       if (filters.team) searchParams.append('team', filters.team);
 
-      const response = await fetch(`${API_BASE_URL}/services?${searchParams.toString()}`);
+      const response = await apiFetch(`${API_BASE_URL}/services?${searchParams.toString()}`);
 
       if (!response.ok) {
         throw new Error(`Failed to fetch services: ${response.status} ${response.statusText}`);
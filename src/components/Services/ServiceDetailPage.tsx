@@ -2,13 +2,14 @@ import React, { useState, useEffect } from 'react';
 import { Card, Typography, Spin, Alert, Breadcrumb, Button, Tag, Space, Avatar, Row, Col } from 'antd';
 import { ArrowLeftOutlined, HomeOutlined, DatabaseOutlined, ClockCircleOutlined, TeamOutlined, SettingOutlined, EnvironmentOutlined } from '@ant-design/icons';
 import type { ServiceDetailResponse } from '../../types';
-import { API_BASE_URL } from '../../utils/api';
+import { API_BASE_URL, apiFetch } from '../../utils/api';
 import { logger } from '../../utils/logger';
 import { ServiceHealthCard } from './ServiceHealthCard';
 import { ServiceConnectivityCard } from './ServiceConnectivityCard';
 import { ServiceInstrumentationCard } from './ServiceInstrumentationCard';
 import { ServiceActivityCard } from './ServiceActivityCard';
 import { ServiceDependencyMap } from './ServiceDependencyMap';
+import { ServiceImpactTab } from './ServiceImpactTab';
 import { AlertTimeline } from './AlertTimeline';
 import { MTTRStatsCard } from './MTTRStatsCard';
 import { ServiceAlertsCard } from './ServiceAlertsCard';
@@ -41,7 +42,7 @@ import { ServiceConfigurationCard } from './ServiceConfigurationCard';
           setLoading(true);
           setError(null);
 
-          const response = await fetch(`${API_BASE_URL}/services/${encodeURIComponent(namespace)}/${encodeURIComponent(name)}`);
+          const response = await apiFetch(`${API_BASE_URL}/services/${encodeURIComponent(namespace)}/${encodeURIComponent(name)}`);
 
           if (!response.ok) {
             throw new Error(`Failed to fetch service details: ${response.status} ${response.statusText}`);
@@ -66,7 +67,7 @@ import { ServiceConfigurationCard } from './ServiceConfigurationCard';
         if (!loading) {
           const fetchServiceDetail = async () => {
             try {
-              const response = await fetch(`${API_BASE_URL}/services/${encodeURIComponent(namespace)}/${encodeURIComponent(name)}`);
+              const response = await apiFetch(`${API_BASE_URL}/services/${encodeURIComponent(namespace)}/${encodeURIComponent(name)}`);
               if (response.ok) {
                 const data: ServiceDetailResponse = await response.json();
                 setServiceData(data);
@@ -353,6 +354,9 @@ import { ServiceConfigurationCard } from './ServiceConfigurationCard';
         {/* Phase 4: Enhanced Service Map - Step 11: ServiceDependencyMap Component */}
         <ServiceDependencyMap serviceData={serviceData} />
 
+        {/* Blast radius: who is affected if this service is down */}
+        <ServiceImpactTab namespace={namespace} name={name} />
+
         {/* Phase 5: Alert Timeline & History - Step 14: AlertTimeline Component */}
         <AlertTimeline serviceData={serviceData} />
 
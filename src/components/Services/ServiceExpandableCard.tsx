@@ -3,7 +3,7 @@ import { Card, Typography, Spin, Alert, Button, Space } from 'antd';
 import { DownOutlined, UpOutlined, EyeOutlined, MinusOutlined } from '@ant-design/icons';
 import type { ServiceSummary, ServiceDetailResponse } from '../../types';
 import { ServiceSummaryCard } from './ServiceSummaryCard';
-import { API_BASE_URL } from '../../utils/api';
+import { API_BASE_URL, apiFetch } from '../../utils/api';
 import { logger } from '../../utils/logger';
 
 const { Text } = Typography;
@@ -37,7 +37,7 @@ export const ServiceExpandableCard: React.FC<ServiceExpandableCardProps> = ({
       setLoading(true);
       setError(null);
 
-      const response = await fetch(`${API_BASE_URL}/services/${encodeURIComponent(service.namespace)}/${encodeURIComponent(service.name)}`);
+      const response = await apiFetch(`${API_BASE_URL}/services/${encodeURIComponent(service.namespace)}/${encodeURIComponent(service.name)}`);
 
       if (!response.ok) {
         throw new Error(`Failed to fetch service details: ${response.status} ${response.statusText}`);
@@ -0,0 +1,332 @@
+import React, { useState } from 'react';
+import { Card, Typography, Space, Tabs, Table, Tag, Empty, Row, Col, Statistic, Select, Button, Tooltip, Spin, Alert } from 'antd';
+import {
+  AimOutlined,
+  ApartmentOutlined,
+  TeamOutlined,
+  AlertOutlined,
+  ReloadOutlined,
+  InfoCircleOutlined
+} from '@ant-design/icons';
+import type { ImpactedService, ImpactedTeam, ImpactIncident } from '../../types';
+import { useServiceImpact } from '../../hooks/useServiceImpact';
+
+const { Text } = Typography;
+const { TabPane } = Tabs;
+const { Option } = Select;
+
+interface ServiceImpactTabProps {
+  namespace: string;
+  name: string;
+}
+
+const getSeverityColor = (severity: string | null) => {
+  switch (severity) {
+    case 'fatal': return '#ff4d4f';
+    case 'critical': return '#ff7a45';
+    case 'warning': return '#faad14';
+    default: return '#52c41a';
+  }
+};
+
+export const ServiceImpactTab: React.FC<ServiceImpactTabProps> = ({ namespace, name }) => {
+  const [depth, setDepth] = useState<number>(5);
+  const { impact, loading, error, refresh } = useServiceImpact(namespace, name, depth);
+
+  // Affected services table columns
+  const affectedColumns = [
+    {
+      title: 'Service',
+      key: 'service',
+      render: (record: ImpactedService) => (
+        <Space>
+          <Text strong>{record.name}</Text>
+          <Text type="secondary">({record.namespace})</Text>
+        </Space>
+      )
+    },
+    {
+      title: 'Hops',
+      dataIndex: 'distance',
+      key: 'distance',
+      width: 70,
+      render: (distance: number) => <Tag color={distance === 1 ? 'red' : distance === 2 ? 'orange' : 'default'}>{distance}</Tag>
+    },
+    {
+      title: (
+        <Space size={4}>
+          <span>Via</span>
+          <Tooltip title="Calls: reached through observed service calls. Namespace: only linked by a declared namespace dependency">
+            <InfoCircleOutlined style={{ color: '#8c8c8c' }} />
+          </Tooltip>
+        </Space>
+      ),
+      dataIndex: 'via',
+      key: 'via',
+      render: (via: ImpactedService['via']) => (
+        via === 'service' ? <Tag color="blue">calls</Tag> : <Tag color="purple">namespace</Tag>
+      )
+    },
+    {
+      title: 'Criticality',
+      key: 'criticality',
+      render: (record: ImpactedService) => (
+        record.criticalTags.length > 0 ? (
+          <Space size={4} wrap>
+            {record.criticalTags.map(tag => <Tag key={tag} color="volcano">{tag}</Tag>)}
+          </Space>
+        ) : (
+          <Text type="secondary">-</Text>
+        )
+      )
+    },
+    {
+      title: 'Team',
+      dataIndex: 'team',
+      key: 'team',
+      render: (team: string | null) => <Tag color="orange">{team || 'Unassigned'}</Tag>
+    },
+    {
+      title: 'Firing',
+      key: 'firing',
+      render: (record: ImpactedService) => (
+        record.firingIncidents > 0 ? (
+          <Tag color={getSeverityColor(record.highestSeverity)}>
+            {record.firingIncidents} {record.highestSeverity}
+          </Tag>
+        ) : (
+          <Text type="secondary">0</Text>
+        )
+      )
+    }
+  ];
+
+  // Teams table columns
+  const teamColumns = [
+    {
+      title: 'Team',
+      dataIndex: 'team',
+      key: 'team',
+      render: (team: string) => <Text strong>{team}</Text>
+    },
+    {
+      title: 'Affected Services',
+      dataIndex: 'services',
+      key: 'services'
+    },
+    {
+      title: 'Critical Services',
+      dataIndex: 'criticalServices',
+      key: 'criticalServices',
+      render: (count: number) => <Text type={count > 0 ? 'danger' : 'secondary'}>{count}</Text>
+    },
+    {
+      title: 'Closest (hops)',
+      dataIndex: 'closestDistance',
+      key: 'closestDistance'
+    }
+  ];
+
+  // Firing incidents table columns
+  const incidentColumns = [
+    {
+      title: 'Severity',
+      dataIndex: 'severity',
+      key: 'severity',
+      render: (severity: string) => <Tag color={getSeverityColor(severity)}>{severity.toUpperCase()}</Tag>
+    },
+    {
+      title: 'Service',
+      key: 'service',
+      render: (record: ImpactIncident) => (
+        <Space>
+          <Text code style={{ fontSize: '12px' }}>{record.service}</Text>
+          {record.isRoot && <Tag color="red">this service</Tag>}
+        </Space>
+      )
+    },
+    {
+      title: 'Message',
+      dataIndex: 'message',
+      key: 'message',
+      render: (message: string) => <Text style={{ fontSize: '12px' }}>{message}</Text>
+    },
+    {
+      title: 'Started',
+      dataIndex: 'incident_start',
+      key: 'incident_start',
+      render: (date: string) => new Date(date).toLocaleString()
+    },
+    {
+      title: 'Acknowledged',
+      key: 'acknowledged',
+      render: (record: ImpactIncident) => (
+        record.acknowledged_at ? (
+          <Tag color="green">{record.acknowledged_by || 'yes'}</Tag>
+        ) : (
+          <Text type="secondary">No</Text>
+        )
+      )
+    }
+  ];
+
+  const renderBody = () => {
+    if (loading && !impact) {
+      return (
+        <div style={{ textAlign: 'center', padding: '24px' }}>
+          <Spin />
+        </div>
+      );
+    }
+
+    if (error) {
+      return <Alert message="Failed to load impact analysis" description={error} type="error" showIcon />;
+    }
+
+    if (!impact) return null;
+
+    const { summary } = impact;
+
+    return (
+      <Space direction="vertical" size={16} style={{ width: '100%' }}>
+        <Row gutter={[16, 16]}>
+          <Col xs={12} md={6}>
+            <Statistic
+              title="Affected Services"
+              value={summary.affectedServices}
+              suffix={<Text type="secondary" style={{ fontSize: '12px' }}>{summary.directCallers} direct</Text>}
+            />
+          </Col>
+          <Col xs={12} md={6}>
+            <Statistic
+              title="Critical Services"
+              value={summary.criticalServices}
+              valueStyle={{ color: summary.criticalServices > 0 ? '#ff4d4f' : '#52c41a' }}
+            />
+          </Col>
+          <Col xs={12} md={6}>
+            <Statistic title="Teams" value={summary.teams} prefix={<TeamOutlined />} />
+          </Col>
+          <Col xs={12} md={6}>
+            <Statistic
+              title="Firing Incidents"
+              value={summary.firingIncidents}
+              valueStyle={{ color: summary.firingIncidents > 0 ? '#ff7a45' : '#52c41a' }}
+            />
+          </Col>
+        </Row>
+
+        <Tabs defaultActiveKey="services" size="small">
+          {/* Affected Services Tab */}
+          <TabPane
+            tab={
+              <Space>
+                <ApartmentOutlined />
+                <span>Affected Services</span>
+                <Tag color="blue">{impact.affected.length}</Tag>
+              </Space>
+            }
+            key="services"
+          >
+            {impact.affected.length > 0 ? (
+              <Table
+                dataSource={impact.affected}
+                columns={affectedColumns}
+                size="small"
+                pagination={{ pageSize: 10, hideOnSinglePage: true }}
+                bordered
+                rowKey="service"
+              />
+            ) : (
+              <Empty
+                image={Empty.PRESENTED_IMAGE_SIMPLE}
+                description="No upstream callers or dependent namespaces"
+              />
+            )}
+          </TabPane>
+
+          {/* Teams Tab */}
+          <TabPane
+            tab={
+              <Space>
+                <TeamOutlined />
+                <span>Teams</span>
+                <Tag color="blue">{impact.teams.length}</Tag>
+              </Space>
+            }
+            key="teams"
+          >
+            {impact.teams.length > 0 ? (
+              <Table
+                dataSource={impact.teams}
+                columns={teamColumns}
+                size="small"
+                pagination={false}
+                bordered
+                rowKey={(record: ImpactedTeam) => record.team}
+              />
+            ) : (
+              <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="No teams affected" />
+            )}
+          </TabPane>
+
+          {/* Firing Incidents Tab */}
+          <TabPane
+            tab={
+              <Space>
+                <AlertOutlined />
+                <span>Firing Incidents</span>
+                <Tag color={impact.incidents.length > 0 ? 'red' : 'blue'}>{impact.incidents.length}</Tag>
+              </Space>
+            }
+            key="incidents"
+          >
+            {impact.incidents.length > 0 ? (
+              <Table
+                dataSource={impact.incidents}
+                columns={incidentColumns}
+                size="small"
+                pagination={{ pageSize: 10, hideOnSinglePage: true }}
+                bordered
+                rowKey="id"
+              />
+            ) : (
+              <Empty
+                image={Empty.PRESENTED_IMAGE_SIMPLE}
+                description="No firing incidents on this service or anything it affects"
+              />
+            )}
+          </TabPane>
+        </Tabs>
+      </Space>
+    );
+  };
+
+  return (
+    <Card
+      title={
+        <Space>
+          <AimOutlined style={{ color: '#ff4d4f' }} />
+          <span>Impact</span>
+          <Tooltip title="Who is affected if this service is down: upstream callers and services in namespaces that depend on this one">
+            <InfoCircleOutlined style={{ color: '#8c8c8c' }} />
+          </Tooltip>
+        </Space>
+      }
+      extra={
+        <Space>
+          <Text type="secondary" style={{ fontSize: '12px' }}>Depth</Text>
+          <Select size="small" value={depth} onChange={setDepth} style={{ width: '80px' }}>
+            {[1, 2, 3, 5, 8, 10].map(d => (
+              <Option key={d} value={d}>{d} hop{d === 1 ? '' : 's'}</Option>
+            ))}
+          </Select>
+          <Button size="small" icon={<ReloadOutlined />} onClick={refresh} loading={loading} />
+        </Space>
+      }
+      size="small"
+    >
+      {renderBody()}
+    </Card>
+  );
+};
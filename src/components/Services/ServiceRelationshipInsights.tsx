@@ -1,12 +1,17 @@
 import React from 'react';
-import { Row, Col, Card, Statistic, Table, Tag, Progress } from 'antd';
+import { Row, Col, Card, Statistic, Table, Tag, Progress, Tabs, Alert, Empty, Spin, Tooltip } from 'antd';
 import { 
   ShareAltOutlined,
   DisconnectOutlined,
   NodeIndexOutlined,
   LinkOutlined,
-  TeamOutlined
+  TeamOutlined,
+  AimOutlined,
+  SyncOutlined,
+  WarningOutlined
 } from '@ant-design/icons';
+import type { FanOutlier, NamespaceViolation, TopologyCycle } from '../../types';
+import { useTopologyLint } from '../../hooks/useTopologyLint';
 
 interface ServiceRelationshipInsightsProps {
   dependencies: {
@@ -22,12 +27,218 @@ interface ServiceRelationshipInsightsProps {
     component_type: string;
     dependency_count: number;
   }>;
+  // Open the service map focused on a service (namespace::name)
+  onShowInMap?: (serviceKey: string) => void;
 }
 
 export const ServiceRelationshipInsights: React.FC<ServiceRelationshipInsightsProps> = ({
   dependencies,
-  mostConnected
+  mostConnected,
+  onShowInMap
 }) => {
+  const { lint, loading: lintLoading, error: lintError } = useTopologyLint();
+
+  // Service key rendered as a link into the map when navigation is available
+  const renderServiceLink = (serviceKey: string) => (
+    onShowInMap ? (
+      <Tooltip key={serviceKey} title="Show in service map">
+        <Tag
+          color="blue"
+          icon={<AimOutlined />}
+          style={{ cursor: 'pointer', fontFamily: 'monospace', marginBottom: 4 }}
+          onClick={() => onShowInMap(serviceKey)}
+        >
+          {serviceKey}
+        </Tag>
+      </Tooltip>
+    ) : (
+      <Tag key={serviceKey} style={{ fontFamily: 'monospace', marginBottom: 4 }}>{serviceKey}</Tag>
+    )
+  );
+
+  const cycleColumns = [
+    {
+      title: 'Services',
+      key: 'services',
+      render: (cycle: TopologyCycle) => <div>{cycle.services.map(renderServiceLink)}</div>,
+    },
+    {
+      title: 'Size',
+      dataIndex: 'size',
+      key: 'size',
+      width: 70,
+    },
+    {
+      title: 'Namespaces',
+      key: 'namespaces',
+      render: (cycle: TopologyCycle) => (
+        <div>
+          {cycle.namespaces.map(ns => <Tag key={ns}>{ns}</Tag>)}
+          {cycle.crossNamespace && <Tag color="red">cross-namespace</Tag>}
+        </div>
+      ),
+    },
+  ];
+
+  const fanColumns = (label: string) => [
+    {
+      title: 'Service',
+      dataIndex: 'service',
+      key: 'service',
+      render: renderServiceLink,
+    },
+    {
+      title: 'Team',
+      dataIndex: 'team',
+      key: 'team',
+      render: (team: string | null) => (
+        <Tag color={team ? 'blue' : 'orange'}>{team || 'unknown'}</Tag>
+      ),
+    },
+    {
+      title: label,
+      dataIndex: 'count',
+      key: 'count',
+      render: (count: number) => <span style={{ fontWeight: 'bold', color: '#fa8c16' }}>{count}</span>,
+      sorter: (a: FanOutlier, b: FanOutlier) => a.count - b.count,
+    },
+    {
+      title: 'Namespaces',
+      dataIndex: 'namespaces',
+      key: 'namespaces',
+    },
+  ];
+
+  const violationColumns = [
+    {
+      title: 'Caller',
+      dataIndex: 'from',
+      key: 'from',
+      render: renderServiceLink,
+    },
+    {
+      title: 'Callee',
+      dataIndex: 'to',
+      key: 'to',
+      render: renderServiceLink,
+    },
+    {
+      title: 'Missing Declaration',
+      key: 'declaration',
+      render: (violation: NamespaceViolation) => (
+        <Tag color="red">{violation.fromNamespace} → {violation.toNamespace}</Tag>
+      ),
+    },
+  ];
+
+  const renderLint = () => {
+    if (lintLoading && !lint) {
+      return <div style={{ textAlign: 'center', padding: 16 }}><Spin /></div>;
+    }
+
+    if (lintError) {
+      return <Alert message="Failed to load topology lint" description={lintError} type="error" showIcon />;
+    }
+
+    if (!lint) return null;
+
+    const countTag = (count: number) => (
+      <Tag color={count > 0 ? 'red' : 'green'} style={{ marginLeft: 6 }}>{count}</Tag>
+    );
+
+    return (
+      <Tabs
+        size="small"
+        items={[
+          {
+            key: 'cycles',
+            label: <span>Cycles{countTag(lint.summary.cycles)}</span>,
+            children: lint.cycles.length > 0 ? (
+              <Table
+                dataSource={lint.cycles}
+                columns={cycleColumns}
+                rowKey={(cycle: TopologyCycle) => cycle.services.join(',')}
+                pagination={{ pageSize: 5, hideOnSinglePage: true }}
+                size="small"
+              />
+            ) : (
+              <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="No circular calls between services" />
+            ),
+          },
+          {
+            key: 'namespace-cycles',
+            label: <span>Cross-Namespace Cycles{countTag(lint.summary.crossNamespaceCycles)}</span>,
+            children: lint.crossNamespaceCycles.length > 0 ? (
+              <div>
+                {lint.crossNamespaceCycles.map(cycle => (
+                  <div key={cycle.namespaces.join(',')} style={{ marginBottom: 12 }}>
+                    <div style={{ marginBottom: 4 }}>
+                      {cycle.namespaces.map(ns => <Tag key={ns} color="purple">{ns}</Tag>)}
+                    </div>
+                    <div style={{ fontSize: 12, color: '#8c8c8c' }}>
+                      {cycle.edges.map(edge => `${edge.from} → ${edge.to} (${edge.calls} call${edge.calls === 1 ? '' : 's'})`).join(' • ')}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="Namespaces call each other in one direction only" />
+            ),
+          },
+          {
+            key: 'fan-in',
+            label: <span>High Fan-In{countTag(lint.summary.highFanIn)}</span>,
+            children: (
+              <Table
+                dataSource={lint.highFanIn}
+                columns={fanColumns('Callers')}
+                rowKey="service"
+                pagination={{ pageSize: 5, hideOnSinglePage: true }}
+                size="small"
+                locale={{ emptyText: `No services with more than ${lint.thresholds.fanIn} callers` }}
+              />
+            ),
+          },
+          {
+            key: 'fan-out',
+            label: <span>High Fan-Out{countTag(lint.summary.highFanOut)}</span>,
+            children: (
+              <Table
+                dataSource={lint.highFanOut}
+                columns={fanColumns('Callees')}
+                rowKey="service"
+                pagination={{ pageSize: 5, hideOnSinglePage: true }}
+                size="small"
+                locale={{ emptyText: `No services calling more than ${lint.thresholds.fanOut} others` }}
+              />
+            ),
+          },
+          {
+            key: 'violations',
+            label: <span>Namespace Violations{countTag(lint.summary.namespaceViolations)}</span>,
+            children: (
+              <div>
+                <Table
+                  dataSource={lint.namespaceViolations}
+                  columns={violationColumns}
+                  rowKey={(violation: NamespaceViolation) => `${violation.from}-->${violation.to}`}
+                  pagination={{ pageSize: 5, hideOnSinglePage: true }}
+                  size="small"
+                  locale={{ emptyText: 'All cross-namespace calls match declared namespace dependencies' }}
+                />
+                {lint.summary.uncheckedNamespaces > 0 && (
+                  <div style={{ marginTop: 8, fontSize: 12, color: '#8c8c8c', fontStyle: 'italic' }}>
+                    {lint.summary.uncheckedNamespaces} namespace{lint.summary.uncheckedNamespaces === 1 ? '' : 's'} declare no dependencies and are not checked
+                  </div>
+                )}
+              </div>
+            ),
+          },
+        ]}
+      />
+    );
+  };
+
   // Table columns for most connected services
   const columns = [
     {
@@ -224,6 +435,17 @@ export const ServiceRelationshipInsights: React.FC<ServiceRelationshipInsightsPr
         </Col>
       </Row>
 
+      {/* Topology Lint */}
+      <div style={{ marginBottom: 20 }}>
+        <h4 style={{ marginBottom: 12 }}>
+          {lint && (lint.summary.cycles > 0 || lint.summary.namespaceViolations > 0)
+            ? <WarningOutlined style={{ marginRight: 8, color: '#fa8c16' }} />
+            : <SyncOutlined style={{ marginRight: 8, color: '#1890ff' }} />}
+          Topology Lint
+        </h4>
+        {renderLint()}
+      </div>
+
       {/* Most Connected Services Table */}
       <div>
         <h4 style={{ marginBottom: 16 }}>Most Connected Services</h4>
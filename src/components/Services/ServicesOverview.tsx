@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { Typography, Spin, Alert, Button, Space } from 'antd';
 import { ReloadOutlined, ClockCircleOutlined } from '@ant-design/icons';
-import { API_BASE_URL } from '../../utils/api';
+import { API_BASE_URL, apiFetch } from '../../utils/api';
 import { logger } from '../../utils/logger';
 import { ServiceDiscoveryStats } from './ServiceDiscoveryStats';
 import { ServiceRelationshipInsights } from './ServiceRelationshipInsights';
@@ -22,7 +22,11 @@ interface OverviewData {
   recent_activity: any[];
 }
 
-export const ServicesOverview: React.FC = () => {
+interface ServicesOverviewProps {
+  onShowInMap?: (serviceKey: string) => void;
+}
+
+export const ServicesOverview: React.FC<ServicesOverviewProps> = ({ onShowInMap }) => {
   const [data, setData] = useState<OverviewData | null>(null);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
@@ -38,7 +42,7 @@ export const ServicesOverview: React.FC = () => {
       }
       setError(null);
       
-      const response = await fetch(`${API_BASE_URL}/services/overview`);
+      const response = await apiFetch(`${API_BASE_URL}/services/overview`);
       if (!response.ok) {
         throw new Error(`Failed to fetch data: ${response.status}`);
       }
@@ -145,6 +149,7 @@ export const ServicesOverview: React.FC = () => {
       <ServiceRelationshipInsights 
         dependencies={data.dependencies}
         mostConnected={data.most_connected}
+        onShowInMap={onShowInMap}
       />
 
       <ServiceQualityMetrics 
@@ -1,25 +1,33 @@
 import React from 'react';
 import { ServicesOverview } from './ServicesOverview';
 import { ServiceCatalog } from './ServiceCatalog';
+import { NamespaceDependencyDrift } from './NamespaceDependencyDrift';
+import { NamespaceDependencyManager } from './NamespaceDependencyManager';
 
   interface ServicesPageProps {
     activeTab: string;
     onServiceSelect?: (namespace: string, name: string) => void;
+    onShowInMap?: (serviceKey: string) => void;
   }
 
-export const ServicesPage: React.FC<ServicesPageProps> = ({ activeTab, onServiceSelect }) => {
+export const ServicesPage: React.FC<ServicesPageProps> = ({ activeTab, onServiceSelect, onShowInMap }) => {
   const renderTabContent = () => {
     switch (activeTab) {
       case 'services-overview':
-        return <ServicesOverview />;
+        return <ServicesOverview onShowInMap={onShowInMap} />;
         case 'services-catalog':
     return <ServiceCatalog onServiceSelect={onServiceSelect} />;
       case 'services-dependencies':
-        return <div>Dependencies Management (coming soon)</div>;
+        return (
+          <>
+            <NamespaceDependencyManager />
+            <NamespaceDependencyDrift />
+          </>
+        );
       case 'services-health':
         return <div>Health & Status (coming soon)</div>;
       default:
-        return <ServicesOverview />;
+        return <ServicesOverview onShowInMap={onShowInMap} />;
     }
   };
 
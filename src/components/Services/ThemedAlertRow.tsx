@@ -1,8 +1,19 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Tag, Space, Tooltip } from 'antd';
-import { AlertOutlined, ClockCircleOutlined, UserOutlined, NumberOutlined } from '@ant-design/icons';
+import {
+  AlertOutlined,
+  ClockCircleOutlined,
+  UserOutlined,
+  NumberOutlined,
+  TagsOutlined,
+  DownOutlined,
+  UpOutlined,
+  LinkOutlined,
+  BookOutlined
+} from '@ant-design/icons';
 import { AcknowledgeButton, ResolveButton, AcknowledgmentInfo } from '../Cards/Services';
 import type { Alert } from '../../types';
+import { useAuth } from '../../hooks/useAuth';
 
 interface ThemedAlertRowProps {
   alert: Alert;
@@ -19,6 +30,18 @@ export const ThemedAlertRow: React.FC<ThemedAlertRowProps> = ({
   acknowledgingAlerts,
   resolvingAlerts
 }) => {
+  const [showDetails, setShowDetails] = useState(false);
+  const { hasRole, canActForTeam } = useAuth();
+
+  // Responders act on incidents of their teams' services, or of services with no team
+  const canRespond = hasRole('responder') && canActForTeam(alert.team, true);
+
+  const labels = Object.entries(alert.labels || {}).sort(([a], [b]) => a.localeCompare(b));
+  // summary is already shown as the message and runbook_url as a link
+  const annotations = Object.entries(alert.annotations || {})
+    .filter(([name]) => name !== 'summary' && name !== 'runbook_url');
+  const hasDetails = labels.length > 0 || annotations.length > 0 || !!alert.generator_url || !!alert.runbook_url;
+
   // Get severity color and styling (keep severity colors, but use theme-aware backgrounds)
   const getSeverityProps = (severity: string) => {
     switch (severity.toLowerCase()) {
@@ -141,9 +164,67 @@ export const ThemedAlertRow: React.FC<ThemedAlertRowProps> = ({
           </Tooltip>
         </Space>
 
-        <span>Last seen: {formatLastSeen(alert.last_seen)}</span>
+        <Space size="middle">
+          {hasDetails && (
+            <a onClick={() => setShowDetails(!showDetails)} style={{ fontSize: '11px' }}>
+              <TagsOutlined style={{ marginRight: '4px' }} />
+              Labels ({labels.length})
+              {showDetails ? <UpOutlined style={{ marginLeft: '4px' }} /> : <DownOutlined style={{ marginLeft: '4px' }} />}
+            </a>
+          )}
+          <span>Last seen: {formatLastSeen(alert.last_seen)}</span>
+        </Space>
       </div>
 
+      {/* Labels, annotations and source links from the sender */}
+      {showDetails && (
+        <div style={{
+          marginTop: '8px',
+          paddingTop: '8px',
+          borderTop: '1px dashed var(--border)',
+          fontSize: '12px',
+          color: 'var(--text-secondary)'
+        }}>
+          {labels.length > 0 && (
+            <div style={{ marginBottom: '6px' }}>
+              {labels.map(([name, value]) => (
+                <Tag key={name} style={{ marginBottom: '4px', fontFamily: 'monospace', fontSize: '11px' }}>
+                  {name}={value}
+                </Tag>
+              ))}
+            </div>
+          )}
+
+          {annotations.map(([name, value]) => (
+            <div key={name} style={{ marginBottom: '4px', wordBreak: 'break-word' }}>
+              <span style={{ fontWeight: 500, color: 'var(--text-primary)' }}>{name}:</span> {value}
+            </div>
+          ))}
+
+          {(alert.generator_url || alert.runbook_url || alert.upstream_fingerprint) && (
+            <Space size="large" style={{ marginTop: '4px' }}>
+              {alert.generator_url && (
+                <a href={alert.generator_url} target="_blank" rel="noopener noreferrer">
+                  <LinkOutlined style={{ marginRight: '4px' }} />
+                  Source
+                </a>
+              )}
+              {alert.runbook_url && (
+                <a href={alert.runbook_url} target="_blank" rel="noopener noreferrer">
+                  <BookOutlined style={{ marginRight: '4px' }} />
+                  Runbook
+                </a>
+              )}
+              {alert.upstream_fingerprint && (
+                <Tooltip title="Alertmanager fingerprint">
+                  <span style={{ fontFamily: 'monospace', fontSize: '11px' }}>{alert.upstream_fingerprint}</span>
+                </Tooltip>
+              )}
+            </Space>
+          )}
+        </div>
+      )}
+
       {/* Acknowledgment and Resolution section */}
       {(onAcknowledgeAlert || onResolveAlert) && (
         <div style={{
@@ -155,7 +236,7 @@ export const ThemedAlertRow: React.FC<ThemedAlertRowProps> = ({
           alignItems: 'flex-start'
         }}>
           <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
-            {onAcknowledgeAlert && (
+            {onAcknowledgeAlert && canRespond && (
               <AcknowledgeButton
                 alertId={alert.alert_id}
                 isAcknowledged={!!alert.acknowledged_at}
@@ -164,7 +245,7 @@ export const ThemedAlertRow: React.FC<ThemedAlertRowProps> = ({
                 size="small"
               />
             )}
-            {onResolveAlert && (
+            {onResolveAlert && canRespond && (
               <ResolveButton
                 alertId={alert.alert_id}
                 isResolved={!!alert.resolved_at}
@@ -182,14 +263,22 @@ export const ThemedAlertRow: React.FC<ThemedAlertRowProps> = ({
             flexWrap: 'wrap',
             minWidth: 0 // Allow shrinking
           }}>
-            {alert.acknowledged_at && (
+            {(alert.acknowledged_at || !!alert.escalation_level) && (
               <AcknowledgmentInfo 
                 acknowledgedBy={alert.acknowledged_by}
                 acknowledgedAt={alert.acknowledged_at}
+                escalationLevel={alert.escalation_level}
+                escalatedAt={alert.escalated_at}
                 size="small"
                 layout="horizontal"
               />
             )}
+            {alert.resolved_by && (
+              <span style={{ fontSize: '12px', color: 'var(--text-secondary)' }}>
+                <UserOutlined style={{ marginRight: '4px' }} />
+                Resolved by {alert.resolved_by}
+              </span>
+            )}
           </div>
         </div>
       )}
@@ -0,0 +1,110 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { ReactNode } from 'react';
+import { message } from 'antd';
+import type { AuthUser, LoginResponse, Role } from '../types';
+import { API_BASE_URL, AUTH_EXPIRED_EVENT, apiFetch, getAuthToken, setAuthToken, readError } from '../utils/api';
+import { AuthContext, ROLES } from '../hooks/useAuth';
+import { logger } from '../utils/logger';
+
+interface AuthProviderProps {
+  children: ReactNode;
+}
+
+export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [authEnabled, setAuthEnabled] = useState(true);
+  const [loading, setLoading] = useState(true);
+
+  // Ask the backend whether sign-in is required, then restore the stored session if there is one
+  useEffect(() => {
+    const restoreSession = async () => {
+      try {
+        const configResponse = await apiFetch(`${API_BASE_URL}/auth/config`);
+        if (!configResponse.ok) {
+          throw new Error(await readError(configResponse));
+        }
+        const config: { enabled: boolean } = await configResponse.json();
+        setAuthEnabled(config.enabled);
+
+        if (config.enabled && !getAuthToken()) {
+          return;
+        }
+
+        const meResponse = await apiFetch(`${API_BASE_URL}/auth/me`);
+        if (meResponse.ok) {
+          const me: { user: AuthUser } = await meResponse.json();
+          setUser(me.user);
+        }
+      } catch (err) {
+        logger.error('Failed to restore session:', err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    restoreSession();
+  }, []);
+
+  // Any 401 means the session is gone - drop back to the login page
+  useEffect(() => {
+    const handleExpired = () => {
+      setUser(current => {
+        if (current) {
+          message.warning('Your session has expired - please sign in again');
+        }
+        return null;
+      });
+      setAuthEnabled(true);
+    };
+
+    window.addEventListener(AUTH_EXPIRED_EVENT, handleExpired);
+    return () => window.removeEventListener(AUTH_EXPIRED_EVENT, handleExpired);
+  }, []);
+
+  const login = useCallback(async (username: string, password: string) => {
+    const response = await apiFetch(`${API_BASE_URL}/auth/login`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username, password })
+    });
+
+    if (!response.ok) {
+      throw new Error(await readError(response));
+    }
+
+    const result: LoginResponse = await response.json();
+    setAuthToken(result.token);
+    setUser(result.user);
+    logger.info('Signed in', { username: result.user.username });
+  }, []);
+
+  const logout = useCallback(async () => {
+    try {
+      await apiFetch(`${API_BASE_URL}/auth/logout`, { method: 'POST' });
+    } catch (err) {
+      logger.warn('Failed to revoke session on logout:', err);
+    } finally {
+      setAuthToken(null);
+      setUser(null);
+    }
+  }, []);
+
+  const hasRole = useCallback((role: Role) => (
+    !!user && ROLES.indexOf(user.role) >= ROLES.indexOf(role)
+  ), [user]);
+
+  // Admins act for every team; others for their own teams, and for unowned targets (no team,
+  // or the placeholder 'unknown' telemetry-created services get) when allowed
+  const canActForTeam = useCallback((team: string | null | undefined, allowUnowned = false) => {
+    if (!user) return false;
+    if (user.role === 'admin') return true;
+    if (!team || team === 'unknown') return allowUnowned;
+    return user.teams.includes(team);
+  }, [user]);
+
+  return (
+    <AuthContext.Provider value={{ user, authEnabled, loading, login, logout, hasRole, canActForTeam }}>
+      {children}
+    </AuthContext.Provider>
+  );
+};
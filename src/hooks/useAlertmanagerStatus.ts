@@ -0,0 +1,38 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { AlertmanagerStatus } from '../types';
+import { API_BASE_URL, apiFetch, readError } from '../utils/api';
+import { logger } from '../utils/logger';
+
+/**
+ * Alertmanager webhook configuration, keys and rejected requests (admin only)
+ */
+export const useAlertmanagerStatus = () => {
+  const [status, setStatus] = useState<AlertmanagerStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await apiFetch(`${API_BASE_URL}/admin/alertmanager/status`);
+      if (!response.ok) {
+        throw new Error(await readError(response));
+      }
+
+      setStatus(await response.json());
+    } catch (err) {
+      logger.error('Failed to fetch Alertmanager status:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch Alertmanager status');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  return { status, loading, error, refresh: fetchStatus };
+};
@@ -1,5 +1,5 @@
 import { useState, useCallback } from 'react';
-import { API_BASE_URL } from '../utils/api';
+import { API_BASE_URL, apiFetch } from '../utils/api';
 import { logger } from '../utils/logger';
 import type { GraphFilters } from '../types';
 
@@ -84,7 +84,7 @@ export const useAnalytics = (): UseAnalyticsResult => {
       const analyticsUrl = `${API_BASE_URL}/alerts/analytics?${params.toString()}`;
       logger.debug('Analytics URL', { url: analyticsUrl });
 
-      const response = await fetch(analyticsUrl);
+      const response = await apiFetch(analyticsUrl);
       if (!response.ok) {
         throw new Error(`Analytics API error: ${response.status} ${response.statusText}`);
       }
@@ -0,0 +1,49 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { AuditLogEntry, AuditLogFilters } from '../types';
+import { API_BASE_URL, apiFetch, readError } from '../utils/api';
+import { logger } from '../utils/logger';
+
+/**
+ * Audit log entries matching filters, newest first (admin only)
+ */
+export const useAuditLog = (filters: AuditLogFilters, limit: number = 200) => {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const { actor, action, entityType, entityId, from, to } = filters;
+
+  const fetchEntries = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const params = new URLSearchParams({ limit: String(limit) });
+      if (actor) params.set('actor', actor);
+      if (action) params.set('action', action);
+      if (entityType) params.set('entityType', entityType);
+      if (entityId) params.set('entityId', entityId);
+      if (from) params.set('from', from);
+      if (to) params.set('to', to);
+
+      const response = await apiFetch(`${API_BASE_URL}/admin/audit?${params.toString()}`);
+      if (!response.ok) {
+        throw new Error(await readError(response));
+      }
+
+      const result = await response.json();
+      setEntries(result.entries);
+    } catch (err) {
+      logger.error('Failed to fetch audit log:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch audit log');
+    } finally {
+      setLoading(false);
+    }
+  }, [actor, action, entityType, entityId, from, to, limit]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  return { entries, loading, error, refresh: fetchEntries };
+};
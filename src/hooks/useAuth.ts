@@ -0,0 +1,26 @@
+import { createContext, useContext } from 'react';
+import type { AuthUser, Role } from '../types';
+
+export const ROLES: Role[] = ['viewer', 'responder', 'team-owner', 'admin'];
+
+export interface AuthContextType {
+  // Signed-in user; the anonymous user when the backend has authentication disabled
+  user: AuthUser | null;
+  authEnabled: boolean;
+  loading: boolean;
+  login: (username: string, password: string) => Promise<void>;
+  logout: () => Promise<void>;
+  // Mirror the backend's role checks so controls the user cannot use are hidden
+  hasRole: (role: Role) => boolean;
+  canActForTeam: (team: string | null | undefined, allowUnowned?: boolean) => boolean;
+}
+
+export const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+export const useAuth = (): AuthContextType => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+};
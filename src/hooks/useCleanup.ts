@@ -0,0 +1,120 @@
+import { useState, useEffect, useCallback } from 'react';
+import { message } from 'antd';
+import type { CleanupStatus, CleanupPreview } from '../types';
+import { API_BASE_URL, apiFetch, readError } from '../utils/api';
+import { logger } from '../utils/logger';
+
+/**
+ * Stale service cleanup: configuration and last run, a preview of what the next run would delete,
+ * and manual runs (admin only)
+ */
+export const useCleanup = () => {
+  const [status, setStatus] = useState<CleanupStatus | null>(null);
+  const [preview, setPreview] = useState<CleanupPreview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [previewing, setPreviewing] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await apiFetch(`${API_BASE_URL}/metrics/cleanup`);
+      if (!response.ok) {
+        throw new Error(await readError(response));
+      }
+
+      setStatus(await response.json());
+    } catch (err) {
+      logger.error('Failed to fetch cleanup status:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch cleanup status');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Resolves the preview, or null when it could not be loaded
+  const loadPreview = useCallback(async (): Promise<CleanupPreview | null> => {
+    try {
+      setPreviewing(true);
+
+      const response = await apiFetch(`${API_BASE_URL}/admin/cleanup/preview`);
+      if (!response.ok) {
+        throw new Error(await readError(response));
+      }
+
+      const result: CleanupPreview = await response.json();
+      setPreview(result);
+      return result;
+    } catch (err) {
+      logger.error('Failed to preview cleanup:', err);
+      message.error(err instanceof Error ? err.message : 'Failed to preview cleanup');
+      return null;
+    } finally {
+      setPreviewing(false);
+    }
+  }, []);
+
+  const runCleanup = useCallback(async () => {
+    try {
+      setRunning(true);
+
+      const response = await apiFetch(`${API_BASE_URL}/admin/cleanup/run`, { method: 'POST' });
+      if (!response.ok) {
+        throw new Error(await readError(response));
+      }
+
+      const { result } = await response.json();
+      message.success(
+        `Cleanup completed - ${result.servicesDeleted} services and ` +
+        `${result.dependenciesDeleted + result.staleDependenciesDeleted} dependencies removed`
+      );
+      setPreview(null);
+      await fetchStatus();
+    } catch (err) {
+      logger.error('Failed to run cleanup:', err);
+      message.error(err instanceof Error ? err.message : 'Failed to run cleanup');
+    } finally {
+      setRunning(false);
+    }
+  }, [fetchStatus]);
+
+  const cleanupOrphanedDependencies = useCallback(async () => {
+    try {
+      setRunning(true);
+
+      const response = await apiFetch(`${API_BASE_URL}/admin/cleanup/orphaned-dependencies`, { method: 'POST' });
+      if (!response.ok) {
+        throw new Error(await readError(response));
+      }
+
+      const result = await response.json();
+      message.success(result.message);
+      await fetchStatus();
+    } catch (err) {
+      logger.error('Failed to clean up orphaned dependencies:', err);
+      message.error(err instanceof Error ? err.message : 'Failed to clean up orphaned dependencies');
+    } finally {
+      setRunning(false);
+    }
+  }, [fetchStatus]);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  return {
+    status,
+    preview,
+    loading,
+    previewing,
+    running,
+    error,
+    loadPreview,
+    runCleanup,
+    cleanupOrphanedDependencies,
+    refresh: fetchStatus
+  };
+};
@@ -0,0 +1,41 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { DependencyChange } from '../types';
+import { API_BASE_URL, apiFetch } from '../utils/api';
+import { logger } from '../utils/logger';
+
+export const useDependencyChanges = (namespace: string, name: string, limit: number = 50) => {
+  const [changes, setChanges] = useState<DependencyChange[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchChanges = useCallback(async () => {
+    if (!namespace || !name) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await apiFetch(
+        `${API_BASE_URL}/services/${encodeURIComponent(namespace)}/${encodeURIComponent(name)}/dependency-changes?limit=${limit}`
+      );
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const data = await response.json();
+      setChanges(data.changes || []);
+    } catch (err) {
+      logger.error('Failed to fetch dependency changes:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch dependency changes');
+    } finally {
+      setLoading(false);
+    }
+  }, [namespace, name, limit]);
+
+  useEffect(() => {
+    fetchChanges();
+  }, [fetchChanges]);
+
+  return { changes, loading, error, refresh: fetchChanges };
+};
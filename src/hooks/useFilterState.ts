@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
-import { API_BASE_URL } from '../utils/api';
+import { API_BASE_URL, apiFetch } from '../utils/api';
 import { logger } from '../utils/logger';
 import type { GraphFilters, Node } from '../types';
 import type { ArrangementOption, SortConfig, SortOption } from '../components/Controls';
@@ -57,7 +57,7 @@ export const useFilterState = (): UseFilterStateReturn => {
   // Fetch available namespaces for filter dropdown
   const fetchAvailableNamespaces = useCallback(async () => {
     try {
-      const response = await fetch(`${API_BASE_URL}/graph`);
+      const response = await apiFetch(`${API_BASE_URL}/graph`);
       const graphData = await response.json();
       const namespaces = [...new Set(
         graphData.nodes
@@ -73,7 +73,7 @@ export const useFilterState = (): UseFilterStateReturn => {
   // Fetch available tags for filter dropdown
   const fetchAvailableTags = useCallback(async () => {
     try {
-      const response = await fetch(`${API_BASE_URL}/tags`);
+      const response = await apiFetch(`${API_BASE_URL}/tags`);
       const data = await response.json();
       setAvailableTags((data.tags as string[]) || []);
     } catch (error) {
@@ -0,0 +1,59 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { GraphDiff } from '../types';
+import { API_BASE_URL, apiFetch } from '../utils/api';
+import { logger } from '../utils/logger';
+
+/**
+ * Fetches the topology diff between the snapshot at `windowHours` ago and the live graph.
+ * Pass null to disable diff mode.
+ */
+export const useGraphDiff = (windowHours: number | null, namespaces?: string[]) => {
+  const [diff, setDiff] = useState<GraphDiff | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const namespacesKey = namespaces && namespaces.length > 0 ? namespaces.join(',') : '';
+
+  const fetchDiff = useCallback(async () => {
+    if (windowHours === null) {
+      setDiff(null);
+      setError(null);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const params = new URLSearchParams();
+      params.append('from', new Date(Date.now() - windowHours * 60 * 60 * 1000).toISOString());
+      if (namespacesKey) params.append('namespaces', namespacesKey);
+
+      const response = await apiFetch(`${API_BASE_URL}/graph/diff?${params.toString()}`);
+
+      if (response.status === 404) {
+        setDiff(null);
+        setError('No snapshot available that far back');
+        return;
+      }
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      setDiff(await response.json());
+    } catch (err) {
+      logger.error('Failed to fetch graph diff:', err);
+      setDiff(null);
+      setError(err instanceof Error ? err.message : 'Failed to fetch graph diff');
+    } finally {
+      setLoading(false);
+    }
+  }, [windowHours, namespacesKey]);
+
+  useEffect(() => {
+    fetchDiff();
+  }, [fetchDiff]);
+
+  return { diff, loading, error, refresh: fetchDiff };
+};
@@ -0,0 +1,48 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { GraphTraversal, TraversalDirection } from '../types';
+import { API_BASE_URL, apiFetch } from '../utils/api';
+import { logger } from '../utils/logger';
+
+/**
+ * Fetches the services reachable from `root` (namespace::name) within `depth` hops.
+ * Pass a null root to clear the traversal.
+ */
+export const useGraphTraversal = (root: string | null, direction: TraversalDirection = 'both', depth: number = 3) => {
+  const [traversal, setTraversal] = useState<GraphTraversal | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTraversal = useCallback(async () => {
+    if (!root) {
+      setTraversal(null);
+      setError(null);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const params = new URLSearchParams({ root, direction, depth: String(depth) });
+      const response = await apiFetch(`${API_BASE_URL}/graph/traverse?${params.toString()}`);
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      setTraversal(await response.json());
+    } catch (err) {
+      logger.error('Failed to fetch graph traversal:', err);
+      setTraversal(null);
+      setError(err instanceof Error ? err.message : 'Failed to fetch graph traversal');
+    } finally {
+      setLoading(false);
+    }
+  }, [root, direction, depth]);
+
+  useEffect(() => {
+    fetchTraversal();
+  }, [fetchTraversal]);
+
+  return { traversal, loading, error, refresh: fetchTraversal };
+};
@@ -0,0 +1,69 @@
+import { useState, useEffect, useCallback } from 'react';
+import { message } from 'antd';
+import type { IncidentStorageHealth } from '../types';
+import { API_BASE_URL, apiFetch, readError } from '../utils/api';
+import { logger } from '../utils/logger';
+
+/**
+ * Incident and alert event counts and table sizes, with old event cleanup (admin only)
+ */
+export const useIncidentHealth = () => {
+  const [health, setHealth] = useState<IncidentStorageHealth | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [cleaning, setCleaning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchHealth = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await apiFetch(`${API_BASE_URL}/admin/incidents/health`);
+      if (!response.ok) {
+        throw new Error(await readError(response));
+      }
+
+      setHealth(await response.json());
+    } catch (err) {
+      logger.error('Failed to fetch incident health:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch incident health');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Deletes old alert events and, with includeIncidents, resolved incidents older than daysOld
+  const cleanupIncidents = useCallback(async (daysOld: number, includeIncidents: boolean) => {
+    try {
+      setCleaning(true);
+
+      const response = await apiFetch(`${API_BASE_URL}/admin/incidents/cleanup`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ days_old: daysOld, cleanup_old_incidents: includeIncidents })
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response));
+      }
+
+      const result = await response.json();
+      message.success(
+        includeIncidents
+          ? `Deleted ${result.events_deleted} events and ${result.incidents_deleted} incidents`
+          : `Deleted ${result.events_deleted} events`
+      );
+      await fetchHealth();
+    } catch (err) {
+      logger.error('Failed to clean up incidents:', err);
+      message.error(err instanceof Error ? err.message : 'Failed to clean up incidents');
+    } finally {
+      setCleaning(false);
+    }
+  }, [fetchHealth]);
+
+  useEffect(() => {
+    fetchHealth();
+  }, [fetchHealth]);
+
+  return { health, loading, cleaning, error, cleanupIncidents, refresh: fetchHealth };
+};
@@ -1,6 +1,6 @@
 import { useState } from 'react';
 import type { Alert, ServiceGroup } from '../types';
-import { API_BASE_URL } from '../utils/api';
+import { API_BASE_URL, apiFetch } from '../utils/api';
 import { logger } from '../utils/logger';
 
 export type SortOption = 'service' | 'severity' | 'alertCount' | 'duration' | 'activity';
@@ -82,7 +82,7 @@ export const useIncidents = () => {
   // Fetch available namespaces
   const fetchNamespaces = async () => {
     try {
-      const response = await fetch(`${API_BASE_URL}/graph`);
+      const response = await apiFetch(`${API_BASE_URL}/graph`);
       const data = await response.json();
       const namespaces = [...new Set(
         data.nodes
@@ -114,7 +114,7 @@ export const useIncidents = () => {
       
       const queryString = params.toString() ? `?${params.toString()}` : '';
       
-      const response = await fetch(`${API_BASE_URL}/alerts${queryString}`);
+      const response = await apiFetch(`${API_BASE_URL}/alerts${queryString}`);
       const alertData: Alert[] = await response.json();
       
       // Apply client-side search filter
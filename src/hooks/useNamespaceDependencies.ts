@@ -0,0 +1,172 @@
+import { useState, useEffect, useCallback } from 'react';
+import { message } from 'antd';
+import type { NamespaceDependency, NamespaceSummary, NamespaceDependencyImportResult } from '../types';
+import { API_BASE_URL, apiFetch, readError } from '../utils/api';
+import { logger } from '../utils/logger';
+
+export type NamespaceDependencyForm = {
+  from_namespace: string;
+  to_namespace: string;
+  dependency_type?: string;
+  description?: string;
+};
+
+const showWarnings = (warnings?: string[]) => {
+  (warnings || []).forEach(warning => message.warning(warning, 6));
+};
+
+/**
+ * Declared namespace dependencies with create/update/delete and bulk import/export
+ */
+export const useNamespaceDependencies = () => {
+  const [dependencies, setDependencies] = useState<NamespaceDependency[]>([]);
+  const [namespaces, setNamespaces] = useState<NamespaceSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchDependencies = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [dependenciesResponse, namespacesResponse] = await Promise.all([
+        apiFetch(`${API_BASE_URL}/namespace-dependencies`),
+        apiFetch(`${API_BASE_URL}/namespace-dependencies/namespaces`)
+      ]);
+
+      if (!dependenciesResponse.ok || !namespacesResponse.ok) {
+        throw new Error(`HTTP error! status: ${dependenciesResponse.ok ? namespacesResponse.status : dependenciesResponse.status}`);
+      }
+
+      setDependencies(await dependenciesResponse.json());
+      setNamespaces(await namespacesResponse.json());
+    } catch (err) {
+      logger.error('Failed to fetch namespace dependencies:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch namespace dependencies');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Create (POST) or update (PUT) a dependency; resolves true on success
+  const saveDependency = useCallback(async (form: NamespaceDependencyForm, id?: number) => {
+    try {
+      setSaving(true);
+
+      const response = await apiFetch(
+        id === undefined ? `${API_BASE_URL}/namespace-dependencies` : `${API_BASE_URL}/namespace-dependencies/${id}`,
+        {
+          method: id === undefined ? 'POST' : 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(form)
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error(await readError(response));
+      }
+
+      const result = await response.json();
+      message.success(id === undefined ? 'Namespace dependency created' : 'Namespace dependency updated');
+      showWarnings(result.warnings);
+      await fetchDependencies();
+      return true;
+    } catch (err) {
+      logger.error('Failed to save namespace dependency:', err);
+      message.error(err instanceof Error ? err.message : 'Failed to save namespace dependency');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  }, [fetchDependencies]);
+
+  const deleteDependency = useCallback(async (id: number) => {
+    try {
+      const response = await apiFetch(`${API_BASE_URL}/namespace-dependencies/${id}`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        throw new Error(await readError(response));
+      }
+
+      message.success('Namespace dependency deleted');
+      await fetchDependencies();
+    } catch (err) {
+      logger.error('Failed to delete namespace dependency:', err);
+      message.error(err instanceof Error ? err.message : 'Failed to delete namespace dependency');
+    }
+  }, [fetchDependencies]);
+
+  // Import JSON or YAML text; a dry run validates and reports what would change without writing
+  const importDependencies = useCallback(async (
+    content: string,
+    format: 'json' | 'yaml',
+    mode: 'merge' | 'replace',
+    dryRun: boolean
+  ): Promise<NamespaceDependencyImportResult | null> => {
+    try {
+      setSaving(true);
+
+      const params = new URLSearchParams({ mode, dryRun: String(dryRun) });
+      const response = await apiFetch(`${API_BASE_URL}/namespace-dependencies/import?${params.toString()}`, {
+        method: 'POST',
+        headers: { 'Content-Type': format === 'yaml' ? 'application/yaml' : 'application/json' },
+        body: content
+      });
+
+      if (!response.ok) {
+        throw new Error(await readError(response));
+      }
+
+      const result: NamespaceDependencyImportResult = await response.json();
+      if (!dryRun) {
+        message.success(`Imported ${result.total} namespace dependencies`);
+        await fetchDependencies();
+      }
+      return result;
+    } catch (err) {
+      logger.error('Failed to import namespace dependencies:', err);
+      message.error(err instanceof Error ? err.message : 'Failed to import namespace dependencies');
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  }, [fetchDependencies]);
+
+  // Fetched rather than linked so the request carries the auth token
+  const exportDependencies = useCallback(async (format: 'json' | 'yaml') => {
+    try {
+      const response = await apiFetch(`${API_BASE_URL}/namespace-dependencies/export?format=${format}`);
+      if (!response.ok) {
+        throw new Error(await readError(response));
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `namespace-dependencies.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      logger.error('Failed to export namespace dependencies:', err);
+      message.error(err instanceof Error ? err.message : 'Failed to export namespace dependencies');
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchDependencies();
+  }, [fetchDependencies]);
+
+  return {
+    dependencies,
+    namespaces,
+    loading,
+    saving,
+    error,
+    saveDependency,
+    deleteDependency,
+    importDependencies,
+    exportDependencies,
+    refresh: fetchDependencies
+  };
+};
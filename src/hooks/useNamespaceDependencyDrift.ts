@@ -0,0 +1,77 @@
+import { useState, useEffect, useCallback } from 'react';
+import { message } from 'antd';
+import type { NamespaceDependencyDrift, UndeclaredNamespaceTraffic } from '../types';
+import { API_BASE_URL, apiFetch } from '../utils/api';
+import { logger } from '../utils/logger';
+
+/**
+ * Fetches the drift report between declared namespace dependencies and observed traffic,
+ * and promotes observed traffic to declared dependencies.
+ */
+export const useNamespaceDependencyDrift = (staleDays: number = 30) => {
+  const [drift, setDrift] = useState<NamespaceDependencyDrift | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [promoting, setPromoting] = useState<Set<string>>(new Set());
+
+  const fetchDrift = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await apiFetch(`${API_BASE_URL}/namespace-dependencies/drift?staleDays=${staleDays}`);
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      setDrift(await response.json());
+    } catch (err) {
+      logger.error('Failed to fetch namespace dependency drift:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch namespace dependency drift');
+    } finally {
+      setLoading(false);
+    }
+  }, [staleDays]);
+
+  const promote = useCallback(async (traffic: UndeclaredNamespaceTraffic) => {
+    const key = `${traffic.from_namespace}==>${traffic.to_namespace}`;
+
+    try {
+      setPromoting(prev => new Set(prev).add(key));
+
+      const response = await apiFetch(`${API_BASE_URL}/namespace-dependencies`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          from_namespace: traffic.from_namespace,
+          to_namespace: traffic.to_namespace,
+          dependency_type: 'observed',
+          description: `Promoted from observed traffic (${traffic.service_calls} service call${traffic.service_calls === 1 ? '' : 's'})`
+        })
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      message.success(`Declared ${traffic.from_namespace} → ${traffic.to_namespace}`);
+      await fetchDrift();
+    } catch (err) {
+      logger.error('Failed to promote namespace dependency:', err);
+      message.error('Failed to promote namespace dependency. Please try again.');
+    } finally {
+      setPromoting(prev => {
+        const next = new Set(prev);
+        next.delete(key);
+        return next;
+      });
+    }
+  }, [fetchDrift]);
+
+  useEffect(() => {
+    fetchDrift();
+  }, [fetchDrift]);
+
+  return { drift, loading, error, promoting, promote, refresh: fetchDrift };
+};
@@ -0,0 +1,106 @@
+import { useState, useEffect, useCallback } from 'react';
+import { message } from 'antd';
+import type { QueryPerformance, PoolStatus, PerformanceRecommendation } from '../types';
+import { API_BASE_URL, apiFetch, readError } from '../utils/api';
+import { logger } from '../utils/logger';
+
+/**
+ * Backend query metrics, connection pool status and recommendations, with the maintenance actions
+ * from /performance
+ */
+export const usePerformance = (queryCount: number = 10) => {
+  const [queries, setQueries] = useState<QueryPerformance | null>(null);
+  const [pool, setPool] = useState<PoolStatus | null>(null);
+  const [recommendations, setRecommendations] = useState<PerformanceRecommendation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPerformance = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [queriesResponse, poolResponse, recommendationsResponse] = await Promise.all([
+        apiFetch(`${API_BASE_URL}/performance/queries?count=${queryCount}`),
+        apiFetch(`${API_BASE_URL}/performance/pool`),
+        apiFetch(`${API_BASE_URL}/performance/recommendations`)
+      ]);
+
+      for (const response of [queriesResponse, poolResponse, recommendationsResponse]) {
+        if (!response.ok) {
+          throw new Error(await readError(response));
+        }
+      }
+
+      setQueries(await queriesResponse.json());
+      setPool(await poolResponse.json());
+      setRecommendations((await recommendationsResponse.json()).recommendations);
+    } catch (err) {
+      logger.error('Failed to fetch performance metrics:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch performance metrics');
+    } finally {
+      setLoading(false);
+    }
+  }, [queryCount]);
+
+  // Runs one of the POST/DELETE actions and refreshes the metrics; resolves the response body
+  const runAction = useCallback(async (path: string, method: 'POST' | 'DELETE', failure: string) => {
+    try {
+      setBusy(true);
+
+      const response = await apiFetch(`${API_BASE_URL}${path}`, { method });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(result.message || result.error || `HTTP error! status: ${response.status}`);
+      }
+
+      await fetchPerformance();
+      return result;
+    } catch (err) {
+      logger.error(`${failure}:`, err);
+      message.error(err instanceof Error ? err.message : failure);
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  }, [fetchPerformance]);
+
+  const runHealthCheck = useCallback(async () => {
+    const result = await runAction('/performance/health-check', 'POST', 'Database health check failed');
+    if (result) {
+      message.success(`Database healthy - responded in ${result.response_time_ms}ms`);
+    }
+  }, [runAction]);
+
+  const refreshCache = useCallback(async () => {
+    const result = await runAction('/performance/refresh-cache', 'POST', 'Failed to refresh cache');
+    if (result) {
+      message.success(result.message);
+    }
+  }, [runAction]);
+
+  const clearMetrics = useCallback(async () => {
+    const result = await runAction('/performance/metrics', 'DELETE', 'Failed to clear metrics');
+    if (result) {
+      message.success(result.message);
+    }
+  }, [runAction]);
+
+  useEffect(() => {
+    fetchPerformance();
+  }, [fetchPerformance]);
+
+  return {
+    queries,
+    pool,
+    recommendations,
+    loading,
+    busy,
+    error,
+    runHealthCheck,
+    refreshCache,
+    clearMetrics,
+    refresh: fetchPerformance
+  };
+};
@@ -0,0 +1,97 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { AlertTrends, AlertTrendGroupBy, NoisyFingerprint, AlertPattern } from '../types';
+import type { AnalyticsData } from './useAnalytics';
+import { API_BASE_URL, apiFetch, readError } from '../utils/api';
+import { logger } from '../utils/logger';
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface WeekOverWeek {
+  currentStart: string;
+  end: string;
+  current: AnalyticsData;
+  previous: AnalyticsData;
+  // Group totals for the two weeks, by namespace or team
+  currentGroups: AlertTrends;
+  previousGroups: AlertTrends;
+}
+
+const rangeQuery = (startDate: string, endDate: string) =>
+  `startDate=${encodeURIComponent(startDate)}&endDate=${encodeURIComponent(endDate)}`;
+
+const fetchJson = async <T>(path: string): Promise<T> => {
+  const response = await apiFetch(`${API_BASE_URL}${path}`);
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+  return response.json();
+};
+
+/**
+ * Reliability reporting for the Analytics page: MTTA/MTTR trends by namespace or team, noisy
+ * fingerprints and recurring patterns for a date range, and the week ending at endDate compared
+ * with the week before
+ */
+export const useReliabilityReport = (startDate: string, endDate: string, groupBy: AlertTrendGroupBy) => {
+  const [trends, setTrends] = useState<AlertTrends | null>(null);
+  const [fingerprints, setFingerprints] = useState<NoisyFingerprint[]>([]);
+  const [patterns, setPatterns] = useState<AlertPattern[]>([]);
+  const [weekOverWeek, setWeekOverWeek] = useState<WeekOverWeek | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchReport = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const range = rangeQuery(startDate, endDate);
+      const weekEnd = new Date(Math.min(new Date(endDate).getTime(), Date.now()));
+      const weekStart = new Date(weekEnd.getTime() - WEEK_MS);
+      const previousStart = new Date(weekStart.getTime() - WEEK_MS);
+      const currentWeek = rangeQuery(weekStart.toISOString(), weekEnd.toISOString());
+      const previousWeek = rangeQuery(previousStart.toISOString(), weekStart.toISOString());
+
+      const [
+        trendsResult,
+        fingerprintsResult,
+        patternsResult,
+        current,
+        previous,
+        currentGroups,
+        previousGroups
+      ] = await Promise.all([
+        fetchJson<AlertTrends>(`/alerts/analytics/trends?${range}&groupBy=${groupBy}`),
+        fetchJson<{ fingerprints: NoisyFingerprint[] }>(`/alerts/analytics/fingerprints?${range}&limit=15`),
+        fetchJson<{ patterns: AlertPattern[] }>(`/alerts/patterns?${range}`),
+        fetchJson<AnalyticsData>(`/alerts/analytics?${currentWeek}`),
+        fetchJson<AnalyticsData>(`/alerts/analytics?${previousWeek}`),
+        fetchJson<AlertTrends>(`/alerts/analytics/trends?${currentWeek}&groupBy=${groupBy}&interval=week&limit=50`),
+        fetchJson<AlertTrends>(`/alerts/analytics/trends?${previousWeek}&groupBy=${groupBy}&interval=week&limit=50`)
+      ]);
+
+      setTrends(trendsResult);
+      setFingerprints(fingerprintsResult.fingerprints);
+      setPatterns(patternsResult.patterns);
+      setWeekOverWeek({
+        currentStart: weekStart.toISOString(),
+        end: weekEnd.toISOString(),
+        current,
+        previous,
+        currentGroups,
+        previousGroups
+      });
+    } catch (err) {
+      logger.error('Failed to fetch reliability report:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch reliability report');
+    } finally {
+      setLoading(false);
+    }
+  }, [startDate, endDate, groupBy]);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  return { trends, fingerprints, patterns, weekOverWeek, loading, error, refresh: fetchReport };
+};
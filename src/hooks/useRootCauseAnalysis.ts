@@ -0,0 +1,44 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { RootCauseAnalysis } from '../types';
+import { API_BASE_URL, apiFetch } from '../utils/api';
+import { logger } from '../utils/logger';
+
+/**
+ * Fetches ranked root-cause candidates for the currently firing incidents, optionally limited to namespaces.
+ */
+export const useRootCauseAnalysis = (namespaces?: string[]) => {
+  const [analysis, setAnalysis] = useState<RootCauseAnalysis | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const namespaceKey = namespaces && namespaces.length > 0 ? namespaces.join(',') : '';
+
+  const fetchAnalysis = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const params = new URLSearchParams();
+      if (namespaceKey) params.append('namespaces', namespaceKey);
+
+      const response = await apiFetch(`${API_BASE_URL}/analysis/root-cause?${params.toString()}`);
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      setAnalysis(await response.json());
+    } catch (err) {
+      logger.error('Failed to fetch root cause analysis:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch root cause analysis');
+    } finally {
+      setLoading(false);
+    }
+  }, [namespaceKey]);
+
+  useEffect(() => {
+    fetchAnalysis();
+  }, [fetchAnalysis]);
+
+  return { analysis, loading, error, refresh: fetchAnalysis };
+};
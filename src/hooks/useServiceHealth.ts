@@ -1,7 +1,7 @@
 import { useState, useCallback } from 'react';
 import { message } from 'antd';
 import type { Alert, ServiceGroup } from '../types';
-import { API_BASE_URL } from '../utils/api';
+import { API_BASE_URL, apiFetch } from '../utils/api';
 import { logger } from '../utils/logger';
 import type { GraphFilters } from '../types';
 
@@ -140,7 +140,7 @@ export const useServiceHealth = (): UseServiceHealthReturn => {
       const queryString = alertParams.toString() ? `?${alertParams.toString()}` : '';
       
       // Fetch alerts
-      const response = await fetch(`${API_BASE_URL}/alerts${queryString}`);
+      const response = await apiFetch(`${API_BASE_URL}/alerts${queryString}`);
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`);
       }
@@ -183,7 +183,7 @@ export const useServiceHealth = (): UseServiceHealthReturn => {
     try {
       setAcknowledgingAlerts(prev => new Set(prev).add(alertId));
       
-      const response = await fetch(`${API_BASE_URL}/alerts/${alertId}/acknowledge`, {
+      const response = await apiFetch(`${API_BASE_URL}/alerts/${alertId}/acknowledge`, {
         method: 'PATCH',
         headers: {
           'Content-Type': 'application/json'
@@ -257,7 +257,7 @@ export const useServiceHealth = (): UseServiceHealthReturn => {
     try {
       setResolvingAlerts(prev => new Set(prev).add(alertId));
       
-      const response = await fetch(`${API_BASE_URL}/alerts/${alertId}/resolve`, {
+      const response = await apiFetch(`${API_BASE_URL}/alerts/${alertId}/resolve`, {
         method: 'PATCH',
         headers: {
           'Content-Type': 'application/json'
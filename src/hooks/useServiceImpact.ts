@@ -0,0 +1,44 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { ServiceImpact } from '../types';
+import { API_BASE_URL, apiFetch } from '../utils/api';
+import { logger } from '../utils/logger';
+
+/**
+ * Fetches the blast radius of a service: upstream callers and dependent namespaces within `depth` hops.
+ */
+export const useServiceImpact = (namespace: string, name: string, depth?: number) => {
+  const [impact, setImpact] = useState<ServiceImpact | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchImpact = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const params = new URLSearchParams();
+      if (depth !== undefined) params.append('depth', String(depth));
+
+      const response = await apiFetch(
+        `${API_BASE_URL}/services/${encodeURIComponent(namespace)}/${encodeURIComponent(name)}/impact?${params.toString()}`
+      );
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      setImpact(await response.json());
+    } catch (err) {
+      logger.error('Failed to fetch service impact:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch service impact');
+    } finally {
+      setLoading(false);
+    }
+  }, [namespace, name, depth]);
+
+  useEffect(() => {
+    fetchImpact();
+  }, [fetchImpact]);
+
+  return { impact, loading, error, refresh: fetchImpact };
+};
@@ -1,5 +1,5 @@
 import { useState, useCallback } from 'react';
-import { API_BASE_URL } from '../utils/api';
+import { API_BASE_URL, apiFetch } from '../utils/api';
 import { logger } from '../utils/logger';
 import type { Alert as AlertType, Node, Edge, GraphFilters } from '../types';
 
@@ -31,6 +31,7 @@ export interface ServiceMapData {
 export interface UseServiceMapDataOptions {
   includeDependentNamespaces?: boolean;
   showFullChain?: boolean;
+  at?: string | null; // ISO timestamp to replay the map as of, omitted for live
 }
 
 export interface UseServiceMapDataReturn {
@@ -93,16 +94,16 @@ export const useServiceMapData = (): UseServiceMapDataReturn => {
       
       // Fetch filtered alerts for metrics
       const alertsUrl = `${API_BASE_URL}/alerts${alertQuery}`;
-      const alertsResponse = await fetch(alertsUrl);
+      const alertsResponse = await apiFetch(alertsUrl);
       const activeAlerts = await alertsResponse.json();
 
-      // Fetch ALL alerts for service map pulsing (unfiltered)
-      const allAlertsResponse = await fetch(`${API_BASE_URL}/alerts`);
+      // Fetch ALL alerts for service map pulsing (unfiltered), as of the replay time if set
+      const allAlertsResponse = await apiFetch(`${API_BASE_URL}/alerts${options.at ? `?at=${encodeURIComponent(options.at)}` : ''}`);
       const allAlerts = await allAlertsResponse.json();
 
       // Fetch analytics for 24h data (filtered)
       const analyticsUrl = `${API_BASE_URL}/alerts/analytics?hours=24${alertQuery.replace('?', '&')}`;
-      const analyticsResponse = await fetch(analyticsUrl);
+      const analyticsResponse = await apiFetch(analyticsUrl);
       const analyticsData = await analyticsResponse.json();
 
       // Build graph query parameters
@@ -125,11 +126,14 @@ export const useServiceMapData = (): UseServiceMapDataReturn => {
       if (filters.search && filters.search.trim() !== '') {
         graphParams.append('search', filters.search.trim());
       }
+      if (options.at) {
+        graphParams.append('at', options.at);
+      }
       const graphQueryString = graphParams.toString();
       const graphUrl = `${API_BASE_URL}/graph${graphQueryString ? `?${graphQueryString}` : ''}`;
       
       // Fetch graph data
-      const graphResponse = await fetch(graphUrl);
+      const graphResponse = await apiFetch(graphUrl);
       const graphData = await graphResponse.json();
       const nodes = graphData.nodes || [];
       const edges = graphData.edges || [];
@@ -0,0 +1,126 @@
+import { useState, useEffect, useCallback } from 'react';
+import { message } from 'antd';
+import type { AlertSilence } from '../types';
+import { API_BASE_URL, apiFetch, readError } from '../utils/api';
+import { logger } from '../utils/logger';
+
+export type SilenceState = 'current' | 'active' | 'pending' | 'expired' | 'all';
+
+export type SilenceForm = {
+  match_namespace?: string | null;
+  match_service?: string | null;
+  match_severity?: string | null;
+  match_tags?: string[];
+  message_pattern?: string | null;
+  starts_at: string;
+  ends_at: string;
+  comment?: string | null;
+};
+
+/**
+ * Alert silences and maintenance windows with create/update/expire/delete
+ */
+export const useSilences = (state: SilenceState = 'current') => {
+  const [silences, setSilences] = useState<AlertSilence[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSilences = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await apiFetch(`${API_BASE_URL}/silences?state=${state}`);
+      if (!response.ok) {
+        throw new Error(await readError(response));
+      }
+
+      const result = await response.json();
+      setSilences(result.silences);
+    } catch (err) {
+      logger.error('Failed to fetch silences:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch silences');
+    } finally {
+      setLoading(false);
+    }
+  }, [state]);
+
+  // Create (POST) or update (PUT) a silence; resolves true on success
+  const saveSilence = useCallback(async (form: SilenceForm, id?: number) => {
+    try {
+      setSaving(true);
+
+      const response = await apiFetch(
+        id === undefined ? `${API_BASE_URL}/silences` : `${API_BASE_URL}/silences/${id}`,
+        {
+          method: id === undefined ? 'POST' : 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(form)
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error(await readError(response));
+      }
+
+      const result = await response.json();
+      const muted = result.silence.firing_incidents;
+      message.success(`${id === undefined ? 'Silence created' : 'Silence updated'} - ${muted} firing incident${muted === 1 ? '' : 's'} matched`);
+      (result.warnings as string[] | undefined)?.forEach(warning => message.warning(warning, 6));
+      await fetchSilences();
+      return true;
+    } catch (err) {
+      logger.error('Failed to save silence:', err);
+      message.error(err instanceof Error ? err.message : 'Failed to save silence');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  }, [fetchSilences]);
+
+  const expireSilence = useCallback(async (id: number) => {
+    try {
+      const response = await apiFetch(`${API_BASE_URL}/silences/${id}/expire`, { method: 'POST' });
+      if (!response.ok) {
+        throw new Error(await readError(response));
+      }
+
+      message.success('Silence expired');
+      await fetchSilences();
+    } catch (err) {
+      logger.error('Failed to expire silence:', err);
+      message.error(err instanceof Error ? err.message : 'Failed to expire silence');
+    }
+  }, [fetchSilences]);
+
+  const deleteSilence = useCallback(async (id: number) => {
+    try {
+      const response = await apiFetch(`${API_BASE_URL}/silences/${id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error(await readError(response));
+      }
+
+      message.success('Silence deleted');
+      await fetchSilences();
+    } catch (err) {
+      logger.error('Failed to delete silence:', err);
+      message.error(err instanceof Error ? err.message : 'Failed to delete silence');
+    }
+  }, [fetchSilences]);
+
+  useEffect(() => {
+    fetchSilences();
+  }, [fetchSilences]);
+
+  return {
+    silences,
+    loading,
+    saving,
+    error,
+    saveSilence,
+    expireSilence,
+    deleteSilence,
+    refresh: fetchSilences
+  };
+};
@@ -0,0 +1,43 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { TopologyLint } from '../types';
+import { API_BASE_URL, apiFetch } from '../utils/api';
+import { logger } from '../utils/logger';
+
+/**
+ * Fetches topology anti-patterns: cycles, high fan-in/fan-out and undeclared namespace dependencies.
+ */
+export const useTopologyLint = (fanInThreshold?: number, fanOutThreshold?: number) => {
+  const [lint, setLint] = useState<TopologyLint | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchLint = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const params = new URLSearchParams();
+      if (fanInThreshold !== undefined) params.append('fanInThreshold', String(fanInThreshold));
+      if (fanOutThreshold !== undefined) params.append('fanOutThreshold', String(fanOutThreshold));
+
+      const response = await apiFetch(`${API_BASE_URL}/analysis/topology-lint?${params.toString()}`);
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      setLint(await response.json());
+    } catch (err) {
+      logger.error('Failed to fetch topology lint:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch topology lint');
+    } finally {
+      setLoading(false);
+    }
+  }, [fanInThreshold, fanOutThreshold]);
+
+  useEffect(() => {
+    fetchLint();
+  }, [fetchLint]);
+
+  return { lint, loading, error, refresh: fetchLint };
+};
@@ -1,8 +1,9 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import { ConfigProvider, theme } from 'antd';
-import App from './App';
 import { ThemeProvider, useTheme } from './contexts/ThemeContext';
+import { AuthProvider } from './contexts/AuthContext';
+import { AuthGate } from './components/Auth/AuthGate';
 
 // Theme configurations for Ant Design
 const getAntTheme = (currentTheme: 'light' | 'dark') => {
@@ -95,7 +96,9 @@ const ThemedApp: React.FC = () => {
   
   return (
     <ConfigProvider theme={getAntTheme(currentTheme)}>
-      <App />
+      <AuthProvider>
+        <AuthGate />
+      </AuthProvider>
     </ConfigProvider>
   );
 };
@@ -11,10 +11,20 @@ export type Alert = {
   last_seen: string;
   created_at: string;
   resolved_at: string | null;
+  resolved_by?: string | null;
   alert_source: string;
   external_alert_id: string;
   acknowledged_at: string | null;
   acknowledged_by: string | null;
+  upstream_fingerprint?: string | null;
+  labels?: Record<string, string>;
+  annotations?: Record<string, string>;
+  generator_url?: string | null;
+  runbook_url?: string | null;
+  silence_id?: number | null;
+  escalation_level?: number;
+  escalated_at?: string | null;
+  team?: string | null;
 };
 
 export type Node = {
@@ -31,11 +41,23 @@ export type Node = {
   tagSources?: Record<string, string>;
   alertCount?: number;  // Added for backend-computed alert counts
   highestSeverity?: string;  // Added for backend-computed severity
+  inMaintenance?: boolean;  // Covered by an active whole-service silence
+  maintenanceUntil?: string | null;
   external_calls?: Array<{host: string; method?: string; path?: string; count: number}>;
   database_calls?: Array<{system: string; name?: string; host?: string; operation?: string; count: number}>;
   rpc_calls?: Array<{service: string; method?: string; count: number}>;
 };
 
+export type EdgeMetrics = {
+  callCount: number;
+  errorCount: number;
+  errorRate: number;
+  latencyP50Ms: number | null;
+  latencyP95Ms: number | null;
+  latencyP99Ms: number | null;
+  windowMinutes: number;
+};
+
 export type Edge = {
   id?: string;
   from: string;
@@ -44,6 +66,52 @@ export type Edge = {
   width?: number;
   edgeType?: string;
   dashes?: boolean;
+  metrics?: EdgeMetrics;  // Per-edge call metrics over the graph's metrics window
+};
+
+// Topology diff between a graph snapshot and a later snapshot (or the live graph)
+export type GraphDiffNode = {
+  id: string;
+  nodeType: 'service' | 'namespace';
+  namespace: string;
+  name?: string;
+  team?: string | null;
+  environment?: string | null;
+  component_type?: string | null;
+};
+
+export type GraphDiffEdge = {
+  id: string;
+  from: string;
+  to: string;
+  edgeType: 'service' | 'namespace';
+  dependency_type?: string | null;
+};
+
+export type GraphDiff = {
+  from: { requested: string; snapshotId: number; takenAt: string };
+  to: { requested: string | null; snapshotId: number | null; takenAt: string; live: boolean };
+  nodes: { added: GraphDiffNode[]; removed: GraphDiffNode[] };
+  edges: { added: GraphDiffEdge[]; removed: GraphDiffEdge[] };
+  summary: { nodesAdded: number; nodesRemoved: number; edgesAdded: number; edgesRemoved: number };
+};
+
+// Directed, depth-limited walk from a root service (GET /graph/traverse)
+export type TraversalDirection = 'upstream' | 'downstream' | 'both';
+
+export type GraphTraversalNode = Node & {
+  namespace: string;
+  distance: number;  // Hops from the root
+  directions: Array<'root' | 'upstream' | 'downstream'>;
+};
+
+export type GraphTraversal = {
+  root: string;
+  direction: TraversalDirection;
+  depth: number;
+  maxDistance: number;
+  nodes: GraphTraversalNode[];
+  edges: Edge[];
 };
 
 export type GraphFilters = {
@@ -154,3 +222,502 @@ export type ServiceGroup = {
     };
     total: number;
   }
+
+  // Dependency change log entry
+  export interface DependencyChange {
+    id: number;
+    from_service: string;
+    to_service: string;
+    from_service_namespace: string;
+    from_service_name: string;
+    to_service_namespace: string;
+    to_service_name: string;
+    change_type: 'added' | 'disappeared' | 'returned';
+    source: 'telemetry' | 'otlp' | 'cleanup';
+    reason: string | null;
+    changed_at: string;
+    direction?: 'incoming' | 'outgoing';
+  }
+
+  // Blast radius of a failing service (GET /services/:namespace/:name/impact)
+  export interface ImpactedService {
+    service: string;
+    namespace: string;
+    name: string;
+    team: string | null;
+    environment: string | null;
+    component_type: string | null;
+    tags: string[];
+    distance: number;
+    via: 'service' | 'namespace';
+    criticality: number;
+    criticalTags: string[];
+    firingIncidents: number;
+    highestSeverity: string | null;
+  }
+
+  export interface ImpactedTeam {
+    team: string;
+    services: number;
+    criticalServices: number;
+    closestDistance: number;
+  }
+
+  export interface ImpactIncident {
+    id: number;
+    service: string;
+    instance_id: string;
+    severity: string;
+    message: string;
+    incident_start: string;
+    acknowledged_at: string | null;
+    acknowledged_by: string | null;
+    isRoot: boolean;
+  }
+
+  export interface ServiceImpact {
+    service: string;
+    depth: number;
+    summary: {
+      affectedServices: number;
+      directCallers: number;
+      namespaceOnly: number;
+      criticalServices: number;
+      teams: number;
+      dependentNamespaces: number;
+      servicesWithFiringIncidents: number;
+      firingIncidents: number;
+      maxDistance: number;
+    };
+    affected: ImpactedService[];
+    teams: ImpactedTeam[];
+    incidents: ImpactIncident[];
+  }
+
+  // Ranked root-cause candidates for the currently firing incidents (GET /analysis/root-cause)
+  export interface RootCauseCandidate {
+    service: string;
+    namespace: string;
+    name: string;
+    team: string | null;
+    firing: boolean;
+    score: number;
+    confidence: 'high' | 'medium' | 'low';
+    incidentCount: number;
+    highestSeverity: string | null;
+    earliestIncidentStart: string | null;
+    explains: string[];           // Firing services that depend on this one downstream
+    firingDownstream: string[];   // Firing services this one calls
+    reasons: string[];
+  }
+
+  export interface RootCauseAnalysis {
+    generatedAt: string;
+    firingServices: number;
+    firingIncidents: number;
+    candidates: RootCauseCandidate[];
+  }
+
+  // Topology anti-patterns (GET /analysis/topology-lint)
+  export interface TopologyLintEdge {
+    from: string;
+    to: string;
+  }
+
+  export interface TopologyCycle {
+    services: string[];
+    namespaces: string[];
+    size: number;
+    crossNamespace: boolean;
+    edges: TopologyLintEdge[];
+  }
+
+  export interface NamespaceCycle {
+    namespaces: string[];
+    size: number;
+    edges: Array<TopologyLintEdge & { calls: number }>;
+  }
+
+  export interface FanOutlier {
+    service: string;
+    namespace: string;
+    team: string | null;
+    count: number;        // Distinct callers (fan-in) or callees (fan-out)
+    namespaces: number;   // Distinct namespaces among them
+  }
+
+  export interface NamespaceViolation {
+    from: string;
+    to: string;
+    fromNamespace: string;
+    toNamespace: string;
+  }
+
+  export interface TopologyLint {
+    generatedAt: string;
+    thresholds: { fanIn: number; fanOut: number };
+    summary: {
+      services: number;
+      dependencies: number;
+      cycles: number;
+      servicesInCycles: number;
+      crossNamespaceCycles: number;
+      highFanIn: number;
+      highFanOut: number;
+      namespaceViolations: number;
+      uncheckedNamespaces: number;
+    };
+    cycles: TopologyCycle[];
+    crossNamespaceCycles: NamespaceCycle[];
+    highFanIn: FanOutlier[];
+    highFanOut: FanOutlier[];
+    namespaceViolations: NamespaceViolation[];
+  }
+
+  // Declared namespace dependency (namespace_dependencies)
+  export interface NamespaceDependency {
+    id: number;
+    from_namespace: string;
+    to_namespace: string;
+    created_by: string | null;
+    updated_by: string | null;
+    dependency_type: string | null;
+    description: string | null;
+    created_at: string;
+    updated_at: string;
+  }
+
+  // Drift between declared namespace dependencies and observed traffic (GET /namespace-dependencies/drift)
+  export interface UndeclaredNamespaceTraffic {
+    from_namespace: string;
+    to_namespace: string;
+    service_calls: number;
+    first_seen: string;
+    last_seen: string;
+    examples: string[];
+  }
+
+  export interface StaleNamespaceDependency extends NamespaceDependency {
+    last_observed: string | null;
+    service_calls: number;
+  }
+
+  export interface NamespaceDependencyDrift {
+    staleDays: number;
+    summary: {
+      declared: number;
+      observed: number;
+      matched: number;
+      undeclared: number;
+      stale: number;
+    };
+    undeclared: UndeclaredNamespaceTraffic[];
+    stale: StaleNamespaceDependency[];
+  }
+
+  export interface NamespaceSummary {
+    namespace: string;
+    depends_on: number;
+    depended_on_by: number;
+  }
+
+  export interface NamespaceDependencyImportResult {
+    status: string;
+    mode: 'merge' | 'replace';
+    dryRun: boolean;
+    total: number;
+    created: number;
+    updated: number;
+    deleted: number;
+    warnings: string[];
+  }
+
+  export interface AlertSilence {
+    id: number;
+    match_namespace: string | null;
+    match_service: string | null;
+    match_severity: 'fatal' | 'critical' | 'warning' | 'none' | null;
+    match_tags: string[];
+    message_pattern: string | null;
+    starts_at: string;
+    ends_at: string;
+    comment: string | null;
+    created_by: string;
+    created_at: string;
+    updated_at: string;
+    state: 'active' | 'pending' | 'expired';
+    firing_incidents: number;
+  }
+
+  // Ordered from least to most privileged
+  export type Role = 'viewer' | 'responder' | 'team-owner' | 'admin';
+
+  // Signed-in user (GET /auth/me)
+  export interface AuthUser {
+    id: number | null;
+    username: string;
+    displayName: string | null;
+    email: string | null;
+    provider: string;
+    role: Role;
+    teams: string[];
+  }
+
+  // POST /auth/login
+  export interface LoginResponse {
+    token: string;
+    expiresAt: string;
+    user: AuthUser;
+  }
+
+  // GET /admin/audit
+  export interface AuditLogEntry {
+    id: number;
+    occurred_at: string;
+    actor: string;
+    action: string;
+    entity_type: string;
+    entity_id: string | null;
+    before_state: unknown;
+    after_state: unknown;
+    request_id: string | null;
+  }
+
+  export interface AuditLogFilters {
+    actor?: string;
+    action?: string;
+    entityType?: string;
+    entityId?: string;
+    from?: string;
+    to?: string;
+  }
+
+  // GET /metrics/cleanup
+  export interface CleanupStatus {
+    metrics: {
+      lastRunTime: string | null;
+      lastRunDuration: number;
+      servicesDeleted: number;
+      dependenciesDeleted: number;
+      totalRuns: number;
+      totalServicesDeleted: number;
+      totalDependenciesDeleted: number;
+      lastError: string | null;
+      isRunning: boolean;
+      nextRunTime: string | null;
+    };
+    stats: {
+      totalServices: number;
+      staleServices: number;
+      totalDependencies: number;
+      staleDependencies: number;
+      orphanedDependencies: number;
+      oldestService: { service: string; last_seen: string; days_stale: number } | null;
+    };
+    config: {
+      ttlHours: number;
+      dependencyTtlHours: number;
+      dependencyMetricsRetentionHours: number;
+      intervalHours: number;
+      enabled: boolean;
+      maxServicesPerRun: number;
+      dryRun: boolean;
+    };
+  }
+
+  // GET /admin/cleanup/preview
+  export interface CleanupPreview {
+    count: number;
+    services: Array<{
+      service_namespace: string;
+      service_name: string;
+      last_seen: string;
+      days_stale: number;
+    }>;
+    dependencyCount: number;
+    dependencies: Array<{
+      from_service_namespace: string;
+      from_service_name: string;
+      to_service_namespace: string;
+      to_service_name: string;
+      last_seen: string;
+      hours_stale: number;
+    }>;
+  }
+
+  // GET /admin/incidents/health
+  export interface IncidentStorageHealth {
+    system_health: {
+      total_incidents: number;
+      active_incidents: number;
+      total_events: number;
+      unique_alert_types: number;
+      affected_services: number;
+      oldest_incident: string | null;
+      newest_incident: string | null;
+    };
+    storage: {
+      incidents_table_size: string;
+      events_table_size: string;
+      total_size: string;
+    };
+    activity: {
+      incidents_last_hour: number;
+      incidents_last_day: number;
+      incidents_last_week: number;
+    };
+    timestamp: string;
+  }
+
+  // GET /performance/queries
+  export interface QueryPerformance {
+    summary: {
+      totalQueries: number;
+      avgDuration: number;
+      slowQueries: number;
+      errors: number;
+    };
+    recent_queries: Array<{
+      query: string;
+      duration: number;
+      timestamp: string;
+      error: string | null;
+      status: 'success' | 'failed';
+    }>;
+    slowest_queries: Array<{
+      query: string;
+      duration: number;
+      timestamp: string;
+      error: string | null;
+      performance_impact: 'high' | 'medium' | 'low';
+    }>;
+  }
+
+  // GET /performance/pool
+  export interface PoolStatus {
+    total_connections: number;
+    idle_connections: number;
+    waiting_clients: number;
+    pool_config: {
+      max: number;
+      min: number;
+      idle_timeout: number;
+      connection_timeout: number;
+    };
+    pool_health: {
+      utilization_percent: number;
+      available_connections: number;
+      status: 'healthy' | 'high_usage' | 'under_pressure';
+    };
+  }
+
+  // GET /performance/recommendations
+  export interface PerformanceRecommendation {
+    type: string;
+    severity: 'critical' | 'warning' | 'info';
+    title: string;
+    description: string;
+    action: string;
+  }
+
+  export type IngestionRejectionReason =
+    | 'missing_key'
+    | 'invalid_key'
+    | 'wrong_type'
+    | 'invalid_signature'
+    | 'namespace_not_allowed';
+
+  // GET /admin/alertmanager/status
+  export interface AlertmanagerStatus {
+    webhook: {
+      enabled: boolean;
+      endpoint: string;
+      keyRequired: boolean;
+    };
+    services: {
+      totalServices: number;
+      alertCreatedServices: number;
+      otelCreatedServices: number;
+    };
+    integration: {
+      status: string;
+      lastProcessed: string | null;
+    };
+    keys: Array<{
+      id: number;
+      name: string;
+      namespaces: string[];
+      verification: 'bearer' | 'hmac';
+      key_prefix: string;
+      last_used_at: string | null;
+      created_at: string;
+    }>;
+    rejections: {
+      total: number;
+      byReason: Record<IngestionRejectionReason, number>;
+      lastRejectedAt: string | null;
+      lastReason: IngestionRejectionReason | null;
+    };
+  }
+
+  // GET /alerts/analytics/trends - one point per day or week with incidents
+  export interface AlertTrendPoint {
+    bucket: string;
+    incidents: number;
+    acknowledged: number;
+    resolved: number;
+    mtta_minutes: number | null;
+    mttr_minutes: number | null;
+  }
+
+  export interface AlertTrendGroup {
+    group: string;
+    incidents: number;
+    acknowledged: number;
+    resolved: number;
+    mtta_minutes: number | null;
+    mttr_minutes: number | null;
+    points: AlertTrendPoint[];
+  }
+
+  export type AlertTrendGroupBy = 'namespace' | 'team';
+
+  export interface AlertTrends {
+    start_date: string;
+    end_date: string;
+    group_by: AlertTrendGroupBy;
+    interval: 'day' | 'week';
+    buckets: string[];
+    groups: AlertTrendGroup[];
+    other_groups: number;
+  }
+
+  // GET /alerts/analytics/fingerprints
+  export interface NoisyFingerprint {
+    alert_fingerprint: string;
+    service: string;
+    service_namespace: string;
+    service_name: string;
+    severity: string;
+    message: string;
+    incidents: number;
+    acknowledged: number;
+    firing: number;
+    acknowledgment_rate: number;
+    share_percent: number;
+    avg_duration_minutes: number | null;
+    last_incident: string;
+  }
+
+  // GET /alerts/patterns
+  export interface AlertPattern {
+    service: string;
+    severity: string;
+    message: string;
+    incident_count: number;
+    pattern_type: 'flapping' | 'frequent' | 'recurring';
+    avg_hours_between: number;
+    min_hours_between: number;
+    max_hours_between: number;
+    recommendation: string;
+  }
@@ -1 +1,54 @@
-export const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'https://otelia.onrender.com';
\ No newline at end of file
+export const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'https://otelia.onrender.com';
+
+/**
+ * Error text from a failed API response, including validation details when present
+ */
+export const readError = async (response: Response): Promise<string> => {
+  try {
+    const body = await response.json();
+    if (Array.isArray(body.details)) {
+      const details = body.details.map((detail: string | { index: number; errors: string[] }) =>
+        typeof detail === 'string' ? detail : `#${detail.index + 1}: ${detail.errors.join(', ')}`
+      );
+      return `${body.error}: ${details.join('; ')}`;
+    }
+    return body.error || `HTTP error! status: ${response.status}`;
+  } catch {
+    return `HTTP error! status: ${response.status}`;
+  }
+};
+
+const AUTH_TOKEN_KEY = 'olana-auth-token';
+
+// Dispatched on window when the API asks for a login, so the app can return to the login page
+export const AUTH_EXPIRED_EVENT = 'olana:auth-expired';
+
+export const getAuthToken = (): string | null => localStorage.getItem(AUTH_TOKEN_KEY);
+
+export const setAuthToken = (token: string | null): void => {
+  if (token) {
+    localStorage.setItem(AUTH_TOKEN_KEY, token);
+  } else {
+    localStorage.removeItem(AUTH_TOKEN_KEY);
+  }
+};
+
+/**
+ * fetch with the signed-in user's bearer token. A 401 clears the token and raises AUTH_EXPIRED_EVENT.
+ */
+export const apiFetch = async (url: string, init: RequestInit = {}): Promise<Response> => {
+  const token = getAuthToken();
+  const headers = new Headers(init.headers);
+  if (token) {
+    headers.set('Authorization', `Bearer ${token}`);
+  }
+
+  const response = await fetch(url, { ...init, headers });
+
+  if (response.status === 401) {
+    setAuthToken(null);
+    window.dispatchEvent(new Event(AUTH_EXPIRED_EVENT));
+  }
+
+  return response;
+};